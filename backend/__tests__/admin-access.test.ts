@@ -0,0 +1,49 @@
+import request from 'supertest';
+import app from '../src/app';
+import { closePool } from '../src/config/database';
+import { loginAsAdmin, loginAsResearcher, migrate } from './helpers';
+
+describe('admin routes', () => {
+  let researcherToken: string;
+  let adminToken: string;
+
+  beforeAll(async () => {
+    await migrate();
+    researcherToken = (await loginAsResearcher('carol')).token;
+    adminToken = await loginAsAdmin();
+  });
+
+  afterAll(async () => {
+    await closePool();
+  });
+
+  it.each([
+    ['GET', '/api/litellm/config'],
+    ['POST', '/api/litellm/config'],
+    ['POST', '/api/litellm/test-connection'],
+    ['GET', '/api/admin/users'],
+    ['GET', '/api/admin/models']
+  ])('%s %s refuses a researcher token with 403', async (method, path) => {
+    const response = await request(app)[method.toLowerCase() as 'get' | 'post'](path)
+      .set('Authorization', `Bearer ${researcherToken}`)
+      .send({ baseUrl: 'https://attacker.example.com', apiKey: 'stolen' });
+
+    expect(response.status).toBe(403);
+  });
+
+  it("doesn't change the LiteLLM config for a researcher", async () => {
+    await request(app)
+      .post('/api/litellm/config')
+      .set('Authorization', `Bearer ${researcherToken}`)
+      .send({ baseUrl: 'https://attacker.example.com' })
+      .expect(403);
+
+    const response = await request(app).get('/api/litellm/config').set('Authorization', `Bearer ${adminToken}`).expect(200);
+    expect(JSON.stringify(response.body)).not.toContain('attacker.example.com');
+  });
+
+  it('gives an admin token only for the admin key', async () => {
+    await request(app).post('/api/admin/login').send({ adminKey: 'wrong' }).expect(401);
+    await request(app).get('/api/admin/users').set('Authorization', `Bearer ${adminToken}`).expect(200);
+  });
+});
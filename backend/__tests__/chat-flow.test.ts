@@ -0,0 +1,186 @@
+import request from 'supertest';
+import app from '../src/app';
+import db, { closePool } from '../src/config/database';
+import { loginAsResearcher, migrate } from './helpers';
+
+interface StudyParticipant {
+  auth: string;  // the researcher's Authorization header
+  taskId: string;
+  participantId: string;
+  sessionToken: string;
+}
+
+/**
+ * A research group with one task on `settings`, and a participant who joined its study,
+ * consented and holds a study session, the way the study page gets there
+ */
+const joinStudy = async (username: string, settings: Record<string, unknown>): Promise<StudyParticipant> => {
+  const researcher = await loginAsResearcher(username);
+  const auth = `Bearer ${researcher.token}`;
+
+  const task = await request(app)
+    .post('/api/tasks')
+    .set('Authorization', auth)
+    .send({ name: `${username} task`, settings })
+    .expect(201);
+  await request(app)
+    .post('/api/studies/consent')
+    .set('Authorization', auth)
+    .send({ title: 'Consent', body: 'You agree to take part.' })
+    .expect(201);
+
+  const deviceId = `${username}-device`;
+  const joined = await request(app)
+    .post(`/api/studies/${researcher.id}/participants`)
+    .send({ deviceId })
+    .expect(200);
+  expect(joined.body.sessionToken).toBeNull();
+  const participantId = joined.body.participant.id;
+
+  await request(app)
+    .post(`/api/studies/${researcher.id}/participants/${participantId}/consent`)
+    .send({ documentId: joined.body.consent.id, deviceId })
+    .expect(200);
+  const rejoined = await request(app)
+    .post(`/api/studies/${researcher.id}/participants`)
+    .send({ deviceId })
+    .expect(200);
+  expect(rejoined.body.assignment.taskId).toBe(task.body.data.id);
+
+  return { auth, taskId: task.body.data.id, participantId, sessionToken: rejoined.body.sessionToken };
+};
+
+const storedMessages = (conversationId: string) =>
+  db.query<{ sender: string; text: string; author: string | null; model_id: string | null }[]>(
+    'SELECT sender, text, author, model_id FROM messages WHERE conversation_id = ? ORDER BY timestamp ASC',
+    [conversationId]
+  );
+
+const usageRows = (conversationId: string) =>
+  db.query<{ task_id: string; purpose: string; model_id: string; prompt_tokens: number | null }[]>(
+    'SELECT task_id, purpose, model_id, prompt_tokens FROM llm_usage WHERE conversation_id = ?',
+    [conversationId]
+  );
+
+// The data events of an SSE response
+const streamEvents = (body: string) =>
+  body.split('\n\n').filter(Boolean).map(event => JSON.parse(event.replace(/^data: /, '')));
+
+describe('participant chat flow', () => {
+  beforeAll(async () => {
+    await migrate();
+  });
+
+  afterAll(async () => {
+    await closePool();
+  });
+
+  it('store the message, the model reply and its usage', async () => {
+    const { taskId, participantId, sessionToken } = await joinStudy('kim', { defaultModel: 'mock/echo' });
+
+    const response = await request(app)
+      .post('/api/chat/message')
+      .set('X-Study-Session', sessionToken)
+      .send({ message: 'Hello there', conversationId: 'chat-message', taskId, participantId })
+      .expect(200);
+
+    expect(response.body.response.text).toBe('Echo: Hello there');
+    expect(response.body.conversationEnded).toBeUndefined();
+    // The task's greeting opens the conversation
+    expect(await storedMessages('chat-message')).toEqual([
+      expect.objectContaining({ sender: 'ai', text: 'Hello! You are chatting with kim task. How can I help you today?', author: null }),
+      expect.objectContaining({ sender: 'user', text: 'Hello there', author: null }),
+      expect.objectContaining({ sender: 'ai', text: 'Echo: Hello there', author: 'model', model_id: 'mock/echo' })
+    ]);
+    const [usage] = await usageRows('chat-message');
+    expect(usage).toMatchObject({ task_id: taskId, purpose: 'reply', model_id: 'mock/echo' });
+    expect(usage.prompt_tokens).toBeGreaterThan(0);
+  });
+
+  it('stream the reply and store it', async () => {
+    const { taskId, participantId, sessionToken } = await joinStudy('lee', { defaultModel: 'mock/echo?chunkDelay=0' });
+
+    const response = await request(app)
+      .post('/api/chat/stream')
+      .set('X-Study-Session', sessionToken)
+      .send({ message: 'Streaming works', conversationId: 'chat-stream', taskId, participantId })
+      .expect(200)
+      .expect('Content-Type', /text\/event-stream/);
+
+    const events = streamEvents(response.text);
+    const done = events[events.length - 1];
+    expect(events.filter(event => !event.done).map(event => event.chunk).join('')).toBe('Echo: Streaming works');
+    expect(done).toMatchObject({ done: true, response: { text: 'Echo: Streaming works', sender: 'ai' } });
+    expect((await storedMessages('chat-stream')).slice(1).map(m => m.text)).toEqual(['Streaming works', 'Echo: Streaming works']);
+    expect(await usageRows('chat-stream')).toHaveLength(1);
+  });
+
+  it('answer with the apology when the model fails, and bill nothing', async () => {
+    const { taskId, participantId, sessionToken } = await joinStudy('max', { defaultModel: 'mock/echo?failRate=1' });
+
+    const response = await request(app)
+      .post('/api/chat/message')
+      .set('X-Study-Session', sessionToken)
+      .send({ message: 'Are you there?', conversationId: 'chat-failure', taskId, participantId })
+      .expect(200);
+
+    expect(response.body.response.text).toMatch(/having trouble connecting.*injected failure/);
+    const [, , reply] = await storedMessages('chat-failure');
+    expect(reply).toMatchObject({ sender: 'ai', text: response.body.response.text });
+    expect(await usageRows('chat-failure')).toEqual([]);
+  });
+
+  it('end the conversation on the end token, without showing it', async () => {
+    const { taskId, participantId, sessionToken } = await joinStudy('nia', { defaultModel: 'mock/echo', endToken: '[[DONE]]' });
+
+    const response = await request(app)
+      .post('/api/chat/message')
+      .set('X-Study-Session', sessionToken)
+      .send({ message: 'Goodbye [[DONE]]', conversationId: 'chat-end-token', taskId, participantId })
+      .expect(200);
+
+    expect(response.body.conversationEnded).toBe('end_token');
+    expect(response.body.response.text).not.toContain('[[DONE]]');
+    expect(await db.queryOne('SELECT end_reason FROM conversations WHERE id = ?', ['chat-end-token']))
+      .toEqual({ end_reason: 'end_token' });
+  });
+
+  it('end the conversation at the turn limit and refuse further messages', async () => {
+    const { taskId, participantId, sessionToken } = await joinStudy('omar', { defaultModel: 'mock/echo', maxUserTurns: 1 });
+    const send = (message: string) => request(app)
+      .post('/api/chat/message')
+      .set('X-Study-Session', sessionToken)
+      .send({ message, conversationId: 'chat-max-turns', taskId, participantId });
+
+    const first = await send('Only message').expect(200);
+    expect(first.body.conversationEnded).toBe('max_turns');
+
+    await send('One more').expect(409);
+    expect(await storedMessages('chat-max-turns')).toHaveLength(3);
+  });
+
+  it('refuse a Wizard-of-Oz reply that is only the end token', async () => {
+    const { auth, taskId, participantId, sessionToken } = await joinStudy('pia', { responseMode: 'wizard', endToken: '[[DONE]]' });
+
+    const sent = await request(app)
+      .post('/api/chat/message')
+      .set('X-Study-Session', sessionToken)
+      .send({ message: 'Hello?', conversationId: 'chat-wizard', taskId, participantId })
+      .expect(200);
+    expect(sent.body.pending).toBe(true);
+
+    const reply = (text: string) => request(app)
+      .post('/api/wizard/conversations/chat-wizard/reply')
+      .set('Authorization', auth)
+      .send({ text });
+
+    await reply(' [[DONE]] ').expect(400);
+    expect(await storedMessages('chat-wizard')).toHaveLength(2);
+
+    await reply('Thanks, goodbye [[DONE]]').expect(200);
+    const [, , answer] = await storedMessages('chat-wizard');
+    expect(answer).toMatchObject({ sender: 'ai', text: 'Thanks, goodbye', author: 'researcher' });
+    expect(await db.queryOne('SELECT end_reason FROM conversations WHERE id = ?', ['chat-wizard']))
+      .toEqual({ end_reason: 'end_token' });
+  });
+});
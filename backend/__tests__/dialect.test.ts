@@ -0,0 +1,39 @@
+import db, { closePool, dialect } from '../src/config/database';
+import { migrate } from './helpers';
+
+describe('dialect.isDuplicateKey', () => {
+  beforeAll(async () => {
+    await migrate();
+  });
+
+  afterAll(async () => {
+    await closePool();
+  });
+
+  const failure = async (sql: string, params: unknown[]): Promise<unknown> => {
+    try {
+      await db.query(sql, params);
+    } catch (error) {
+      return error;
+    }
+    throw new Error('Expected the statement to fail');
+  };
+
+  it('recognises a unique key clash', async () => {
+    await db.query('INSERT INTO users (id, username, email) VALUES (?, ?, ?)', ['u1', 'dave', 'dave@example.com']);
+    const error = await failure('INSERT INTO users (id, username, email) VALUES (?, ?, ?)', ['u2', 'dave', 'other@example.com']);
+    expect(dialect.isDuplicateKey(error)).toBe(true);
+  });
+
+  it('recognises a primary key clash', async () => {
+    const error = await failure('INSERT INTO users (id, username, email) VALUES (?, ?, ?)', ['u1', 'erin', 'erin@example.com']);
+    expect(dialect.isDuplicateKey(error)).toBe(true);
+  });
+
+  it('ignores other failures', async () => {
+    const error = await failure('INSERT INTO users (id, username, email) VALUES (?, ?, ?)', ['u3', null, 'frank@example.com']);
+    expect(dialect.isDuplicateKey(error)).toBe(false);
+    expect(dialect.isDuplicateKey(new Error('boom'))).toBe(false);
+    expect(dialect.isDuplicateKey(null)).toBe(false);
+  });
+});
@@ -0,0 +1,32 @@
+import request from 'supertest';
+import { v4 as uuidv4 } from 'uuid';
+import app from '../src/app';
+import db from '../src/config/database';
+import { migrationService } from '../src/services/migration.service';
+
+export const migrate = async (): Promise<void> => {
+  await migrationService.up();
+};
+
+/**
+ * Add a research group and log in as its researcher, the way the frontend does
+ */
+export const loginAsResearcher = async (username: string): Promise<{ id: string; token: string }> => {
+  const id = uuidv4();
+  const researchKey = `${username}-key`;
+  await db.query(
+    'INSERT INTO users (id, username, email, research_key) VALUES (?, ?, ?, ?)',
+    [id, username, `${username}@example.com`, researchKey]
+  );
+
+  const response = await request(app).post('/api/auth/login').send({ researchKey }).expect(200);
+  return { id, token: response.body.token };
+};
+
+export const loginAsAdmin = async (): Promise<string> => {
+  const response = await request(app)
+    .post('/api/admin/login')
+    .send({ adminKey: process.env.ADMIN_KEY })
+    .expect(200);
+  return response.body.token;
+};
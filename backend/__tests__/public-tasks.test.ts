@@ -0,0 +1,55 @@
+import request from 'supertest';
+import app from '../src/app';
+import { closePool } from '../src/config/database';
+import { loginAsResearcher, migrate } from './helpers';
+
+describe('public task list for the study page', () => {
+  let userId: string;
+  let auth: string;
+
+  beforeAll(async () => {
+    await migrate();
+    const researcher = await loginAsResearcher('judy');
+    userId = researcher.id;
+    auth = `Bearer ${researcher.token}`;
+
+    await request(app)
+      .post('/api/tasks')
+      .set('Authorization', auth)
+      .send({
+        name: 'Scripted task',
+        settings: {
+          defaultModel: 'mock/echo',
+          chatbotName: 'Sam',
+          maxUserTurns: 5,
+          endToken: '[[DONE]]',
+          responseMode: 'script',
+          responseScript: { turns: ['Scripted hello'], rules: [], fallback: 'Scripted fallback' }
+        }
+      })
+      .expect(201);
+  });
+
+  afterAll(async () => {
+    await closePool();
+  });
+
+  it('leave out the script, end token and manipulation settings', async () => {
+    const response = await request(app).get(`/api/tasks/by-user/${userId}`).expect(200);
+    const [task] = response.body.data;
+
+    expect(task.name).toBe('Scripted task');
+    expect(task.settings).toMatchObject({ chatbotName: 'Sam', maxUserTurns: 5, wizardMode: false });
+    for (const field of ['responseScript', 'responseMode', 'endToken', 'systemPrompt', 'candidateModels', 'latencyMode']) {
+      expect(task.settings).not.toHaveProperty(field);
+    }
+  });
+
+  it('keep the full settings for the researcher', async () => {
+    const response = await request(app).get('/api/tasks').set('Authorization', auth).expect(200);
+    const [task] = response.body.data;
+
+    expect(task.settings.endToken).toBe('[[DONE]]');
+    expect(task.settings.responseScript.turns).toEqual(['Scripted hello']);
+  });
+});
@@ -0,0 +1,76 @@
+import request from 'supertest';
+import app from '../src/app';
+import db, { closePool } from '../src/config/database';
+import { loginAsResearcher, migrate } from './helpers';
+
+describe('participant questionnaire routes', () => {
+  let taskId: string;
+  let otherTaskId: string;
+  let participantId: string;
+  let sessionToken: string;
+
+  beforeAll(async () => {
+    await migrate();
+    const researcher = await loginAsResearcher('heidi');
+    const auth = `Bearer ${researcher.token}`;
+
+    const task = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', auth)
+      .send({ name: 'Survey task', settings: { defaultModel: 'mock/echo' } })
+      .expect(201);
+    taskId = task.body.data.id;
+    await request(app)
+      .put(`/api/questionnaires/tasks/${taskId}`)
+      .set('Authorization', auth)
+      .send({ items: [{ phase: 'pre', type: 'text', prompt: 'How are you?', options: [], required: true }] })
+      .expect(200);
+
+    const other = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', `Bearer ${(await loginAsResearcher('ivan')).token}`)
+      .send({ name: 'Other task', settings: { defaultModel: 'mock/echo' } })
+      .expect(201);
+    otherTaskId = other.body.data.id;
+
+    const joined = await request(app)
+      .post(`/api/studies/${researcher.id}/participants`)
+      .send({ deviceId: 'device-1' })
+      .expect(200);
+    participantId = joined.body.participant.id;
+    sessionToken = joined.body.sessionToken;
+  });
+
+  afterAll(async () => {
+    await closePool();
+  });
+
+  it('require a study session', async () => {
+    await request(app).get(`/api/questionnaires/tasks/${taskId}/participant`).expect(401);
+    await request(app).post(`/api/questionnaires/tasks/${taskId}/responses`).send({ phase: 'pre', answers: {} }).expect(401);
+  });
+
+  it('refuse a session for another task', async () => {
+    await request(app)
+      .get(`/api/questionnaires/tasks/${otherTaskId}/participant`)
+      .set('X-Study-Session', sessionToken)
+      .expect(403);
+  });
+
+  it("answer for the session's participant, whatever the body says", async () => {
+    const status = await request(app)
+      .get(`/api/questionnaires/tasks/${taskId}/participant`)
+      .set('X-Study-Session', sessionToken)
+      .expect(200);
+    const [item] = status.body.questionnaires.pre.items;
+
+    await request(app)
+      .post(`/api/questionnaires/tasks/${taskId}/responses`)
+      .set('X-Study-Session', sessionToken)
+      .send({ participantId: 'someone-else', phase: 'pre', answers: { [item.id]: 'Fine' } })
+      .expect(200);
+
+    const rows = await db.query<{ participant_id: string }[]>('SELECT participant_id FROM questionnaire_responses');
+    expect(rows).toEqual([{ participant_id: participantId }]);
+  });
+});
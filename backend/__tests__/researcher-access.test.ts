@@ -0,0 +1,79 @@
+import request from 'supertest';
+import app from '../src/app';
+import { closePool } from '../src/config/database';
+import { loginAsAdmin, loginAsResearcher, migrate } from './helpers';
+
+describe('researcher routes', () => {
+  let alice: { id: string; token: string };
+  let bob: { id: string; token: string };
+  let bobTaskId: string;
+
+  beforeAll(async () => {
+    await migrate();
+    alice = await loginAsResearcher('alice');
+    bob = await loginAsResearcher('bob');
+
+    const created = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', `Bearer ${bob.token}`)
+      .send({ name: 'Bob task', settings: { defaultModel: 'mock/echo', systemPrompt: 'Be brief.' } })
+      .expect(201);
+    bobTaskId = created.body.data.id;
+  });
+
+  afterAll(async () => {
+    await closePool();
+  });
+
+  describe('another research group', () => {
+    it.each([
+      ['GET', '/api/conversations/:userId'],
+      ['GET', '/api/conversations/:userId/events'],
+      ['GET', '/api/conversations/:userId/some-conversation'],
+      ['DELETE', '/api/conversations/:userId/some-conversation'],
+      ['GET', '/api/settings/:userId'],
+      ['PUT', '/api/settings/:userId/some-model'],
+      ['DELETE', '/api/settings/:userId/some-model']
+    ])('%s %s is refused with 403', async (method, path) => {
+      const response = await request(app)[method.toLowerCase() as 'get' | 'put' | 'delete'](path.replace(':userId', bob.id))
+        .set('Authorization', `Bearer ${alice.token}`)
+        .send({});
+
+      expect(response.status).toBe(403);
+    });
+
+    it("can't read, change or delete a task it doesn't own", async () => {
+      const auth = `Bearer ${alice.token}`;
+      await request(app).get(`/api/tasks/${bobTaskId}`).set('Authorization', auth).expect(404);
+      await request(app).get(`/api/tasks/${bobTaskId}/model-comparison`).set('Authorization', auth).expect(404);
+      await request(app).put(`/api/tasks/${bobTaskId}`).set('Authorization', auth).send({ name: 'Renamed' }).expect(404);
+      await request(app).delete(`/api/tasks/${bobTaskId}`).set('Authorization', auth).expect(404);
+
+      const own = await request(app).get(`/api/tasks/${bobTaskId}`).set('Authorization', `Bearer ${bob.token}`).expect(200);
+      expect(own.body.data.name).toBe('Bob task');
+    });
+
+    it("doesn't list its tasks", async () => {
+      const response = await request(app).get('/api/tasks').set('Authorization', `Bearer ${alice.token}`).expect(200);
+      expect(response.body.data).toEqual([]);
+    });
+  });
+
+  describe('own research group', () => {
+    it('is allowed', async () => {
+      await request(app).get(`/api/conversations/${alice.id}`).set('Authorization', `Bearer ${alice.token}`).expect(200);
+      await request(app).get(`/api/settings/${alice.id}`).set('Authorization', `Bearer ${alice.token}`).expect(200);
+    });
+  });
+
+  it('refuses an admin token', async () => {
+    const adminToken = await loginAsAdmin();
+    await request(app).get(`/api/conversations/${alice.id}`).set('Authorization', `Bearer ${adminToken}`).expect(403);
+    await request(app).get('/api/tasks').set('Authorization', `Bearer ${adminToken}`).expect(403);
+  });
+
+  it('requires a token', async () => {
+    await request(app).get(`/api/conversations/${alice.id}`).expect(401);
+    await request(app).get('/api/tasks').expect(401);
+  });
+});
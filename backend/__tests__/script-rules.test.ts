@@ -0,0 +1,36 @@
+import { scriptService } from '../src/services/script.service';
+import { Task } from '../src/types/database.types';
+import { ResponseScript } from '../src/types/response.types';
+
+const rulesScript = (pattern: string): ResponseScript => ({
+  turns: [],
+  rules: [{ match: 'regex', pattern, reply: 'Matched' }],
+  fallback: 'No match'
+});
+
+const rulesTask = (pattern: string) =>
+  ({ response_mode: 'rules', response_script: rulesScript(pattern) }) as unknown as Task;
+
+describe('regex script rules', () => {
+  it('reject patterns that repeat a repeating group', () => {
+    for (const pattern of ['(a+)+$', '(\\w*,?)*', '((ab)*c)+', '(x+){2,}']) {
+      expect(scriptService.validateScript('rules', rulesScript(pattern))).toMatch(/repeats a group/);
+    }
+  });
+
+  it('accept ordinary patterns', () => {
+    for (const pattern of ['^(yes|yeah)\\b', '(ab)+', '[(a+)]+', '\\(a+\\)+', '(a+)?']) {
+      expect(scriptService.validateScript('rules', rulesScript(pattern))).toBeNull();
+    }
+  });
+
+  it('match the start of a long message only', () => {
+    const task = rulesTask('done$');
+    expect(scriptService.replyFor(task, 1, 'I am done')).toBe('Matched');
+    expect(scriptService.replyFor(task, 1, `${'a'.repeat(5000)} done`)).toBe('No match');
+  });
+
+  it('never match with an unsafe pattern stored before validation', () => {
+    expect(scriptService.replyFor(rulesTask('(a+)+$'), 1, `${'a'.repeat(40)}!`)).toBe('No match');
+  });
+});
@@ -0,0 +1,6 @@
+// Each test file gets its own in-memory SQLite database, migrated in its beforeAll
+process.env.NODE_ENV = 'test';
+process.env.DB_DRIVER = 'sqlite';
+process.env.SQLITE_FILE = ':memory:';
+process.env.JWT_SECRET = 'test-secret';
+process.env.ADMIN_KEY = 'test-admin-key';
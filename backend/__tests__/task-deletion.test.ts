@@ -0,0 +1,52 @@
+import request from 'supertest';
+import app from '../src/app';
+import db, { closePool } from '../src/config/database';
+import { loginAsResearcher, migrate } from './helpers';
+
+describe('deleting a task', () => {
+  beforeAll(async () => {
+    await migrate();
+  });
+
+  afterAll(async () => {
+    await closePool();
+  });
+
+  it('keeps its conversations, usage and questionnaire answers attributed to it', async () => {
+    const researcher = await loginAsResearcher('grace');
+    const auth = `Bearer ${researcher.token}`;
+
+    const created = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', auth)
+      .send({ name: 'Short-lived task', settings: { defaultModel: 'mock/echo' } })
+      .expect(201);
+    const taskId = created.body.data.id;
+
+    await db.query(
+      'INSERT INTO conversations (id, user_id, title, task_id) VALUES (?, ?, ?, ?)',
+      ['conversation-1', researcher.id, 'Chat with Short-lived task', taskId]
+    );
+    await db.query(
+      'INSERT INTO llm_usage (id, user_id, task_id, conversation_id, purpose, model_id) VALUES (?, ?, ?, ?, ?, ?)',
+      ['usage-1', researcher.id, taskId, 'conversation-1', 'reply', 'mock/echo']
+    );
+    await db.query(
+      'INSERT INTO participants (id, user_id, device_id) VALUES (?, ?, ?)',
+      ['participant-1', researcher.id, 'device-1']
+    );
+    await db.query(
+      `INSERT INTO questionnaire_responses
+         (id, task_id, participant_id, conversation_id, phase, item_id, item_type, item_prompt, answer)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      ['response-1', taskId, 'participant-1', 'conversation-1', 'post', 'item-1', 'text', 'How did it go?', 'Fine']
+    );
+
+    await request(app).delete(`/api/tasks/${taskId}`).set('Authorization', auth).expect(200);
+
+    expect(await db.queryOne('SELECT task_id FROM conversations WHERE id = ?', ['conversation-1'])).toEqual({ task_id: taskId });
+    expect(await db.queryOne('SELECT task_id FROM llm_usage WHERE id = ?', ['usage-1'])).toEqual({ task_id: taskId });
+    expect(await db.queryOne('SELECT task_id, answer FROM questionnaire_responses WHERE id = ?', ['response-1']))
+      .toEqual({ task_id: taskId, answer: 'Fine' });
+  });
+});
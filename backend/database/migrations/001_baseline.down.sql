@@ -0,0 +1,15 @@
+-- ============================================
+-- Migration 001: Baseline (down)
+-- ============================================
+-- Drops every table the baseline created, and all of their data
+
+SET FOREIGN_KEY_CHECKS = 0;
+
+DROP TABLE IF EXISTS messages;
+DROP TABLE IF EXISTS conversations;
+DROP TABLE IF EXISTS configs;
+DROP TABLE IF EXISTS ai_models;
+DROP TABLE IF EXISTS tasks;
+DROP TABLE IF EXISTS users;
+
+SET FOREIGN_KEY_CHECKS = 1;
@@ -1,9 +1,10 @@
--- Create and select the database
-CREATE DATABASE IF NOT EXISTS human_ai_interaction
-  CHARACTER SET utf8mb4
-  COLLATE utf8mb4_unicode_ci;
-
-USE human_ai_interaction;
+-- ============================================
+-- Migration 001: Baseline
+-- ============================================
+-- schema.sql as it was when migrations were introduced, so a database set up from it
+-- matches the baseline and is adopted (recorded as applied without running it).
+-- Runs against the database named in DB_NAME; create it first (see database/README.md).
+-- Later schema changes go in new numbered migrations, never in this file.
 
 -- ============================================
 -- Users Table
@@ -0,0 +1,9 @@
+DELETE FROM ai_models WHERE model_id LIKE '%*%';
+
+ALTER TABLE ai_models
+    DROP COLUMN supports_system_role,
+    DROP COLUMN sampling_params,
+    DROP COLUMN max_temperature,
+    DROP COLUMN context_window,
+    DROP COLUMN max_output_tokens,
+    DROP COLUMN supports_images;
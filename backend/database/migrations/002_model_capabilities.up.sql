@@ -0,0 +1,38 @@
+-- ============================================
+-- Model capability registry
+-- ============================================
+-- What each model accepts, consulted when building messages and requests. A model_id
+-- containing * is a pattern (e.g. 'gpt-*') for models without a row of their own; the
+-- longest matching pattern wins. Models matching nothing get the defaults below.
+
+ALTER TABLE ai_models
+    ADD COLUMN supports_system_role BOOLEAN NOT NULL DEFAULT TRUE,
+    ADD COLUMN sampling_params JSON NULL,
+    ADD COLUMN max_temperature DECIMAL(3,2) NOT NULL DEFAULT 1.00,
+    ADD COLUMN context_window INT NULL,
+    ADD COLUMN max_output_tokens INT NULL,
+    ADD COLUMN supports_images BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- The catalog's own models, matching the rules the backend applied before the registry
+UPDATE ai_models SET sampling_params = '["temperature"]';
+UPDATE ai_models
+SET sampling_params = '["temperature", "top_p", "presence_penalty", "frequency_penalty"]', max_temperature = 2.00
+WHERE model_id LIKE 'gpt-%' OR model_id LIKE 'o1-%' OR model_id LIKE 'o3-%' OR model_id LIKE 'o4-%';
+UPDATE ai_models SET supports_system_role = FALSE
+WHERE LOWER(model_id) LIKE '%deepseek%' OR LOWER(model_id) LIKE '%nova%' OR LOWER(model_id) LIKE '%llama3%';
+
+INSERT INTO ai_models
+(name, model_id, provider, description, supports_system_role, sampling_params, max_temperature, context_window, max_output_tokens, supports_images) VALUES
+('OpenAI GPT models', 'gpt-*', 'OpenAI', 'Any GPT model without its own entry', TRUE, '["temperature", "top_p", "presence_penalty", "frequency_penalty"]', 2.00, NULL, NULL, FALSE),
+('GPT-4o', 'gpt-4o*', 'OpenAI', 'GPT-4o and GPT-4o Mini', TRUE, '["temperature", "top_p", "presence_penalty", "frequency_penalty"]', 2.00, 128000, 16384, TRUE),
+('GPT-4.1', 'gpt-4.1*', 'OpenAI', 'GPT-4.1, Mini and Nano', TRUE, '["temperature", "top_p", "presence_penalty", "frequency_penalty"]', 2.00, 1047576, 32768, TRUE),
+('OpenAI o1 models', 'o1-*', 'OpenAI', 'Any o1 model without its own entry', TRUE, '["temperature", "top_p", "presence_penalty", "frequency_penalty"]', 2.00, NULL, NULL, FALSE),
+('OpenAI o3 models', 'o3-*', 'OpenAI', 'Any o3 model without its own entry', TRUE, '["temperature", "top_p", "presence_penalty", "frequency_penalty"]', 2.00, NULL, NULL, FALSE),
+('OpenAI o4 models', 'o4-*', 'OpenAI', 'Any o4 model without its own entry', TRUE, '["temperature", "top_p", "presence_penalty", "frequency_penalty"]', 2.00, NULL, NULL, FALSE),
+('Claude models', 'claude*', 'Anthropic', 'Any Claude model without its own entry', TRUE, '["temperature"]', 1.00, 200000, NULL, TRUE),
+('Gemini models', 'gemini*', 'Google', 'Any Gemini model without its own entry', TRUE, '["temperature"]', 1.00, NULL, NULL, TRUE),
+('Mistral models', '*mistral*', 'Mistral AI', 'Any Mistral model without its own entry', TRUE, '["temperature"]', 1.00, NULL, NULL, FALSE),
+('DeepSeek models', '*deepseek*', 'DeepSeek', 'DeepSeek on Bedrock: no system role', FALSE, '["temperature"]', 1.00, NULL, NULL, FALSE),
+('Amazon Nova models', '*nova*', 'Amazon', 'Nova on Bedrock: no system role', FALSE, '["temperature"]', 1.00, NULL, NULL, FALSE),
+('Llama 3 models', '*llama3*', 'Meta', 'Llama 3 on Bedrock: no system role', FALSE, '["temperature"]', 1.00, NULL, NULL, FALSE),
+('Mock models', 'mock/*', 'Mock', 'Built-in offline models (mock/echo, mock/lorem, mock/script)', TRUE, '["temperature"]', 1.00, NULL, NULL, FALSE);
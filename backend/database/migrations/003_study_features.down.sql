@@ -0,0 +1,73 @@
+-- ============================================
+-- Study features (down)
+-- ============================================
+-- Drops the study tables and columns, and all of their data
+
+DROP TABLE IF EXISTS questionnaire_responses;
+DROP TABLE IF EXISTS questionnaire_items;
+DROP TABLE IF EXISTS consents;
+DROP TABLE IF EXISTS consent_documents;
+DROP TABLE IF EXISTS assignments;
+DROP TABLE IF EXISTS study_settings;
+DROP TABLE IF EXISTS research_budgets;
+DROP TABLE IF EXISTS model_prices;
+DROP TABLE IF EXISTS llm_usage;
+DROP TABLE IF EXISTS message_telemetry;
+
+ALTER TABLE messages
+    DROP COLUMN model_id,
+    DROP COLUMN system_prompt,
+    DROP COLUMN author,
+    DROP COLUMN model_draft,
+    DROP COLUMN generation_ms,
+    DROP COLUMN delay_ms,
+    DROP COLUMN context_policy,
+    DROP COLUMN context,
+    MODIFY COLUMN timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+
+ALTER TABLE conversations
+    DROP FOREIGN KEY fk_conversations_participant;
+ALTER TABLE conversations
+    DROP INDEX idx_task_id,
+    DROP INDEX idx_participant_id,
+    DROP COLUMN task_id,
+    DROP COLUMN model_id,
+    DROP COLUMN system_prompt,
+    DROP COLUMN task_prompt,
+    DROP COLUMN participant_id,
+    DROP COLUMN url_params,
+    DROP COLUMN finished_at,
+    DROP COLUMN end_reason,
+    DROP COLUMN started_at,
+    DROP COLUMN awaiting_reply_at,
+    DROP COLUMN context_summary,
+    DROP COLUMN context_summary_count,
+    MODIFY COLUMN last_message_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP;
+
+DROP TABLE IF EXISTS participants;
+
+ALTER TABLE tasks
+    DROP COLUMN candidate_models,
+    DROP COLUMN temperature,
+    DROP COLUMN max_tokens,
+    DROP COLUMN top_p,
+    DROP COLUMN presence_penalty,
+    DROP COLUMN frequency_penalty,
+    DROP COLUMN context_policy,
+    DROP COLUMN context_last_n,
+    DROP COLUMN context_token_budget,
+    DROP COLUMN context_summary_model,
+    DROP COLUMN assignment_weight,
+    DROP COLUMN min_user_turns,
+    DROP COLUMN max_user_turns,
+    DROP COLUMN time_limit_minutes,
+    DROP COLUMN end_token,
+    DROP COLUMN allow_participant_finish,
+    DROP COLUMN response_mode,
+    DROP COLUMN response_script,
+    DROP COLUMN latency_mode,
+    DROP COLUMN latency_fixed_ms,
+    DROP COLUMN latency_chars_per_second,
+    DROP COLUMN latency_min_ms,
+    DROP COLUMN latency_max_ms,
+    DROP COLUMN show_typing_indicator;
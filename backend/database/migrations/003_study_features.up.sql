@@ -0,0 +1,321 @@
+-- ============================================
+-- Study features
+-- ============================================
+-- Everything the study features added on top of the baseline: per-task generation,
+-- context, completion, reply-mode and latency settings; participants and their
+-- assignments, consents and questionnaires; conversation and message snapshots for
+-- analysis; telemetry; and LLM usage with prices and budgets.
+
+-- ============================================
+-- Tasks
+-- ============================================
+ALTER TABLE tasks
+    -- A/B comparison: [{ "modelId", "weight" }]; each new conversation is assigned one of
+    -- these models by weight (recorded as conversations.model_id) instead of default_model
+    ADD COLUMN candidate_models JSON AFTER default_model,
+    -- Generation parameters (sent only when the model's registry entry lists them)
+    ADD COLUMN temperature DOUBLE NOT NULL DEFAULT 0.7,
+    ADD COLUMN max_tokens INT NOT NULL DEFAULT 2000,
+    ADD COLUMN top_p DOUBLE NOT NULL DEFAULT 0.9,
+    ADD COLUMN presence_penalty DOUBLE NOT NULL DEFAULT 0,
+    ADD COLUMN frequency_penalty DOUBLE NOT NULL DEFAULT 0,
+    -- Context window: 'full', 'last_n', 'token_budget' or 'summary' (older turns summarised by a second model call)
+    ADD COLUMN context_policy VARCHAR(20) NOT NULL DEFAULT 'last_n',
+    ADD COLUMN context_last_n INT NOT NULL DEFAULT 10,
+    ADD COLUMN context_token_budget INT NOT NULL DEFAULT 4000,
+    ADD COLUMN context_summary_model VARCHAR(255),
+    -- Relative share of new participants under the 'weighted' assignment strategy
+    ADD COLUMN assignment_weight DOUBLE NOT NULL DEFAULT 1,
+    -- Completion rules: participant message limits, time limit from the first message,
+    -- an AI end token, and whether the participant gets a Finish button
+    ADD COLUMN min_user_turns INT NOT NULL DEFAULT 0,
+    ADD COLUMN max_user_turns INT,
+    ADD COLUMN time_limit_minutes INT,
+    ADD COLUMN end_token VARCHAR(100),
+    ADD COLUMN allow_participant_finish BOOLEAN NOT NULL DEFAULT TRUE,
+    -- Who writes the replies: 'model', 'wizard' (a researcher types them live), or the
+    -- response script: 'script' (turn by turn), 'rules' (keyword/regex) or 'hybrid' (with the model)
+    ADD COLUMN response_mode VARCHAR(20) NOT NULL DEFAULT 'model',
+    ADD COLUMN response_script JSON,
+    -- Reply latency: 'none', 'fixed' (latency_fixed_ms), 'typing' (reply length at
+    -- latency_chars_per_second) or 'jitter' (random between latency_min_ms and latency_max_ms),
+    -- counted from the participant's message; and whether the typing indicator shows meanwhile
+    ADD COLUMN latency_mode VARCHAR(20) NOT NULL DEFAULT 'none',
+    ADD COLUMN latency_fixed_ms INT NOT NULL DEFAULT 2000,
+    ADD COLUMN latency_chars_per_second DOUBLE NOT NULL DEFAULT 30,
+    ADD COLUMN latency_min_ms INT NOT NULL DEFAULT 1000,
+    ADD COLUMN latency_max_ms INT NOT NULL DEFAULT 4000,
+    ADD COLUMN show_typing_indicator BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- ============================================
+-- Participants Table (one row per person per research group)
+-- ============================================
+-- The assigned condition is in the assignments table
+CREATE TABLE participants (
+    id VARCHAR(36) PRIMARY KEY,
+    user_id VARCHAR(50) NOT NULL,
+    -- Recruitment-platform ID from the study URL (e.g. Prolific PID, MTurk worker ID)
+    external_id VARCHAR(255),
+    -- Browser device ID from the study page (see frontend utils/deviceId.ts)
+    device_id VARCHAR(100) NOT NULL,
+    first_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_study_external_id (user_id, external_id),
+    INDEX idx_study_device (user_id, device_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE utf8mb4_unicode_ci;
+-- ============================================
+-- Conversations
+-- ============================================
+ALTER TABLE conversations
+    -- Snapshot of the task the participant chatted under (kept even if the task is edited or deleted;
+    -- task_id has no foreign key so it still names a deleted task)
+    ADD COLUMN task_id VARCHAR(36),
+    ADD COLUMN model_id VARCHAR(255),
+    ADD COLUMN system_prompt TEXT,
+    ADD COLUMN task_prompt TEXT,
+    -- Participant who had the conversation (NULL for conversations from before participants were tracked)
+    ADD COLUMN participant_id VARCHAR(36),
+    -- Captured recruitment-platform URL parameters (e.g. PROLIFIC_PID, STUDY_ID, SESSION_ID)
+    ADD COLUMN url_params JSON,
+    -- Set when the conversation ends: 'participant', 'max_turns', 'time_limit' or 'end_token'
+    ADD COLUMN finished_at TIMESTAMP NULL,
+    ADD COLUMN end_reason VARCHAR(20),
+    -- Database clock at the first message, for time limits (created_at is New York wall-clock time)
+    ADD COLUMN started_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3),
+    -- Wizard-of-Oz mode: when the participant's still unanswered message arrived
+    ADD COLUMN awaiting_reply_at TIMESTAMP(3) NULL,
+    -- Rolling summary for the 'summary' context policy and how many messages it covers
+    ADD COLUMN context_summary TEXT,
+    ADD COLUMN context_summary_count INT NOT NULL DEFAULT 0,
+    -- Set when a message is stored; ON UPDATE would also move it when a conversation is
+    -- finished, awaits a Wizard-of-Oz reply or gets a new context summary
+    MODIFY COLUMN last_message_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    ADD CONSTRAINT fk_conversations_participant FOREIGN KEY (participant_id) REFERENCES participants(id) ON DELETE SET NULL,
+    ADD INDEX idx_task_id (task_id),
+    ADD INDEX idx_participant_id (participant_id);
+
+-- ============================================
+-- Messages
+-- ============================================
+ALTER TABLE messages
+    -- AI messages only: model and system prompt used to generate this reply
+    ADD COLUMN model_id VARCHAR(255),
+    ADD COLUMN system_prompt TEXT,
+    -- AI messages only: 'model', 'script', or 'researcher' for a Wizard-of-Oz reply, and
+    -- the model draft the researcher started from (if they asked for one)
+    ADD COLUMN author VARCHAR(20),
+    ADD COLUMN model_draft TEXT,
+    -- AI messages only: time taken to produce the reply, and the artificial delay added
+    -- before it was released under the task's latency settings
+    ADD COLUMN generation_ms INT,
+    ADD COLUMN delay_ms INT,
+    -- AI messages only: context policy applied and the exact message list sent to the model
+    ADD COLUMN context_policy VARCHAR(20),
+    ADD COLUMN context JSON,
+    -- Millisecond precision keeps turns written within the same second in order
+    MODIFY COLUMN timestamp TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3);
+
+-- ============================================
+-- Message Telemetry Table (one row per message, when measured)
+-- ============================================
+CREATE TABLE message_telemetry (
+    message_id VARCHAR(36) PRIMARY KEY,
+    conversation_id VARCHAR(36) NOT NULL,
+    -- Participant messages: how the message was composed, measured by the study page.
+    -- Counts cover the time since the participant's previous message.
+    typing_started_at TIMESTAMP(3) NULL,
+    first_keystroke_ms INT,     -- from the previous reply appearing to the first keystroke
+    compose_ms INT,             -- from the first keystroke to sending
+    keystrokes INT,
+    deletions INT,              -- Backspace/Delete presses
+    pastes INT,
+    pasted_chars INT,
+    blurs INT,                  -- times the participant left the tab or window
+    hidden_ms INT,              -- time spent away from it
+    -- Model replies: time to the first streamed token and token usage reported by LiteLLM
+    -- (total generation time is messages.generation_ms)
+    first_token_ms INT,
+    prompt_tokens INT,
+    completion_tokens INT,
+    total_tokens INT,
+
+    FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE,
+    FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE,
+    INDEX idx_conversation_id (conversation_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- ============================================
+-- LLM Usage Table (one row per LiteLLM call, for cost accounting)
+-- ============================================
+CREATE TABLE llm_usage (
+    id VARCHAR(36) PRIMARY KEY,
+    -- Research group, task and conversation the call was made for. The row outlives all three;
+    -- task_id has no foreign key so usage stays attributed to a deleted task
+    user_id VARCHAR(50),
+    task_id VARCHAR(36),
+    conversation_id VARCHAR(36),
+    -- 'reply' (participant turn), 'draft' (Wizard-of-Oz draft) or 'summary' (context summary)
+    purpose VARCHAR(20) NOT NULL,
+    model_id VARCHAR(255) NOT NULL,
+    -- As reported by the provider; NULL when it didn't report usage
+    prompt_tokens INT,
+    completion_tokens INT,
+    latency_ms INT,
+    created_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3),
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
+    FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE SET NULL,
+    INDEX idx_user_created (user_id, created_at),
+    INDEX idx_task_id (task_id),
+    INDEX idx_created_at (created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- ============================================
+-- Model Prices Table (USD per million tokens, set by the admin)
+-- ============================================
+CREATE TABLE model_prices (
+    model_id VARCHAR(255) PRIMARY KEY,
+    input_per_million DECIMAL(12, 4) NOT NULL,
+    output_per_million DECIMAL(12, 4) NOT NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- ============================================
+-- Research Budgets Table (admin-set limits, one row per research group)
+-- ============================================
+CREATE TABLE research_budgets (
+    user_id VARCHAR(50) PRIMARY KEY,
+    -- Per calendar month, from llm_usage; NULL means no limit
+    monthly_token_limit BIGINT,
+    monthly_cost_limit_usd DECIMAL(12, 2),
+    -- Participant messages per conversation; the conversation ends when it is reached
+    conversation_message_cap INT,
+    -- The researcher is warned from this share of a monthly limit
+    warning_percent INT NOT NULL DEFAULT 80,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- ============================================
+-- Study Settings Table (one row per research group)
+-- ============================================
+CREATE TABLE study_settings (
+    user_id VARCHAR(50) PRIMARY KEY,
+    -- Condition assignment: 'random', 'block', 'least_filled' or 'weighted'
+    assignment_strategy VARCHAR(20) NOT NULL DEFAULT 'random',
+    -- Block randomization: participants per task in each block
+    block_repeats INT NOT NULL DEFAULT 1,
+    -- Study URL query parameters stored with each conversation (NULL: Prolific/MTurk/Qualtrics defaults)
+    capture_params JSON,
+    -- Shown to participants when they finish, or the URL they are sent back to ({PARAM} placeholders filled in)
+    completion_code VARCHAR(100),
+    completion_url TEXT,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- ============================================
+-- Assignments Table (participant → task, made once per study)
+-- ============================================
+CREATE TABLE assignments (
+    id VARCHAR(36) PRIMARY KEY,
+    user_id VARCHAR(50) NOT NULL,
+    participant_id VARCHAR(36) NOT NULL,
+    task_id VARCHAR(36) NOT NULL,
+    strategy VARCHAR(20) NOT NULL,
+    -- Block randomization only: which block the assignment was drawn from
+    block_number INT,
+    assigned_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+    FOREIGN KEY (participant_id) REFERENCES participants(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_study_participant (user_id, participant_id),
+    INDEX idx_task_id (task_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- ============================================
+-- Consent Documents Table (versioned; a new version is added on every change)
+-- ============================================
+CREATE TABLE consent_documents (
+    id VARCHAR(36) PRIMARY KEY,
+    user_id VARCHAR(50) NOT NULL,
+    version INT NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    -- Markdown shown to participants before the study
+    body TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_study_version (user_id, version)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- ============================================
+-- Consents Table (a participant agreeing to a consent document version)
+-- ============================================
+CREATE TABLE consents (
+    id VARCHAR(36) PRIMARY KEY,
+    user_id VARCHAR(50) NOT NULL,
+    participant_id VARCHAR(36) NOT NULL,
+    document_id VARCHAR(36) NOT NULL,
+    version INT NOT NULL,
+    -- Browser device ID the participant consented from
+    device_id VARCHAR(100),
+    consented_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (participant_id) REFERENCES participants(id) ON DELETE CASCADE,
+    FOREIGN KEY (document_id) REFERENCES consent_documents(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_participant_document (participant_id, document_id),
+    INDEX idx_user_id (user_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- ============================================
+-- Questionnaire Items Table (pre- and post-chat surveys per task)
+-- ============================================
+CREATE TABLE questionnaire_items (
+    id VARCHAR(36) PRIMARY KEY,
+    task_id VARCHAR(36) NOT NULL,
+    phase ENUM('pre', 'post') NOT NULL,
+    position INT NOT NULL DEFAULT 0,
+    item_type ENUM('likert', 'choice', 'text') NOT NULL,
+    prompt TEXT NOT NULL,
+    -- Likert: scale point labels, lowest first; choice: the options
+    options JSON,
+    required BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+    INDEX idx_task_phase (task_id, phase, position)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- ============================================
+-- Questionnaire Responses Table (one row per participant answer)
+-- ============================================
+CREATE TABLE questionnaire_responses (
+    id VARCHAR(36) PRIMARY KEY,
+    -- task_id has no foreign key so the answers outlive a deleted task, like its conversations
+    task_id VARCHAR(36) NOT NULL,
+    participant_id VARCHAR(36) NOT NULL,
+    -- Pre-chat answers are linked once the participant's conversation starts
+    conversation_id VARCHAR(36),
+    phase ENUM('pre', 'post') NOT NULL,
+    -- Snapshot of the item (kept even if the questionnaire is edited later)
+    item_id VARCHAR(36) NOT NULL,
+    item_type VARCHAR(20) NOT NULL,
+    item_prompt TEXT NOT NULL,
+    -- Likert: scale point (1 = first label); choice: option text; NULL when skipped
+    answer TEXT,
+    submitted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (participant_id) REFERENCES participants(id) ON DELETE CASCADE,
+    FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE SET NULL,
+    UNIQUE KEY unique_participant_answer (participant_id, task_id, phase, item_id),
+    INDEX idx_task_id (task_id),
+    INDEX idx_conversation_id (conversation_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE utf8mb4_unicode_ci;
+
@@ -0,0 +1,12 @@
+-- ============================================
+-- Migration 001: Baseline (down, SQLite)
+-- ============================================
+-- Drops every table the baseline created, and all of their data (children first, as
+-- foreign keys stay on)
+
+DROP TABLE IF EXISTS messages;
+DROP TABLE IF EXISTS conversations;
+DROP TABLE IF EXISTS configs;
+DROP TABLE IF EXISTS ai_models;
+DROP TABLE IF EXISTS tasks;
+DROP TABLE IF EXISTS users;
@@ -0,0 +1,137 @@
+-- ============================================
+-- Migration 001: Baseline (SQLite)
+-- ============================================
+-- The SQLite version of ../001_baseline.up.sql, for DB_DRIVER=sqlite (local development
+-- and tests). Column types are kept as in MySQL so the driver knows which columns hold
+-- JSON and timestamps; timestamps default to local wall-clock time like the MySQL server's.
+-- Keep the two in step: every MySQL migration needs a SQLite one with the same number.
+
+-- ============================================
+-- Users Table
+-- ============================================
+CREATE TABLE users (
+    id VARCHAR(50) PRIMARY KEY NOT NULL DEFAULT (lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', 1 + abs(random()) % 4, 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6)))),
+    username VARCHAR(100) NOT NULL UNIQUE,
+    email VARCHAR(255) NOT NULL UNIQUE,
+    research_key VARCHAR(255) UNIQUE,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT (strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime'))
+);
+CREATE INDEX idx_users_username ON users (username);
+CREATE INDEX idx_users_email ON users (email);
+CREATE INDEX idx_users_research_key ON users (research_key);
+
+-- ============================================
+-- Tasks Table (Simplified)
+-- ============================================
+CREATE TABLE tasks (
+    id VARCHAR(36) PRIMARY KEY NOT NULL DEFAULT (lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', 1 + abs(random()) % 4, 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6)))),
+    user_id VARCHAR(50) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    system_prompt TEXT NOT NULL,
+    task_prompt TEXT,
+    default_model VARCHAR(255),
+    chatbot_name VARCHAR(255),
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE (user_id, name)
+);
+CREATE INDEX idx_tasks_user_id ON tasks (user_id);
+CREATE INDEX idx_tasks_name ON tasks (name);
+
+-- ============================================
+-- AI Models Table
+-- ============================================
+CREATE TABLE ai_models (
+    id VARCHAR(36) PRIMARY KEY NOT NULL DEFAULT (lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', 1 + abs(random()) % 4, 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6)))),
+    name VARCHAR(255) NOT NULL,
+    model_id VARCHAR(255) NOT NULL UNIQUE,
+    provider VARCHAR(100) NOT NULL,
+    description TEXT,
+    status VARCHAR(50) DEFAULT 'available',
+    created_at TIMESTAMP DEFAULT (strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime')),
+    updated_at TIMESTAMP DEFAULT (strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime'))
+);
+CREATE INDEX idx_ai_models_provider ON ai_models (provider);
+CREATE INDEX idx_ai_models_model_id ON ai_models (model_id);
+CREATE INDEX idx_ai_models_status ON ai_models (status);
+
+-- ============================================
+-- System Configs Table (Key/Value Store)
+-- ============================================
+-- Required by backend config service. Kept separate from per-task settings.
+CREATE TABLE IF NOT EXISTS configs (
+    config_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    `key` VARCHAR(255) NOT NULL UNIQUE,
+    value TEXT NULL,
+    description TEXT NULL,
+    created_at TIMESTAMP DEFAULT (strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime')),
+    updated_at TIMESTAMP DEFAULT (strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime'))
+);
+CREATE INDEX idx_configs_key ON configs (`key`);
+
+-- ============================================
+-- Conversations Table (Hard deletes only)
+-- ============================================
+CREATE TABLE conversations (
+    id VARCHAR(36) PRIMARY KEY NOT NULL,
+    user_id VARCHAR(50) NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    ai_model_name VARCHAR(255),
+    ai_model_personality VARCHAR(50),
+    ai_model_icon VARCHAR(10),
+    created_at TIMESTAMP DEFAULT (strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime')),
+    last_message_at TIMESTAMP DEFAULT (strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime')),
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+CREATE INDEX idx_conversations_user_id ON conversations (user_id);
+CREATE INDEX idx_conversations_last_message ON conversations (last_message_at);
+
+-- ============================================
+-- Messages Table
+-- ============================================
+CREATE TABLE messages (
+    id VARCHAR(36) PRIMARY KEY NOT NULL,
+    conversation_id VARCHAR(36) NOT NULL,
+    text TEXT NOT NULL,
+    sender VARCHAR(20) NOT NULL CHECK (sender IN ('user', 'ai')),
+    timestamp TIMESTAMP DEFAULT (strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime')),
+
+    FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+);
+CREATE INDEX idx_messages_conversation_id ON messages (conversation_id);
+CREATE INDEX idx_messages_timestamp ON messages (timestamp);
+
+-- ============================================
+-- Insert Default Data
+-- ============================================
+
+-- Insert default configurations
+INSERT INTO configs (`key`, value, description) VALUES
+('ADMIN_KEY', 'admin123', 'Admin panel access key'),
+('LITELLM_BASE_URL', 'https://litellm.cloud.osu.edu', 'LiteLLM proxy base URL'),
+('LITELLM_API_KEY', '', 'LiteLLM API key (optional)');
+
+-- Insert AI models
+INSERT INTO ai_models (name, model_id, provider, description, status) VALUES
+('Claude V2.1', 'anthropic.claude-v2:1', 'Anthropic', 'Claude 2.1 - Enhanced reasoning and analysis', 'available'),
+('Claude V3.5 Sonnet', 'anthropic.claude-3-5-sonnet-20241022-v2:0', 'Anthropic', 'Claude 3.5 Sonnet - Latest version', 'available'),
+('Claude V3.7 Sonnet', 'anthropic.claude-3-sonnet-20240229-v1:0', 'Anthropic', 'Claude 3.7 Sonnet - Most recent model', 'available'),
+('Claude V3', 'anthropic.claude-v3', 'Anthropic', 'Claude 3 - Base model', 'available'),
+('Claude V2', 'anthropic.claude-v2', 'Anthropic', 'Claude 2 - Previous generation', 'available'),
+('Meta Llama 3.3B', 'meta.llama3-3b-instruct-v1:0', 'Meta', 'Llama 3 - 3B parameter model', 'available'),
+('Meta Llama 3.7B', 'meta.llama3-7b-instruct-v1:0', 'Meta', 'Llama 3 - 7B parameter model', 'available'),
+('GPT-3.5 Turbo', 'gpt-3.5-turbo', 'OpenAI', 'GPT-3.5 Turbo - Fast and efficient', 'available'),
+('GPT-4', 'gpt-4', 'OpenAI', 'GPT-4 - Most capable OpenAI model', 'available'),
+('Amazon Titan Lite', 'amazon.titan-text-lite-v1', 'Amazon', 'Titan Text Lite - Lightweight model', 'available'),
+('Amazon Titan Express', 'amazon.titan-text-express-v1', 'Amazon', 'Titan Text Express - Fast responses', 'available'),
+('Mistral 7B Instruct', 'mistral.mistral-7b-instruct-v0:2', 'Mistral AI', 'Mistral 7B - Instruction-tuned model', 'available'),
+('Mistral 8x7B', 'mistral.mixtral-8x7b-instruct-v0:1', 'Mistral AI', 'Mistral 8x7B - Mixture of experts', 'available'),
+('Nova Pro', 'amazon.nova-pro-v1:0', 'Amazon', 'Nova Pro - Advanced reasoning', 'available'),
+('Nova Lite', 'amazon.nova-lite-v1:0', 'Amazon', 'Nova Lite - Efficient processing', 'available'),
+('Titan Text Embeddings V2', 'amazon.titan-embed-text-v2:0', 'Amazon', 'Text embeddings model', 'available');
+
+-- Insert default user (id from the column default, a random UUID)
+INSERT INTO users (username, email, research_key) VALUES
+('admin', 'admin@example.com', 'research-key-123');
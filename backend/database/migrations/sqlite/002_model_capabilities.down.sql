@@ -0,0 +1,8 @@
+DELETE FROM ai_models WHERE model_id LIKE '%*%';
+
+ALTER TABLE ai_models DROP COLUMN supports_system_role;
+ALTER TABLE ai_models DROP COLUMN sampling_params;
+ALTER TABLE ai_models DROP COLUMN max_temperature;
+ALTER TABLE ai_models DROP COLUMN context_window;
+ALTER TABLE ai_models DROP COLUMN max_output_tokens;
+ALTER TABLE ai_models DROP COLUMN supports_images;
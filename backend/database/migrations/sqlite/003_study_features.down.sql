@@ -0,0 +1,67 @@
+-- ============================================
+-- Study features (down, SQLite)
+-- ============================================
+-- Drops the study tables and columns, and all of their data (children first, as
+-- foreign keys stay on)
+
+DROP TABLE IF EXISTS questionnaire_responses;
+DROP TABLE IF EXISTS questionnaire_items;
+DROP TABLE IF EXISTS consents;
+DROP TABLE IF EXISTS consent_documents;
+DROP TABLE IF EXISTS assignments;
+DROP TABLE IF EXISTS study_settings;
+DROP TABLE IF EXISTS research_budgets;
+DROP TABLE IF EXISTS model_prices;
+DROP TABLE IF EXISTS llm_usage;
+DROP TABLE IF EXISTS message_telemetry;
+
+ALTER TABLE messages DROP COLUMN model_id;
+ALTER TABLE messages DROP COLUMN system_prompt;
+ALTER TABLE messages DROP COLUMN author;
+ALTER TABLE messages DROP COLUMN model_draft;
+ALTER TABLE messages DROP COLUMN generation_ms;
+ALTER TABLE messages DROP COLUMN delay_ms;
+ALTER TABLE messages DROP COLUMN context_policy;
+ALTER TABLE messages DROP COLUMN context;
+
+DROP INDEX IF EXISTS idx_conversations_task_id;
+DROP INDEX IF EXISTS idx_conversations_participant_id;
+ALTER TABLE conversations DROP COLUMN task_id;
+ALTER TABLE conversations DROP COLUMN model_id;
+ALTER TABLE conversations DROP COLUMN system_prompt;
+ALTER TABLE conversations DROP COLUMN task_prompt;
+ALTER TABLE conversations DROP COLUMN participant_id;
+ALTER TABLE conversations DROP COLUMN url_params;
+ALTER TABLE conversations DROP COLUMN finished_at;
+ALTER TABLE conversations DROP COLUMN end_reason;
+ALTER TABLE conversations DROP COLUMN started_at;
+ALTER TABLE conversations DROP COLUMN awaiting_reply_at;
+ALTER TABLE conversations DROP COLUMN context_summary;
+ALTER TABLE conversations DROP COLUMN context_summary_count;
+
+DROP TABLE IF EXISTS participants;
+
+ALTER TABLE tasks DROP COLUMN candidate_models;
+ALTER TABLE tasks DROP COLUMN temperature;
+ALTER TABLE tasks DROP COLUMN max_tokens;
+ALTER TABLE tasks DROP COLUMN top_p;
+ALTER TABLE tasks DROP COLUMN presence_penalty;
+ALTER TABLE tasks DROP COLUMN frequency_penalty;
+ALTER TABLE tasks DROP COLUMN context_policy;
+ALTER TABLE tasks DROP COLUMN context_last_n;
+ALTER TABLE tasks DROP COLUMN context_token_budget;
+ALTER TABLE tasks DROP COLUMN context_summary_model;
+ALTER TABLE tasks DROP COLUMN assignment_weight;
+ALTER TABLE tasks DROP COLUMN min_user_turns;
+ALTER TABLE tasks DROP COLUMN max_user_turns;
+ALTER TABLE tasks DROP COLUMN time_limit_minutes;
+ALTER TABLE tasks DROP COLUMN end_token;
+ALTER TABLE tasks DROP COLUMN allow_participant_finish;
+ALTER TABLE tasks DROP COLUMN response_mode;
+ALTER TABLE tasks DROP COLUMN response_script;
+ALTER TABLE tasks DROP COLUMN latency_mode;
+ALTER TABLE tasks DROP COLUMN latency_fixed_ms;
+ALTER TABLE tasks DROP COLUMN latency_chars_per_second;
+ALTER TABLE tasks DROP COLUMN latency_min_ms;
+ALTER TABLE tasks DROP COLUMN latency_max_ms;
+ALTER TABLE tasks DROP COLUMN show_typing_indicator;
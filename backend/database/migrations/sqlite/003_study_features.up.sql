@@ -0,0 +1,312 @@
+-- ============================================
+-- Study features (SQLite)
+-- ============================================
+-- The SQLite version of ../003_study_features.up.sql. SQLite adds one column per
+-- ALTER TABLE and can't change a column's type; messages.timestamp already keeps
+-- milliseconds here.
+
+-- ============================================
+-- Tasks
+-- ============================================
+-- A/B comparison: [{ "modelId", "weight" }]; each new conversation is assigned one of
+-- these models by weight (recorded as conversations.model_id) instead of default_model
+ALTER TABLE tasks ADD COLUMN candidate_models JSON;
+-- Generation parameters (sent only when the model's registry entry lists them)
+ALTER TABLE tasks ADD COLUMN temperature DOUBLE NOT NULL DEFAULT 0.7;
+ALTER TABLE tasks ADD COLUMN max_tokens INT NOT NULL DEFAULT 2000;
+ALTER TABLE tasks ADD COLUMN top_p DOUBLE NOT NULL DEFAULT 0.9;
+ALTER TABLE tasks ADD COLUMN presence_penalty DOUBLE NOT NULL DEFAULT 0;
+ALTER TABLE tasks ADD COLUMN frequency_penalty DOUBLE NOT NULL DEFAULT 0;
+-- Context window: 'full', 'last_n', 'token_budget' or 'summary' (older turns summarised by a second model call)
+ALTER TABLE tasks ADD COLUMN context_policy VARCHAR(20) NOT NULL DEFAULT 'last_n';
+ALTER TABLE tasks ADD COLUMN context_last_n INT NOT NULL DEFAULT 10;
+ALTER TABLE tasks ADD COLUMN context_token_budget INT NOT NULL DEFAULT 4000;
+ALTER TABLE tasks ADD COLUMN context_summary_model VARCHAR(255);
+-- Relative share of new participants under the 'weighted' assignment strategy
+ALTER TABLE tasks ADD COLUMN assignment_weight DOUBLE NOT NULL DEFAULT 1;
+-- Completion rules: participant message limits, time limit from the first message,
+-- an AI end token, and whether the participant gets a Finish button
+ALTER TABLE tasks ADD COLUMN min_user_turns INT NOT NULL DEFAULT 0;
+ALTER TABLE tasks ADD COLUMN max_user_turns INT;
+ALTER TABLE tasks ADD COLUMN time_limit_minutes INT;
+ALTER TABLE tasks ADD COLUMN end_token VARCHAR(100);
+ALTER TABLE tasks ADD COLUMN allow_participant_finish BOOLEAN NOT NULL DEFAULT TRUE;
+-- Who writes the replies: 'model', 'wizard' (a researcher types them live), or the
+-- response script: 'script' (turn by turn), 'rules' (keyword/regex) or 'hybrid' (with the model)
+ALTER TABLE tasks ADD COLUMN response_mode VARCHAR(20) NOT NULL DEFAULT 'model';
+ALTER TABLE tasks ADD COLUMN response_script JSON;
+-- Reply latency: 'none', 'fixed' (latency_fixed_ms), 'typing' (reply length at
+-- latency_chars_per_second) or 'jitter' (random between latency_min_ms and latency_max_ms),
+-- counted from the participant's message; and whether the typing indicator shows meanwhile
+ALTER TABLE tasks ADD COLUMN latency_mode VARCHAR(20) NOT NULL DEFAULT 'none';
+ALTER TABLE tasks ADD COLUMN latency_fixed_ms INT NOT NULL DEFAULT 2000;
+ALTER TABLE tasks ADD COLUMN latency_chars_per_second DOUBLE NOT NULL DEFAULT 30;
+ALTER TABLE tasks ADD COLUMN latency_min_ms INT NOT NULL DEFAULT 1000;
+ALTER TABLE tasks ADD COLUMN latency_max_ms INT NOT NULL DEFAULT 4000;
+ALTER TABLE tasks ADD COLUMN show_typing_indicator BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- ============================================
+-- Participants Table (one row per person per research group)
+-- ============================================
+-- The assigned condition is in the assignments table
+CREATE TABLE participants (
+    id VARCHAR(36) PRIMARY KEY NOT NULL,
+    user_id VARCHAR(50) NOT NULL,
+    -- Recruitment-platform ID from the study URL (e.g. Prolific PID, MTurk worker ID)
+    external_id VARCHAR(255),
+    -- Browser device ID from the study page (see frontend utils/deviceId.ts)
+    device_id VARCHAR(100) NOT NULL,
+    first_seen_at TIMESTAMP DEFAULT (strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime')),
+    last_seen_at TIMESTAMP DEFAULT (strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime')),
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE (user_id, external_id)
+);
+CREATE INDEX idx_participants_study_device ON participants (user_id, device_id);
+
+-- ============================================
+-- Conversations
+-- ============================================
+-- Snapshot of the task the participant chatted under (kept even if the task is edited or deleted;
+-- task_id has no foreign key so it still names a deleted task)
+ALTER TABLE conversations ADD COLUMN task_id VARCHAR(36);
+ALTER TABLE conversations ADD COLUMN model_id VARCHAR(255);
+ALTER TABLE conversations ADD COLUMN system_prompt TEXT;
+ALTER TABLE conversations ADD COLUMN task_prompt TEXT;
+-- Participant who had the conversation (NULL for conversations from before participants were tracked)
+ALTER TABLE conversations ADD COLUMN participant_id VARCHAR(36) REFERENCES participants(id) ON DELETE SET NULL;
+-- Captured recruitment-platform URL parameters (e.g. PROLIFIC_PID, STUDY_ID, SESSION_ID)
+ALTER TABLE conversations ADD COLUMN url_params JSON;
+-- Set when the conversation ends: 'participant', 'max_turns', 'time_limit' or 'end_token'
+ALTER TABLE conversations ADD COLUMN finished_at TIMESTAMP NULL;
+ALTER TABLE conversations ADD COLUMN end_reason VARCHAR(20);
+-- Database clock at the first message, for time limits (created_at is New York wall-clock time).
+-- SQLite can't add a column with a computed default, so it is set on insert instead
+ALTER TABLE conversations ADD COLUMN started_at TIMESTAMP(3);
+-- Wizard-of-Oz mode: when the participant's still unanswered message arrived
+ALTER TABLE conversations ADD COLUMN awaiting_reply_at TIMESTAMP(3) NULL;
+-- Rolling summary for the 'summary' context policy and how many messages it covers
+ALTER TABLE conversations ADD COLUMN context_summary TEXT;
+ALTER TABLE conversations ADD COLUMN context_summary_count INT NOT NULL DEFAULT 0;
+CREATE INDEX idx_conversations_task_id ON conversations (task_id);
+CREATE INDEX idx_conversations_participant_id ON conversations (participant_id);
+
+-- ============================================
+-- Messages
+-- ============================================
+-- AI messages only: model and system prompt used to generate this reply
+ALTER TABLE messages ADD COLUMN model_id VARCHAR(255);
+ALTER TABLE messages ADD COLUMN system_prompt TEXT;
+-- AI messages only: 'model', 'script', or 'researcher' for a Wizard-of-Oz reply, and
+-- the model draft the researcher started from (if they asked for one)
+ALTER TABLE messages ADD COLUMN author VARCHAR(20);
+ALTER TABLE messages ADD COLUMN model_draft TEXT;
+-- AI messages only: time taken to produce the reply, and the artificial delay added
+-- before it was released under the task's latency settings
+ALTER TABLE messages ADD COLUMN generation_ms INT;
+ALTER TABLE messages ADD COLUMN delay_ms INT;
+-- AI messages only: context policy applied and the exact message list sent to the model
+ALTER TABLE messages ADD COLUMN context_policy VARCHAR(20);
+ALTER TABLE messages ADD COLUMN context JSON;
+
+-- ============================================
+-- Message Telemetry Table (one row per message, when measured)
+-- ============================================
+CREATE TABLE message_telemetry (
+    message_id VARCHAR(36) PRIMARY KEY NOT NULL,
+    conversation_id VARCHAR(36) NOT NULL,
+    -- Participant messages: how the message was composed, measured by the study page.
+    -- Counts cover the time since the participant's previous message.
+    typing_started_at TIMESTAMP(3) NULL,
+    first_keystroke_ms INT,     -- from the previous reply appearing to the first keystroke
+    compose_ms INT,             -- from the first keystroke to sending
+    keystrokes INT,
+    deletions INT,              -- Backspace/Delete presses
+    pastes INT,
+    pasted_chars INT,
+    blurs INT,                  -- times the participant left the tab or window
+    hidden_ms INT,              -- time spent away from it
+    -- Model replies: time to the first streamed token and token usage reported by LiteLLM
+    -- (total generation time is messages.generation_ms)
+    first_token_ms INT,
+    prompt_tokens INT,
+    completion_tokens INT,
+    total_tokens INT,
+
+    FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE,
+    FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+);
+CREATE INDEX idx_message_telemetry_conversation_id ON message_telemetry (conversation_id);
+
+-- ============================================
+-- LLM Usage Table (one row per LiteLLM call, for cost accounting)
+-- ============================================
+CREATE TABLE llm_usage (
+    id VARCHAR(36) PRIMARY KEY NOT NULL,
+    -- Research group, task and conversation the call was made for. The row outlives all three;
+    -- task_id has no foreign key so usage stays attributed to a deleted task
+    user_id VARCHAR(50),
+    task_id VARCHAR(36),
+    conversation_id VARCHAR(36),
+    -- 'reply' (participant turn), 'draft' (Wizard-of-Oz draft) or 'summary' (context summary)
+    purpose VARCHAR(20) NOT NULL,
+    model_id VARCHAR(255) NOT NULL,
+    -- As reported by the provider; NULL when it didn't report usage
+    prompt_tokens INT,
+    completion_tokens INT,
+    latency_ms INT,
+    created_at TIMESTAMP(3) DEFAULT (strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime')),
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
+    FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE SET NULL
+);
+CREATE INDEX idx_llm_usage_user_created ON llm_usage (user_id, created_at);
+CREATE INDEX idx_llm_usage_task_id ON llm_usage (task_id);
+CREATE INDEX idx_llm_usage_created_at ON llm_usage (created_at);
+
+-- ============================================
+-- Model Prices Table (USD per million tokens, set by the admin)
+-- ============================================
+CREATE TABLE model_prices (
+    model_id VARCHAR(255) PRIMARY KEY NOT NULL,
+    input_per_million DECIMAL(12, 4) NOT NULL,
+    output_per_million DECIMAL(12, 4) NOT NULL,
+    updated_at TIMESTAMP DEFAULT (strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime'))
+);
+
+-- ============================================
+-- Research Budgets Table (admin-set limits, one row per research group)
+-- ============================================
+CREATE TABLE research_budgets (
+    user_id VARCHAR(50) PRIMARY KEY NOT NULL,
+    -- Per calendar month, from llm_usage; NULL means no limit
+    monthly_token_limit BIGINT,
+    monthly_cost_limit_usd DECIMAL(12, 2),
+    -- Participant messages per conversation; the conversation ends when it is reached
+    conversation_message_cap INT,
+    -- The researcher is warned from this share of a monthly limit
+    warning_percent INT NOT NULL DEFAULT 80,
+    updated_at TIMESTAMP DEFAULT (strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime')),
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- ============================================
+-- Study Settings Table (one row per research group)
+-- ============================================
+CREATE TABLE study_settings (
+    user_id VARCHAR(50) PRIMARY KEY NOT NULL,
+    -- Condition assignment: 'random', 'block', 'least_filled' or 'weighted'
+    assignment_strategy VARCHAR(20) NOT NULL DEFAULT 'random',
+    -- Block randomization: participants per task in each block
+    block_repeats INT NOT NULL DEFAULT 1,
+    -- Study URL query parameters stored with each conversation (NULL: Prolific/MTurk/Qualtrics defaults)
+    capture_params JSON,
+    -- Shown to participants when they finish, or the URL they are sent back to ({PARAM} placeholders filled in)
+    completion_code VARCHAR(100),
+    completion_url TEXT,
+    updated_at TIMESTAMP DEFAULT (strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime')),
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- ============================================
+-- Assignments Table (participant → task, made once per study)
+-- ============================================
+CREATE TABLE assignments (
+    id VARCHAR(36) PRIMARY KEY NOT NULL,
+    user_id VARCHAR(50) NOT NULL,
+    participant_id VARCHAR(36) NOT NULL,
+    task_id VARCHAR(36) NOT NULL,
+    strategy VARCHAR(20) NOT NULL,
+    -- Block randomization only: which block the assignment was drawn from
+    block_number INT,
+    assigned_at TIMESTAMP DEFAULT (strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime')),
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+    FOREIGN KEY (participant_id) REFERENCES participants(id) ON DELETE CASCADE,
+    UNIQUE (user_id, participant_id)
+);
+CREATE INDEX idx_assignments_task_id ON assignments (task_id);
+
+-- ============================================
+-- Consent Documents Table (versioned; a new version is added on every change)
+-- ============================================
+CREATE TABLE consent_documents (
+    id VARCHAR(36) PRIMARY KEY NOT NULL,
+    user_id VARCHAR(50) NOT NULL,
+    version INT NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    -- Markdown shown to participants before the study
+    body TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT (strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime')),
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE (user_id, version)
+);
+
+-- ============================================
+-- Consents Table (a participant agreeing to a consent document version)
+-- ============================================
+CREATE TABLE consents (
+    id VARCHAR(36) PRIMARY KEY NOT NULL,
+    user_id VARCHAR(50) NOT NULL,
+    participant_id VARCHAR(36) NOT NULL,
+    document_id VARCHAR(36) NOT NULL,
+    version INT NOT NULL,
+    -- Browser device ID the participant consented from
+    device_id VARCHAR(100),
+    consented_at TIMESTAMP DEFAULT (strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime')),
+
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (participant_id) REFERENCES participants(id) ON DELETE CASCADE,
+    FOREIGN KEY (document_id) REFERENCES consent_documents(id) ON DELETE CASCADE,
+    UNIQUE (participant_id, document_id)
+);
+CREATE INDEX idx_consents_user_id ON consents (user_id);
+
+-- ============================================
+-- Questionnaire Items Table (pre- and post-chat surveys per task)
+-- ============================================
+CREATE TABLE questionnaire_items (
+    id VARCHAR(36) PRIMARY KEY NOT NULL,
+    task_id VARCHAR(36) NOT NULL,
+    phase VARCHAR(20) NOT NULL CHECK (phase IN ('pre', 'post')),
+    position INT NOT NULL DEFAULT 0,
+    item_type VARCHAR(20) NOT NULL CHECK (item_type IN ('likert', 'choice', 'text')),
+    prompt TEXT NOT NULL,
+    -- Likert: scale point labels, lowest first; choice: the options
+    options JSON,
+    required BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT (strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime')),
+
+    FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+CREATE INDEX idx_questionnaire_items_task_phase ON questionnaire_items (task_id, phase, position);
+
+-- ============================================
+-- Questionnaire Responses Table (one row per participant answer)
+-- ============================================
+CREATE TABLE questionnaire_responses (
+    id VARCHAR(36) PRIMARY KEY NOT NULL,
+    -- task_id has no foreign key so the answers outlive a deleted task, like its conversations
+    task_id VARCHAR(36) NOT NULL,
+    participant_id VARCHAR(36) NOT NULL,
+    -- Pre-chat answers are linked once the participant's conversation starts
+    conversation_id VARCHAR(36),
+    phase VARCHAR(20) NOT NULL CHECK (phase IN ('pre', 'post')),
+    -- Snapshot of the item (kept even if the questionnaire is edited later)
+    item_id VARCHAR(36) NOT NULL,
+    item_type VARCHAR(20) NOT NULL,
+    item_prompt TEXT NOT NULL,
+    -- Likert: scale point (1 = first label); choice: option text; NULL when skipped
+    answer TEXT,
+    submitted_at TIMESTAMP DEFAULT (strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime')),
+
+    FOREIGN KEY (participant_id) REFERENCES participants(id) ON DELETE CASCADE,
+    FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE SET NULL,
+    UNIQUE (participant_id, task_id, phase, item_id)
+);
+CREATE INDEX idx_questionnaire_responses_task_id ON questionnaire_responses (task_id);
+CREATE INDEX idx_questionnaire_responses_conversation_id ON questionnaire_responses (conversation_id);
@@ -49,7 +49,6 @@ if %errorlevel% neq 0 (
 echo [OK] MySQL connection successful
 echo.
 
-REM AI-SUGGESTION: Create/select database explicitly since schema.sql has CREATE DATABASE/USE commented out.
 echo Ensuring database exists...
 "%MYSQL_BIN%" -u%DB_USER% -p%DB_PASSWORD% -e "CREATE DATABASE IF NOT EXISTS human_ai_interaction CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;" >nul 2>&1
 if %errorlevel% neq 0 (
@@ -58,16 +57,7 @@ if %errorlevel% neq 0 (
     exit /b 1
 )
 
-REM Import schema into the target database
-echo Importing schema into human_ai_interaction...
-"%MYSQL_BIN%" -u%DB_USER% -p%DB_PASSWORD% --database=human_ai_interaction < schema.sql
-if %errorlevel% equ 0 (
-    echo [OK] Database created successfully!
-) else (
-    echo [ERROR] Failed to create database
-    pause
-    exit /b 1
-)
+echo [OK] Database ready (tables are created by the migrations below)
 
 echo.
 echo Creating database user (optional)...
@@ -123,6 +113,21 @@ if /i "%CREATE_USER%"=="y" (
     echo [WARNING] Using root user (not recommended for production)
 )
 
+REM Create the tables and default data from the migrations in migrations\
+echo.
+echo Applying migrations...
+pushd ..
+call npm run migrate
+set MIGRATE_RESULT=%errorlevel%
+popd
+if %MIGRATE_RESULT% neq 0 (
+    echo [ERROR] Failed to apply migrations
+    echo Run 'npm install' in backend\, then 'npm run migrate'.
+    pause
+    exit /b 1
+)
+echo [OK] Migrations applied
+
 echo.
 echo ============================================
 echo [OK] Database setup complete!
@@ -145,8 +150,7 @@ echo [WARNING] Remember to change the admin password!
 echo.
 echo Next steps:
 echo   1. cd ..
-echo   2. npm install mysql2
-echo   3. npm run dev
+echo   2. npm run dev
 echo.
 pause
 
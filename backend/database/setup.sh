@@ -49,7 +49,6 @@ fi
 echo -e "${GREEN}✅ MySQL connection successful${NC}"
 echo ""
 
-# AI-SUGGESTION: Create/select database explicitly since schema.sql has CREATE DATABASE/USE commented out.
 echo "📦 Ensuring database exists..."
 mysql -u"$DB_USER" -p"$DB_PASSWORD" -e "CREATE DATABASE IF NOT EXISTS human_ai_interaction CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;" > /dev/null 2>&1
 if [ $? -ne 0 ]; then
@@ -57,16 +56,7 @@ if [ $? -ne 0 ]; then
     exit 1
 fi
 
-# Import schema into the target database
-echo "📦 Importing schema into human_ai_interaction..."
-mysql -u"$DB_USER" -p"$DB_PASSWORD" --database=human_ai_interaction < schema.sql
-
-if [ $? -eq 0 ]; then
-    echo -e "${GREEN}✅ Database created successfully!${NC}"
-else
-    echo -e "${RED}❌ Failed to create database${NC}"
-    exit 1
-fi
+echo -e "${GREEN}✅ Database ready (tables are created by the migrations below)${NC}"
 
 echo ""
 echo "🔐 Creating database user (optional)..."
@@ -127,6 +117,19 @@ EOF
     echo -e "${YELLOW}⚠️  Using root user (not recommended for production)${NC}"
 fi
 
+# Create the tables and default data from the migrations in migrations/
+echo ""
+echo "📦 Applying migrations..."
+(cd .. && npm run migrate)
+
+if [ $? -eq 0 ]; then
+    echo -e "${GREEN}✅ Migrations applied${NC}"
+else
+    echo -e "${RED}❌ Failed to apply migrations${NC}"
+    echo "Run 'npm install' in backend/, then 'npm run migrate'."
+    exit 1
+fi
+
 echo ""
 echo "============================================"
 echo -e "${GREEN}✅ Database setup complete!${NC}"
@@ -149,7 +152,6 @@ echo -e "${YELLOW}⚠️  Remember to change the admin password!${NC}"
 echo ""
 echo "Next steps:"
 echo "  1. cd .."
-echo "  2. npm install mysql2"
-echo "  3. npm run dev"
+echo "  2. npm run dev"
 echo ""
 
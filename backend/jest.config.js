@@ -0,0 +1,8 @@
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  setupFiles: ['<rootDir>/__tests__/setup.ts'],
+  // The app logs to the console as it works; set TEST_LOGS=1 to see it
+  silent: !process.env.TEST_LOGS
+};
@@ -1,23 +1,17 @@
-import mysql from 'mysql2/promise';
+import path from 'path';
 import dotenv from 'dotenv';
+import { DbDriver, DriverName, Queryable } from '../types/driver.types';
+import { createMySqlDriver, MySqlConfig } from './drivers/mysql.driver';
+import { createSqliteDriver } from './drivers/sqlite.driver';
 
 // Load environment variables FIRST
 dotenv.config();
 
-// Database configuration interface
-interface DatabaseConfig {
-  host: string;
-  port: number;
-  user: string;
-  password: string;
-  database: string;
-  waitForConnections: boolean;
-  connectionLimit: number;
-  queueLimit: number;
-}
+// 'mysql' (default) or 'sqlite' for local development and tests
+export const driverName: DriverName = process.env.DB_DRIVER === 'sqlite' ? 'sqlite' : 'mysql';
 
 // Database configuration from environment variables
-const dbConfig: DatabaseConfig = {
+const dbConfig: MySqlConfig = {
   host: process.env.DB_HOST || 'localhost',
   port: parseInt(process.env.DB_PORT || '3306'),
   user: process.env.DB_USER || 'root',
@@ -28,36 +22,26 @@ const dbConfig: DatabaseConfig = {
   queueLimit: 0,
 };
 
-// Create connection pool
-const pool = mysql.createPool(dbConfig);
+// SQLite database file, relative to the backend directory; ':memory:' for a throwaway database
+const sqliteFile = process.env.SQLITE_FILE === ':memory:'
+  ? ':memory:'
+  : path.resolve(process.env.SQLITE_FILE || 'database/local.sqlite');
+
+const driver: DbDriver = driverName === 'sqlite' ? createSqliteDriver(sqliteFile) : createMySqlDriver(dbConfig);
+
+// SQL that differs between MySQL and SQLite (see types/driver.types.ts)
+export const dialect = driver.dialect;
 
 // Test database connection
-export const testConnection = async (): Promise<boolean> => {
-  try {
-    const connection = await pool.getConnection();
-    console.log('✅ Database connected successfully');
-    console.log(`📊 Database: ${dbConfig.database}`);
-    console.log(`🏠 Host: ${dbConfig.host}:${dbConfig.port}`);
-    console.log(`👤 User: ${dbConfig.user}`);
-    console.log(`🔐 Password: ${dbConfig.password ? 'SET' : 'NOT SET'}`);
-    connection.release();
-    return true;
-  } catch (error) {
-    console.error('❌ Database connection failed:', error);
-    console.error(`🔍 Attempted connection with user: ${dbConfig.user}`);
-    console.error(`🔍 Password set: ${dbConfig.password ? 'YES' : 'NO'}`);
-    return false;
-  }
-};
+export const testConnection = (): Promise<boolean> => driver.testConnection();
 
-// Execute query with connection from pool
+// Execute query
 export const query = async <T = any>(
   sql: string,
   params?: any[]
 ): Promise<T> => {
   try {
-    const [rows] = await pool.execute(sql, params);
-    return rows as T;
+    return await driver.query<T>(sql, params);
   } catch (error) {
     console.error('❌ Database query error:', error);
     throw error;
@@ -70,56 +54,37 @@ export const queryOne = async <T = any>(
   params?: any[]
 ): Promise<T | null> => {
   try {
-    const [rows] = await pool.execute(sql, params);
-    const result = rows as T[];
-    return result.length > 0 ? result[0] : null;
+    return await driver.queryOne<T>(sql, params);
   } catch (error) {
     console.error('❌ Database query error:', error);
     throw error;
   }
 };
 
-// Execute transaction
+// Execute transaction; the callback runs its statements on `connection`
 export const transaction = async <T>(
-  callback: (connection: mysql.PoolConnection) => Promise<T>
+  callback: (connection: Queryable) => Promise<T>
 ): Promise<T> => {
-  const connection = await pool.getConnection();
   try {
-    await connection.beginTransaction();
-    const result = await callback(connection);
-    await connection.commit();
-    return result;
+    return await driver.transaction(callback);
   } catch (error) {
-    await connection.rollback();
     console.error('❌ Transaction error:', error);
     throw error;
-  } finally {
-    connection.release();
   }
 };
 
-// Get connection from pool (for custom operations)
-export const getConnection = async (): Promise<mysql.PoolConnection> => {
-  return await pool.getConnection();
-};
-
-// Close all connections in pool
+// Close all connections
 export const closePool = async (): Promise<void> => {
-  await pool.end();
+  await driver.close();
   console.log('🔌 Database connection pool closed');
 };
 
-// Export pool for direct access if needed
-export { pool };
-
 // Export default connection
 export default {
   query,
   queryOne,
   transaction,
-  getConnection,
   testConnection,
   closePool,
-  pool,
+  dialect,
 };
-
@@ -0,0 +1,93 @@
+import mysql from 'mysql2/promise';
+import { DbDriver, Queryable, SqlDialect } from '../../types/driver.types';
+
+// Database configuration interface
+export interface MySqlConfig {
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+  database: string;
+  waitForConnections: boolean;
+  connectionLimit: number;
+  queueLimit: number;
+}
+
+export const mysqlDialect: SqlDialect = {
+  name: 'mysql',
+  now: 'CURRENT_TIMESTAMP(3)',
+  secondsSince: column => `TIMESTAMPDIFF(SECOND, ${column}, CURRENT_TIMESTAMP(3))`,
+  day: column => `DATE_FORMAT(${column}, '%Y-%m-%d')`,
+  monthStart: "DATE_FORMAT(CURRENT_TIMESTAMP, '%Y-%m-01')",
+  daysAgo: 'CURRENT_TIMESTAMP - INTERVAL ? DAY',
+  charLength: expression => `CHAR_LENGTH(${expression})`,
+  forUpdate: ' FOR UPDATE',
+  tableExists: `SELECT 1 FROM information_schema.TABLES
+                WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ?`,
+  upsert: (conflictColumns, updateColumns) =>
+    updateColumns.length === 0
+      ? `ON DUPLICATE KEY UPDATE ${conflictColumns[0]} = ${conflictColumns[0]}`
+      : `ON DUPLICATE KEY UPDATE ${updateColumns.map(column => `${column} = VALUES(${column})`).join(', ')}`,
+  isDuplicateKey: error => (error as { code?: string } | null)?.code === 'ER_DUP_ENTRY'
+};
+
+const queryable = (executor: mysql.Pool | mysql.PoolConnection): Queryable => ({
+  async query<T>(sql: string, params?: any[]): Promise<T> {
+    const [rows] = await executor.execute(sql, params);
+    return rows as T;
+  },
+  async queryOne<T>(sql: string, params?: any[]): Promise<T | null> {
+    const [rows] = await executor.execute(sql, params);
+    const result = rows as T[];
+    return result.length > 0 ? result[0] : null;
+  }
+});
+
+/**
+ * MySQL through a mysql2 connection pool
+ */
+export const createMySqlDriver = (dbConfig: MySqlConfig): DbDriver => {
+  const pool = mysql.createPool(dbConfig);
+
+  return {
+    ...queryable(pool),
+    dialect: mysqlDialect,
+
+    async testConnection() {
+      try {
+        const connection = await pool.getConnection();
+        console.log('✅ Database connected successfully');
+        console.log(`📊 Database: ${dbConfig.database}`);
+        console.log(`🏠 Host: ${dbConfig.host}:${dbConfig.port}`);
+        console.log(`👤 User: ${dbConfig.user}`);
+        console.log(`🔐 Password: ${dbConfig.password ? 'SET' : 'NOT SET'}`);
+        connection.release();
+        return true;
+      } catch (error) {
+        console.error('❌ Database connection failed:', error);
+        console.error(`🔍 Attempted connection with user: ${dbConfig.user}`);
+        console.error(`🔍 Password set: ${dbConfig.password ? 'YES' : 'NO'}`);
+        return false;
+      }
+    },
+
+    async transaction(callback) {
+      const connection = await pool.getConnection();
+      try {
+        await connection.beginTransaction();
+        const result = await callback(queryable(connection));
+        await connection.commit();
+        return result;
+      } catch (error) {
+        await connection.rollback();
+        throw error;
+      } finally {
+        connection.release();
+      }
+    },
+
+    async close() {
+      await pool.end();
+    }
+  };
+};
@@ -0,0 +1,169 @@
+import type BetterSqlite3 from 'better-sqlite3';
+import { DbDriver, Queryable, SqlDialect, WriteResult } from '../../types/driver.types';
+
+/**
+ * SQLite for local development and tests, through better-sqlite3 (an optional
+ * dependency, loaded only when DB_DRIVER=sqlite).
+ *
+ * Rows come back the way mysql2 returns them: JSON columns parsed, TIMESTAMP and DATETIME
+ * columns as Dates. Timestamps are stored as local wall-clock text ('YYYY-MM-DD HH:MM:SS.sss'),
+ * like the MySQL server clock, so the schema's defaults and `dialect.now` use 'localtime'.
+ */
+
+const NOW = "strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime')";
+
+export const sqliteDialect: SqlDialect = {
+  name: 'sqlite',
+  now: NOW,
+  secondsSince: column => `CAST((julianday('now', 'localtime') - julianday(${column})) * 86400 AS INTEGER)`,
+  day: column => `strftime('%Y-%m-%d', ${column})`,
+  monthStart: "strftime('%Y-%m-01 00:00:00', 'now', 'localtime')",
+  daysAgo: "strftime('%Y-%m-%d %H:%M:%f', 'now', 'localtime', '-' || ? || ' days')",
+  charLength: expression => `LENGTH(${expression})`,
+  forUpdate: '',
+  tableExists: "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?",
+  upsert: (conflictColumns, updateColumns) =>
+    updateColumns.length === 0
+      ? `ON CONFLICT (${conflictColumns.join(', ')}) DO NOTHING`
+      : `ON CONFLICT (${conflictColumns.join(', ')}) DO UPDATE SET ${updateColumns.map(column => `${column} = excluded.${column}`).join(', ')}`,
+  isDuplicateKey: error => {
+    const code = (error as { code?: string } | null)?.code;
+    return code === 'SQLITE_CONSTRAINT_UNIQUE' || code === 'SQLITE_CONSTRAINT_PRIMARYKEY';
+  }
+};
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+// Parameters as mysql2 sends them: booleans as 1/0, Dates as local wall-clock time
+const toSqlite = (value: unknown): unknown => {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) {
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())} ` +
+      `${pad(value.getHours())}:${pad(value.getMinutes())}:${pad(value.getSeconds())}.${pad(value.getMilliseconds(), 3)}`;
+  }
+  return value;
+};
+
+const TIMESTAMP_TEXT = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,3}))?/;
+
+const toDate = (value: string): Date | string => {
+  const match = TIMESTAMP_TEXT.exec(value);
+  if (!match) return value;
+  const [, year, month, day, hour, minute, second, ms = '0'] = match;
+  return new Date(+year, +month - 1, +day, +hour, +minute, +second, +ms.padEnd(3, '0'));
+};
+
+// Convert a row's values by their columns' declared types
+const fromSqlite = (row: Record<string, unknown>, types: Map<string, string>): Record<string, unknown> => {
+  for (const [name, type] of types) {
+    const value = row[name];
+    if (typeof value !== 'string') continue;
+    if (type === 'JSON') {
+      try {
+        row[name] = JSON.parse(value);
+      } catch {
+        // Leave text that isn't valid JSON as it is
+      }
+    } else if (type.startsWith('TIMESTAMP') || type.startsWith('DATETIME')) {
+      row[name] = toDate(value);
+    }
+  }
+  return row;
+};
+
+const run = (db: BetterSqlite3.Database, sql: string, params: any[] = []): unknown => {
+  const statement = db.prepare(sql);
+  const values = params.map(toSqlite);
+
+  if (!statement.reader) {
+    const info = statement.run(values);
+    return { affectedRows: info.changes, insertId: Number(info.lastInsertRowid) } satisfies WriteResult;
+  }
+
+  const types = new Map(
+    statement.columns()
+      .filter(column => column.type)
+      .map(column => [column.name, (column.type as string).toUpperCase()])
+  );
+  return (statement.all(values) as Record<string, unknown>[]).map(row => fromSqlite(row, types));
+};
+
+/**
+ * SQLite in `file` (':memory:' for a database that lasts as long as the process).
+ *
+ * There is one connection, so statements are queued: a transaction holds the queue
+ * until it finishes, and its callback must use the connection it is given, not the
+ * driver (which would wait for the transaction to end).
+ */
+export const createSqliteDriver = (file: string): DbDriver => {
+  let database: BetterSqlite3.Database | null = null;
+
+  const open = async (): Promise<BetterSqlite3.Database> => {
+    if (!database) {
+      const { default: Database } = await import('better-sqlite3');
+      database = new Database(file);
+      database.pragma('foreign_keys = ON');
+      database.pragma('busy_timeout = 5000');
+      if (file !== ':memory:') database.pragma('journal_mode = WAL');
+    }
+    return database;
+  };
+
+  let queue: Promise<unknown> = Promise.resolve();
+  const exclusive = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const queryable = (db: () => Promise<BetterSqlite3.Database>): Queryable => ({
+    async query<T>(sql: string, params?: any[]): Promise<T> {
+      return run(await db(), sql, params) as T;
+    },
+    async queryOne<T>(sql: string, params?: any[]): Promise<T | null> {
+      const rows = run(await db(), sql, params) as T[];
+      return rows.length > 0 ? rows[0] : null;
+    }
+  });
+
+  const direct = queryable(open);
+
+  return {
+    dialect: sqliteDialect,
+
+    query: (sql, params) => exclusive(() => direct.query(sql, params)),
+    queryOne: (sql, params) => exclusive(() => direct.queryOne(sql, params)),
+
+    async testConnection() {
+      try {
+        const { version } = (await open()).prepare('SELECT sqlite_version() AS version').get() as { version: string };
+        console.log('✅ Database connected successfully');
+        console.log(`📊 Database: SQLite ${version} (${file})`);
+        return true;
+      } catch (error) {
+        console.error('❌ Database connection failed:', error);
+        console.error(`🔍 SQLite file: ${file} (is better-sqlite3 installed?)`);
+        return false;
+      }
+    },
+
+    transaction: callback => exclusive(async () => {
+      const db = await open();
+      db.exec('BEGIN IMMEDIATE');
+      try {
+        const result = await callback(direct);
+        db.exec('COMMIT');
+        return result;
+      } catch (error) {
+        db.exec('ROLLBACK');
+        throw error;
+      }
+    }),
+
+    async close() {
+      await queue;
+      database?.close();
+      database = null;
+    }
+  };
+};
@@ -0,0 +1,31 @@
+import dotenv from 'dotenv';
+import { SignOptions } from 'jsonwebtoken';
+
+// Load environment variables FIRST
+dotenv.config();
+
+// Whole-number setting from the environment, at least `min`
+const envInt = (name: string, fallback: number, min = 0): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isInteger(value) && value >= min ? value : fallback;
+};
+
+// Requests per minute allowed on the public participant routes; 0 turns a limit off
+export const rateLimits = {
+  perIp: envInt('RATE_LIMIT_IP_PER_MINUTE', 60),
+  perDevice: envInt('RATE_LIMIT_DEVICE_PER_MINUTE', 20),
+  perStudy: envInt('RATE_LIMIT_STUDY_PER_MINUTE', 600),
+  windowMs: 60 * 1000
+};
+
+// Size limits on what participants can write into a conversation
+export const payloadLimits = {
+  jsonBody: process.env.JSON_BODY_LIMIT || '100kb',
+  messageLength: envInt('MAX_MESSAGE_LENGTH', 10000, 1),
+  conversationMessages: envInt('MAX_CONVERSATION_MESSAGES', 500, 2)
+};
+
+// Signed study-session tokens the study page gets when it joins a study
+export const studySessionConfig = {
+  expiresIn: (process.env.STUDY_SESSION_EXPIRES_IN || '12h') as SignOptions['expiresIn']
+};
@@ -3,6 +3,13 @@ import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
 import db from '../config/database';
 import { configService } from '../services/config.service';
+import { pushService, pushChannels } from '../services/push.service';
+import { usageService } from '../services/usage.service';
+import { budgetService, DEFAULT_BUDGET } from '../services/budget.service';
+import { capabilityService } from '../services/capability.service';
+import { ModelPrice } from '../types/usage.types';
+import { ModelCapabilities } from '../types/capability.types';
+import { ResearchBudget } from '../types/budget.types';
 
 /**
  * Admin login — validates ADMIN_KEY from .env, returns a short-lived JWT with role: 'admin'
@@ -36,7 +43,7 @@ export const adminLogin = async (req: Request, res: Response): Promise<void> =>
 };
 
 /**
- * Get all users with task and conversation counts
+ * Get all users with task, conversation and consent counts
  */
 export const getAllUsers = async (_req: Request, res: Response): Promise<void> => {
   try {
@@ -52,7 +59,8 @@ export const getAllUsers = async (_req: Request, res: Response): Promise<void> =
          u.created_at,
          COUNT(DISTINCT t.id)  AS task_count,
          COUNT(DISTINCT c.id)  AS conversation_count,
-         COUNT(DISTINCT m.id)  AS message_count
+         COUNT(DISTINCT m.id)  AS message_count,
+         (SELECT COUNT(*) FROM consents cs WHERE cs.user_id = u.id) AS consent_count
        FROM users u
        LEFT JOIN tasks         t ON t.user_id = u.id
        LEFT JOIN conversations c ON c.user_id = u.id
@@ -75,7 +83,8 @@ export const getAllUsers = async (_req: Request, res: Response): Promise<void> =
         createdAt: u.created_at,
         taskCount: Number(u.task_count),
         conversationCount: Number(u.conversation_count),
-        messageCount: Number(u.message_count)
+        messageCount: Number(u.message_count),
+        consentCount: Number(u.consent_count)
       }))
     });
   } catch (error) {
@@ -97,8 +106,10 @@ export const getAllConversations = async (_req: Request, res: Response): Promise
          c.title,
          c.ai_model_name,
          c.ai_model_personality,
+         c.model_id,
          c.created_at,
          c.last_message_at,
+         c.finished_at,
          u.id       AS user_id,
          u.username AS username,
          COUNT(m.id) AS message_count
@@ -106,7 +117,7 @@ export const getAllConversations = async (_req: Request, res: Response): Promise
        LEFT JOIN users    u ON c.user_id  = u.id
        LEFT JOIN messages m ON m.conversation_id = c.id
        GROUP BY c.id, c.title, c.ai_model_name, c.ai_model_personality,
-                c.created_at, c.last_message_at,
+                c.model_id, c.created_at, c.last_message_at, c.finished_at,
                 u.id, u.username
        ORDER BY c.last_message_at DESC`,
       []
@@ -121,8 +132,10 @@ export const getAllConversations = async (_req: Request, res: Response): Promise
         title: c.title,
         aiModelName: c.ai_model_name,
         aiModelPersonality: c.ai_model_personality,
+        modelId: c.model_id,
         createdAt: c.created_at,
         lastMessageAt: c.last_message_at,
+        finishedAt: c.finished_at,
         userId: c.user_id,
         username: c.username,
         messageCount: Number(c.message_count)
@@ -143,21 +156,57 @@ export const getConversationMessages = async (req: Request, res: Response): Prom
 
     console.log(`📨 [Admin] Fetching messages for conversation: ${conversationId}`);
 
+    const conversation = await db.queryOne(
+      `SELECT task_id, model_id, system_prompt, task_prompt
+       FROM conversations
+       WHERE id = ?`,
+      [conversationId]
+    );
+
     const messages = await db.query(
-      `SELECT id, text, sender, timestamp
+      `SELECT id, text, sender, model_id, system_prompt, author, context_policy, context, timestamp
        FROM messages
        WHERE conversation_id = ?
        ORDER BY timestamp ASC`,
       [conversationId]
     );
 
-    res.json({ success: true, data: messages });
+    res.json({
+      success: true,
+      data: messages.map((m: any) => ({
+        id: m.id,
+        text: m.text,
+        sender: m.sender,
+        timestamp: m.timestamp,
+        modelId: m.model_id,
+        systemPrompt: m.system_prompt,
+        author: m.author,
+        contextPolicy: m.context_policy,
+        context: m.context
+      })),
+      // Task snapshot the conversation was recorded under
+      conversation: conversation
+        ? {
+            taskId: conversation.task_id,
+            modelId: conversation.model_id,
+            systemPrompt: conversation.system_prompt,
+            taskPrompt: conversation.task_prompt
+          }
+        : null
+    });
   } catch (error) {
     console.error('❌ [Admin] Error fetching messages:', error);
     res.status(500).json({ success: false, message: 'Failed to fetch messages' });
   }
 };
 
+/**
+ * Live events for every research group's conversations (SSE)
+ */
+export const subscribeToAdminEvents = (_req: Request, res: Response): void => {
+  pushService.subscribe(res, [pushChannels.admin]);
+};
+
 /**
  * Create a new researcher (user)
  */
@@ -205,7 +254,8 @@ export const createUser = async (req: Request, res: Response): Promise<void> =>
         createdAt: created.created_at,
         taskCount: 0,
         conversationCount: 0,
-        messageCount: 0
+        messageCount: 0,
+        consentCount: 0
       }
     });
   } catch (error) {
@@ -265,3 +315,129 @@ export const toggleUserStatus = async (req: Request, res: Response): Promise<voi
     res.status(500).json({ success: false, message: 'Failed to update researcher status' });
   }
 };
+
+/**
+ * Model usage and cost over the last `?days=` days (default 30), by researcher, task, day and model
+ */
+export const getUsageReport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const days = usageService.parseDays(req.query.days);
+    console.log(`💲 [Admin] Fetching usage for the last ${days} days`);
+
+    res.json({ success: true, data: await usageService.getReport(null, days) });
+  } catch (error) {
+    console.error('❌ [Admin] Error fetching usage:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch usage' });
+  }
+};
+
+/**
+ * Get the per-model price table
+ */
+export const getModelPrices = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({ success: true, data: await usageService.getPrices() });
+  } catch (error) {
+    console.error('❌ [Admin] Error fetching model prices:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch model prices' });
+  }
+};
+
+/**
+ * Replace the per-model price table (USD per million input and output tokens)
+ */
+export const updateModelPrices = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const prices = req.body?.prices as ModelPrice[];
+
+    const priceError = usageService.validatePrices(prices);
+    if (priceError) {
+      res.status(400).json({ success: false, message: priceError });
+      return;
+    }
+
+    res.json({ success: true, data: await usageService.setPrices(prices) });
+  } catch (error) {
+    console.error('❌ [Admin] Error updating model prices:', error);
+    res.status(500).json({ success: false, message: 'Failed to update model prices' });
+  }
+};
+
+/**
+ * Get the model capability registry
+ */
+export const getModelRegistry = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({ success: true, data: await capabilityService.list() });
+  } catch (error) {
+    console.error('❌ [Admin] Error fetching model registry:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch model registry' });
+  }
+};
+
+/**
+ * Replace the model capability registry (models and * patterns)
+ */
+export const updateModelRegistry = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const models = req.body?.models as ModelCapabilities[];
+
+    const registryError = capabilityService.validate(models);
+    if (registryError) {
+      res.status(400).json({ success: false, message: registryError });
+      return;
+    }
+
+    res.json({ success: true, data: await capabilityService.save(models) });
+  } catch (error) {
+    console.error('❌ [Admin] Error updating model registry:', error);
+    res.status(500).json({ success: false, message: 'Failed to update model registry' });
+  }
+};
+
+/**
+ * Monthly budget, message cap and month-to-date use for every research group, by user ID
+ */
+export const getBudgets = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({ success: true, data: await budgetService.getAllStatuses() });
+  } catch (error) {
+    console.error('❌ [Admin] Error fetching budgets:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch budgets' });
+  }
+};
+
+/**
+ * Set a research group's monthly token/USD budget, message cap per conversation and
+ * warning threshold; an omitted or null limit means no limit
+ */
+export const updateBudget = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const body = req.body ?? {};
+    const budget: ResearchBudget = {
+      monthlyTokenLimit: body.monthlyTokenLimit ?? null,
+      monthlyCostLimitUsd: body.monthlyCostLimitUsd ?? null,
+      conversationMessageCap: body.conversationMessageCap ?? null,
+      warningPercent: body.warningPercent ?? DEFAULT_BUDGET.warningPercent
+    };
+
+    const budgetError = budgetService.validateBudget(budget);
+    if (budgetError) {
+      res.status(400).json({ success: false, message: budgetError });
+      return;
+    }
+
+    const user = await db.queryOne('SELECT id FROM users WHERE id = ?', [userId]);
+    if (!user) {
+      res.status(404).json({ success: false, message: 'Researcher not found' });
+      return;
+    }
+
+    await budgetService.setBudget(userId, budget);
+    res.json({ success: true, data: await budgetService.getStatus(userId) });
+  } catch (error) {
+    console.error('❌ [Admin] Error updating budget:', error);
+    res.status(500).json({ success: false, message: 'Failed to update budget' });
+  }
+};
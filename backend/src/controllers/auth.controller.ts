@@ -39,7 +39,8 @@ export const login = async (
       { 
         id: user.id,
         username: user.username,
-        email: user.email
+        email: user.email,
+        role: 'researcher'
       },
       jwtSecret,
       { expiresIn: '24h' }
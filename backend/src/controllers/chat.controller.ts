@@ -1,142 +1,292 @@
 import { Request, Response, NextFunction } from 'express';
-import { ChatRequest, ChatResponse, Message } from '../types';
+import { AISettings, ChatFinishRequest, ChatRequest, ChatResponse, Message } from '../types';
 import { AppError } from '../middleware/error.middleware';
+import { StudySession, StudySessionRequest } from '../middleware/auth.middleware';
+import { payloadLimits } from '../config/limits';
 import { v4 as uuidv4 } from 'uuid';
-import { liteLLMService } from '../services/litellm.service';
+import { liteLLMService, DEFAULT_GENERATION_PARAMS } from '../services/litellm.service';
+import { conversationService } from '../services/conversation.service';
+import { chatService, GeneratedReply } from '../services/chat.service';
+import { participantService } from '../services/participant.service';
+import { studyService } from '../services/study.service';
+import { completionService } from '../services/completion.service';
+import { questionnaireService } from '../services/questionnaire.service';
+import { consentService } from '../services/consent.service';
+import { wizardService } from '../services/wizard.service';
+import { scriptService } from '../services/script.service';
+import { latencyService } from '../services/latency.service';
+import { telemetryService } from '../services/telemetry.service';
+import { budgetService, BUDGET_EXCEEDED_MESSAGE } from '../services/budget.service';
+import { comparisonService } from '../services/comparison.service';
+import { pushService, pushChannels } from '../services/push.service';
 import { LiteLLMMessage } from '../types/litellm.types';
+import { ContextPolicy } from '../types/context.types';
+import { Task } from '../types/database.types';
+import { CompletionRules, EndReason } from '../types/completion.types';
+import { LatencySettings } from '../types/latency.types';
+import { ModelTelemetry } from '../types/telemetry.types';
+import { UsageAttribution } from '../types/usage.types';
 
 /**
- * Generate AI response using LiteLLM service
- * 
- * Flow:
- * 1. System Prompt: Sets the AI's behavior and personality (from task settings)
- * 2. Task Prompt: Displayed as initial greeting to user (shown in chat UI)
- * 3. Conversation History: Previous messages for context
- * 4. User Message: Current user input
- * 
- * The System Prompt instructs the AI on HOW to respond
- * The Task Prompt tells the USER what the task is about
+ * The study session (see requireStudySession) must be for the participant and task the
+ * request names
+ */
+const checkSession = (session: StudySession | undefined, taskId: unknown, participantId: unknown) => {
+  if (!session || session.taskId !== taskId || session.participantId !== participantId) {
+    throw new AppError(
+      'This study session is for a different participant or task. Please reload the study page.',
+      403,
+      'study_session_required'
+    );
+  }
+};
+
+/**
+ * Apology shown to the participant when LiteLLM cannot produce a reply
+ */
+const fallbackResponse = (errorMessage: string) =>
+  `I apologize, but I'm having trouble connecting to the AI service right now. Error: ${errorMessage}. Please check your LiteLLM configuration or try again later.`;
+
+/**
+ * Generate AI response using LiteLLM, falling back to an apology the participant can read
  */
 const generateAIResponse = async (
-  userMessage: string,
-  settings?: any,
-  messageHistory?: Message[]
-): Promise<string> => {
+  messages: LiteLLMMessage[],
+  settings: AISettings,
+  usageFor: UsageAttribution
+): Promise<GeneratedReply> => {
   try {
-    // Mark as used to satisfy TypeScript when compile options are strict
-    // (left in signature for future extensibility)
-    // void aiModel;
-    console.log(`🤖 [Chat] Generating AI response using ${settings?.defaultModel || 'default model'}...`);
-
-    // Build message history for LiteLLM in the correct format
-    const messages: LiteLLMMessage[] = [];
-
-    // Some providers on Bedrock (e.g. DeepSeek, AWS Nova) require conversations
-    // to start with a user message – they do not allow a system message as the
-    // first role.
-    const modelId = (settings?.defaultModel || '').toLowerCase();
-    const requiresUserFirst =
-      modelId.includes('deepseek') ||   // DeepSeek on Bedrock
-      modelId.includes('nova') ||       // AWS Nova models
-      modelId.includes('llama3');       // Llama 3 models on Bedrock
-    
-    // 1. Add System Prompt - This sets the AI's behavior and personality
-    // Example: "You are a helpful AI assistant. Be friendly, informative, and engaging."
-    // For models that must start with a user message, we will NOT send a separate
-    // system role; instead we'll prepend the system prompt to the first user message.
-    const systemPrompt: string | undefined = settings?.systemPrompt;
-    if (systemPrompt && !requiresUserFirst) {
-      console.log(`📋 [Chat] Using System Prompt: "${systemPrompt.substring(0, 50)}..."`);
-      messages.push({
-        role: 'system',
-        content: systemPrompt,
-      });
-    }
-    
-    // Add conversation history (last 10 messages for context)
-    let hasUserMessage = false;
-    let hasPrependedSystemToFirstUser = false;
-
-    if (messageHistory && messageHistory.length > 0) {
-      const recentHistory = messageHistory.slice(-10);
-
-      for (let i = 0; i < recentHistory.length; i++) {
-        const msg = recentHistory[i];
-
-        if (msg.sender === 'user') {
-          let content = msg.text;
-
-          // For models that must start with a user message, prepend system prompt
-          // to the very first user message we send.
-          if (requiresUserFirst && systemPrompt && !hasPrependedSystemToFirstUser && !hasUserMessage) {
-            content = `[System Instructions: ${systemPrompt}]\n\n${msg.text}`;
-            hasPrependedSystemToFirstUser = true;
-            console.log(`📋 [Chat] Prepending System Prompt to first user history message for model ${settings.defaultModel}`);
-          }
-
-          messages.push({
-            role: 'user',
-            content,
-          });
-          hasUserMessage = true;
-        } else if (msg.sender === 'ai') {
-          // For requiresUserFirst models, skip assistant messages that would
-          // appear before any user message.
-          if (requiresUserFirst && !hasUserMessage) {
-            continue;
-          }
-          messages.push({
-            role: 'assistant',
-            content: msg.text,
-          });
-        }
-      }
-    }
+    return await chatService.generateResponse(messages, settings, usageFor);
+  } catch (error) {
+    console.error('❌ [Chat] Error generating AI response:', error);
+
+    // Fallback to a simple response
+    console.log('⚠️ [Chat] Using fallback response due to LiteLLM error');
+    return { text: fallbackResponse((error as Error).message), usage: null };
+  }
+};
+
+interface ChatTurn {
+  task: Task;
+  settings: AISettings;
+  history: Message[];
+  userMessage: Message;
+  contextPolicy: ContextPolicy;
+  messages: LiteLLMMessage[]; // exactly what is sent to the model (empty when the model doesn't reply)
+  scriptedReply: string | null; // the task script's reply, when the script answers this turn
+  rules: CompletionRules;
+  latency: LatencySettings;
+  receivedAt: number;         // when the participant's message arrived (ms since epoch)
+  userTurns: number;          // participant messages so far, including this one
+}
+
+const countUserTurns = (history: Message[]) => history.filter(m => m.sender === 'user').length;
+
+// Usage of the model call for a participant's reply is billed to the task's research group
+const replyUsage = (conversationId: string, { task }: ChatTurn): UsageAttribution => ({
+  userId: task.user_id,
+  taskId: task.id,
+  conversationId,
+  purpose: 'reply'
+});
+
+/**
+ * Validate a chat request and record the participant's turn
+ *
+ * The system prompt and model come from the task row and the history from the
+ * messages table; nothing the client sends beyond the message text reaches the model.
+ * The conversation is created on its first message, owned by the task's research group;
+ * when the task compares several models it is assigned one, and keeps it.
+ * A conversation that has ended (or just ran out of turns or time) rejects new messages,
+ * as does a Wizard-of-Oz conversation still waiting for the researcher's reply. Once the
+ * research group's monthly budget is used up, tasks the model answers refuse messages,
+ * and the group's message cap ends conversations like the task's own turn limit.
+ * Under the scripted response modes the turn's reply is picked here. The study page's
+ * typing telemetry is stored with the participant's message. The study session must be
+ * for the request's participant and task, and messages and conversations have a size limit.
+ */
+const startTurn = async (
+  { message, conversationId, taskId, participantId, urlParams, telemetry }: ChatRequest,
+  session: StudySession | undefined
+): Promise<ChatTurn> => {
+  const receivedAt = Date.now();
+
+  checkSession(session, taskId, participantId);
+
+  if (typeof message !== 'string' || !message.trim()) {
+    throw new AppError('Message is required', 400);
+  }
 
-    // Add current user message
-    let currentUserContent = userMessage;
+  if (message.length > payloadLimits.messageLength) {
+    throw new AppError(`Messages can be at most ${payloadLimits.messageLength} characters`, 413);
+  }
 
-    // If there was no prior user message in history for a requiresUserFirst model,
-    // prepend the system prompt to the current user message.
-    if (requiresUserFirst && systemPrompt && !hasUserMessage) {
-      currentUserContent = `[System Instructions: ${systemPrompt}]\n\n${userMessage}`;
-      console.log(`📋 [Chat] Prepending System Prompt to current user message for model ${settings.defaultModel}`);
+  if (typeof conversationId !== 'string' || !conversationId || conversationId.length > 36) {
+    throw new AppError('Conversation ID is required', 400);
+  }
+
+  if (!taskId) {
+    throw new AppError('Task ID is required', 400);
+  }
+
+  const task = await conversationService.findTask(taskId);
+  if (!task) {
+    throw new AppError('Task not found', 404);
+  }
+
+  if (participantId) {
+    const participant = await participantService.findParticipant(participantId);
+    if (!participant || participant.user_id !== task.user_id) {
+      throw new AppError('Participant not found for this study', 404);
     }
+  }
 
-    messages.push({
-      role: 'user',
-      content: currentUserContent,
-    });
-    
-    console.log(`📝 [Chat] Message history: ${messages.length} messages`);
-
-    // Call LiteLLM service with default parameters
-    // Use sensible defaults for parameters not in simplified task structure
-    const response = await liteLLMService.sendChatCompletion(
-      messages,
-      settings?.defaultModel,
-      0.7,      // temperature - balanced creativity
-      2000,     // maxTokens - reasonable response length
-      0.9,      // topP - nucleus sampling
-      0,        // presencePenalty - no penalty
-      0         // frequencyPenalty - no penalty
+  if (!(await consentService.hasConsented(task.user_id, participantId))) {
+    throw new AppError('Consent is required before taking part in this study', 403);
+  }
+
+  if ((task.response_mode === 'model' || task.response_mode === 'hybrid') && await budgetService.isExceeded(task.user_id)) {
+    throw new AppError(BUDGET_EXCEEDED_MESSAGE, 503, 'budget_exceeded');
+  }
+
+  const rules = budgetService.applyMessageCap(
+    completionService.rulesFromTask(task),
+    await budgetService.getBudget(task.user_id)
+  );
+  const settings = chatService.settingsFromTask(task);
+
+  const conversation = await conversationService.findConversation(conversationId);
+  let history: Message[];
+  if (!conversation) {
+    // Under an A/B comparison the new conversation is assigned one of the task's models
+    settings.defaultModel = comparisonService.pickModel(task);
+    const captured = studyService.captureParams(await studyService.getSettings(task.user_id), urlParams);
+    history = [await conversationService.startConversation(conversationId, task, settings.defaultModel, participantId ?? null, captured)];
+    if (participantId) {
+      await questionnaireService.linkToConversation(conversationId, task.id, participantId);
+    }
+  } else if (conversation.task_id !== task.id) {
+    throw new AppError('Conversation does not belong to this task', 403);
+  } else if (participantId && conversation.participant_id && conversation.participant_id !== participantId) {
+    throw new AppError('Conversation does not belong to this participant', 403);
+  } else if (conversation.finished_at) {
+    throw new AppError('This conversation has ended', 409);
+  } else if (conversation.awaiting_reply_at) {
+    throw new AppError('Please wait for a reply before sending another message', 409);
+  } else {
+    settings.defaultModel = comparisonService.modelFor(task, conversation);
+    history = await conversationService.getMessages(conversationId);
+    // Room for this message and its reply
+    if (history.length + 2 > payloadLimits.conversationMessages) {
+      throw new AppError('This conversation has reached its maximum length', 409);
+    }
+    const endReason = completionService.endReasonBeforeTurn(
+      rules,
+      countUserTurns(history),
+      await conversationService.elapsedSeconds(conversationId)
     );
-    
-    if (response.success && response.data?.choices?.[0]?.message?.content) {
-      const aiMessage = response.data.choices[0].message.content;
-      console.log(`✅ [Chat] AI response generated (${aiMessage.length} characters)`);
-      return aiMessage;
-    } else {
-      console.error(`❌ [Chat] LiteLLM failed: ${response.error}`);
-      throw new Error(response.error || 'Failed to generate AI response');
+    if (endReason) {
+      await conversationService.markFinished(conversationId, endReason);
+      throw new AppError('This conversation has ended', 409);
     }
-  } catch (error) {
-    console.error('❌ [Chat] Error generating AI response:', error);
-    
-    // Fallback to a simple response
-    console.log('⚠️ [Chat] Using fallback response due to LiteLLM error');
-    return `I apologize, but I'm having trouble connecting to the AI service right now. Error: ${(error as Error).message}. Please check your LiteLLM configuration or try again later.`;
   }
+
+  const userMessage: Message = {
+    id: uuidv4(),
+    text: message,
+    sender: 'user',
+    timestamp: conversationService.nextTimestamp(history)
+  };
+  await conversationService.addMessage(conversationId, userMessage);
+  const typing = telemetryService.sanitizeTyping(telemetry);
+  if (typing) {
+    await telemetryService.recordTyping(conversationId, userMessage.id, userMessage.timestamp, typing);
+  }
+  if (participantId) {
+    await participantService.touch(participantId);
+  }
+
+  // Nothing is sent to the model when a researcher or the script writes the reply
+  const userTurns = countUserTurns(history) + 1;
+  const scriptedReply = scriptService.replyFor(task, userTurns, message);
+  const { contextPolicy, messages } = task.response_mode === 'wizard' || scriptedReply !== null
+    ? { contextPolicy: task.context_policy, messages: [] }
+    : await chatService.buildMessages(conversationId, task, settings, history, message);
+
+  return {
+    task,
+    settings,
+    history,
+    userMessage,
+    contextPolicy,
+    messages,
+    scriptedReply,
+    rules,
+    latency: latencyService.settingsFromTask(task),
+    receivedAt,
+    userTurns
+  };
+};
+
+/**
+ * Wizard-of-Oz mode: leave the participant's turn waiting for the researcher, whose
+ * console is told about it; the reply is pushed to the participant's chat later
+ */
+const queueForResearcher = async (conversationId: string, { task }: ChatTurn): Promise<void> => {
+  await wizardService.markAwaiting(conversationId);
+  pushService.publish(pushChannels.wizard(task.user_id), {
+    type: 'waiting',
+    conversation: await wizardService.getConversation(task.user_id, conversationId)
+  });
+  console.log(`🧙 [Chat] Waiting for the researcher to reply in ${conversationId}`);
+};
+
+/**
+ * Store the AI reply for a turn and return it, ending the conversation if the reply
+ * carried the end token or the turn used up the task's turns or time
+ *
+ * The reply is first held back per the task's latency settings (unless `hold` is off,
+ * for a participant who already left); the time it took to produce and the delay imposed
+ * are stored with it, along with the model's telemetry when the model wrote it. Scripted
+ * replies are stored without a model or context, since the model wasn't asked.
+ */
+const finishTurn = async (
+  conversationId: string,
+  { settings, history, userMessage, contextPolicy, messages, scriptedReply, rules, latency, receivedAt, userTurns }: ChatTurn,
+  text: string,
+  generationMs: number,
+  modelTelemetry: ModelTelemetry | null,
+  hold = true
+): Promise<{ message: Message; endReason: EndReason | null }> => {
+  const reply = completionService.stripEndToken(rules, text);
+  const delayMs = hold ? await latencyService.holdReply(latency, receivedAt, reply.text.length) : 0;
+  const isScripted = scriptedReply !== null;
+  const responseMessage: Message = {
+    id: uuidv4(),
+    text: reply.text,
+    sender: 'ai',
+    timestamp: conversationService.nextTimestamp([...history, userMessage]),
+    modelId: isScripted ? undefined : settings.defaultModel,
+    systemPrompt: isScripted ? undefined : settings.systemPrompt
+  };
+  await conversationService.addMessage(conversationId, isScripted
+    ? { ...responseMessage, author: 'script', generationMs, delayMs }
+    : { ...responseMessage, author: 'model', generationMs, delayMs, contextPolicy, context: messages });
+  if (modelTelemetry) {
+    await telemetryService.recordModel(conversationId, responseMessage.id, modelTelemetry);
+  }
+
+  const endReason = completionService.endReasonAfterTurn(
+    rules,
+    userTurns,
+    await conversationService.elapsedSeconds(conversationId),
+    reply.found
+  );
+  if (endReason) {
+    await conversationService.markFinished(conversationId, endReason);
+  }
+
+  return { message: responseMessage, endReason };
 };
 
 export const sendMessage = async (
@@ -145,38 +295,38 @@ export const sendMessage = async (
   next: NextFunction
 ) => {
   try {
-    const { message, conversationId, aiModel, settings, messageHistory } = req.body;
+    const { conversationId } = req.body;
+    const turn = await startTurn(req.body, (req as StudySessionRequest).studySession);
 
-    if (!message || !message.trim()) {
-      throw new AppError('Message is required', 400);
-    }
-
-    if (!conversationId) {
-      throw new AppError('Conversation ID is required', 400);
-    }
+    console.log(`💬 [Chat] Processing message for conversation: ${conversationId}`);
 
-    if (!aiModel) {
-      throw new AppError('AI Model is required', 400);
+    if (turn.task.response_mode === 'wizard') {
+      await queueForResearcher(conversationId, turn);
+      res.json({ success: true, pending: true });
+      return;
     }
 
-    console.log(`💬 [Chat] Processing message for conversation: ${conversationId}`);
-
-    // Generate AI response using LiteLLM
-    const aiResponseText = await generateAIResponse(message, settings, messageHistory);
+    // The task script's reply, or generate AI response using LiteLLM
+    const generationStartedAt = Date.now();
+    const generated = turn.scriptedReply === null
+      ? await generateAIResponse(turn.messages, turn.settings, replyUsage(conversationId, turn))
+      : null;
+    const generationMs = Date.now() - generationStartedAt;
 
-    // Create response message
-    const responseMessage: Message = {
-      id: uuidv4(),
-      text: aiResponseText,
-      sender: 'ai',
-      timestamp: new Date()
-    };
+    const { message: responseMessage, endReason } = await finishTurn(
+      conversationId,
+      turn,
+      generated?.text ?? turn.scriptedReply ?? '',
+      generationMs,
+      generated && telemetryService.fromUsage(generated.usage)
+    );
 
     console.log(`✅ [Chat] Response sent successfully`);
 
     res.json({
       success: true,
-      response: responseMessage
+      response: responseMessage,
+      conversationEnded: endReason ?? undefined
     });
   } catch (error) {
     console.error('❌ [Chat] Error in sendMessage:', error);
@@ -184,45 +334,235 @@ export const sendMessage = async (
   }
 };
 
+/**
+ * Write a single SSE event to the client
+ */
+const writeEvent = (res: Response, payload: Record<string, unknown>) => {
+  res.write(`data: ${JSON.stringify(payload)}\n\n`);
+};
+
 export const streamMessage = async (
   req: Request<{}, {}, ChatRequest>,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    const { message, aiModel, settings, messageHistory } = req.body;
-    void aiModel;
-
-    if (!message || !message.trim()) {
-      throw new AppError('Message is required', 400);
-    }
+    const { conversationId } = req.body;
+    const turn = await startTurn(req.body, (req as StudySessionRequest).studySession);
+    const { settings } = turn;
 
-    console.log(`📡 [Chat] Streaming message...`);
+    console.log(`📡 [Chat] Streaming message for conversation: ${conversationId}`);
 
     // Set up SSE (Server-Sent Events)
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
     res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx/Apache)
+    res.flushHeaders();
+
+    // Nothing to stream in Wizard-of-Oz mode; the reply arrives on the conversation's events
+    if (turn.task.response_mode === 'wizard') {
+      await queueForResearcher(conversationId, turn);
+      writeEvent(res, { chunk: '', done: true, pending: true });
+      res.end();
+      return;
+    }
+
+    // A scripted reply is sent whole (the end token is removed before it is stored)
+    if (turn.scriptedReply !== null) {
+      const { message: responseMessage, endReason } = await finishTurn(conversationId, turn, turn.scriptedReply, 0, null);
+      writeEvent(res, { chunk: responseMessage.text, done: false });
+      writeEvent(res, { chunk: '', done: true, response: responseMessage, conversationEnded: endReason ?? undefined });
+      res.end();
+      console.log(`📜 [Chat] Sent scripted reply (${responseMessage.text.length} characters)`);
+      return;
+    }
+
+    // Cancel the upstream LiteLLM request if the participant goes away mid-stream.
+    // Listen on the response: the request stream is already closed once the body is parsed.
+    const upstream = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        console.log('🔌 [Chat] Client disconnected, cancelling upstream stream');
+        upstream.abort();
+      }
+    });
+
+    // Hold back the end token so the participant never sees it. With an artificial delay
+    // nothing is streamed: the whole reply is sent once the delay is over.
+    const tokenFilter = completionService.endTokenFilter(turn.rules);
+    const buffered = turn.latency.latencyMode !== 'none';
+    const sendChunk = (chunk: string) => {
+      if (chunk && !buffered) writeEvent(res, { chunk, done: false });
+    };
+
+    const generationStartedAt = Date.now();
+    let firstTokenMs: number | null = null;
+    const result = await liteLLMService.streamChatCompletion(
+      turn.messages,
+      settings.defaultModel,
+      delta => {
+        firstTokenMs ??= Date.now() - generationStartedAt;
+        sendChunk(tokenFilter.push(delta));
+      },
+      upstream.signal,
+      settings.temperature ?? DEFAULT_GENERATION_PARAMS.temperature,
+      settings.maxTokens ?? DEFAULT_GENERATION_PARAMS.maxTokens,
+      settings.topP ?? DEFAULT_GENERATION_PARAMS.topP,
+      settings.presencePenalty ?? DEFAULT_GENERATION_PARAMS.presencePenalty,
+      settings.frequencyPenalty ?? DEFAULT_GENERATION_PARAMS.frequencyPenalty,
+      replyUsage(conversationId, turn)
+    );
+    const generationMs = Date.now() - generationStartedAt;
+    const modelTelemetry = telemetryService.fromUsage(result.usage, firstTokenMs);
 
-    // Generate response using LiteLLM
-    const aiResponseText = await generateAIResponse(message, settings, messageHistory);
+    if (result.aborted) {
+      // Keep whatever was generated before the participant left
+      if (result.content) {
+        await finishTurn(conversationId, turn, result.content, generationMs, modelTelemetry, false);
+      }
+      return;
+    }
 
-    // Stream response word by word
-    const words = aiResponseText.split(' ');
-    for (let i = 0; i < words.length; i++) {
-      const chunk = words[i] + (i < words.length - 1 ? ' ' : '');
-      res.write(`data: ${JSON.stringify({ chunk, done: false })}\n\n`);
-      await new Promise(resolve => setTimeout(resolve, 50)); // Delay between words
+    sendChunk(tokenFilter.flush());
+
+    let text = result.content;
+    if (!result.success) {
+      console.error(`❌ [Chat] LiteLLM stream failed: ${result.error}`);
+      // Nothing reached the participant yet — fall back to the same apology as /message
+      if (!text) {
+        text = fallbackResponse(result.error || 'Failed to generate AI response');
+        sendChunk(text);
+      }
     }
 
-    // Send completion signal
-    res.write(`data: ${JSON.stringify({ chunk: '', done: true })}\n\n`);
+    const { message: responseMessage, endReason } = await finishTurn(conversationId, turn, text, generationMs, modelTelemetry);
+    if (buffered) {
+      writeEvent(res, { chunk: responseMessage.text, done: false });
+    }
+
+    // Send completion signal with the assembled message
+    writeEvent(res, { chunk: '', done: true, response: responseMessage, conversationEnded: endReason ?? undefined });
     res.end();
 
-    console.log(`✅ [Chat] Streaming completed`);
+    console.log(`✅ [Chat] Streaming completed (${text.length} characters)`);
   } catch (error) {
     console.error('❌ [Chat] Error in streamMessage:', error);
+    if (res.headersSent) {
+      writeEvent(res, { done: true, error: (error as Error).message });
+      res.end();
+      return;
+    }
+    next(error);
+  }
+};
+
+/**
+ * The participant is done: close the conversation and return the study's completion
+ * code or the return URL to send them back to the recruitment platform
+ *
+ * Also called by the study page once a conversation has ended on its own (turn limit,
+ * time limit or end token) to fetch the completion. A participant-initiated finish
+ * must meet the task's minimum number of messages.
+ */
+export const finishConversation = async (
+  req: Request<Record<string, string>, unknown, ChatFinishRequest>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { conversationId, taskId, participantId } = req.body;
+
+    checkSession((req as StudySessionRequest).studySession, taskId, participantId);
+
+    if (typeof conversationId !== 'string' || !conversationId) {
+      throw new AppError('Conversation ID is required', 400);
+    }
+
+    const conversation = await conversationService.findConversation(conversationId);
+    if (!conversation) {
+      throw new AppError('Conversation not found', 404);
+    }
+    if (conversation.task_id !== taskId) {
+      throw new AppError('Conversation does not belong to this task', 403);
+    }
+    if (participantId && conversation.participant_id && conversation.participant_id !== participantId) {
+      throw new AppError('Conversation does not belong to this participant', 403);
+    }
+
+    if (!conversation.finished_at) {
+      const task = conversation.task_id ? await conversationService.findTask(conversation.task_id) : null;
+      const rules = completionService.rulesFromTask(task);
+
+      if (completionService.isOverTime(rules, await conversationService.elapsedSeconds(conversationId))) {
+        await conversationService.markFinished(conversationId, 'time_limit');
+      } else {
+        const history = await conversationService.getMessages(conversationId);
+        const finishError = completionService.participantFinishError(rules, countUserTurns(history));
+        if (finishError) {
+          throw new AppError(finishError, 403);
+        }
+        await conversationService.markFinished(conversationId, 'participant');
+      }
+
+      // Drop it from the researcher's Wizard-of-Oz console
+      pushService.publish(pushChannels.wizard(conversation.user_id), { type: 'ended', conversationId });
+    }
+
+    const finished = await conversationService.findConversation(conversationId);
+    const settings = await studyService.getSettings(conversation.user_id);
+    const completion = studyService.buildCompletion(settings, {
+      ...(conversation.url_params ?? {}),
+      participantId: conversation.participant_id ?? '',
+      conversationId
+    });
+
+    res.json({
+      success: true,
+      completion,
+      endReason: finished?.end_reason
+    });
+  } catch (error) {
+    console.error('❌ [Chat] Error finishing conversation:', error);
     next(error);
   }
 };
 
+/**
+ * Live events for the participant's conversation (SSE); in Wizard-of-Oz mode the
+ * researcher's replies arrive here as `reply` events
+ *
+ * A reply sent while the participant was not connected is repeated on connect; the
+ * study page ignores replies it already shows. Only the study session's participant
+ * can listen.
+ */
+export const subscribeToConversation = async (
+  req: Request<{ conversationId: string }>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { conversationId } = req.params;
+    const session = (req as StudySessionRequest).studySession;
+
+    const conversation = await conversationService.findConversation(conversationId);
+    if (!conversation) {
+      throw new AppError('Conversation not found', 404);
+    }
+    if (conversation.task_id !== session?.taskId || conversation.participant_id !== session.participantId) {
+      throw new AppError('Conversation does not belong to this participant', 403);
+    }
+
+    // The greeting is not a reply, so only a later AI message counts
+    const history = await conversationService.getMessages(conversationId);
+    const lastMessage = history[history.length - 1];
+    const missedReply = history.length > 1 && lastMessage.sender === 'ai'
+      ? [{ type: 'reply', message: lastMessage, conversationEnded: conversation.end_reason ?? undefined }]
+      : [];
+
+    pushService.subscribe(res, [pushChannels.conversation(conversationId)], missedReply);
+  } catch (error) {
+    console.error('❌ [Chat] Error subscribing to conversation events:', error);
+    next(error);
+  }
+};
@@ -1,7 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
-import { Conversation } from '../types';
 import { AppError } from '../middleware/error.middleware';
 import db from '../config/database';
+import { questionnaireService } from '../services/questionnaire.service';
+import { telemetryService } from '../services/telemetry.service';
+import { pushService, pushChannels } from '../services/push.service';
 
 
 export const getConversations = async (
@@ -19,9 +21,11 @@ export const getConversations = async (
     console.log('📡 [Backend] Fetching conversations from database for:', userId);
 
     const dbConversations = await db.query(
-      `SELECT * FROM conversations
-       WHERE user_id = ?
-       ORDER BY last_message_at DESC`,
+      `SELECT c.*, p.external_id AS participant_external_id
+       FROM conversations c
+       LEFT JOIN participants p ON p.id = c.participant_id
+       WHERE c.user_id = ?
+       ORDER BY c.last_message_at DESC`,
       [userId]
     );
 
@@ -61,6 +65,13 @@ export const getConversations = async (
             timestamp: new Date(lastMessage.timestamp)
           }] : [],
           messageCount: messageCount, // Add message count separately
+          taskId: conv.task_id,
+          modelId: conv.model_id,
+          participantId: conv.participant_id,
+          participantExternalId: conv.participant_external_id,
+          urlParams: conv.url_params ?? undefined,
+          finishedAt: conv.finished_at ? new Date(conv.finished_at) : undefined,
+          endReason: conv.end_reason ?? undefined,
           createdAt: new Date(conv.created_at),
           lastMessageAt: new Date(conv.last_message_at)
         };
@@ -96,7 +107,10 @@ export const getConversation = async (
     console.log('🔍 [Backend] Fetching conversation from database:', conversationId);
 
     const conv = await db.queryOne(
-      `SELECT * FROM conversations WHERE id = ? AND user_id = ?`,
+      `SELECT c.*, p.external_id AS participant_external_id
+       FROM conversations c
+       LEFT JOIN participants p ON p.id = c.participant_id
+       WHERE c.id = ? AND c.user_id = ?`,
       [conversationId, userId]
     );
 
@@ -106,12 +120,13 @@ export const getConversation = async (
 
     // Fetch messages
     const messages = await db.query(
-      `SELECT id, text, sender, timestamp 
+      `SELECT id, text, sender, model_id, system_prompt, author, model_draft, generation_ms, delay_ms, context_policy, context, timestamp 
        FROM messages 
        WHERE conversation_id = ? 
        ORDER BY timestamp ASC`,
       [conversationId]
     );
+    const telemetry = await telemetryService.getForConversation(conversationId);
 
     const conversation = {
       id: conv.id,
@@ -126,10 +141,29 @@ export const getConversation = async (
         id: msg.id,
         text: msg.text,
         sender: msg.sender,
-        timestamp: new Date(msg.timestamp)
+        timestamp: new Date(msg.timestamp),
+        modelId: msg.model_id,
+        systemPrompt: msg.system_prompt,
+        author: msg.author ?? undefined,
+        modelDraft: msg.model_draft ?? undefined,
+        generationMs: msg.generation_ms ?? undefined,
+        delayMs: msg.delay_ms ?? undefined,
+        contextPolicy: msg.context_policy,
+        context: msg.context,
+        telemetry: telemetry.get(msg.id)
       })),
       createdAt: new Date(conv.created_at),
-      lastMessageAt: new Date(conv.last_message_at)
+      lastMessageAt: new Date(conv.last_message_at),
+      taskId: conv.task_id,
+      modelId: conv.model_id,
+      systemPrompt: conv.system_prompt,
+      taskPrompt: conv.task_prompt,
+      participantId: conv.participant_id,
+      participantExternalId: conv.participant_external_id,
+      urlParams: conv.url_params ?? undefined,
+      finishedAt: conv.finished_at ? new Date(conv.finished_at) : undefined,
+      endReason: conv.end_reason ?? undefined,
+      questionnaire: await questionnaireService.getConversationAnswers(conversationId)
     };
 
     console.log('✅ [Backend] Conversation found');
@@ -144,102 +178,16 @@ export const getConversation = async (
   }
 };
 
-// Helper: format a Date as EST (America/New_York) in MySQL DATETIME format
-const formatAsESTDateTime = (date: Date) => {
-  const estDate = new Date(
-    date.toLocaleString('en-US', { timeZone: 'America/New_York' })
-  );
-  const year = estDate.getFullYear();
-  const month = String(estDate.getMonth() + 1).padStart(2, '0');
-  const day = String(estDate.getDate()).padStart(2, '0');
-  const hour = String(estDate.getHours()).padStart(2, '0');
-  const minute = String(estDate.getMinutes()).padStart(2, '0');
-  const second = String(estDate.getSeconds()).padStart(2, '0');
-  return `${year}-${month}-${day} ${hour}:${minute}:${second}`;
-};
-
-export const saveConversation = async (
-  req: Request<{ userId: string }, {}, Conversation>,
-  res: Response,
-  next: NextFunction
+/**
+ * Live events for the researcher's conversations (SSE): `conversation-created`,
+ * `message-added` and `conversation-ended`
+ */
+export const subscribeToConversations = (
+  req: Request<{ userId: string }>,
+  res: Response
 ) => {
-  try {
-    const { userId } = req.params;
-    const conversation = req.body;
-
-    if (!userId) {
-      throw new AppError('User ID is required', 400);
-    }
-
-    if (!conversation.id || !conversation.messages) {
-      throw new AppError('Invalid conversation data', 400);
-    }
-
-    console.log('💾 [Backend] Saving conversation to database:', conversation.id);
-
-    // Check if conversation exists
-    const existing = await db.queryOne(
-      'SELECT id FROM conversations WHERE id = ?',
-      [conversation.id]
-    );
-
-    if (existing) {
-      // Update existing conversation
-      // Convert JavaScript Date to MySQL format (force EST)
-      const lastMessageAt = formatAsESTDateTime(new Date(conversation.lastMessageAt));
-      
-      await db.query(
-        `UPDATE conversations 
-         SET title = ?, last_message_at = ? 
-         WHERE id = ?`,
-        [conversation.title, lastMessageAt, conversation.id]
-      );
-    } else {
-      // Insert new conversation
-      // Convert JavaScript Date to MySQL format (YYYY-MM-DD HH:MM:SS) in EST
-      const createdAt = formatAsESTDateTime(new Date(conversation.createdAt));
-      const lastMessageAt = formatAsESTDateTime(new Date(conversation.lastMessageAt));
-      
-      await db.query(
-        `INSERT INTO conversations 
-         (id, user_id, title, ai_model_name, ai_model_personality, ai_model_icon, created_at, last_message_at) 
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          conversation.id,
-          userId,
-          conversation.title,
-          conversation.aiModel.name,
-          conversation.aiModel.personality,
-          conversation.aiModel.icon,
-          createdAt,
-          lastMessageAt
-        ]
-      );
-    }
-
-    // Use REPLACE INTO to handle duplicates (deletes and inserts in one atomic operation)
-    for (const message of conversation.messages) {
-      // Convert JavaScript Date to MySQL format in EST
-      const timestamp = formatAsESTDateTime(new Date(message.timestamp));
-      
-      await db.query(
-        `REPLACE INTO messages (id, conversation_id, text, sender, timestamp) 
-         VALUES (?, ?, ?, ?, ?)`,
-        [message.id, conversation.id, message.text, message.sender, timestamp]
-      );
-    }
-
-    console.log('✅ [Backend] Conversation saved successfully');
-
-    res.json({
-      success: true,
-      message: 'Conversation saved successfully',
-      conversation
-    });
-  } catch (error) {
-    console.error('❌ [Backend] Error saving conversation:', error);
-    next(error);
-  }
+  const { userId } = req.params;
+  pushService.subscribe(res, [pushChannels.researcher(userId)]);
 };
 
 export const deleteConversation = async (
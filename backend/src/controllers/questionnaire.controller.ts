@@ -0,0 +1,199 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from '../middleware/error.middleware';
+import { StudySessionRequest } from '../middleware/auth.middleware';
+import db from '../config/database';
+import { conversationService } from '../services/conversation.service';
+import { participantService } from '../services/participant.service';
+import { questionnaireService } from '../services/questionnaire.service';
+import { studyService } from '../services/study.service';
+import { consentService } from '../services/consent.service';
+import { QUESTIONNAIRE_PHASES, QuestionnaireItem, QuestionnairePhase } from '../types/questionnaire.types';
+
+interface QuestionnaireSubmission {
+  phase?: QuestionnairePhase;
+  conversationId?: string;  // post questionnaire: the finished conversation
+  answers?: Record<string, string>;
+}
+
+/**
+ * A task of the logged-in researcher, or a 404
+ */
+const findOwnTask = async (taskId: string, userId: string) => {
+  const task = await db.queryOne('SELECT id FROM tasks WHERE id = ? AND user_id = ?', [taskId, userId]);
+  if (!task) {
+    throw new AppError('Task not found', 404);
+  }
+  return task;
+};
+
+/**
+ * The participant of the request's study session, which must be for the task in the URL
+ */
+const sessionParticipant = (req: Request<{ taskId: string }>): string => {
+  const session = (req as StudySessionRequest).studySession;
+  if (!session || session.taskId !== req.params.taskId) {
+    throw new AppError(
+      'This study session is for a different task. Please reload the study page.',
+      403,
+      'study_session_required'
+    );
+  }
+  return session.participantId;
+};
+
+/**
+ * The task's pre- and post-chat questionnaire items
+ */
+export const getTaskQuestionnaire = async (
+  req: Request<{ taskId: string }>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { taskId } = req.params;
+    await findOwnTask(taskId, (req as any).user.id);
+
+    res.json({
+      success: true,
+      items: await questionnaireService.getItems(taskId)
+    });
+  } catch (error) {
+    console.error('❌ [Backend] Error fetching questionnaire:', error);
+    next(error);
+  }
+};
+
+/**
+ * Replace the task's questionnaire items (both phases)
+ */
+export const updateTaskQuestionnaire = async (
+  req: Request<{ taskId: string }, unknown, { items?: QuestionnaireItem[] }>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { taskId } = req.params;
+    const { items } = req.body;
+    await findOwnTask(taskId, (req as any).user.id);
+
+    const itemsError = questionnaireService.validateItems(items);
+    if (itemsError) {
+      throw new AppError(itemsError, 400);
+    }
+
+    res.json({
+      success: true,
+      items: await questionnaireService.saveItems(taskId, items!)
+    });
+  } catch (error) {
+    console.error('❌ [Backend] Error saving questionnaire:', error);
+    next(error);
+  }
+};
+
+/**
+ * The questionnaires the session's participant is shown for their task and which they
+ * have answered — called by the study page after joining the study
+ */
+export const getParticipantQuestionnaires = async (
+  req: Request<{ taskId: string }>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { taskId } = req.params;
+    const participantId = sessionParticipant(req);
+
+    const [task, participant] = await Promise.all([
+      conversationService.findTask(taskId),
+      participantService.findParticipant(participantId)
+    ]);
+    if (!task || !participant || participant.user_id !== task.user_id) {
+      throw new AppError('Participant not found for this study', 404);
+    }
+
+    res.json({
+      success: true,
+      questionnaires: await questionnaireService.getParticipantStatus(taskId, participantId)
+    });
+  } catch (error) {
+    console.error('❌ [Backend] Error fetching participant questionnaires:', error);
+    next(error);
+  }
+};
+
+/**
+ * Submit the session participant's answers to the pre- or post-chat questionnaire.
+ * The post questionnaire requires the participant's finished conversation and returns
+ * the study's completion, which the study page shows once it is submitted
+ */
+export const submitQuestionnaire = async (
+  req: Request<{ taskId: string }, unknown, QuestionnaireSubmission>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { taskId } = req.params;
+    const { phase, conversationId, answers } = req.body;
+    const participantId = sessionParticipant(req);
+
+    if (!phase || !QUESTIONNAIRE_PHASES.includes(phase)) {
+      throw new AppError(`Phase must be one of: ${QUESTIONNAIRE_PHASES.join(', ')}`, 400);
+    }
+
+    const [task, participant] = await Promise.all([
+      conversationService.findTask(taskId),
+      participantService.findParticipant(participantId)
+    ]);
+    if (!task || !participant || participant.user_id !== task.user_id) {
+      throw new AppError('Participant not found for this study', 404);
+    }
+    if (!(await consentService.hasConsented(task.user_id, participantId))) {
+      throw new AppError('Consent is required before taking part in this study', 403);
+    }
+
+    // Pre-chat answers are linked when the conversation starts; post-chat answers belong
+    // to the conversation the participant just finished
+    let conversation = null;
+    if (phase === 'post') {
+      conversation = conversationId ? await conversationService.findConversation(conversationId) : null;
+      if (!conversation || conversation.task_id !== taskId || conversation.participant_id !== participantId) {
+        throw new AppError('Conversation not found for this participant', 404);
+      }
+      if (!conversation.finished_at) {
+        throw new AppError('Finish the conversation before the post-chat questionnaire', 409);
+      }
+    }
+
+    const items = await questionnaireService.getItems(taskId, phase);
+    const answersError = questionnaireService.validateAnswers(items, answers);
+    if (answersError) {
+      throw new AppError(answersError, 400);
+    }
+
+    try {
+      await questionnaireService.submit(taskId, participantId, phase, items, answers!, conversation?.id ?? null);
+    } catch (error) {
+      if (db.dialect.isDuplicateKey(error)) {
+        throw new AppError('This questionnaire has already been submitted', 409);
+      }
+      throw error;
+    }
+
+    const completion = conversation
+      ? studyService.buildCompletion(await studyService.getSettings(task.user_id), {
+          ...(conversation.url_params ?? {}),
+          participantId,
+          conversationId: conversation.id
+        })
+      : undefined;
+
+    res.json({
+      success: true,
+      completion
+    });
+  } catch (error) {
+    console.error('❌ [Backend] Error submitting questionnaire:', error);
+    next(error);
+  }
+};
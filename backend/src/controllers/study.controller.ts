@@ -0,0 +1,279 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { AppError } from '../middleware/error.middleware';
+import { StudySession } from '../middleware/auth.middleware';
+import { studySessionConfig } from '../config/limits';
+import db from '../config/database';
+import { assignmentService } from '../services/assignment.service';
+import { participantService } from '../services/participant.service';
+import { studyService } from '../services/study.service';
+import { consentService } from '../services/consent.service';
+import { usageService } from '../services/usage.service';
+import { budgetService } from '../services/budget.service';
+import { StudySettings } from '../types/study.types';
+
+/**
+ * Join a study: identify the participant and return their condition assignment
+ * Public — called by the study page with its device ID and, when the study URL
+ * carries one, the recruitment-platform ID; repeat visits return the same task.
+ * If the study has a consent document the participant hasn't agreed to, it is
+ * returned instead of an assignment, so only consenting participants fill cells.
+ * With an assignment comes a signed study-session token for the participant, device
+ * and task, which the chat routes require.
+ */
+export const joinStudy = async (
+  req: Request<{ userId: string }, unknown, { deviceId?: string; externalId?: string }>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req.params;
+    const { deviceId, externalId } = req.body;
+
+    if (typeof deviceId !== 'string' || !deviceId.trim() || deviceId.length > 100) {
+      throw new AppError('A device ID of up to 100 characters is required', 400);
+    }
+    if (externalId !== undefined && (typeof externalId !== 'string' || externalId.length > 255)) {
+      throw new AppError('Participant ID must be a string of up to 255 characters', 400);
+    }
+
+    const user = await db.queryOne(
+      'SELECT id FROM users WHERE id = ? AND is_active = TRUE',
+      [userId]
+    );
+    if (!user) {
+      throw new AppError('Research group not found', 404);
+    }
+
+    const participant = await participantService.identify(userId, deviceId.trim(), externalId?.trim() || undefined);
+
+    if (!(await consentService.hasConsented(userId, participant.id))) {
+      res.json({
+        success: true,
+        participant: {
+          id: participant.id,
+          externalId: participant.external_id
+        },
+        assignment: null,
+        consent: await consentService.getCurrentDocument(userId),
+        sessionToken: null
+      });
+      return;
+    }
+
+    const assignment = await assignmentService.assign(userId, participant.id);
+    if (!assignment) {
+      throw new AppError('This study has no tasks to assign', 404);
+    }
+
+    const session: StudySession = {
+      role: 'participant',
+      userId,
+      participantId: participant.id,
+      taskId: assignment.taskId,
+      deviceId: deviceId.trim()
+    };
+    const jwtSecret = process.env.JWT_SECRET || 'fallback-secret-key';
+    const sessionToken = jwt.sign(session, jwtSecret, { expiresIn: studySessionConfig.expiresIn });
+
+    res.json({
+      success: true,
+      participant: {
+        id: participant.id,
+        externalId: participant.external_id
+      },
+      assignment,
+      consent: null,
+      sessionToken
+    });
+  } catch (error) {
+    console.error('❌ [Backend] Error joining study:', error);
+    next(error);
+  }
+};
+
+/**
+ * Study settings and per-task cell counts for the logged-in researcher's study
+ */
+export const getStudySettings = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = (req as any).user.id;
+
+    const [settings, cells] = await Promise.all([
+      studyService.getSettings(userId),
+      assignmentService.getCells(userId)
+    ]);
+
+    res.json({
+      success: true,
+      settings,
+      cells
+    });
+  } catch (error) {
+    console.error('❌ [Backend] Error fetching study settings:', error);
+    next(error);
+  }
+};
+
+/**
+ * Update the study settings and, optionally, task weights ({ [taskId]: weight })
+ * Omitted fields keep their current value; an empty completion code or URL clears it
+ */
+export const updateStudySettings = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = (req as any).user.id;
+    const { assignmentStrategy, blockRepeats, captureParams, completionCode, completionUrl, weights } =
+      req.body as Partial<StudySettings> & { weights?: Record<string, number> };
+
+    const current = await studyService.getSettings(userId);
+    const settings: StudySettings = {
+      assignmentStrategy: assignmentStrategy ?? current.assignmentStrategy,
+      blockRepeats: blockRepeats ?? current.blockRepeats,
+      captureParams: captureParams ?? current.captureParams,
+      completionCode: completionCode === undefined ? current.completionCode : completionCode || null,
+      completionUrl: completionUrl === undefined ? current.completionUrl : completionUrl || null
+    };
+
+    const settingsError = studyService.validateSettings(settings, weights);
+    if (settingsError) {
+      throw new AppError(settingsError, 400);
+    }
+
+    await studyService.updateSettings(userId, settings, weights);
+
+    res.json({
+      success: true,
+      settings,
+      cells: await assignmentService.getCells(userId)
+    });
+  } catch (error) {
+    console.error('❌ [Backend] Error updating study settings:', error);
+    next(error);
+  }
+};
+
+/**
+ * Record a participant's informed consent
+ * Public — the study page sends the ID of the document version it showed; if a newer
+ * version has been published since, the participant is asked to review it
+ */
+export const giveConsent = async (
+  req: Request<{ userId: string; participantId: string }, unknown, { documentId?: string; deviceId?: string }>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId, participantId } = req.params;
+    const { documentId, deviceId } = req.body;
+
+    const participant = await participantService.findParticipant(participantId);
+    if (!participant || participant.user_id !== userId) {
+      throw new AppError('Participant not found for this study', 404);
+    }
+
+    const document = await consentService.getCurrentDocument(userId);
+    if (!document) {
+      throw new AppError('This study has no consent document', 404);
+    }
+    if (document.id !== documentId) {
+      throw new AppError('The consent document has been updated; please review the new version', 409);
+    }
+
+    const consent = await consentService.recordConsent(
+      userId,
+      participantId,
+      document,
+      typeof deviceId === 'string' && deviceId ? deviceId.slice(0, 100) : null
+    );
+
+    res.json({
+      success: true,
+      consent: {
+        version: consent.version,
+        consentedAt: consent.consented_at
+      }
+    });
+  } catch (error) {
+    console.error('❌ [Backend] Error recording consent:', error);
+    next(error);
+  }
+};
+
+/**
+ * The logged-in researcher's consent document versions, newest first, with consent counts
+ */
+export const getConsentDocuments = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = (req as any).user.id;
+
+    res.json({
+      success: true,
+      versions: await consentService.listVersions(userId)
+    });
+  } catch (error) {
+    console.error('❌ [Backend] Error fetching consent documents:', error);
+    next(error);
+  }
+};
+
+/**
+ * Publish a new consent document version; participants who haven't consented yet see it
+ */
+export const publishConsentDocument = async (
+  req: Request<Record<string, string>, unknown, { title?: string; body?: string }>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = (req as any).user.id;
+    const { title, body } = req.body;
+
+    const documentError = consentService.validateDocument(title, body);
+    if (documentError) {
+      throw new AppError(documentError, 400);
+    }
+
+    const document = await consentService.publish(userId, title!, body!);
+
+    res.status(201).json({
+      success: true,
+      document,
+      versions: await consentService.listVersions(userId)
+    });
+  } catch (error) {
+    console.error('❌ [Backend] Error publishing consent document:', error);
+    next(error);
+  }
+};
+
+/**
+ * Model usage and cost for the researcher's tasks over the last `?days=` days (default 30)
+ */
+export const getStudyUsage = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = (req as any).user.id;
+
+    res.json({
+      success: true,
+      usage: await usageService.getReport(userId, usageService.parseDays(req.query.days))
+    });
+  } catch (error) {
+    console.error('❌ [Backend] Error fetching usage:', error);
+    next(error);
+  }
+};
+
+/**
+ * The researcher's monthly budget and message cap (set by the admin) and how much of
+ * the budget this month has used; `level` is 'warning' past the warning threshold
+ */
+export const getStudyBudget = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = (req as any).user.id;
+
+    res.json({ success: true, budget: await budgetService.getStatus(userId) });
+  } catch (error) {
+    console.error('❌ [Backend] Error fetching budget:', error);
+    next(error);
+  }
+};
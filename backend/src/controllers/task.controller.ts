@@ -1,6 +1,27 @@
 import { Request, Response } from 'express';
 import db from '../config/database';
 import { v4 as uuidv4 } from 'uuid';
+import { liteLLMService, DEFAULT_GENERATION_PARAMS } from '../services/litellm.service';
+import { contextService, DEFAULT_CONTEXT_SETTINGS } from '../services/context.service';
+import { completionService, DEFAULT_COMPLETION_RULES } from '../services/completion.service';
+import { scriptService, EMPTY_SCRIPT } from '../services/script.service';
+import { latencyService, DEFAULT_LATENCY_SETTINGS } from '../services/latency.service';
+import { comparisonService } from '../services/comparison.service';
+import { GenerationParams } from '../types/litellm.types';
+import { ContextPolicy, ContextSettings } from '../types/context.types';
+import { CompletionRules } from '../types/completion.types';
+import { LatencySettings } from '../types/latency.types';
+import { RESPONSE_MODES, ResponseMode, ResponseScript } from '../types/response.types';
+import { ModelCandidate } from '../types/comparison.types';
+
+// The `settings` of a create or update request, in the frontend's field names; a field
+// left out keeps the base value
+type TaskSettingsInput = Partial<GenerationParams & CompletionRules & LatencySettings> & {
+  contextPolicy?: ContextPolicy;
+  contextLastN?: number;
+  contextTokenBudget?: number;
+  contextSummaryModel?: string;
+};
 
 /**
  * Transform database row to frontend format
@@ -13,11 +34,118 @@ const transformTaskFromDB = (dbTask: any) => {
       systemPrompt: dbTask.system_prompt,
       taskPrompt: dbTask.task_prompt || '',
       defaultModel: dbTask.default_model || '',
-      chatbotName: dbTask.chatbot_name || ''
+      candidateModels: comparisonService.candidatesFromTask(dbTask),
+      chatbotName: dbTask.chatbot_name || '',
+      temperature: dbTask.temperature,
+      maxTokens: dbTask.max_tokens,
+      topP: dbTask.top_p,
+      presencePenalty: dbTask.presence_penalty,
+      frequencyPenalty: dbTask.frequency_penalty,
+      contextPolicy: dbTask.context_policy,
+      contextLastN: dbTask.context_last_n,
+      contextTokenBudget: dbTask.context_token_budget,
+      contextSummaryModel: dbTask.context_summary_model || '',
+      ...completionService.rulesFromTask(dbTask),
+      responseMode: dbTask.response_mode,
+      responseScript: scriptService.scriptFromTask(dbTask),
+      ...latencyService.settingsFromTask(dbTask)
+    }
+  };
+};
+
+/**
+ * Transform database row to what a participant's chat page needs (public route): the
+ * display fields and the limits it enforces, without the prompts, scripts, end token,
+ * model candidates or latency manipulation
+ */
+const transformTaskForParticipant = (dbTask: any) => {
+  const rules = completionService.rulesFromTask(dbTask);
+  return {
+    id: dbTask.id,
+    name: dbTask.name,
+    settings: {
+      taskPrompt: dbTask.task_prompt || '',
+      chatbotName: dbTask.chatbot_name || '',
+      minUserTurns: rules.minUserTurns,
+      maxUserTurns: rules.maxUserTurns,
+      timeLimitMinutes: rules.timeLimitMinutes,
+      allowParticipantFinish: rules.allowParticipantFinish,
+      wizardMode: dbTask.response_mode === 'wizard',
+      showTypingIndicator: latencyService.settingsFromTask(dbTask).showTypingIndicator
     }
   };
 };
 
+/**
+ * Merge generation parameters from request settings over a base (the stored task or defaults)
+ */
+const mergeGenerationParams = (base: GenerationParams, settings: TaskSettingsInput | undefined): GenerationParams => ({
+  temperature: settings?.temperature ?? base.temperature,
+  maxTokens: settings?.maxTokens ?? base.maxTokens,
+  topP: settings?.topP ?? base.topP,
+  presencePenalty: settings?.presencePenalty ?? base.presencePenalty,
+  frequencyPenalty: settings?.frequencyPenalty ?? base.frequencyPenalty
+});
+
+/**
+ * Merge context window settings from request settings over a base (the stored task or defaults)
+ */
+const mergeContextSettings = (base: ContextSettings, settings: TaskSettingsInput | undefined): ContextSettings => ({
+  policy: settings?.contextPolicy ?? base.policy,
+  lastN: settings?.contextLastN ?? base.lastN,
+  tokenBudget: settings?.contextTokenBudget ?? base.tokenBudget,
+  summaryModel: settings?.contextSummaryModel ?? base.summaryModel
+});
+
+/**
+ * Check the generation parameters against the task's model and every candidate model;
+ * returns an error message, or null when valid
+ */
+const validateModels = async (
+  defaultModel: string,
+  candidates: ModelCandidate[],
+  generation: GenerationParams
+): Promise<string | null> =>
+  comparisonService.validateCandidates(candidates) ||
+  (await Promise.all(
+    [defaultModel, ...candidates.map(c => c.modelId)]
+      .map(modelId => liteLLMService.validateGenerationParams(modelId, generation))
+  )).find(Boolean) ||
+  null;
+
+const trimCandidates = (candidates: ModelCandidate[]): ModelCandidate[] =>
+  candidates.map(c => ({ modelId: c.modelId.trim(), weight: c.weight }));
+
+/**
+ * Check a task's response mode; returns an error message, or null when valid
+ */
+const validateResponseMode = (mode: ResponseMode): string | null =>
+  RESPONSE_MODES.includes(mode) ? null : `Response mode must be one of: ${RESPONSE_MODES.join(', ')}`;
+
+/**
+ * Merge completion rules from request settings over a base (the stored task or defaults)
+ * The nullable limits are cleared by sending null, so only undefined keeps the base value
+ */
+const mergeCompletionRules = (base: CompletionRules, settings: TaskSettingsInput | undefined): CompletionRules => ({
+  minUserTurns: settings?.minUserTurns ?? base.minUserTurns,
+  maxUserTurns: settings?.maxUserTurns !== undefined ? settings.maxUserTurns : base.maxUserTurns,
+  timeLimitMinutes: settings?.timeLimitMinutes !== undefined ? settings.timeLimitMinutes : base.timeLimitMinutes,
+  endToken: settings?.endToken !== undefined ? settings.endToken || null : base.endToken,
+  allowParticipantFinish: settings?.allowParticipantFinish ?? base.allowParticipantFinish
+});
+
+/**
+ * Merge reply latency settings from request settings over a base (the stored task or defaults)
+ */
+const mergeLatencySettings = (base: LatencySettings, settings: TaskSettingsInput | undefined): LatencySettings => ({
+  latencyMode: settings?.latencyMode ?? base.latencyMode,
+  latencyFixedMs: settings?.latencyFixedMs ?? base.latencyFixedMs,
+  latencyCharsPerSecond: settings?.latencyCharsPerSecond ?? base.latencyCharsPerSecond,
+  latencyMinMs: settings?.latencyMinMs ?? base.latencyMinMs,
+  latencyMaxMs: settings?.latencyMaxMs ?? base.latencyMaxMs,
+  showTypingIndicator: settings?.showTypingIndicator ?? base.showTypingIndicator
+});
+
 /**
  * Get all tasks for the authenticated user
  */
@@ -119,6 +247,28 @@ export const createTask = async (req: Request, res: Response): Promise<void> =>
       return;
     }
     
+    const generation = mergeGenerationParams(DEFAULT_GENERATION_PARAMS, settings);
+    const context = mergeContextSettings(DEFAULT_CONTEXT_SETTINGS, settings);
+    const rules = mergeCompletionRules(DEFAULT_COMPLETION_RULES, settings);
+    const latency = mergeLatencySettings(DEFAULT_LATENCY_SETTINGS, settings);
+    const responseMode: ResponseMode = settings.responseMode ?? 'model';
+    const responseScript: ResponseScript = settings.responseScript ?? EMPTY_SCRIPT;
+    const candidateModels: ModelCandidate[] = settings.candidateModels ?? [];
+    const settingsError =
+      (await validateModels(settings.defaultModel || '', candidateModels, generation)) ||
+      contextService.validateSettings(context) ||
+      completionService.validateRules(rules) ||
+      validateResponseMode(responseMode) ||
+      scriptService.validateScript(responseMode, responseScript) ||
+      latencyService.validateSettings(latency);
+    if (settingsError) {
+      res.status(400).json({
+        success: false,
+        message: settingsError
+      });
+      return;
+    }
+
     console.log('➕ [Backend] Creating new task:', name);
     
     // Check if task name already exists for this user
@@ -141,8 +291,14 @@ export const createTask = async (req: Request, res: Response): Promise<void> =>
 
     // Insert new task
     await db.query(
-      `INSERT INTO tasks (id, user_id, name, system_prompt, task_prompt, default_model, chatbot_name)
-       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO tasks (id, user_id, name, system_prompt, task_prompt, default_model, candidate_models, chatbot_name,
+                          temperature, max_tokens, top_p, presence_penalty, frequency_penalty,
+                          context_policy, context_last_n, context_token_budget, context_summary_model,
+                          min_user_turns, max_user_turns, time_limit_minutes, end_token, allow_participant_finish,
+                          response_mode, response_script,
+                          latency_mode, latency_fixed_ms, latency_chars_per_second, latency_min_ms, latency_max_ms,
+                          show_typing_indicator)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         taskId,
         userId,
@@ -150,7 +306,30 @@ export const createTask = async (req: Request, res: Response): Promise<void> =>
         settings.systemPrompt || 'You are a helpful AI assistant.',
         settings.taskPrompt || '',
         settings.defaultModel || '',
-        settings.chatbotName || ''
+        JSON.stringify(trimCandidates(candidateModels)),
+        settings.chatbotName || '',
+        generation.temperature,
+        generation.maxTokens,
+        generation.topP,
+        generation.presencePenalty,
+        generation.frequencyPenalty,
+        context.policy,
+        context.lastN,
+        context.tokenBudget,
+        context.summaryModel || null,
+        rules.minUserTurns,
+        rules.maxUserTurns,
+        rules.timeLimitMinutes,
+        rules.endToken,
+        rules.allowParticipantFinish,
+        responseMode,
+        JSON.stringify(responseScript),
+        latency.latencyMode,
+        latency.latencyFixedMs,
+        latency.latencyCharsPerSecond,
+        latency.latencyMinMs,
+        latency.latencyMaxMs,
+        latency.showTypingIndicator
       ]
     );
     
@@ -177,7 +356,7 @@ export const createTask = async (req: Request, res: Response): Promise<void> =>
     console.error('❌ [Backend] Error creating task:', error);
     
     // Handle duplicate entry error
-    if ((error as any).code === 'ER_DUP_ENTRY') {
+    if (db.dialect.isDuplicateKey(error)) {
       res.status(409).json({
         success: false,
         message: 'A task with this name already exists. Please choose a different name.'
@@ -262,6 +441,84 @@ export const updateTask = async (req: Request, res: Response): Promise<void> =>
         updates.push('chatbot_name = ?');
         values.push(settings.chatbotName);
       }
+
+      // Validate the resulting parameters against the resulting model, so switching
+      // a task to a stricter provider can't leave it with out-of-range values
+      const generation = mergeGenerationParams(
+        {
+          temperature: existingTask.temperature,
+          maxTokens: existingTask.max_tokens,
+          topP: existingTask.top_p,
+          presencePenalty: existingTask.presence_penalty,
+          frequencyPenalty: existingTask.frequency_penalty
+        },
+        settings
+      );
+      const context = mergeContextSettings(
+        {
+          policy: existingTask.context_policy,
+          lastN: existingTask.context_last_n,
+          tokenBudget: existingTask.context_token_budget,
+          summaryModel: existingTask.context_summary_model ?? undefined
+        },
+        settings
+      );
+      const rules = mergeCompletionRules(completionService.rulesFromTask(existingTask), settings);
+      const latency = mergeLatencySettings(latencyService.settingsFromTask(existingTask), settings);
+      const responseMode: ResponseMode = settings.responseMode ?? existingTask.response_mode;
+      const responseScript: ResponseScript = settings.responseScript ?? scriptService.scriptFromTask(existingTask);
+      const candidateModels: ModelCandidate[] = settings.candidateModels ?? comparisonService.candidatesFromTask(existingTask);
+      const settingsError =
+        (await validateModels(settings.defaultModel ?? existingTask.default_model ?? '', candidateModels, generation)) ||
+        contextService.validateSettings(context) ||
+        completionService.validateRules(rules) ||
+        validateResponseMode(responseMode) ||
+        scriptService.validateScript(responseMode, responseScript) ||
+        latencyService.validateSettings(latency);
+      if (settingsError) {
+        res.status(400).json({
+          success: false,
+          message: settingsError
+        });
+        return;
+      }
+
+      updates.push('temperature = ?', 'max_tokens = ?', 'top_p = ?', 'presence_penalty = ?', 'frequency_penalty = ?');
+      values.push(
+        generation.temperature,
+        generation.maxTokens,
+        generation.topP,
+        generation.presencePenalty,
+        generation.frequencyPenalty
+      );
+      updates.push('context_policy = ?', 'context_last_n = ?', 'context_token_budget = ?', 'context_summary_model = ?');
+      values.push(context.policy, context.lastN, context.tokenBudget, context.summaryModel || null);
+      updates.push(
+        'min_user_turns = ?', 'max_user_turns = ?', 'time_limit_minutes = ?', 'end_token = ?', 'allow_participant_finish = ?'
+      );
+      values.push(
+        rules.minUserTurns,
+        rules.maxUserTurns,
+        rules.timeLimitMinutes,
+        rules.endToken,
+        rules.allowParticipantFinish
+      );
+      updates.push('response_mode = ?', 'response_script = ?');
+      values.push(responseMode, JSON.stringify(responseScript));
+      updates.push('candidate_models = ?');
+      values.push(JSON.stringify(trimCandidates(candidateModels)));
+      updates.push(
+        'latency_mode = ?', 'latency_fixed_ms = ?', 'latency_chars_per_second = ?', 'latency_min_ms = ?',
+        'latency_max_ms = ?', 'show_typing_indicator = ?'
+      );
+      values.push(
+        latency.latencyMode,
+        latency.latencyFixedMs,
+        latency.latencyCharsPerSecond,
+        latency.latencyMinMs,
+        latency.latencyMaxMs,
+        latency.showTypingIndicator
+      );
     }
     
     if (updates.length === 0) {
@@ -379,7 +636,7 @@ export const getTasksByUserId = async (req: Request, res: Response): Promise<voi
 
     console.log(`📊 [Backend] Found ${tasks.length} tasks for userId: ${userId}`);
 
-    const transformedTasks = tasks.map((t: any) => transformTaskFromDB(t));
+    const transformedTasks = tasks.map((t: any) => transformTaskForParticipant(t));
 
     res.status(200).json({
       success: true,
@@ -443,3 +700,36 @@ export const deleteTask = async (req: Request, res: Response): Promise<void> =>
     });
   }
 };
+
+/**
+ * Per-model outcomes of the task's conversations, for an A/B comparison of its
+ * candidate models: conversations, participant messages per conversation, and model
+ * reply length and latency
+ */
+export const getModelComparison = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = (req as any).user.id;
+
+    const task = await db.queryOne('SELECT id FROM tasks WHERE id = ? AND user_id = ?', [id, userId]);
+    if (!task) {
+      res.status(404).json({
+        success: false,
+        message: 'Task not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: await comparisonService.getComparison(userId, id)
+    });
+  } catch (error) {
+    console.error('❌ [Backend] Error fetching model comparison:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch model comparison',
+      error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+    });
+  }
+};
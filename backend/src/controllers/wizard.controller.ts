@@ -0,0 +1,199 @@
+import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { AppError } from '../middleware/error.middleware';
+import { Message } from '../types';
+import { conversationService } from '../services/conversation.service';
+import { chatService } from '../services/chat.service';
+import { completionService } from '../services/completion.service';
+import { wizardService } from '../services/wizard.service';
+import { pushService, pushChannels } from '../services/push.service';
+import { budgetService } from '../services/budget.service';
+import { comparisonService } from '../services/comparison.service';
+
+const MAX_REPLY_LENGTH = 10000;
+
+interface WizardReplyRequest {
+  text?: string;
+  draft?: string;   // the model draft the reply was edited from, if any
+}
+
+/**
+ * A conversation of the logged-in researcher under a Wizard-of-Oz task, or a 404
+ */
+const findWizardConversation = async (conversationId: string, userId: string) => {
+  const conversation = await conversationService.findConversation(conversationId);
+  const task = conversation?.task_id ? await conversationService.findTask(conversation.task_id) : null;
+  if (!conversation || conversation.user_id !== userId || !task || task.response_mode !== 'wizard') {
+    throw new AppError('Conversation not found', 404);
+  }
+  if (conversation.finished_at) {
+    throw new AppError('This conversation has ended', 409);
+  }
+  return { conversation, task };
+};
+
+/**
+ * Open conversations under the researcher's Wizard-of-Oz tasks, waiting ones first
+ */
+export const getWizardConversations = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    res.json({
+      success: true,
+      conversations: await wizardService.listConversations((req as any).user.id)
+    });
+  } catch (error) {
+    console.error('❌ [Wizard] Error fetching conversations:', error);
+    next(error);
+  }
+};
+
+/**
+ * Live console events (SSE): `waiting` when a participant's message needs a reply,
+ * `replied` once it has one and `ended` when a conversation finishes
+ */
+export const subscribeToWizard = (req: Request, res: Response) => {
+  pushService.subscribe(res, [pushChannels.wizard((req as any).user.id)]);
+};
+
+/**
+ * Have the conversation's model draft a reply to the waiting message, for the researcher to edit
+ * Nothing is stored or shown to the participant
+ */
+export const draftReply = async (
+  req: Request<{ conversationId: string }>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { conversationId } = req.params;
+    const { conversation, task } = await findWizardConversation(conversationId, (req as any).user.id);
+
+    const history = await conversationService.getMessages(conversationId);
+    const waiting = history[history.length - 1];
+    if (!waiting || waiting.sender !== 'user') {
+      throw new AppError('There is no participant message to reply to', 409);
+    }
+
+    if (await budgetService.isExceeded(task.user_id)) {
+      throw new AppError(
+        'Your research group has used its monthly model budget, so drafts are unavailable. You can still write the reply yourself.',
+        503,
+        'budget_exceeded'
+      );
+    }
+
+    const settings = chatService.settingsFromTask(task);
+    settings.defaultModel = comparisonService.modelFor(task, conversation);
+    const { messages } = await chatService.buildMessages(
+      conversationId, task, settings, history.slice(0, -1), waiting.text
+    );
+
+    let draft: string;
+    try {
+      draft = (await chatService.generateResponse(messages, settings, {
+        userId: task.user_id,
+        taskId: task.id,
+        conversationId,
+        purpose: 'draft'
+      })).text;
+    } catch (error) {
+      throw new AppError(`Could not draft a reply: ${(error as Error).message}`, 502);
+    }
+
+    res.json({
+      success: true,
+      draft
+    });
+  } catch (error) {
+    console.error('❌ [Wizard] Error drafting reply:', error);
+    next(error);
+  }
+};
+
+/**
+ * Send the researcher's reply to the waiting message
+ *
+ * Stored as an AI message written by the researcher (with the model draft, if they
+ * started from one) and pushed to the participant's chat. The task's completion rules
+ * apply as for a model reply, including the end token.
+ */
+export const sendReply = async (
+  req: Request<{ conversationId: string }, unknown, WizardReplyRequest>,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { conversationId } = req.params;
+    const { text, draft } = req.body;
+    const userId = (req as any).user.id;
+
+    if (typeof text !== 'string' || !text.trim() || text.length > MAX_REPLY_LENGTH) {
+      throw new AppError(`Reply must be between 1 and ${MAX_REPLY_LENGTH} characters`, 400);
+    }
+
+    const { conversation, task } = await findWizardConversation(conversationId, userId);
+    // The end token is never shown to the participant, so it can't be the whole reply
+    const rules = completionService.rulesFromTask(task);
+    const reply = completionService.stripEndToken(rules, text.trim());
+    if (!reply.text) {
+      throw new AppError('Reply needs some text besides the end token', 400);
+    }
+
+    const awaitingSince = conversation.awaiting_reply_at;
+    if (!awaitingSince || !(await wizardService.claimReply(conversationId))) {
+      throw new AppError('This conversation is not waiting for a reply', 409);
+    }
+
+    let history: Message[];
+    let responseMessage: Message;
+    try {
+      history = await conversationService.getMessages(conversationId);
+      responseMessage = {
+        id: uuidv4(),
+        text: reply.text,
+        sender: 'ai',
+        timestamp: conversationService.nextTimestamp(history),
+        author: 'researcher',
+        modelDraft: typeof draft === 'string' && draft ? draft : undefined
+      };
+      await conversationService.addMessage(conversationId, responseMessage);
+    } catch (error) {
+      await wizardService.releaseReply(conversationId, awaitingSince);
+      throw error;
+    }
+
+    const endReason = completionService.endReasonAfterTurn(
+      rules,
+      history.filter(m => m.sender === 'user').length,
+      await conversationService.elapsedSeconds(conversationId),
+      reply.found
+    );
+    if (endReason) {
+      await conversationService.markFinished(conversationId, endReason);
+    }
+
+    pushService.publish(pushChannels.conversation(conversationId), {
+      type: 'reply',
+      message: responseMessage,
+      conversationEnded: endReason ?? undefined
+    });
+    pushService.publish(pushChannels.wizard(userId), endReason
+      ? { type: 'ended', conversationId }
+      : { type: 'replied', conversation: await wizardService.getConversation(userId, conversationId) });
+
+    console.log(`🧙 [Wizard] Researcher replied in ${conversationId}`);
+
+    res.json({
+      success: true,
+      message: responseMessage,
+      conversationEnded: endReason ?? undefined
+    });
+  } catch (error) {
+    console.error('❌ [Wizard] Error sending reply:', error);
+    next(error);
+  }
+};
@@ -2,12 +2,29 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { AppError } from './error.middleware';
 
+// Who a token was signed for: a participant's study session, a researcher login or the admin
+export type Role = 'participant' | 'researcher' | 'admin';
+
 export interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
+    role: Role;
   };
 }
 
+// Signed by joinStudy for a consenting participant and their assigned task
+export interface StudySession {
+  role: 'participant';
+  userId: string;          // the research group
+  participantId: string;
+  taskId: string;
+  deviceId: string;
+}
+
+export interface StudySessionRequest extends Request {
+  studySession?: StudySession;
+}
+
 /**
  * Admin middleware — verifies the JWT carries role: 'admin'
  */
@@ -44,6 +61,10 @@ export const requireAdmin = (
   }
 };
 
+/**
+ * Researcher middleware — verifies the JWT is a researcher login and sets req.user.
+ * Admin and study-session tokens are refused with 403.
+ */
 export const authenticate = (
   req: AuthenticatedRequest,
   _res: Response,
@@ -59,8 +80,15 @@ export const authenticate = (
     const token = authHeader.substring(7);
     const jwtSecret = process.env.JWT_SECRET || 'fallback-secret-key';
 
-    const decoded = jwt.verify(token, jwtSecret) as { id: string };
-    req.user = decoded;
+    const decoded = jwt.verify(token, jwtSecret) as { id?: string; role?: Role };
+
+    // Researcher tokens issued before roles were added carry only the user ID
+    const role = decoded.role ?? (decoded.id ? 'researcher' : undefined);
+    if (role !== 'researcher' || !decoded.id) {
+      throw new AppError('Researcher access required', 403);
+    }
+
+    req.user = { id: decoded.id, role };
 
     next();
   } catch (error) {
@@ -74,3 +102,56 @@ export const authenticate = (
   }
 };
 
+/**
+ * Ownership middleware (after authenticate) — the research group named in the URL
+ * must be the logged-in researcher's own
+ */
+export const requireOwnGroup = (param = 'userId') => (
+  req: AuthenticatedRequest,
+  _res: Response,
+  next: NextFunction
+) => {
+  if (!req.user || req.params[param] !== req.user.id) {
+    console.warn(`🔒 [Auth] Researcher ${req.user?.id} denied access to ${req.method} ${req.originalUrl}`);
+    return next(new AppError('You can only access your own research group', 403));
+  }
+  next();
+};
+
+/**
+ * Study-session middleware — the public participant routes require the token the study
+ * page got when it joined the study, in the X-Study-Session header
+ */
+export const requireStudySession = (
+  req: StudySessionRequest,
+  _res: Response,
+  next: NextFunction
+) => {
+  try {
+    const token = req.headers['x-study-session'];
+
+    if (typeof token !== 'string' || !token) {
+      throw new AppError('Study session required. Please reload the study page.', 401, 'study_session_required');
+    }
+
+    const jwtSecret = process.env.JWT_SECRET || 'fallback-secret-key';
+
+    const decoded = jwt.verify(token, jwtSecret) as Partial<StudySession>;
+
+    if (decoded.role !== 'participant') {
+      throw new AppError('Invalid study session', 401, 'study_session_required');
+    }
+
+    req.studySession = decoded as StudySession;
+
+    next();
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      next(new AppError('Your study session has expired. Please reload the study page.', 401, 'study_session_required'));
+    } else if (error instanceof jwt.JsonWebTokenError) {
+      next(new AppError('Invalid study session', 401, 'study_session_required'));
+    } else {
+      next(error);
+    }
+  }
+};
@@ -3,11 +3,13 @@ import { Request, Response, NextFunction } from 'express';
 export class AppError extends Error {
   statusCode: number;
   isOperational: boolean;
+  code?: string; // machine-readable reason for clients that handle it specially
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, code?: string) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = true;
+    this.code = code;
 
     Error.captureStackTrace(this, this.constructor);
   }
@@ -23,10 +25,20 @@ export const errorHandler = (
     return res.status(err.statusCode).json({
       success: false,
       error: err.message,
+      ...(err.code && { code: err.code }),
       ...(process.env.NODE_ENV === 'development' && { stack: err.stack })
     });
   }
 
+  // Request bodies over the JSON size limit (see config/limits)
+  if ((err as { type?: string }).type === 'entity.too.large') {
+    return res.status(413).json({
+      success: false,
+      error: 'Request is too large',
+      code: 'payload_too_large'
+    });
+  }
+
   // Unknown errors
   console.error('Unexpected error:', err);
   return res.status(500).json({
@@ -0,0 +1,72 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from './error.middleware';
+import { rateLimits } from '../config/limits';
+import { StudySessionRequest } from './auth.middleware';
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Fixed-window request limit, counted in memory per key (so per backend process).
+ * `key` returns null for requests the limit doesn't apply to; a `max` of 0 turns it off.
+ */
+const rateLimit = (
+  name: string,
+  max: number,
+  key: (req: Request) => string | null | undefined
+) => {
+  const windows = new Map<string, Window>();
+
+  // Drop finished windows so keys from one-off visitors don't pile up
+  setInterval(() => {
+    const now = Date.now();
+    for (const [k, window] of windows) {
+      if (window.resetAt <= now) windows.delete(k);
+    }
+  }, rateLimits.windowMs).unref();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const k = key(req);
+    if (max === 0 || !k) return next();
+
+    const now = Date.now();
+    let window = windows.get(k);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + rateLimits.windowMs };
+      windows.set(k, window);
+    }
+    window.count++;
+
+    if (window.count > max) {
+      if (window.count === max + 1) {
+        console.warn(`🚦 [RateLimit] ${name} limit (${max}/min) reached for ${k}`);
+      }
+      res.setHeader('Retry-After', Math.ceil((window.resetAt - now) / 1000));
+      return next(new AppError('Too many requests. Please wait a moment and try again.', 429, 'rate_limited'));
+    }
+    next();
+  };
+};
+
+// Per client address; behind a proxy set TRUST_PROXY so this is the visitor's, not the proxy's
+export const limitByIp = rateLimit('IP', rateLimits.perIp, req => req.ip);
+
+// Per study-page device: from the study session (see requireStudySession), or the
+// device ID a join or consent request sends
+export const limitByDevice = rateLimit(
+  'device',
+  rateLimits.perDevice,
+  req => {
+    const deviceId = (req as StudySessionRequest).studySession?.deviceId ?? req.body?.deviceId;
+    return typeof deviceId === 'string' ? deviceId : null;
+  }
+);
+
+// Per study (research group), from the study session
+export const limitByStudy = rateLimit(
+  'study',
+  rateLimits.perStudy,
+  req => (req as StudySessionRequest).studySession?.userId
+);
@@ -0,0 +1,63 @@
+/**
+ * Migration CLI
+ *
+ *   npm run migrate                   apply pending migrations
+ *   npm run migrate -- status         list migrations and whether each is applied
+ *   npm run migrate -- down           revert the latest migration (--steps N for more)
+ *   npm run migrate -- up --dry-run   print the SQL that would run, without running it
+ */
+
+import { closePool } from './config/database';
+import { migrationService } from './services/migration.service';
+
+const USAGE = 'Usage: npm run migrate -- [up | down | status] [--dry-run] [--steps N]';
+
+const main = async (): Promise<void> => {
+  const args = process.argv.slice(2);
+  const command = args[0] && !args[0].startsWith('--') ? args[0] : 'up';
+  const dryRun = args.includes('--dry-run');
+  const stepsIndex = args.indexOf('--steps');
+  const steps = stepsIndex === -1 ? 1 : Number(args[stepsIndex + 1]);
+
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new Error(`--steps must be a whole number from 1\n${USAGE}`);
+  }
+
+  switch (command) {
+    case 'up': {
+      const applied = await migrationService.up({ dryRun });
+      if (applied.length > 0) {
+        console.log(`🗄️ ${dryRun ? 'Would apply' : 'Applied'} ${applied.length} migration(s)`);
+      }
+      break;
+    }
+    case 'down': {
+      const reverted = await migrationService.down({ dryRun, steps });
+      if (reverted.length > 0) {
+        console.log(`🗄️ ${dryRun ? 'Would revert' : 'Reverted'} ${reverted.length} migration(s)`);
+      }
+      break;
+    }
+    case 'status': {
+      for (const status of await migrationService.getStatus()) {
+        const version = String(status.version).padStart(3, '0');
+        const appliedAt = status.appliedAt ? ` (${status.appliedAt.toISOString()})` : '';
+        console.log(`${status.state.padEnd(8)} ${version}_${status.name}${appliedAt}`);
+      }
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}"\n${USAGE}`);
+  }
+};
+
+main()
+  .then(async () => {
+    await closePool();
+    process.exit(0);
+  })
+  .catch(async error => {
+    console.error('❌ [Migrations]', (error as Error).message);
+    await closePool().catch(() => undefined);
+    process.exit(1);
+  });
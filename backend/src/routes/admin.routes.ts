@@ -4,9 +4,17 @@ import {
   getAllUsers,
   getAllConversations,
   getConversationMessages,
+  subscribeToAdminEvents,
   createUser,
   deleteUser,
-  toggleUserStatus
+  toggleUserStatus,
+  getUsageReport,
+  getModelPrices,
+  updateModelPrices,
+  getModelRegistry,
+  updateModelRegistry,
+  getBudgets,
+  updateBudget
 } from '../controllers/admin.controller';
 import { requireAdmin } from '../middleware/auth.middleware';
 
@@ -24,4 +32,23 @@ router.put('/users/:userId/status', requireAdmin, toggleUserStatus);
 router.get('/conversations', requireAdmin, getAllConversations);
 router.get('/conversations/:conversationId/messages', requireAdmin, getConversationMessages);
 
+// GET /api/admin/events — live conversation events from every research group (SSE)
+router.get('/events', requireAdmin, subscribeToAdminEvents);
+
+// GET /api/admin/usage?days=30 — model usage and cost by researcher, task, day and model
+router.get('/usage', requireAdmin, getUsageReport);
+
+// GET/PUT /api/admin/prices — per-model prices (USD per million tokens) used for costs
+router.get('/prices', requireAdmin, getModelPrices);
+router.put('/prices', requireAdmin, updateModelPrices);
+
+// GET/PUT /api/admin/models — model capability registry (system role, sampling params, limits)
+router.get('/models', requireAdmin, getModelRegistry);
+router.put('/models', requireAdmin, updateModelRegistry);
+
+// GET /api/admin/budgets — every group's monthly budget, message cap and use this month
+// PUT /api/admin/users/:userId/budget — set a group's budget and caps
+router.get('/budgets', requireAdmin, getBudgets);
+router.put('/users/:userId/budget', requireAdmin, updateBudget);
+
 export default router;
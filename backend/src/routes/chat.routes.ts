@@ -1,19 +1,37 @@
 import { Router } from 'express';
-import { sendMessage, streamMessage } from '../controllers/chat.controller';
+import { sendMessage, streamMessage, finishConversation, subscribeToConversation } from '../controllers/chat.controller';
+import { requireStudySession } from '../middleware/auth.middleware';
+import { limitByIp, limitByDevice, limitByStudy } from '../middleware/rateLimit.middleware';
 
 const router = Router();
 
+// Participant routes: rate limited per IP, then per device and per study from the
+// study-session token the study page got when it joined
+const participant = [limitByIp, requireStudySession, limitByDevice, limitByStudy];
+
 /**
  * POST /api/chat/message
  * Send a message and get AI response
  */
-router.post('/message', sendMessage);
+router.post('/message', participant, sendMessage);
 
 /**
  * POST /api/chat/stream
  * Send a message and stream AI response
  */
-router.post('/stream', streamMessage);
+router.post('/stream', participant, streamMessage);
+
+/**
+ * POST /api/chat/finish
+ * End the conversation and get the study's completion code / return URL
+ */
+router.post('/finish', participant, finishConversation);
+
+/**
+ * GET /api/chat/conversations/:conversationId/events
+ * Live events for the conversation (SSE), e.g. Wizard-of-Oz replies
+ */
+router.get('/conversations/:conversationId/events', participant, subscribeToConversation);
 
 export default router;
 
@@ -2,25 +2,28 @@ import { Router } from 'express';
 import {
   getConversations,
   getConversation,
-  saveConversation,
+  subscribeToConversations,
   deleteConversation
 } from '../controllers/conversation.controller';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticate, requireOwnGroup } from '../middleware/auth.middleware';
 
 const router = Router();
 
+// Every route is scoped to the :userId research group, which must be the logged-in researcher's
+
 // GET /api/conversations/:userId — researcher views their own history (requires auth)
-router.get('/:userId', authenticate, getConversations);
+router.get('/:userId', authenticate, requireOwnGroup(), getConversations);
+
+// GET /api/conversations/:userId/events — live conversation events (SSE, requires auth)
+router.get('/:userId/events', authenticate, requireOwnGroup(), subscribeToConversations);
 
 // GET /api/conversations/:userId/:conversationId — researcher fetches full convo (requires auth)
-router.get('/:userId/:conversationId', authenticate, getConversation);
+router.get('/:userId/:conversationId', authenticate, requireOwnGroup(), getConversation);
 
-// POST /api/conversations/:userId — save a conversation
-// No auth: participants save under the researcher's UUID without holding a JWT
-router.post('/:userId', saveConversation);
+// Participant turns are written by the chat routes (see chat.controller) — there is no save endpoint
 
 // DELETE /api/conversations/:userId/:conversationId — researcher deletes a convo (requires auth)
-router.delete('/:userId/:conversationId', authenticate, deleteConversation);
+router.delete('/:userId/:conversationId', authenticate, requireOwnGroup(), deleteConversation);
 
 export default router;
 
@@ -5,17 +5,17 @@
 
 import { Router } from 'express';
 import { liteLLMController } from '../controllers/litellm.controller';
-import { authenticate } from '../middleware/auth.middleware';
+import { requireAdmin } from '../middleware/auth.middleware';
 
 const router = Router();
 
 // Public route — any visitor can browse available models
 router.get('/models', liteLLMController.getModels);
 
-// Researcher-only routes — require JWT (config contains API keys)
-router.get('/config', authenticate, liteLLMController.getConfig);
-router.post('/config', authenticate, liteLLMController.updateConfig);
-router.post('/test-connection', authenticate, liteLLMController.testConnection);
+// Admin-only routes — the config is global and contains API keys
+router.get('/config', requireAdmin, liteLLMController.getConfig);
+router.post('/config', requireAdmin, liteLLMController.updateConfig);
+router.post('/test-connection', requireAdmin, liteLLMController.testConnection);
 
 export default router;
 
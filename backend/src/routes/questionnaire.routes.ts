@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import {
+  getTaskQuestionnaire,
+  updateTaskQuestionnaire,
+  getParticipantQuestionnaires,
+  submitQuestionnaire
+} from '../controllers/questionnaire.controller';
+import { authenticate, requireStudySession } from '../middleware/auth.middleware';
+import { limitByIp, limitByDevice, limitByStudy } from '../middleware/rateLimit.middleware';
+
+const router = Router();
+
+// ── Participant routes (study session required) ──────────────────────────────
+
+// Rate limited like the chat routes: per IP, then per device and per study
+const participant = [limitByIp, requireStudySession, limitByDevice, limitByStudy];
+
+// GET /api/questionnaires/tasks/:taskId/participant - Items to show the session's participant and which are answered
+router.get('/tasks/:taskId/participant', participant, getParticipantQuestionnaires);
+
+// POST /api/questionnaires/tasks/:taskId/responses - Submit the session participant's pre- or post-chat answers
+router.post('/tasks/:taskId/responses', participant, submitQuestionnaire);
+
+// ── Researcher routes (JWT required — scoped to the logged-in researcher) ────
+
+// GET /api/questionnaires/tasks/:taskId - The task's questionnaire items
+router.get('/tasks/:taskId', authenticate, getTaskQuestionnaire);
+
+// PUT /api/questionnaires/tasks/:taskId - Replace the task's questionnaire items
+router.put('/tasks/:taskId', authenticate, updateTaskQuestionnaire);
+
+export default router;
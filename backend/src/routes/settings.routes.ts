@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { getSettings, updateSettings, resetSettings } from '../controllers/settings.controller';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticate, requireOwnGroup } from '../middleware/auth.middleware';
 
 const router = Router();
 
@@ -8,19 +8,19 @@ const router = Router();
  * GET /api/settings/:userId
  * Get all AI settings for a user
  */
-router.get('/:userId', authenticate, getSettings);
+router.get('/:userId', authenticate, requireOwnGroup(), getSettings);
 
 /**
  * PUT /api/settings/:userId/:modelName
  * Update AI settings for a specific model
  */
-router.put('/:userId/:modelName', authenticate, updateSettings);
+router.put('/:userId/:modelName', authenticate, requireOwnGroup(), updateSettings);
 
 /**
  * DELETE /api/settings/:userId/:modelName
  * Reset AI settings for a specific model to defaults
  */
-router.delete('/:userId/:modelName', authenticate, resetSettings);
+router.delete('/:userId/:modelName', authenticate, requireOwnGroup(), resetSettings);
 
 export default router;
 
@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import {
+  joinStudy,
+  giveConsent,
+  getStudySettings,
+  updateStudySettings,
+  getConsentDocuments,
+  publishConsentDocument,
+  getStudyUsage,
+  getStudyBudget
+} from '../controllers/study.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { limitByIp, limitByDevice } from '../middleware/rateLimit.middleware';
+
+const router = Router();
+
+// ── Researcher routes (JWT required — scoped to the logged-in researcher) ────
+
+// GET /api/studies/settings - Assignment strategy and per-task cell counts
+router.get('/settings', authenticate, getStudySettings);
+
+// PUT /api/studies/settings - Update assignment strategy and task weights
+router.put('/settings', authenticate, updateStudySettings);
+
+// GET /api/studies/consent - Consent document versions with consent counts
+router.get('/consent', authenticate, getConsentDocuments);
+
+// POST /api/studies/consent - Publish a new consent document version
+router.post('/consent', authenticate, publishConsentDocument);
+
+// GET /api/studies/usage?days=30 - Model usage and cost for the researcher's tasks
+router.get('/usage', authenticate, getStudyUsage);
+
+// GET /api/studies/budget - Monthly budget, message cap and use this month
+router.get('/budget', authenticate, getStudyBudget);
+
+// ── Public routes (no auth) ──────────────────────────────────────────────────
+
+// POST /api/studies/:userId/participants - Identify a participant and get their task assignment
+router.post('/:userId/participants', limitByIp, limitByDevice, joinStudy);
+
+// POST /api/studies/:userId/participants/:participantId/consent - Record the participant's consent
+router.post('/:userId/participants/:participantId/consent', limitByIp, limitByDevice, giveConsent);
+
+export default router;
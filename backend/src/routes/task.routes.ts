@@ -6,7 +6,8 @@ import {
   getTasksByUserId,
   createTask,
   updateTask,
-  deleteTask
+  deleteTask,
+  getModelComparison
 } from '../controllers/task.controller';
 import { authenticate } from '../middleware/auth.middleware';
 
@@ -29,6 +30,9 @@ router.get('/', authenticate, getAllTasks);
 // GET /api/tasks/:id - Get a single task (must belong to the researcher)
 router.get('/:id', authenticate, getTaskById);
 
+// GET /api/tasks/:id/model-comparison - Per-model outcomes of the task's conversations (A/B)
+router.get('/:id/model-comparison', authenticate, getModelComparison);
+
 // POST /api/tasks - Create a task for the authenticated researcher
 router.post('/', authenticate, createTask);
 
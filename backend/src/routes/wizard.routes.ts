@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import {
+  getWizardConversations,
+  subscribeToWizard,
+  draftReply,
+  sendReply
+} from '../controllers/wizard.controller';
+import { authenticate } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// ── Researcher routes (JWT required — scoped to the logged-in researcher) ────
+
+// GET /api/wizard/conversations - Open Wizard-of-Oz conversations, waiting ones first
+router.get('/conversations', authenticate, getWizardConversations);
+
+// GET /api/wizard/events - Live console events (SSE)
+router.get('/events', authenticate, subscribeToWizard);
+
+// POST /api/wizard/conversations/:conversationId/draft - Model draft of a reply (not sent)
+router.post('/conversations/:conversationId/draft', authenticate, draftReply);
+
+// POST /api/wizard/conversations/:conversationId/reply - Send the researcher's reply
+router.post('/conversations/:conversationId/reply', authenticate, sendReply);
+
+export default router;
@@ -0,0 +1,167 @@
+/**
+ * Assignment Service
+ * Places each participant into one of a study's tasks (between-subjects conditions)
+ * server-side, once, so cells stay balanced and clearing browser storage can't
+ * change a participant's condition
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { dialect, query, transaction } from '../config/database';
+import { toStudySettings } from './study.service';
+import { Assignment, AssignmentCell } from '../types/study.types';
+import { AssignmentRow, StudySettingsRow } from '../types/database.types';
+import { Queryable } from '../types/driver.types';
+
+const pickRandom = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+// Each of a study's tasks with its weight and current participant count
+const CELLS_SQL = `
+  SELECT t.id, t.name, t.assignment_weight, COUNT(a.id) AS count
+  FROM tasks t
+  LEFT JOIN assignments a ON a.task_id = t.id
+  WHERE t.user_id = ?
+  GROUP BY t.id, t.name, t.assignment_weight
+  ORDER BY t.name ASC`;
+
+const toCell = (row: any): AssignmentCell => ({
+  taskId: row.id,
+  taskName: row.name,
+  weight: Number(row.assignment_weight),
+  count: Number(row.count)
+});
+
+class AssignmentService {
+  /**
+   * Participants assigned to each of the study's tasks
+   */
+  async getCells(userId: string): Promise<AssignmentCell[]> {
+    const rows = await query<any[]>(CELLS_SQL, [userId]);
+    return rows.map(toCell);
+  }
+
+  /**
+   * Return the participant's task, assigning one with the study's strategy on first call
+   *
+   * Runs with the study's settings row locked, so simultaneous arrivals are assigned one
+   * at a time and every strategy sees up-to-date cell counts. Returns null when the study
+   * has no tasks.
+   */
+  async assign(userId: string, participantId: string): Promise<Assignment | null> {
+    return transaction(async connection => {
+      // Upsert rather than SELECT ... FOR UPDATE so the lock is taken even before the
+      // researcher has saved any settings (SQLite runs transactions one at a time anyway)
+      await connection.query(
+        `INSERT INTO study_settings (user_id) VALUES (?)
+         ${dialect.upsert(['user_id'], [])}`,
+        [userId]
+      );
+      const settings = toStudySettings(await connection.queryOne<StudySettingsRow>(
+        'SELECT * FROM study_settings WHERE user_id = ?',
+        [userId]
+      ));
+
+      const existing = await connection.queryOne<AssignmentRow>(
+        'SELECT * FROM assignments WHERE user_id = ? AND participant_id = ?',
+        [userId, participantId]
+      );
+      if (existing) {
+        return { taskId: existing.task_id, strategy: existing.strategy, isNew: false };
+      }
+
+      const cells: AssignmentCell[] = (await connection.query<any[]>(CELLS_SQL, [userId])).map(toCell);
+      if (cells.length === 0) {
+        return null;
+      }
+
+      let taskId: string;
+      let blockNumber: number | null = null;
+      switch (settings.assignmentStrategy) {
+        case 'block':
+          ({ taskId, blockNumber } = await this.pickFromBlock(connection, userId, cells, settings.blockRepeats));
+          break;
+        case 'least_filled':
+          taskId = this.pickLeastFilled(cells);
+          break;
+        case 'weighted':
+          taskId = this.pickWeighted(cells);
+          break;
+        case 'random':
+        default:
+          taskId = pickRandom(cells).taskId;
+      }
+
+      await connection.query(
+        `INSERT INTO assignments (id, user_id, participant_id, task_id, strategy, block_number)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [uuidv4(), userId, participantId, taskId, settings.assignmentStrategy, blockNumber]
+      );
+
+      const taskName = cells.find(c => c.taskId === taskId)?.taskName;
+      console.log(`🎲 [Assignment] ${participantId} → ${taskName} (${settings.assignmentStrategy}${blockNumber !== null ? `, block ${blockNumber}` : ''})`);
+      return { taskId, strategy: settings.assignmentStrategy, isNew: true };
+    });
+  }
+
+  /**
+   * Block randomization: each block holds every task `repeats` times in random order;
+   * draw from the tasks with places left in the current block, starting a new block
+   * once it is full
+   */
+  private async pickFromBlock(
+    connection: Queryable,
+    userId: string,
+    cells: AssignmentCell[],
+    repeats: number
+  ): Promise<{ taskId: string; blockNumber: number }> {
+    const latest = await connection.queryOne<{ block: number | null }>(
+      `SELECT MAX(block_number) AS block FROM assignments
+       WHERE user_id = ? AND block_number IS NOT NULL`,
+      [userId]
+    );
+    let blockNumber: number = latest?.block ?? 0;
+
+    const countRows = await connection.query<any[]>(
+      `SELECT task_id, COUNT(*) AS count FROM assignments
+       WHERE user_id = ? AND block_number = ?
+       GROUP BY task_id`,
+      [userId, blockNumber]
+    );
+    const inBlock = new Map(countRows.map(row => [row.task_id, Number(row.count)]));
+
+    let open = cells.filter(c => (inBlock.get(c.taskId) ?? 0) < repeats);
+    if (open.length === 0) {
+      blockNumber++;
+      open = cells;
+    }
+
+    return { taskId: pickRandom(open).taskId, blockNumber };
+  }
+
+  /**
+   * Least-filled cell: the task with the fewest participants, ties broken at random
+   */
+  private pickLeastFilled(cells: AssignmentCell[]): string {
+    const fewest = Math.min(...cells.map(c => c.count));
+    return pickRandom(cells.filter(c => c.count === fewest)).taskId;
+  }
+
+  /**
+   * Weighted: chance proportional to each task's weight (uniform if every weight is 0)
+   */
+  private pickWeighted(cells: AssignmentCell[]): string {
+    const total = cells.reduce((sum, c) => sum + c.weight, 0);
+    if (total <= 0) {
+      return pickRandom(cells).taskId;
+    }
+
+    let target = Math.random() * total;
+    for (const cell of cells) {
+      target -= cell.weight;
+      if (target < 0) return cell.taskId;
+    }
+    return cells[cells.length - 1].taskId;
+  }
+}
+
+// Export singleton instance
+export const assignmentService = new AssignmentService();
@@ -0,0 +1,139 @@
+/**
+ * Budget Service
+ * Per-research-group limits set by the admin: monthly token and dollar budgets for the
+ * shared LiteLLM key, and a cap on participant messages per conversation. Month-to-date
+ * use comes from the usage records (see usage.service).
+ */
+
+import { dialect, query, queryOne } from '../config/database';
+import { BudgetLevel, BudgetStatus, ResearchBudget } from '../types/budget.types';
+import { CompletionRules } from '../types/completion.types';
+import { ResearchBudgetRow } from '../types/database.types';
+import { usageService } from './usage.service';
+
+// Groups without a budget row have no limits
+export const DEFAULT_BUDGET: ResearchBudget = {
+  monthlyTokenLimit: null,
+  monthlyCostLimitUsd: null,
+  conversationMessageCap: null,
+  warningPercent: 80
+};
+
+// Shown to participants when their study's budget is used up
+export const BUDGET_EXCEEDED_MESSAGE =
+  'This study has paused for now and cannot reply to new messages. Please contact the researcher.';
+
+const toBudget = (row: ResearchBudgetRow): ResearchBudget => ({
+  monthlyTokenLimit: row.monthly_token_limit,
+  monthlyCostLimitUsd: row.monthly_cost_limit_usd === null ? null : Number(row.monthly_cost_limit_usd),
+  conversationMessageCap: row.conversation_message_cap,
+  warningPercent: row.warning_percent
+});
+
+const percentOf = (used: number, limit: number | null): number | null =>
+  limit === null ? null : limit === 0 ? 100 : Math.round((used / limit) * 1000) / 10;
+
+const isLimit = (value: unknown, max: number, integer: boolean): boolean =>
+  value === null ||
+  (typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= max &&
+    (!integer || Number.isInteger(value)));
+
+class BudgetService {
+  async getBudget(userId: string): Promise<ResearchBudget> {
+    const row = await queryOne<ResearchBudgetRow>('SELECT * FROM research_budgets WHERE user_id = ?', [userId]);
+    return row ? toBudget(row) : { ...DEFAULT_BUDGET };
+  }
+
+  /**
+   * Check a budget; returns an error message, or null when valid
+   */
+  validateBudget(budget: ResearchBudget): string | null {
+    if (!isLimit(budget.monthlyTokenLimit, 2_000_000_000, true)) {
+      return 'Monthly token limit must be a whole number of tokens, or empty for no limit';
+    }
+    if (!isLimit(budget.monthlyCostLimitUsd, 1_000_000, false)) {
+      return 'Monthly cost limit must be an amount in USD, or empty for no limit';
+    }
+    if (!isLimit(budget.conversationMessageCap, 10000, true) || budget.conversationMessageCap === 0) {
+      return 'Messages per conversation must be a whole number from 1, or empty for no cap';
+    }
+    if (!Number.isInteger(budget.warningPercent) || budget.warningPercent < 1 || budget.warningPercent > 100) {
+      return 'Warning threshold must be a whole percentage between 1 and 100';
+    }
+    return null;
+  }
+
+  async setBudget(userId: string, budget: ResearchBudget): Promise<ResearchBudget> {
+    await query(
+      `INSERT INTO research_budgets
+       (user_id, monthly_token_limit, monthly_cost_limit_usd, conversation_message_cap, warning_percent, updated_at)
+       VALUES (?, ?, ?, ?, ?, ${dialect.now})
+       ${dialect.upsert(['user_id'], [
+         'monthly_token_limit', 'monthly_cost_limit_usd', 'conversation_message_cap', 'warning_percent', 'updated_at'
+       ])}`,
+      [userId, budget.monthlyTokenLimit, budget.monthlyCostLimitUsd, budget.conversationMessageCap, budget.warningPercent]
+    );
+    console.log(`💰 [Budget] Updated budget for ${userId}`);
+    return this.getBudget(userId);
+  }
+
+  /**
+   * How much of its monthly budget a group has used
+   */
+  statusOf(budget: ResearchBudget, used: { tokens: number; costUsd: number } | undefined): BudgetStatus {
+    const tokensUsed = used?.tokens ?? 0;
+    const costUsd = used?.costUsd ?? 0;
+    const tokenPercent = percentOf(tokensUsed, budget.monthlyTokenLimit);
+    const costPercent = percentOf(costUsd, budget.monthlyCostLimitUsd);
+    const highest = Math.max(tokenPercent ?? 0, costPercent ?? 0);
+
+    const level: BudgetLevel = highest >= 100 ? 'exceeded' : highest >= budget.warningPercent ? 'warning' : 'ok';
+    return { budget, tokensUsed, costUsd, tokenPercent, costPercent, level };
+  }
+
+  async getStatus(userId: string): Promise<BudgetStatus> {
+    const [budget, used] = await Promise.all([this.getBudget(userId), usageService.monthToDate(userId)]);
+    return this.statusOf(budget, used.get(userId));
+  }
+
+  /**
+   * Budget status for every research group, by user ID
+   */
+  async getAllStatuses(): Promise<Record<string, BudgetStatus>> {
+    const [users, rows, used] = await Promise.all([
+      query<{ id: string }[]>('SELECT id FROM users'),
+      query<ResearchBudgetRow[]>('SELECT * FROM research_budgets'),
+      usageService.monthToDate()
+    ]);
+    const budgets = new Map(rows.map(row => [row.user_id, toBudget(row)]));
+    return Object.fromEntries(users.map(({ id }) => [
+      id,
+      this.statusOf(budgets.get(id) ?? { ...DEFAULT_BUDGET }, used.get(id))
+    ]));
+  }
+
+  /**
+   * Whether the group's monthly budget is used up, so no more model calls should be made
+   */
+  async isExceeded(userId: string): Promise<boolean> {
+    const status = await this.getStatus(userId);
+    if (status.level === 'exceeded') {
+      console.warn(`💰 [Budget] ${userId} is over its monthly budget, refusing model call`);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * The task's completion rules with the group's message cap applied: a conversation
+   * ends after the cap, like the task's own turn limit
+   */
+  applyMessageCap(rules: CompletionRules, budget: ResearchBudget): CompletionRules {
+    const cap = budget.conversationMessageCap;
+    if (cap === null) return rules;
+    return { ...rules, maxUserTurns: rules.maxUserTurns === null ? cap : Math.min(rules.maxUserTurns, cap) };
+  }
+}
+
+// Export singleton instance
+export const budgetService = new BudgetService();
@@ -0,0 +1,188 @@
+/**
+ * Capability Service
+ * The model capability registry (the ai_models table): whether each model accepts a system
+ * message, which sampling parameters it takes, its temperature range, context window and
+ * output limit, and whether it reads images. Consulted when building the messages and
+ * request for every completion; edited by the admin.
+ */
+
+import { dialect, query, transaction } from '../config/database';
+import { ModelCapabilities, SAMPLING_PARAMS } from '../types/capability.types';
+import { AIModelRow } from '../types/database.types';
+
+const MAX_MODELS = 500;
+const MAX_CONTEXT_WINDOW = 100_000_000;
+
+// Registry entries are re-read at most this often; saving refreshes them at once
+const CACHE_TTL_MS = 60 * 1000;
+
+// Models that match no entry: a system message and temperature (0-1) only
+const DEFAULT_CAPABILITIES: Omit<ModelCapabilities, 'modelId' | 'name'> = {
+  provider: 'unknown',
+  description: '',
+  supportsSystemRole: true,
+  samplingParams: ['temperature'],
+  maxTemperature: 1,
+  contextWindow: null,
+  maxOutputTokens: null,
+  supportsImages: false
+};
+
+const toCapabilities = (row: AIModelRow): ModelCapabilities => ({
+  modelId: row.model_id,
+  name: row.name,
+  provider: row.provider,
+  description: row.description ?? '',
+  supportsSystemRole: Boolean(row.supports_system_role),
+  samplingParams: row.sampling_params ?? [...DEFAULT_CAPABILITIES.samplingParams],
+  maxTemperature: Number(row.max_temperature),
+  contextWindow: row.context_window,
+  maxOutputTokens: row.max_output_tokens,
+  supportsImages: Boolean(row.supports_images)
+});
+
+// 'gpt-*' → /^gpt-.*$/i
+const patternToRegExp = (pattern: string): RegExp =>
+  new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+
+const isLimit = (value: unknown, max: number): boolean =>
+  value === null || (Number.isInteger(value) && (value as number) >= 1 && (value as number) <= max);
+
+class CapabilityService {
+  private cache: { models: ModelCapabilities[]; loadedAt: number } | null = null;
+
+  /**
+   * Every registry entry, exact models and patterns alike
+   */
+  async list(): Promise<ModelCapabilities[]> {
+    const rows = await query<AIModelRow[]>('SELECT * FROM ai_models ORDER BY provider, model_id');
+    return rows.map(toCapabilities);
+  }
+
+  /**
+   * Capabilities for a model: its own entry, else the most specific matching pattern
+   * (the one with the most characters besides *), else the defaults.
+   * Never throws: if the registry can't be read, the last entries read are used.
+   */
+  async resolve(modelId: string): Promise<ModelCapabilities> {
+    const models = await this.cached();
+    const id = modelId.toLowerCase();
+
+    const exact = models.find(m => !m.modelId.includes('*') && m.modelId.toLowerCase() === id);
+    if (exact) return exact;
+
+    const pattern = models
+      .filter(m => m.modelId.includes('*') && patternToRegExp(m.modelId).test(modelId))
+      .sort((a, b) => b.modelId.replace(/\*/g, '').length - a.modelId.replace(/\*/g, '').length)[0];
+    if (pattern) return { ...pattern, modelId };
+
+    return { ...DEFAULT_CAPABILITIES, samplingParams: [...DEFAULT_CAPABILITIES.samplingParams], modelId, name: modelId };
+  }
+
+  /**
+   * Check a registry; returns an error message, or null when valid
+   */
+  validate(models: ModelCapabilities[]): string | null {
+    if (!Array.isArray(models) || models.length > MAX_MODELS) {
+      return `The model registry must be a list of at most ${MAX_MODELS} models`;
+    }
+
+    const seen = new Set<string>();
+    for (const model of models) {
+      if (typeof model?.modelId !== 'string' || !model.modelId.trim() || model.modelId.length > 255) {
+        return 'Every model needs a model ID (or pattern) of 1 to 255 characters';
+      }
+      const id = model.modelId.trim();
+      if (seen.has(id.toLowerCase())) {
+        return `${id} is listed more than once`;
+      }
+      seen.add(id.toLowerCase());
+
+      if (typeof model.name !== 'string' || model.name.length > 255) {
+        return `The name of ${id} must be at most 255 characters`;
+      }
+      if (typeof model.provider !== 'string' || !model.provider.trim() || model.provider.length > 100) {
+        return `${id} needs a provider of 1 to 100 characters`;
+      }
+      if (model.description !== undefined && typeof model.description !== 'string') {
+        return `The description of ${id} must be text`;
+      }
+      if (typeof model.supportsSystemRole !== 'boolean' || typeof model.supportsImages !== 'boolean') {
+        return `System role and image support for ${id} must be true or false`;
+      }
+      if (!Array.isArray(model.samplingParams) || model.samplingParams.some(p => !SAMPLING_PARAMS.includes(p))) {
+        return `Sampling parameters for ${id} must be from: ${SAMPLING_PARAMS.join(', ')}`;
+      }
+      if (typeof model.maxTemperature !== 'number' || !(model.maxTemperature >= 0 && model.maxTemperature <= 2)) {
+        return `Maximum temperature for ${id} must be between 0 and 2`;
+      }
+      if (!isLimit(model.contextWindow, MAX_CONTEXT_WINDOW) || !isLimit(model.maxOutputTokens, MAX_CONTEXT_WINDOW)) {
+        return `Context window and max output tokens for ${id} must be whole numbers of tokens, or empty when unknown`;
+      }
+      if (model.contextWindow !== null && model.maxOutputTokens !== null && model.maxOutputTokens > model.contextWindow) {
+        return `Max output tokens for ${id} can't be more than its context window`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Replace the registry: entries not in `models` are removed, the rest added or updated
+   */
+  async save(models: ModelCapabilities[]): Promise<ModelCapabilities[]> {
+    const ids = models.map(m => m.modelId.trim());
+    await transaction(async connection => {
+      const existing = await connection.query<{ model_id: string }[]>('SELECT model_id FROM ai_models');
+      for (const row of existing) {
+        if (!ids.includes(row.model_id)) {
+          await connection.query('DELETE FROM ai_models WHERE model_id = ?', [row.model_id]);
+        }
+      }
+
+      for (const model of models) {
+        await connection.query(
+          `INSERT INTO ai_models
+           (name, model_id, provider, description, supports_system_role, sampling_params,
+            max_temperature, context_window, max_output_tokens, supports_images, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ${dialect.now})
+           ${dialect.upsert(['model_id'], [
+             'name', 'provider', 'description', 'supports_system_role', 'sampling_params',
+             'max_temperature', 'context_window', 'max_output_tokens', 'supports_images', 'updated_at'
+           ])}`,
+          [
+            model.name.trim() || model.modelId.trim(),
+            model.modelId.trim(),
+            model.provider.trim(),
+            model.description?.trim() || null,
+            model.supportsSystemRole,
+            JSON.stringify(model.samplingParams),
+            model.maxTemperature,
+            model.contextWindow,
+            model.maxOutputTokens,
+            model.supportsImages
+          ]
+        );
+      }
+    });
+
+    this.cache = null;
+    console.log(`🧩 [Capabilities] Model registry updated (${models.length} models)`);
+    return this.list();
+  }
+
+  private async cached(): Promise<ModelCapabilities[]> {
+    if (this.cache && Date.now() - this.cache.loadedAt < CACHE_TTL_MS) {
+      return this.cache.models;
+    }
+    try {
+      this.cache = { models: await this.list(), loadedAt: Date.now() };
+    } catch (error) {
+      console.warn('⚠️ [Capabilities] Could not read the model registry:', (error as Error).message);
+      this.cache = { models: this.cache?.models ?? [], loadedAt: Date.now() };
+    }
+    return this.cache.models;
+  }
+}
+
+// Export singleton instance
+export const capabilityService = new CapabilityService();
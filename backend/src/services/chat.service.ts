@@ -0,0 +1,227 @@
+/**
+ * Chat Service
+ * Builds the message list sent to the model for a participant message (task prompts plus
+ * the history trimmed by the task's context policy) and generates the reply. Used for
+ * participant turns and for the model drafts offered in the Wizard-of-Oz console.
+ */
+
+import { AISettings, Message } from '../types';
+import { Task } from '../types/database.types';
+import { LiteLLMMessage, LiteLLMUsage } from '../types/litellm.types';
+import { ContextPolicy, ContextSettings } from '../types/context.types';
+import { UsageAttribution } from '../types/usage.types';
+import { ModelCapabilities } from '../types/capability.types';
+import { liteLLMService, DEFAULT_GENERATION_PARAMS } from './litellm.service';
+import { contextService, estimateTokens } from './context.service';
+import { capabilityService } from './capability.service';
+
+// Model used when a task has no default model configured
+export const DEFAULT_MODEL = 'gpt-4o-2024-11-20';
+
+// A generated reply and the tokens it used, when the provider reports them
+export interface GeneratedReply {
+  text: string;
+  usage: LiteLLMUsage | null;
+}
+
+/**
+ * Build the LiteLLM message list for a chat turn
+ * 
+ * Flow:
+ * 1. System Prompt: Sets the AI's behavior and personality (from task settings)
+ * 2. Task Prompt: Displayed as initial greeting to user (shown in chat UI)
+ * 3. Conversation History: Previous messages for context (already trimmed by the context policy)
+ * 4. User Message: Current user input
+ * 
+ * The System Prompt instructs the AI on HOW to respond
+ * The Task Prompt tells the USER what the task is about
+ * A rolling summary of older turns, when the policy produces one, rides along with the System Prompt
+ */
+const buildChatMessages = (
+  userMessage: string,
+  capabilities: ModelCapabilities,
+  settings?: AISettings,
+  messageHistory?: Message[],
+  summary?: string | null
+): LiteLLMMessage[] => {
+  // Build message history for LiteLLM in the correct format
+  const messages: LiteLLMMessage[] = [];
+
+  // Some providers on Bedrock (e.g. DeepSeek, AWS Nova) require conversations
+  // to start with a user message – they do not allow a system message as the
+  // first role. The model registry (ai_models) records which models these are.
+  const requiresUserFirst = !capabilities.supportsSystemRole;
+  
+  // 1. Add System Prompt - This sets the AI's behavior and personality
+  // Example: "You are a helpful AI assistant. Be friendly, informative, and engaging."
+  // For models that must start with a user message, we will NOT send a separate
+  // system role; instead we'll prepend the system prompt to the first user message.
+  const systemPrompt: string | undefined = summary
+    ? `${settings?.systemPrompt ?? ''}\n\nSummary of the earlier conversation:\n${summary}`.trim()
+    : settings?.systemPrompt;
+  if (systemPrompt && !requiresUserFirst) {
+    console.log(`📋 [Chat] Using System Prompt: "${systemPrompt.substring(0, 50)}..."`);
+    messages.push({
+      role: 'system',
+      content: systemPrompt,
+    });
+  }
+  
+  // Add conversation history
+  let hasUserMessage = false;
+  let hasPrependedSystemToFirstUser = false;
+
+  if (messageHistory && messageHistory.length > 0) {
+    for (let i = 0; i < messageHistory.length; i++) {
+      const msg = messageHistory[i];
+
+      if (msg.sender === 'user') {
+        let content = msg.text;
+
+        // For models that must start with a user message, prepend system prompt
+        // to the very first user message we send.
+        if (requiresUserFirst && systemPrompt && !hasPrependedSystemToFirstUser && !hasUserMessage) {
+          content = `[System Instructions: ${systemPrompt}]\n\n${msg.text}`;
+          hasPrependedSystemToFirstUser = true;
+          console.log(`📋 [Chat] Prepending System Prompt to first user history message for model ${settings?.defaultModel}`);
+        }
+
+        messages.push({
+          role: 'user',
+          content,
+        });
+        hasUserMessage = true;
+      } else if (msg.sender === 'ai') {
+        // For requiresUserFirst models, skip assistant messages that would
+        // appear before any user message.
+        if (requiresUserFirst && !hasUserMessage) {
+          continue;
+        }
+        messages.push({
+          role: 'assistant',
+          content: msg.text,
+        });
+      }
+    }
+  }
+
+  // Add current user message
+  let currentUserContent = userMessage;
+
+  // If there was no prior user message in history for a requiresUserFirst model,
+  // prepend the system prompt to the current user message.
+  if (requiresUserFirst && systemPrompt && !hasUserMessage) {
+    currentUserContent = `[System Instructions: ${systemPrompt}]\n\n${userMessage}`;
+    console.log(`📋 [Chat] Prepending System Prompt to current user message for model ${settings?.defaultModel}`);
+  }
+
+  messages.push({
+    role: 'user',
+    content: currentUserContent,
+  });
+  
+  console.log(`📝 [Chat] Message history: ${messages.length} messages`);
+
+  return messages;
+};
+
+class ChatService {
+  /**
+   * Prompts, model and generation parameters for the task's conversations
+   */
+  settingsFromTask(task: Task): AISettings {
+    return {
+      systemPrompt: task.system_prompt,
+      taskPrompt: task.task_prompt || '',
+      defaultModel: task.default_model || DEFAULT_MODEL,
+      temperature: task.temperature,
+      maxTokens: task.max_tokens,
+      topP: task.top_p,
+      presencePenalty: task.presence_penalty,
+      frequencyPenalty: task.frequency_penalty
+    };
+  }
+
+  /**
+   * The messages to send the model for a participant message
+   *
+   * @param history stored messages before this one
+   */
+  async buildMessages(
+    conversationId: string,
+    task: Task,
+    settings: AISettings,
+    history: Message[],
+    message: string
+  ): Promise<{ contextPolicy: ContextPolicy; messages: LiteLLMMessage[] }> {
+    // Trim the history per the task's context policy
+    const contextSettings: ContextSettings = {
+      policy: task.context_policy,
+      lastN: task.context_last_n,
+      tokenBudget: task.context_token_budget,
+      summaryModel: task.context_summary_model || undefined
+    };
+    const modelId = settings.defaultModel || DEFAULT_MODEL;
+    const reservedTokens = estimateTokens(settings.systemPrompt) + estimateTokens(message);
+    const context = await contextService.selectHistory(
+      conversationId, history, contextSettings, reservedTokens, modelId,
+      { userId: task.user_id, taskId: task.id, conversationId, purpose: 'summary' }
+    );
+
+    // Whatever the policy, leave out the oldest messages the model's context window can't hold
+    const capabilities = await capabilityService.resolve(modelId);
+    let selected = context.history;
+    if (capabilities.contextWindow !== null) {
+      const room = capabilities.contextWindow
+        - reservedTokens
+        - (context.summary ? estimateTokens(context.summary) : 0)
+        - Math.min(settings.maxTokens ?? DEFAULT_GENERATION_PARAMS.maxTokens, capabilities.maxOutputTokens ?? Infinity);
+      const historyTokens = selected.reduce((sum, m) => sum + estimateTokens(m.text), 0);
+      if (historyTokens > room) {
+        console.warn(`⚠️ [Chat] History is over ${modelId}'s context window of ${capabilities.contextWindow} tokens`);
+        selected = contextService.fitTokenBudget(selected, room);
+      }
+    }
+
+    return {
+      contextPolicy: contextSettings.policy,
+      messages: buildChatMessages(message, capabilities, settings, selected, context.summary)
+    };
+  }
+
+  /**
+   * Generate the reply using LiteLLM with the task's generation parameters
+   * Throws when the model returns no reply
+   *
+   * @param usageFor research group, task and purpose the call's usage is recorded against
+   */
+  async generateResponse(
+    messages: LiteLLMMessage[],
+    settings: AISettings | undefined,
+    usageFor: UsageAttribution
+  ): Promise<GeneratedReply> {
+    console.log(`🤖 [Chat] Generating AI response using ${settings?.defaultModel || 'default model'}...`);
+
+    const response = await liteLLMService.sendChatCompletion(
+      messages,
+      settings?.defaultModel,
+      settings?.temperature ?? DEFAULT_GENERATION_PARAMS.temperature,
+      settings?.maxTokens ?? DEFAULT_GENERATION_PARAMS.maxTokens,
+      settings?.topP ?? DEFAULT_GENERATION_PARAMS.topP,
+      settings?.presencePenalty ?? DEFAULT_GENERATION_PARAMS.presencePenalty,
+      settings?.frequencyPenalty ?? DEFAULT_GENERATION_PARAMS.frequencyPenalty,
+      usageFor
+    );
+
+    if (response.success && response.data?.choices?.[0]?.message?.content) {
+      const aiMessage = response.data.choices[0].message.content;
+      console.log(`✅ [Chat] AI response generated (${aiMessage.length} characters)`);
+      return { text: aiMessage, usage: response.data.usage ?? null };
+    }
+    console.error(`❌ [Chat] LiteLLM failed: ${response.error}`);
+    throw new Error(response.error || 'Failed to generate AI response');
+  }
+}
+
+// Export singleton instance
+export const chatService = new ChatService();
@@ -0,0 +1,118 @@
+/**
+ * Comparison Service
+ * Multi-model A/B comparison within a task: each new conversation is assigned one of the
+ * task's candidate models by weight and keeps it (conversations.model_id), so models can
+ * be compared on identical prompts
+ */
+
+import { dialect, query } from '../config/database';
+import { Conversation, Task } from '../types/database.types';
+import { ModelCandidate, ModelComparisonRow } from '../types/comparison.types';
+import { DEFAULT_MODEL } from './chat.service';
+
+const MAX_CANDIDATES = 10;
+const MAX_WEIGHT = 1000;
+
+const toRow = (row: any): ModelComparisonRow => ({
+  modelId: row.model_id ?? '',
+  conversations: Number(row.conversations),
+  avgUserTurns: Math.round(Number(row.avg_user_turns) * 10) / 10,
+  avgReplyChars: row.avg_reply_chars === null ? null : Math.round(Number(row.avg_reply_chars)),
+  avgLatencyMs: row.avg_latency_ms === null ? null : Math.round(Number(row.avg_latency_ms))
+});
+
+class ComparisonService {
+  candidatesFromTask(task: Task | null): ModelCandidate[] {
+    return task?.candidate_models ?? [];
+  }
+
+  /**
+   * Check a task's candidate models; returns an error message, or null when valid.
+   * An empty list turns the comparison off.
+   */
+  validateCandidates(candidates: ModelCandidate[]): string | null {
+    if (!Array.isArray(candidates) || candidates.length > MAX_CANDIDATES) {
+      return `Candidate models must be a list of at most ${MAX_CANDIDATES} models`;
+    }
+    const seen = new Set<string>();
+    for (const candidate of candidates) {
+      if (typeof candidate?.modelId !== 'string' || !candidate.modelId.trim() || candidate.modelId.length > 255) {
+        return 'Every candidate model needs a model ID of 1 to 255 characters';
+      }
+      if (seen.has(candidate.modelId.trim())) {
+        return `${candidate.modelId} is listed more than once`;
+      }
+      seen.add(candidate.modelId.trim());
+      if (typeof candidate.weight !== 'number' || !Number.isFinite(candidate.weight) ||
+          candidate.weight < 0 || candidate.weight > MAX_WEIGHT) {
+        return `The weight for ${candidate.modelId} must be between 0 and ${MAX_WEIGHT}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The model for a new conversation: one of the task's candidates, with chance
+   * proportional to its weight (uniform if every weight is 0), or the task's model
+   */
+  pickModel(task: Task): string {
+    const candidates = this.candidatesFromTask(task);
+    if (candidates.length === 0) return task.default_model || DEFAULT_MODEL;
+
+    const total = candidates.reduce((sum, c) => sum + c.weight, 0);
+    if (total <= 0) return candidates[Math.floor(Math.random() * candidates.length)].modelId;
+
+    let target = Math.random() * total;
+    for (const candidate of candidates) {
+      target -= candidate.weight;
+      if (target < 0) return candidate.modelId;
+    }
+    return candidates[candidates.length - 1].modelId;
+  }
+
+  /**
+   * The model an existing conversation continues with: under a comparison, the one it
+   * was assigned; otherwise the task's current model
+   */
+  modelFor(task: Task, conversation: Conversation): string {
+    if (this.candidatesFromTask(task).length > 0 && conversation.model_id) {
+      return conversation.model_id;
+    }
+    return task.default_model || DEFAULT_MODEL;
+  }
+
+  /**
+   * Conversations, participant messages per conversation, and model reply length and
+   * generation time, per model the task's conversations were assigned
+   */
+  async getComparison(userId: string, taskId: string): Promise<ModelComparisonRow[]> {
+    const rows = await query<any[]>(
+      `SELECT c.model_id,
+              COUNT(*) AS conversations,
+              AVG(COALESCE(s.user_turns, 0)) AS avg_user_turns,
+              SUM(s.reply_chars) * 1.0 / NULLIF(SUM(s.replies), 0) AS avg_reply_chars,
+              SUM(s.generation_ms) * 1.0 / NULLIF(SUM(s.timed_replies), 0) AS avg_latency_ms
+       FROM conversations c
+       LEFT JOIN (
+         SELECT m.conversation_id,
+                SUM(m.sender = 'user') AS user_turns,
+                SUM(m.author = 'model') AS replies,
+                SUM(CASE WHEN m.author = 'model' THEN ${dialect.charLength('m.text')} ELSE 0 END) AS reply_chars,
+                SUM(CASE WHEN m.author = 'model' THEN m.generation_ms END) AS generation_ms,
+                SUM(m.author = 'model' AND m.generation_ms IS NOT NULL) AS timed_replies
+         FROM messages m
+         JOIN conversations mc ON mc.id = m.conversation_id
+         WHERE mc.task_id = ?
+         GROUP BY m.conversation_id
+       ) s ON s.conversation_id = c.id
+       WHERE c.task_id = ? AND c.user_id = ?
+       GROUP BY c.model_id
+       ORDER BY conversations DESC, c.model_id`,
+      [taskId, taskId, userId]
+    );
+    return rows.map(toRow);
+  }
+}
+
+// Export singleton instance
+export const comparisonService = new ComparisonService();
@@ -0,0 +1,147 @@
+/**
+ * Completion Service
+ * Applies a task's completion rules (turn limits, time limit, AI end token and the
+ * participant's Finish button) to decide when a conversation is over
+ */
+
+import { CompletionRules, EndReason } from '../types/completion.types';
+import { Task } from '../types/database.types';
+
+// Tasks without rules run until the participant finishes
+export const DEFAULT_COMPLETION_RULES: CompletionRules = {
+  minUserTurns: 0,
+  maxUserTurns: null,
+  timeLimitMinutes: null,
+  endToken: null,
+  allowParticipantFinish: true,
+};
+
+// The study page runs its own timer from the participant's first message; a request
+// arriving this close to the limit is treated as over time rather than rejected
+const TIME_LIMIT_GRACE_SECONDS = 5;
+
+class CompletionService {
+  rulesFromTask(task: Task | null): CompletionRules {
+    if (!task) return { ...DEFAULT_COMPLETION_RULES };
+    return {
+      minUserTurns: task.min_user_turns,
+      maxUserTurns: task.max_user_turns,
+      timeLimitMinutes: task.time_limit_minutes,
+      endToken: task.end_token,
+      allowParticipantFinish: Boolean(task.allow_participant_finish)
+    };
+  }
+
+  /**
+   * Check a task's completion rules; returns an error message, or null when valid
+   */
+  validateRules(rules: CompletionRules): string | null {
+    if (!Number.isInteger(rules.minUserTurns) || rules.minUserTurns < 0 || rules.minUserTurns > 1000) {
+      return 'Minimum messages must be a whole number between 0 and 1000';
+    }
+    if (rules.maxUserTurns !== null) {
+      if (!Number.isInteger(rules.maxUserTurns) || rules.maxUserTurns < 1 || rules.maxUserTurns > 1000) {
+        return 'Maximum messages must be a whole number between 1 and 1000';
+      }
+      if (rules.maxUserTurns < rules.minUserTurns) {
+        return 'Maximum messages cannot be lower than the minimum';
+      }
+    }
+    if (rules.timeLimitMinutes !== null) {
+      if (!Number.isInteger(rules.timeLimitMinutes) || rules.timeLimitMinutes < 1 || rules.timeLimitMinutes > 1440) {
+        return 'Time limit must be a whole number of minutes between 1 and 1440';
+      }
+    }
+    if (rules.endToken !== null && (typeof rules.endToken !== 'string' || !rules.endToken.trim() || rules.endToken.length > 100)) {
+      return 'End token must be between 1 and 100 characters';
+    }
+    if (!rules.allowParticipantFinish && rules.maxUserTurns === null && rules.timeLimitMinutes === null && rules.endToken === null) {
+      return 'A task without a Finish button needs a message limit, time limit or end token';
+    }
+    return null;
+  }
+
+  /**
+   * Whether the conversation is already over before a new participant message
+   */
+  endReasonBeforeTurn(rules: CompletionRules, userTurns: number, elapsedSeconds: number): EndReason | null {
+    if (this.isOverTime(rules, elapsedSeconds)) return 'time_limit';
+    if (rules.maxUserTurns !== null && userTurns >= rules.maxUserTurns) return 'max_turns';
+    return null;
+  }
+
+  /**
+   * Whether the turn that just completed ended the conversation
+   *
+   * @param userTurns participant messages including this turn's
+   */
+  endReasonAfterTurn(
+    rules: CompletionRules,
+    userTurns: number,
+    elapsedSeconds: number,
+    endTokenFound: boolean
+  ): EndReason | null {
+    if (endTokenFound) return 'end_token';
+    return this.endReasonBeforeTurn(rules, userTurns, elapsedSeconds);
+  }
+
+  /**
+   * Remove the end token from an AI reply, reporting whether it was there
+   */
+  stripEndToken(rules: CompletionRules, text: string): { text: string; found: boolean } {
+    if (!rules.endToken || !text.includes(rules.endToken)) {
+      return { text, found: false };
+    }
+    return { text: text.split(rules.endToken).join('').trim(), found: true };
+  }
+
+  /**
+   * Filter for streamed replies: removes the end token from the chunks sent to the
+   * participant, holding back any tail that could be the start of a split token
+   */
+  endTokenFilter(rules: CompletionRules): { push: (delta: string) => string; flush: () => string } {
+    const token = rules.endToken;
+    if (!token) {
+      return { push: delta => delta, flush: () => '' };
+    }
+
+    let pending = '';
+    return {
+      push: (delta: string) => {
+        pending = (pending + delta).split(token).join('');
+        let hold = Math.min(token.length - 1, pending.length);
+        while (hold > 0 && !token.startsWith(pending.slice(-hold))) hold--;
+        const ready = pending.slice(0, pending.length - hold);
+        pending = pending.slice(pending.length - hold);
+        return ready;
+      },
+      flush: () => {
+        const rest = pending;
+        pending = '';
+        return rest;
+      }
+    };
+  }
+
+  /**
+   * Why the participant may not press Finish yet, or null when they may
+   */
+  participantFinishError(rules: CompletionRules, userTurns: number): string | null {
+    if (!rules.allowParticipantFinish) {
+      return 'This conversation ends automatically';
+    }
+    if (userTurns < rules.minUserTurns) {
+      const remaining = rules.minUserTurns - userTurns;
+      return `Please send ${remaining} more message${remaining === 1 ? '' : 's'} before finishing`;
+    }
+    return null;
+  }
+
+  isOverTime(rules: CompletionRules, elapsedSeconds: number): boolean {
+    return rules.timeLimitMinutes !== null
+      && elapsedSeconds + TIME_LIMIT_GRACE_SECONDS >= rules.timeLimitMinutes * 60;
+  }
+}
+
+// Export singleton instance
+export const completionService = new CompletionService();
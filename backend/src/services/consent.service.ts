@@ -0,0 +1,126 @@
+/**
+ * Consent Service
+ * Versioned informed-consent documents per study and the participants' consent
+ * records. A study without a consent document has no consent step.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { dialect, query, queryOne, transaction } from '../config/database';
+import { ConsentDocument, ConsentVersion } from '../types/consent.types';
+import { ConsentDocumentRow, ConsentRow } from '../types/database.types';
+
+const MAX_TITLE_LENGTH = 255;
+const MAX_BODY_LENGTH = 50000;
+
+const toDocument = (row: ConsentDocumentRow): ConsentDocument => ({
+  id: row.id,
+  version: row.version,
+  title: row.title,
+  body: row.body,
+  createdAt: row.created_at
+});
+
+class ConsentService {
+  /**
+   * The study's latest consent document, or null when the study has none
+   */
+  async getCurrentDocument(userId: string): Promise<ConsentDocument | null> {
+    const row = await queryOne<ConsentDocumentRow>(
+      `SELECT * FROM consent_documents
+       WHERE user_id = ?
+       ORDER BY version DESC
+       LIMIT 1`,
+      [userId]
+    );
+    return row ? toDocument(row) : null;
+  }
+
+  /**
+   * Every version of the study's consent document, newest first
+   */
+  async listVersions(userId: string): Promise<ConsentVersion[]> {
+    const rows = await query<any[]>(
+      `SELECT d.*, COUNT(c.id) AS consent_count
+       FROM consent_documents d
+       LEFT JOIN consents c ON c.document_id = d.id
+       WHERE d.user_id = ?
+       GROUP BY d.id
+       ORDER BY d.version DESC`,
+      [userId]
+    );
+    return rows.map(row => ({ ...toDocument(row), consentCount: Number(row.consent_count) }));
+  }
+
+  /**
+   * Check a consent document; returns an error message, or null when valid
+   */
+  validateDocument(title: unknown, body: unknown): string | null {
+    if (typeof title !== 'string' || !title.trim() || title.length > MAX_TITLE_LENGTH) {
+      return `Title must be between 1 and ${MAX_TITLE_LENGTH} characters`;
+    }
+    if (typeof body !== 'string' || !body.trim() || body.length > MAX_BODY_LENGTH) {
+      return `Consent text must be between 1 and ${MAX_BODY_LENGTH} characters`;
+    }
+    return null;
+  }
+
+  /**
+   * Publish a new version of the study's consent document
+   */
+  async publish(userId: string, title: string, body: string): Promise<ConsentDocument> {
+    const id = uuidv4();
+    const version = await transaction(async connection => {
+      const latest = await connection.queryOne<{ version: number | null }>(
+        `SELECT MAX(version) AS version FROM consent_documents WHERE user_id = ?${dialect.forUpdate}`,
+        [userId]
+      );
+      const next = Number(latest?.version ?? 0) + 1;
+      await connection.query(
+        'INSERT INTO consent_documents (id, user_id, version, title, body) VALUES (?, ?, ?, ?, ?)',
+        [id, userId, next, title.trim(), body]
+      );
+      return next;
+    });
+
+    console.log(`📜 [Consent] Published version ${version} for ${userId}`);
+    return toDocument((await queryOne<ConsentDocumentRow>('SELECT * FROM consent_documents WHERE id = ?', [id]))!);
+  }
+
+  /**
+   * Whether the participant may take part: the study has no consent document, or they
+   * agreed to one of its versions (a new version applies to participants who have not
+   * consented yet)
+   */
+  async hasConsented(userId: string, participantId: string | null | undefined): Promise<boolean> {
+    const document = await this.getCurrentDocument(userId);
+    if (!document) return true;
+    if (!participantId) return false;
+
+    const consent = await queryOne<ConsentRow>(
+      'SELECT * FROM consents WHERE user_id = ? AND participant_id = ? LIMIT 1',
+      [userId, participantId]
+    );
+    return Boolean(consent);
+  }
+
+  /**
+   * Record the participant's agreement to a consent document version (idempotent)
+   */
+  async recordConsent(userId: string, participantId: string, document: ConsentDocument, deviceId: string | null): Promise<ConsentRow> {
+    await query(
+      `INSERT INTO consents (id, user_id, participant_id, document_id, version, device_id)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ${dialect.upsert(['participant_id', 'document_id'], [])}`,
+      [uuidv4(), userId, participantId, document.id, document.version, deviceId]
+    );
+
+    console.log(`✍️ [Consent] ${participantId} consented to version ${document.version}`);
+    return (await queryOne<ConsentRow>(
+      'SELECT * FROM consents WHERE participant_id = ? AND document_id = ?',
+      [participantId, document.id]
+    ))!;
+  }
+}
+
+// Export singleton instance
+export const consentService = new ConsentService();
@@ -0,0 +1,186 @@
+/**
+ * Context Service
+ * Selects how much of a conversation's history is sent to the model on each turn,
+ * following the task's context policy
+ */
+
+import { query, queryOne } from '../config/database';
+import { liteLLMService } from './litellm.service';
+import { Message } from '../types';
+import { LiteLLMMessage } from '../types/litellm.types';
+import { CONTEXT_POLICIES, ContextSettings, SelectedContext } from '../types/context.types';
+import { UsageAttribution } from '../types/usage.types';
+
+// Used for tasks created before context policies were configurable (the old fixed window)
+export const DEFAULT_CONTEXT_SETTINGS: ContextSettings = {
+  policy: 'last_n',
+  lastN: 10,
+  tokenBudget: 4000,
+};
+
+// Per-message overhead for role markers and separators in chat formats
+const MESSAGE_TOKEN_OVERHEAD = 4;
+
+/**
+ * Rough token count for budgeting (~4 characters per token for English text)
+ * Deliberately tokenizer-free so it works the same for every provider
+ */
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / 4) + MESSAGE_TOKEN_OVERHEAD;
+
+class ContextService {
+  /**
+   * Check a task's context settings; returns an error message, or null when valid
+   */
+  validateSettings(settings: ContextSettings): string | null {
+    if (!CONTEXT_POLICIES.includes(settings.policy)) {
+      return `Context policy must be one of: ${CONTEXT_POLICIES.join(', ')}`;
+    }
+    if (!Number.isInteger(settings.lastN) || settings.lastN < 1 || settings.lastN > 500) {
+      return 'Context message count must be a whole number between 1 and 500';
+    }
+    if (!Number.isInteger(settings.tokenBudget) || settings.tokenBudget < 100 || settings.tokenBudget > 1000000) {
+      return 'Context token budget must be a whole number between 100 and 1000000';
+    }
+    return null;
+  }
+
+  /**
+   * Choose the history to send for a turn
+   *
+   * @param reservedTokens tokens already used by the system prompt and current message
+   * @param modelId the task model, used for summaries when no summary model is set
+   * @param usageFor who summary calls are recorded against
+   */
+  async selectHistory(
+    conversationId: string,
+    history: Message[],
+    settings: ContextSettings,
+    reservedTokens: number,
+    modelId: string,
+    usageFor: UsageAttribution
+  ): Promise<SelectedContext> {
+    switch (settings.policy) {
+      case 'full':
+        return { history, summary: null };
+
+      case 'token_budget':
+        return { history: this.fitTokenBudget(history, settings.tokenBudget - reservedTokens), summary: null };
+
+      case 'summary':
+        return this.summarizeOlderTurns(conversationId, history, settings, modelId, usageFor);
+
+      case 'last_n':
+      default:
+        return { history: history.slice(-settings.lastN), summary: null };
+    }
+  }
+
+  /**
+   * Keep the newest messages that fit in the budget
+   */
+  fitTokenBudget(history: Message[], budget: number): Message[] {
+    let used = 0;
+    let start = history.length;
+
+    while (start > 0) {
+      const cost = estimateTokens(history[start - 1].text);
+      if (used + cost > budget) break;
+      used += cost;
+      start--;
+    }
+
+    console.log(`✂️ [Context] Token budget kept ${history.length - start}/${history.length} messages (~${used} tokens)`);
+    return history.slice(start);
+  }
+
+  /**
+   * Keep the last N messages verbatim and replace everything older with a rolling summary
+   *
+   * The summary is stored on the conversation along with how many messages it covers,
+   * so each turn only folds in the messages that have just aged out of the window.
+   */
+  private async summarizeOlderTurns(
+    conversationId: string,
+    history: Message[],
+    settings: ContextSettings,
+    modelId: string,
+    usageFor: UsageAttribution
+  ): Promise<SelectedContext> {
+    const olderCount = Math.max(history.length - settings.lastN, 0);
+    const recent = history.slice(olderCount);
+    if (olderCount === 0) {
+      return { history: recent, summary: null };
+    }
+
+    const stored = await queryOne<{ context_summary: string | null; context_summary_count: number }>(
+      'SELECT context_summary, context_summary_count FROM conversations WHERE id = ?',
+      [conversationId]
+    );
+    let summary = stored?.context_summary ?? null;
+    const summarizedCount = stored?.context_summary_count ?? 0;
+
+    if (summarizedCount < olderCount) {
+      const updated = await this.summarize(
+        summary,
+        history.slice(summarizedCount, olderCount),
+        settings.summaryModel || modelId,
+        usageFor
+      );
+
+      if (updated) {
+        summary = updated;
+        await query(
+          'UPDATE conversations SET context_summary = ?, context_summary_count = ? WHERE id = ?',
+          [summary, olderCount, conversationId]
+        );
+        console.log(`🧾 [Context] Summary now covers ${olderCount} messages`);
+      } else {
+        // Keep going with the previous (slightly stale) summary rather than failing the turn
+        console.warn('⚠️ [Context] Summary update failed, using previous summary');
+      }
+    }
+
+    return { history: recent, summary };
+  }
+
+  /**
+   * Fold new messages into the running summary with a secondary model call
+   */
+  private async summarize(
+    previous: string | null,
+    messages: Message[],
+    modelId: string,
+    usageFor: UsageAttribution
+  ): Promise<string | null> {
+    const transcript = messages
+      .map(m => `${m.sender === 'user' ? 'Participant' : 'Assistant'}: ${m.text}`)
+      .join('\n');
+
+    // Single user message: some Bedrock models reject a leading system role
+    const prompt: LiteLLMMessage[] = [
+      {
+        role: 'user',
+        content:
+          'You maintain a running summary of a conversation between a research participant and an AI assistant. ' +
+          'Keep every fact, name, preference and commitment mentioned. Reply with the updated summary only.\n\n' +
+          (previous ? `Current summary:\n${previous}\n\n` : '') +
+          `New messages:\n${transcript}`,
+      },
+    ];
+
+    const response = await liteLLMService.sendChatCompletion(
+      prompt, modelId, 0.3, 500, undefined, undefined, undefined, usageFor
+    );
+    const content = response.data?.choices?.[0]?.message?.content;
+    if (!response.success || !content) {
+      console.error(`❌ [Context] Summary request failed: ${response.error}`);
+      return null;
+    }
+
+    return content.trim();
+  }
+}
+
+// Export singleton instance
+export const contextService = new ContextService();
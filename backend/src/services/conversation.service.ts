@@ -0,0 +1,248 @@
+/**
+ * Conversation Service
+ * Persists participant conversations server-side: the chat routes record every turn
+ * here, so transcripts no longer depend on the browser saving them. New conversations,
+ * messages and endings are announced on the research group's and the admin's live channels.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { dialect, query, queryOne } from '../config/database';
+import { Message } from '../types';
+import { Conversation, Task } from '../types/database.types';
+import { EndReason } from '../types/completion.types';
+import { LiveEvent } from '../types/live.types';
+import { WriteResult } from '../types/driver.types';
+import { pushService, pushChannels } from './push.service';
+
+// Helper: format a Date as EST (America/New_York) in MySQL DATETIME format
+// Milliseconds are kept so turns written in the same second still sort correctly
+export const formatAsESTDateTime = (date: Date) => {
+  const estDate = new Date(
+    date.toLocaleString('en-US', { timeZone: 'America/New_York' })
+  );
+  const year = estDate.getFullYear();
+  const month = String(estDate.getMonth() + 1).padStart(2, '0');
+  const day = String(estDate.getDate()).padStart(2, '0');
+  const hour = String(estDate.getHours()).padStart(2, '0');
+  const minute = String(estDate.getMinutes()).padStart(2, '0');
+  const second = String(estDate.getSeconds()).padStart(2, '0');
+  const millisecond = String(date.getMilliseconds()).padStart(3, '0');
+  return `${year}-${month}-${day} ${hour}:${minute}:${second}.${millisecond}`;
+};
+
+/**
+ * Announce a change to the research group's monitors and the admin dashboard
+ */
+const publishLive = (userId: string, event: LiveEvent) => {
+  pushService.publish(pushChannels.researcher(userId), event);
+  pushService.publish(pushChannels.admin, event);
+};
+
+class ConversationService {
+  /**
+   * Look up the task a participant is chatting under
+   */
+  async findTask(taskId: string): Promise<Task | null> {
+    return queryOne<Task>('SELECT * FROM tasks WHERE id = ?', [taskId]);
+  }
+
+  async findConversation(conversationId: string): Promise<Conversation | null> {
+    return queryOne<Conversation>(
+      'SELECT * FROM conversations WHERE id = ?',
+      [conversationId]
+    );
+  }
+
+  /**
+   * Create the conversation under the task owner's research group, snapshotting the
+   * task, model and prompts, with the task prompt stored as the opening AI message
+   */
+  async startConversation(
+    conversationId: string,
+    task: Task,
+    modelId: string,
+    participantId: string | null,
+    urlParams: Record<string, string>
+  ): Promise<Message> {
+    const now = new Date();
+    const createdAt = formatAsESTDateTime(now);
+
+    await query(
+      `INSERT INTO conversations
+       (id, user_id, title, ai_model_name, ai_model_personality, ai_model_icon,
+        task_id, model_id, system_prompt, task_prompt, participant_id, url_params, created_at, last_message_at, started_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ${dialect.now})`,
+      [
+        conversationId,
+        task.user_id,
+        `Chat with ${task.name}`,
+        task.name,
+        'AI Assistant',
+        '🤖',
+        task.id,
+        modelId,
+        task.system_prompt,
+        task.task_prompt ?? '',
+        participantId,
+        JSON.stringify(urlParams),
+        createdAt,
+        createdAt
+      ]
+    );
+
+    publishLive(task.user_id, {
+      type: 'conversation-created',
+      conversation: {
+        id: conversationId,
+        userId: task.user_id,
+        title: `Chat with ${task.name}`,
+        taskId: task.id,
+        taskName: task.name,
+        modelId,
+        participantId,
+        createdAt: now,
+        lastMessageAt: now
+      }
+    });
+
+    const greeting: Message = {
+      id: uuidv4(),
+      text: task.task_prompt || `Hello! You are chatting with ${task.name}. How can I help you today?`,
+      sender: 'ai',
+      timestamp: now
+    };
+    await this.addMessage(conversationId, greeting);
+
+    console.log(`🆕 [Conversation] Started ${conversationId} for task ${task.name}`);
+    return greeting;
+  }
+
+  /**
+   * Mark the conversation finished (the first finish time and reason are kept if called again)
+   */
+  async markFinished(conversationId: string, reason: EndReason): Promise<void> {
+    const result = await query<WriteResult>(
+      `UPDATE conversations
+       SET end_reason = ?, finished_at = ${dialect.now}
+       WHERE id = ? AND finished_at IS NULL`,
+      [reason, conversationId]
+    );
+    if (result.affectedRows === 0) return;
+
+    const conversation = await this.findConversation(conversationId);
+    if (conversation) {
+      publishLive(conversation.user_id, {
+        type: 'conversation-ended',
+        conversationId,
+        userId: conversation.user_id,
+        endReason: reason,
+        finishedAt: conversation.finished_at ?? new Date()
+      });
+    }
+    console.log(`🏁 [Conversation] Finished ${conversationId} (${reason})`);
+  }
+
+  /**
+   * Seconds since the conversation's first message, by the database clock
+   */
+  async elapsedSeconds(conversationId: string): Promise<number> {
+    const row = await queryOne<{ elapsed: number }>(
+      `SELECT ${dialect.secondsSince('started_at')} AS elapsed FROM conversations WHERE id = ?`,
+      [conversationId]
+    );
+    return Number(row?.elapsed ?? 0);
+  }
+
+  /**
+   * Full transcript, oldest first
+   */
+  async getMessages(conversationId: string): Promise<Message[]> {
+    const rows = await query<any[]>(
+      `SELECT id, text, sender, model_id, system_prompt, author, model_draft, generation_ms, delay_ms, timestamp
+       FROM messages
+       WHERE conversation_id = ?
+       ORDER BY timestamp ASC`,
+      [conversationId]
+    );
+
+    return rows.map(row => ({
+      id: row.id,
+      text: row.text,
+      sender: row.sender,
+      timestamp: new Date(row.timestamp),
+      modelId: row.model_id ?? undefined,
+      systemPrompt: row.system_prompt ?? undefined,
+      author: row.author ?? undefined,
+      modelDraft: row.model_draft ?? undefined,
+      generationMs: row.generation_ms ?? undefined,
+      delayMs: row.delay_ms ?? undefined
+    }));
+  }
+
+  /**
+   * Timestamp for the next turn: now, but always after the last stored message so a
+   * greeting, user turn and instant fallback reply never tie
+   */
+  nextTimestamp(history: Message[]): Date {
+    const last = history[history.length - 1];
+    const now = Date.now();
+    return new Date(last ? Math.max(now, last.timestamp.getTime() + 1) : now);
+  }
+
+  /**
+   * Append a turn and bump the conversation's last activity
+   */
+  async addMessage(conversationId: string, message: Message): Promise<void> {
+    const timestamp = formatAsESTDateTime(message.timestamp);
+
+    await query(
+      `INSERT INTO messages
+       (id, conversation_id, text, sender, model_id, system_prompt, author, model_draft,
+        generation_ms, delay_ms, context_policy, context, timestamp)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        message.id,
+        conversationId,
+        message.text,
+        message.sender,
+        message.sender === 'ai' ? message.modelId ?? null : null,
+        message.sender === 'ai' ? message.systemPrompt ?? null : null,
+        message.sender === 'ai' ? message.author ?? null : null,
+        message.sender === 'ai' ? message.modelDraft ?? null : null,
+        message.sender === 'ai' ? message.generationMs ?? null : null,
+        message.sender === 'ai' ? message.delayMs ?? null : null,
+        message.sender === 'ai' ? message.contextPolicy ?? null : null,
+        message.sender === 'ai' && message.context ? JSON.stringify(message.context) : null,
+        timestamp
+      ]
+    );
+
+    await query(
+      'UPDATE conversations SET last_message_at = ? WHERE id = ?',
+      [timestamp, conversationId]
+    );
+
+    const conversation = await queryOne<{ user_id: string }>(
+      'SELECT user_id FROM conversations WHERE id = ?',
+      [conversationId]
+    );
+    if (conversation) {
+      publishLive(conversation.user_id, {
+        type: 'message-added',
+        conversationId,
+        userId: conversation.user_id,
+        message: {
+          id: message.id,
+          text: message.text,
+          sender: message.sender,
+          timestamp: message.timestamp,
+          modelId: message.modelId,
+          author: message.author
+        }
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const conversationService = new ConversationService();
@@ -0,0 +1,95 @@
+/**
+ * Latency Service
+ * Applies a task's reply latency settings: holds each reply back until the configured
+ * time has passed since the participant's message, so perceived latency can be
+ * manipulated independently of how fast the model actually was
+ */
+
+import { LATENCY_MODES, LatencySettings } from '../types/latency.types';
+import { Task } from '../types/database.types';
+
+// Tasks created before latency was configurable release replies as soon as they are ready
+export const DEFAULT_LATENCY_SETTINGS: LatencySettings = {
+  latencyMode: 'none',
+  latencyFixedMs: 2000,
+  latencyCharsPerSecond: 30,
+  latencyMinMs: 1000,
+  latencyMaxMs: 4000,
+  showTypingIndicator: true,
+};
+
+// Longest a reply may be held back
+const MAX_DELAY_MS = 120000;
+
+class LatencyService {
+  settingsFromTask(task: Task | null): LatencySettings {
+    if (!task) return { ...DEFAULT_LATENCY_SETTINGS };
+    return {
+      latencyMode: task.latency_mode,
+      latencyFixedMs: task.latency_fixed_ms,
+      latencyCharsPerSecond: task.latency_chars_per_second,
+      latencyMinMs: task.latency_min_ms,
+      latencyMaxMs: task.latency_max_ms,
+      showTypingIndicator: Boolean(task.show_typing_indicator)
+    };
+  }
+
+  /**
+   * Check a task's latency settings; returns an error message, or null when valid
+   */
+  validateSettings(settings: LatencySettings): string | null {
+    if (!LATENCY_MODES.includes(settings.latencyMode)) {
+      return `Latency mode must be one of: ${LATENCY_MODES.join(', ')}`;
+    }
+    for (const [label, value] of [
+      ['Fixed delay', settings.latencyFixedMs],
+      ['Minimum delay', settings.latencyMinMs],
+      ['Maximum delay', settings.latencyMaxMs]
+    ] as const) {
+      if (!Number.isInteger(value) || value < 0 || value > MAX_DELAY_MS) {
+        return `${label} must be a whole number of milliseconds between 0 and ${MAX_DELAY_MS}`;
+      }
+    }
+    if (settings.latencyMinMs > settings.latencyMaxMs) {
+      return 'Minimum delay cannot be higher than the maximum';
+    }
+    if (typeof settings.latencyCharsPerSecond !== 'number' || !(settings.latencyCharsPerSecond >= 1 && settings.latencyCharsPerSecond <= 1000)) {
+      return 'Typing speed must be between 1 and 1000 characters per second';
+    }
+    return null;
+  }
+
+  /**
+   * Total time from the participant's message to releasing a reply of this length
+   */
+  targetMs(settings: LatencySettings, replyLength: number): number {
+    switch (settings.latencyMode) {
+      case 'fixed':
+        return settings.latencyFixedMs;
+      case 'typing':
+        return Math.min(Math.round((replyLength / settings.latencyCharsPerSecond) * 1000), MAX_DELAY_MS);
+      case 'jitter':
+        return settings.latencyMinMs + Math.round(Math.random() * (settings.latencyMaxMs - settings.latencyMinMs));
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Wait out whatever is left of the reply's target latency; returns the delay imposed
+   * (0 when producing the reply already took longer than the target)
+   *
+   * @param receivedAt when the participant's message arrived (ms since epoch)
+   */
+  async holdReply(settings: LatencySettings, receivedAt: number, replyLength: number): Promise<number> {
+    const delayMs = Math.max(0, this.targetMs(settings, replyLength) - (Date.now() - receivedAt));
+    if (delayMs > 0) {
+      console.log(`⏱️ [Latency] Holding reply for ${delayMs}ms (${settings.latencyMode})`);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+    return delayMs;
+  }
+}
+
+// Export singleton instance
+export const latencyService = new LatencyService();
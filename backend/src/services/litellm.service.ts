@@ -4,15 +4,38 @@
  */
 
 import axios, { AxiosError } from 'axios';
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
 import { configService } from './config.service';
+import { usageService } from './usage.service';
+import { mockLLMService } from './mock.service';
+import { capabilityService } from './capability.service';
 import {
   LiteLLMMessage,
   LiteLLMRequest,
   LiteLLMModelsResponse,
   LiteLLMChatResponse,
+  LiteLLMStreamChunk,
+  LiteLLMUsage,
   ModelsListResponse,
   ChatCompletionResponse,
+  StreamCompletionResponse,
+  GenerationParams,
 } from '../types/litellm.types';
+import { UsageAttribution } from '../types/usage.types';
+import { ModelCapabilities } from '../types/capability.types';
+
+// Used for tasks created before generation parameters were configurable
+export const DEFAULT_GENERATION_PARAMS: GenerationParams = {
+  temperature: 0.7,
+  maxTokens: 2000,
+  topP: 0.9,
+  presencePenalty: 0,
+  frequencyPenalty: 0,
+};
+
+// Upper bound on max_tokens accepted for a task
+const MAX_TOKENS_LIMIT = 16384;
 
 class LiteLLMService {
   /**
@@ -30,8 +53,19 @@ class LiteLLMService {
 
   /**
    * Get list of available models from LiteLLM
+   * With `includeMock`, the built-in mock models are listed too (when enabled), and are
+   * still listed when LiteLLM can't be reached, so model pickers work offline.
    */
-  async getModelsList(): Promise<ModelsListResponse> {
+  async getModelsList(includeMock = true): Promise<ModelsListResponse> {
+    const mockModels = includeMock && mockLLMService.isEnabled() ? mockLLMService.listModels() : [];
+    const withMockModels = (result: ModelsListResponse): ModelsListResponse => {
+      if (mockModels.length === 0) return result;
+      if (!result.success) {
+        console.warn(`⚠️ ${result.error}; listing the mock models only`);
+      }
+      return { ...result, success: true, models: [...result.models, ...mockModels] };
+    };
+
     try {
       const baseUrl = await configService.getValueByKey('LITELLM_API_BASE');
       const litellmApiKey = await configService.getValueByKey('LITELLM_API_KEY');
@@ -39,7 +73,7 @@ class LiteLLMService {
 
       if (!baseUrl) {
         console.error('❌ LiteLLM API base URL not configured');
-        return { success: false, error: 'LiteLLM API base URL not configured', models: [] };
+        return withMockModels({ success: false, error: 'LiteLLM API base URL not configured', models: [] });
       }
 
       // Choose the right API key based on the base URL
@@ -63,10 +97,10 @@ class LiteLLMService {
       });
 
       console.log(`✅ Retrieved ${response.data.data?.length || 0} models from LiteLLM`);
-      return {
+      return withMockModels({
         success: true,
         models: response.data.data || [],
-      };
+      });
     } catch (error) {
       const axiosError = error as AxiosError;
       console.error('❌ Failed to get model list:', axiosError.message);
@@ -75,23 +109,175 @@ class LiteLLMService {
         console.error('Response status:', axiosError.response.status);
         console.error('Response data:', axiosError.response.data);
       } else if (axiosError.code === 'ECONNREFUSED') {
-        return {
+        return withMockModels({
           success: false,
           error: 'Cannot connect to LiteLLM service. Please ensure LiteLLM is running.',
           models: [],
-        };
+        });
       }
 
-      return {
+      return withMockModels({
         success: false,
         error: `Failed to get model list: ${axiosError.message}`,
         models: [],
-      };
+      });
+    }
+  }
+
+  /**
+   * Resolve the chat completions URL and auth headers
+   */
+  private async resolveChatEndpoint(): Promise<{ url: string; headers: Record<string, string> } | null> {
+    // Priority: Environment variables > Database config
+    const baseUrl = process.env.LITELLM_API_BASE || await configService.getValueByKey('LITELLM_API_BASE');
+    const litellmApiKey = process.env.LITELLM_API_KEY || await configService.getValueByKey('LITELLM_API_KEY');
+    const openaiApiKey = process.env.OPENAI_API_KEY || await configService.getValueByKey('OPENAI_API_KEY');
+
+    if (!baseUrl) {
+      console.error('❌ LiteLLM API base URL not configured');
+      return null;
+    }
+
+    console.log(`🔗 Using LiteLLM endpoint: ${baseUrl}`);
+
+    // Choose the right API key based on the base URL
+    // If connecting directly to OpenAI, use OpenAI key; otherwise use LiteLLM key
+    const isDirectOpenAI = baseUrl.includes('api.openai.com');
+    const apiKey = isDirectOpenAI ? openaiApiKey : litellmApiKey;
+
+    if (!apiKey) {
+      console.warn(`⚠️  No API key configured for ${isDirectOpenAI ? 'OpenAI' : 'LiteLLM'}`);
+      console.warn(`⚠️  Attempting request without authentication (may work for public proxies)`);
+    } else {
+      console.log(`🔑 Using API key: ***configured***`);
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
     }
+
+    return { url: this.buildUrl(baseUrl, '/v1/chat/completions'), headers };
   }
 
   /**
-   * Send chat completion request to LiteLLM
+   * Build the request body shared by the blocking and streaming completion calls
+   * Sampling parameters are only sent when the model's registry entry lists them, and
+   * max_tokens is capped at the model's output limit.
+   */
+  private buildChatRequest(
+    messages: LiteLLMMessage[],
+    modelId: string,
+    capabilities: ModelCapabilities,
+    temperature?: number,
+    maxTokens?: number,
+    topP?: number,
+    presencePenalty?: number,
+    frequencyPenalty?: number
+  ): LiteLLMRequest {
+    let maxOutput = maxTokens || 1000;
+    if (capabilities.maxOutputTokens !== null && maxOutput > capabilities.maxOutputTokens) {
+      console.warn(`⚠️ max_tokens ${maxOutput} is over ${modelId}'s limit; sending ${capabilities.maxOutputTokens}`);
+      maxOutput = capabilities.maxOutputTokens;
+    }
+
+    const requestData: LiteLLMRequest = {
+      model: modelId, // Use model from frontend - no fallback
+      messages: messages,
+      max_tokens: maxOutput,
+    };
+
+    const accepts = capabilities.samplingParams;
+    if (accepts.includes('temperature')) {
+      requestData.temperature = temperature !== undefined ? temperature : 0.7;
+    }
+    if (accepts.includes('top_p')) {
+      requestData.top_p = topP !== undefined ? topP : 1.0;
+    }
+    if (accepts.includes('presence_penalty')) {
+      requestData.presence_penalty = presencePenalty !== undefined ? presencePenalty : 0.0;
+    }
+    if (accepts.includes('frequency_penalty')) {
+      requestData.frequency_penalty = frequencyPenalty !== undefined ? frequencyPenalty : 0.0;
+    }
+
+    console.log(`🤖 Using model: ${requestData.model} (temp: ${requestData.temperature ?? 'not sent'})`);
+    console.log(`📝 Message count: ${messages.length}`);
+
+    return requestData;
+  }
+
+  /**
+   * Check a task's generation parameters against what the model accepts (its registry entry)
+   * Returns an error message, or null when the parameters are valid
+   */
+  async validateGenerationParams(modelId: string, params: GenerationParams): Promise<string | null> {
+    const isNumber = (value: unknown): value is number =>
+      typeof value === 'number' && Number.isFinite(value);
+    const capabilities = await capabilityService.resolve(modelId);
+
+    // e.g. OpenAI allows 0-2; Anthropic and the Bedrock-hosted models cap temperature at 1
+    const maxTemperature = capabilities.maxTemperature;
+    if (!isNumber(params.temperature) || params.temperature < 0 || params.temperature > maxTemperature) {
+      return `Temperature must be between 0 and ${maxTemperature} for ${modelId}`;
+    }
+
+    const maxTokens = Math.min(MAX_TOKENS_LIMIT, capabilities.maxOutputTokens ?? MAX_TOKENS_LIMIT);
+    if (!Number.isInteger(params.maxTokens) || params.maxTokens < 1 || params.maxTokens > maxTokens) {
+      return maxTokens < MAX_TOKENS_LIMIT
+        ? `Max tokens must be a whole number between 1 and ${maxTokens} for ${modelId}`
+        : `Max tokens must be a whole number between 1 and ${MAX_TOKENS_LIMIT}`;
+    }
+
+    // Stored for every task but only sent to models that accept them (see buildChatRequest)
+    if (!isNumber(params.topP) || params.topP < 0 || params.topP > 1) {
+      return 'Top P must be between 0 and 1';
+    }
+    if (!isNumber(params.presencePenalty) || params.presencePenalty < -2 || params.presencePenalty > 2) {
+      return 'Presence penalty must be between -2 and 2';
+    }
+    if (!isNumber(params.frequencyPenalty) || params.frequencyPenalty < -2 || params.frequencyPenalty > 2) {
+      return 'Frequency penalty must be between -2 and 2';
+    }
+
+    return null;
+  }
+
+  /**
+   * Error message when a mock model is requested but mock models are turned off
+   */
+  private mockDisabledError(): string | null {
+    if (mockLLMService.isEnabled()) return null;
+    console.error('❌ Mock model requested while mock models are disabled');
+    return 'Mock models are disabled on this server (set MOCK_LLM_ENABLED=true to use them)';
+  }
+
+  /**
+   * Map an axios failure to a user-facing error message
+   */
+  private describeRequestError(axiosError: AxiosError, label: string): string {
+    console.error(`❌ ${label} failed: ${axiosError.message}`);
+
+    if (axiosError.response) {
+      console.error('Response status:', axiosError.response.status);
+      if (axiosError.config?.responseType !== 'stream') {
+        console.error('Response data:', axiosError.response.data);
+      }
+    } else if (axiosError.code === 'ECONNREFUSED') {
+      return 'Cannot connect to LiteLLM service. Please ensure LiteLLM is running.';
+    } else if (axiosError.code === 'ETIMEDOUT' || axiosError.code === 'ECONNABORTED') {
+      return 'Request timed out. The AI service took too long to respond.';
+    }
+
+    return `${label} failed: ${axiosError.message}`;
+  }
+
+  /**
+   * Send chat completion request to LiteLLM (or, for a `mock/` model, to the mock service)
+   * With `usageFor`, the call's tokens and latency are recorded against that research group.
    */
   async sendChatCompletion(
     messages: LiteLLMMessage[],
@@ -100,16 +286,24 @@ class LiteLLMService {
     maxTokens?: number,
     topP?: number,
     presencePenalty?: number,
-    frequencyPenalty?: number
+    frequencyPenalty?: number,
+    usageFor?: UsageAttribution
   ): Promise<ChatCompletionResponse> {
-    try {
-      // Priority: Environment variables > Database config
-      const baseUrl = process.env.LITELLM_API_BASE || await configService.getValueByKey('LITELLM_API_BASE');
-      const litellmApiKey = process.env.LITELLM_API_KEY || await configService.getValueByKey('LITELLM_API_KEY');
-      const openaiApiKey = process.env.OPENAI_API_KEY || await configService.getValueByKey('OPENAI_API_KEY');
+    if (modelId && mockLLMService.isMockModel(modelId)) {
+      const disabled = this.mockDisabledError();
+      if (disabled) return { success: false, error: disabled };
+
+      const startedAt = Date.now();
+      const result = await mockLLMService.complete(messages, modelId, maxTokens);
+      if (result.success && usageFor) {
+        await usageService.record(usageFor, modelId, result.data?.usage, Date.now() - startedAt);
+      }
+      return result;
+    }
 
-      if (!baseUrl) {
-        console.error('❌ LiteLLM API base URL not configured');
+    try {
+      const endpoint = await this.resolveChatEndpoint();
+      if (!endpoint) {
         return { success: false, error: 'LiteLLM API base URL not configured' };
       }
 
@@ -119,61 +313,21 @@ class LiteLLMService {
         return { success: false, error: 'Model ID is required. Please select a model in the frontend.' };
       }
 
-      console.log(`🔗 Using LiteLLM endpoint: ${baseUrl}`);
-
-      // Choose the right API key based on the base URL
-      // If connecting directly to OpenAI, use OpenAI key; otherwise use LiteLLM key
-      const isDirectOpenAI = baseUrl.includes('api.openai.com');
-      const apiKey = isDirectOpenAI ? openaiApiKey : litellmApiKey;
-
-      if (!apiKey) {
-        console.warn(`⚠️  No API key configured for ${isDirectOpenAI ? 'OpenAI' : 'LiteLLM'}`);
-        console.warn(`⚠️  Attempting request without authentication (may work for public proxies)`);
-      } else {
-        console.log(`🔑 Using API key: ***configured***`);
-      }
+      console.log(`💬 Sending chat request to: ${endpoint.url}`);
 
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-      };
-
-      if (apiKey) {
-        headers['Authorization'] = `Bearer ${apiKey}`;
-      }
-
-      const url = this.buildUrl(baseUrl, '/v1/chat/completions');
-      console.log(`💬 Sending chat request to: ${url}`);
-
-      const requestData: LiteLLMRequest = {
-        model: modelId, // Use model from frontend - no fallback
-        messages: messages,
-        temperature: temperature !== undefined ? temperature : 0.7,
-        max_tokens: maxTokens || 1000,
-      };
-
-      // Only add OpenAI-specific parameters for GPT models
-      // Claude, Gemini, DeepSeek, Nova, Llama, Mistral don't support these
-      const modelLower = modelId.toLowerCase();
-      const isGPTModel = (
-        modelLower.startsWith('gpt-') || 
-        modelLower.startsWith('o1-') ||
-        modelLower.startsWith('o3-') ||
-        modelLower.startsWith('o4-')
+      const capabilities = await capabilityService.resolve(modelId);
+      const requestData = this.buildChatRequest(
+        messages, modelId, capabilities, temperature, maxTokens, topP, presencePenalty, frequencyPenalty
       );
-      
-      if (isGPTModel) {
-        requestData.top_p = topP !== undefined ? topP : 1.0;
-        requestData.presence_penalty = presencePenalty !== undefined ? presencePenalty : 0.0;
-        requestData.frequency_penalty = frequencyPenalty !== undefined ? frequencyPenalty : 0.0;
-      }
 
-      console.log(`🤖 Using model: ${requestData.model} (temp: ${requestData.temperature})`);
-      console.log(`📝 Message count: ${messages.length}`);
-
-      const response = await axios.post<LiteLLMChatResponse>(url, requestData, {
-        headers,
+      const startedAt = Date.now();
+      const response = await axios.post<LiteLLMChatResponse>(endpoint.url, requestData, {
+        headers: endpoint.headers,
         timeout: 60000, // 60 second timeout for chat
       });
+      if (usageFor) {
+        await usageService.record(usageFor, modelId, response.data?.usage, Date.now() - startedAt);
+      }
 
       // Validate response format
       if (!response.data || !response.data.choices || response.data.choices.length === 0) {
@@ -182,48 +336,153 @@ class LiteLLMService {
       }
 
       const aiMessage = response.data.choices[0].message.content;
-      console.log(`✅ Received AI response (${aiMessage.length} characters)`);
+      const usage = response.data.usage;
+      console.log(`✅ Received AI response (${aiMessage.length} characters${usage ? `, ${usage.total_tokens} tokens` : ''})`);
 
       return {
         success: true,
         data: response.data,
       };
     } catch (error) {
-      const axiosError = error as AxiosError;
-      console.error(`❌ Chat completion request failed: ${axiosError.message}`);
-
-      if (axiosError.response) {
-        console.error('Response status:', axiosError.response.status);
-        console.error('Response data:', axiosError.response.data);
-      } else if (axiosError.code === 'ECONNREFUSED') {
-        return {
-          success: false,
-          error: 'Cannot connect to LiteLLM service. Please ensure LiteLLM is running.',
-        };
-      } else if (axiosError.code === 'ETIMEDOUT') {
-        return {
-          success: false,
-          error: 'Request timed out. The AI service took too long to respond.',
-        };
-      }
-
       return {
         success: false,
-        error: `Chat completion request failed: ${axiosError.message}`,
+        error: this.describeRequestError(error as AxiosError, 'Chat completion request'),
       };
     }
   }
 
   /**
-   * Get provider name from model ID
+   * Stream a chat completion from LiteLLM (`stream: true`); `mock/` models stream from the mock service.
+   * Each content delta from the upstream SSE stream is passed to `onDelta` as it arrives.
+   * Token usage is requested with `stream_options` and returned when the provider reports it;
+   * with `usageFor` it is also recorded, including for a stream cancelled part way.
+   * Aborting `signal` cancels the upstream request (e.g. when the participant disconnects).
    */
-  getProviderFromModelId(modelId: string): string {
-    if (modelId.startsWith('gpt')) return 'openai';
-    if (modelId.startsWith('claude')) return 'anthropic';
-    if (modelId.startsWith('gemini')) return 'google';
-    if (modelId.startsWith('llama')) return 'meta';
-    if (modelId.includes('mistral')) return 'mistral';
-    return 'unknown';
+  async streamChatCompletion(
+    messages: LiteLLMMessage[],
+    modelId: string | undefined,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal,
+    temperature?: number,
+    maxTokens?: number,
+    topP?: number,
+    presencePenalty?: number,
+    frequencyPenalty?: number,
+    usageFor?: UsageAttribution
+  ): Promise<StreamCompletionResponse> {
+    let content = '';
+    let finishReason: string | null = null;
+    let usage: LiteLLMUsage | undefined;
+    let startedAt: number | null = null;
+    const recordUsage = async () => {
+      if (usageFor && modelId && startedAt !== null) {
+        await usageService.record(usageFor, modelId, usage, Date.now() - startedAt);
+      }
+    };
+
+    if (modelId && mockLLMService.isMockModel(modelId)) {
+      const disabled = this.mockDisabledError();
+      if (disabled) return { success: false, content, error: disabled };
+
+      startedAt = Date.now();
+      const result = await mockLLMService.stream(messages, modelId, onDelta, signal, maxTokens);
+      usage = result.usage;
+      if (result.success || result.aborted) {
+        await recordUsage();
+      }
+      return result;
+    }
+
+    try {
+      const endpoint = await this.resolveChatEndpoint();
+      if (!endpoint) {
+        return { success: false, content, error: 'LiteLLM API base URL not configured' };
+      }
+
+      if (!modelId) {
+        console.error('❌ No model ID provided in request');
+        return { success: false, content, error: 'Model ID is required. Please select a model in the frontend.' };
+      }
+
+      console.log(`📡 Streaming chat request to: ${endpoint.url}`);
+
+      const capabilities = await capabilityService.resolve(modelId);
+      const requestData: LiteLLMRequest = {
+        ...this.buildChatRequest(
+          messages, modelId, capabilities, temperature, maxTokens, topP, presencePenalty, frequencyPenalty
+        ),
+        stream: true,
+        stream_options: { include_usage: true },
+      };
+
+      startedAt = Date.now();
+      const response = await axios.post<Readable>(endpoint.url, requestData, {
+        headers: { ...endpoint.headers, Accept: 'text/event-stream' },
+        responseType: 'stream',
+        timeout: 60000, // applies until the first byte arrives
+        signal,
+      });
+
+      // Upstream SSE: payload lines start with "data:", the stream ends with "data: [DONE]"
+      // The decoder holds back a multi-byte character split across chunks until it is complete
+      const decoder = new StringDecoder('utf8');
+      let buffer = '';
+      let done = false;
+      for await (const raw of response.data) {
+        buffer += decoder.write(raw);
+
+        let lineEnd: number;
+        while (!done && (lineEnd = buffer.indexOf('\n')) !== -1) {
+          const line = buffer.slice(0, lineEnd).trim();
+          buffer = buffer.slice(lineEnd + 1);
+
+          if (!line.startsWith('data:')) continue;
+          const payload = line.slice(5).trim();
+
+          if (payload === '[DONE]') {
+            done = true;
+            break;
+          }
+
+          try {
+            const chunk = JSON.parse(payload) as LiteLLMStreamChunk;
+            const choice = chunk.choices?.[0];
+            const delta = choice?.delta?.content;
+            if (delta) {
+              content += delta;
+              onDelta(delta);
+            }
+            if (choice?.finish_reason) {
+              finishReason = choice.finish_reason;
+            }
+            if (chunk.usage) {
+              usage = chunk.usage;
+            }
+          } catch {
+            console.warn(`⚠️ Skipping unparseable stream payload: ${payload.substring(0, 100)}`);
+          }
+        }
+
+        if (done) break;
+      }
+
+      console.log(`✅ Streamed AI response (${content.length} characters${usage ? `, ${usage.total_tokens} tokens` : ''})`);
+      await recordUsage();
+
+      return { success: true, content, finishReason, usage };
+    } catch (error) {
+      if (axios.isCancel(error) || signal?.aborted) {
+        console.log(`🛑 Streaming request cancelled after ${content.length} characters`);
+        await recordUsage();
+        return { success: false, content, aborted: true, error: 'Request cancelled' };
+      }
+
+      return {
+        success: false,
+        content,
+        error: this.describeRequestError(error as AxiosError, 'Streaming chat completion request'),
+      };
+    }
   }
 
   /**
@@ -231,7 +490,7 @@ class LiteLLMService {
    */
   async testConnection(): Promise<{ success: boolean; message: string; models?: number }> {
     try {
-      const result = await this.getModelsList();
+      const result = await this.getModelsList(false);
       if (result.success) {
         return {
           success: true,
@@ -0,0 +1,290 @@
+/**
+ * Migration Service
+ * Applies the numbered SQL migrations in database/migrations (database/migrations/sqlite
+ * under DB_DRIVER=sqlite) in order and records each one, with a checksum of its file, in
+ * schema_migrations. Runs at startup (unless MIGRATE_ON_START=false) and from `npm run migrate`.
+ *
+ * MySQL commits DDL as it goes, so a migration that fails part way is not rolled back:
+ * it stays unrecorded, and the statements before the failure have to be undone by hand.
+ * SQLite rolls the whole migration back.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { dialect, driverName, query, queryOne, transaction } from '../config/database';
+import { AppliedMigration, Migration, MigrationOptions, MigrationStatus } from '../types/migration.types';
+
+// Relative to src/services and dist/services alike; SQLite has its own copy of the schema
+const MIGRATIONS_DIR = path.resolve(
+  __dirname,
+  driverName === 'sqlite' ? '../../database/migrations/sqlite' : '../../database/migrations'
+);
+const FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.(up|down)\.sql$/;
+const BASELINE_VERSION = 1;
+
+const readSql = (file: string): string =>
+  fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8').replace(/\r\n/g, '\n');
+
+const checksumOf = (sql: string): string => crypto.createHash('sha256').update(sql).digest('hex');
+
+const label = (migration: { version: number; name: string }): string =>
+  `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+
+/**
+ * Split a migration file into statements on the semicolons outside quotes and comments
+ */
+const splitStatements = (sql: string): string[] => {
+  const statements: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i];
+
+    if (quote) {
+      current += char;
+      if (char === '\\' && quote !== '`') {
+        current += sql[++i] ?? '';
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '-' && sql[i + 1] === '-') {
+      while (i < sql.length && sql[i] !== '\n') i++;
+      current += '\n';
+    } else if (char === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 1;
+      current += ' ';
+    } else if (char === ';') {
+      statements.push(current);
+      current = '';
+    } else {
+      if (char === "'" || char === '"' || char === '`') quote = char;
+      current += char;
+    }
+  }
+  statements.push(current);
+
+  return statements.map(statement => statement.trim()).filter(Boolean);
+};
+
+class MigrationService {
+  /**
+   * The migration files, in version order
+   */
+  loadMigrations(): Migration[] {
+    const byVersion = new Map<number, { name: string; up?: string; down?: string }>();
+
+    for (const file of fs.readdirSync(MIGRATIONS_DIR).sort()) {
+      const match = FILE_PATTERN.exec(file);
+      if (!match) {
+        if (file.endsWith('.sql')) {
+          console.warn(`⚠️ [Migrations] Ignoring ${file}: names must look like 002_add_notes.up.sql`);
+        }
+        continue;
+      }
+
+      const [, version, name, direction] = match;
+      const entry = byVersion.get(Number(version)) ?? { name };
+      if (entry.name !== name || entry[direction as 'up' | 'down']) {
+        throw new Error(`Migration version ${version} is used by more than one file`);
+      }
+      entry[direction as 'up' | 'down'] = file;
+      byVersion.set(Number(version), entry);
+    }
+
+    return [...byVersion.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([version, entry]) => {
+        if (!entry.up) {
+          throw new Error(`${entry.down} has no matching .up.sql file`);
+        }
+        return {
+          version,
+          name: entry.name,
+          upFile: entry.up,
+          downFile: entry.down ?? null,
+          checksum: checksumOf(readSql(entry.up))
+        };
+      });
+  }
+
+  private async ensureMigrationsTable(): Promise<void> {
+    await query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INT PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        checksum CHAR(64) NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        execution_ms INT NULL
+      )${dialect.name === 'mysql' ? ' ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci' : ''}
+    `);
+  }
+
+  async getApplied(): Promise<AppliedMigration[]> {
+    await this.ensureMigrationsTable();
+    return query<AppliedMigration[]>('SELECT * FROM schema_migrations ORDER BY version');
+  }
+
+  /**
+   * Where each migration file and each recorded migration stands
+   */
+  private compare(migrations: Migration[], appliedRows: AppliedMigration[]): MigrationStatus[] {
+    const applied = new Map(appliedRows.map(row => [row.version, row]));
+
+    const statuses: MigrationStatus[] = migrations.map(migration => {
+      const row = applied.get(migration.version);
+      applied.delete(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: !row ? 'pending' : row.checksum === migration.checksum ? 'applied' : 'changed',
+        appliedAt: row?.applied_at ?? null
+      };
+    });
+    for (const row of applied.values()) {
+      statuses.push({ version: row.version, name: row.name, state: 'missing', appliedAt: row.applied_at });
+    }
+
+    return statuses.sort((a, b) => a.version - b.version);
+  }
+
+  async getStatus(): Promise<MigrationStatus[]> {
+    return this.compare(this.loadMigrations(), await this.getApplied());
+  }
+
+  /**
+   * A database set up from schema.sql before migrations existed already has the baseline
+   * tables; record the baseline as applied instead of running it
+   */
+  private async adoptExistingDatabase(baseline: Migration, dryRun: boolean): Promise<boolean> {
+    const existing = await queryOne(dialect.tableExists, ['users']);
+    if (!existing) return false;
+
+    console.log(`🗄️ [Migrations] Found an existing database; ${dryRun ? 'would record' : 'recording'} ${label(baseline)} as applied without running it`);
+    if (!dryRun) {
+      await query(
+        'INSERT INTO schema_migrations (version, name, checksum, execution_ms) VALUES (?, ?, ?, NULL)',
+        [baseline.version, baseline.name, baseline.checksum]
+      );
+    }
+    return true;
+  }
+
+  private async run(file: string, dryRun: boolean): Promise<number> {
+    const statements = splitStatements(readSql(file));
+
+    if (dryRun) {
+      console.log(`🗄️ [Migrations] Would run ${file} (${statements.length} statements):`);
+      statements.forEach(statement => console.log(`${statement};\n`));
+      return 0;
+    }
+
+    const started = Date.now();
+    // One connection, so session variables (SET @id = ...) carry from one statement to the next
+    await transaction(async connection => {
+      for (const [index, statement] of statements.entries()) {
+        try {
+          await connection.query(statement);
+        } catch (error) {
+          throw new Error(
+            `${file} failed at statement ${index + 1} of ${statements.length}: ${(error as Error).message}.` +
+            (dialect.name === 'mysql' ? ' Statements before it have already been applied.' : '')
+          );
+        }
+      }
+    });
+
+    const executionMs = Date.now() - started;
+    console.log(`✅ [Migrations] Ran ${file} (${executionMs} ms)`);
+    return executionMs;
+  }
+
+  /**
+   * Apply every pending migration, in order; refuses when an applied migration's file
+   * has been edited or deleted since. Returns the migrations applied (or, in a dry run,
+   * that would be).
+   */
+  async up(options: MigrationOptions = {}): Promise<Migration[]> {
+    const dryRun = options.dryRun ?? false;
+    const migrations = this.loadMigrations();
+    const applied = await this.getApplied();
+
+    const drifted = this.compare(migrations, applied).filter(status => status.state === 'changed' || status.state === 'missing');
+    if (drifted.length > 0) {
+      throw new Error(
+        `Applied migrations no longer match their files (${drifted.map(s => `${label(s)}: ${s.state}`).join(', ')}). ` +
+        'Restore the files; schema changes belong in a new migration.'
+      );
+    }
+
+    const appliedVersions = new Set(applied.map(row => row.version));
+    let pending = migrations.filter(migration => !appliedVersions.has(migration.version));
+
+    const baseline = pending[0];
+    if (applied.length === 0 && baseline?.version === BASELINE_VERSION && await this.adoptExistingDatabase(baseline, dryRun)) {
+      pending = pending.slice(1);
+    }
+
+    if (pending.length === 0) {
+      console.log('🗄️ [Migrations] Database is up to date');
+      return [];
+    }
+
+    const latest = Math.max(0, ...appliedVersions);
+    const outOfOrder = pending.filter(migration => migration.version < latest);
+    if (outOfOrder.length > 0) {
+      console.warn(`⚠️ [Migrations] Applying ${outOfOrder.map(label).join(', ')} after later migrations`);
+    }
+
+    for (const migration of pending) {
+      const executionMs = await this.run(migration.upFile, dryRun);
+      if (!dryRun) {
+        await query(
+          'INSERT INTO schema_migrations (version, name, checksum, execution_ms) VALUES (?, ?, ?, ?)',
+          [migration.version, migration.name, migration.checksum, executionMs]
+        );
+      }
+    }
+
+    return pending;
+  }
+
+  /**
+   * Revert the latest applied migrations (one by default) with their .down.sql files.
+   * Returns the migrations reverted (or, in a dry run, that would be).
+   */
+  async down(options: MigrationOptions = {}): Promise<Migration[]> {
+    const dryRun = options.dryRun ?? false;
+    const steps = options.steps ?? 1;
+    const migrations = new Map(this.loadMigrations().map(migration => [migration.version, migration]));
+    const toRevert = (await this.getApplied()).reverse().slice(0, steps);
+
+    if (toRevert.length === 0) {
+      console.log('🗄️ [Migrations] Nothing to revert');
+      return [];
+    }
+
+    // Check every migration can be reverted before reverting any
+    const reverting = toRevert.map(row => {
+      const migration = migrations.get(row.version);
+      if (!migration?.downFile) {
+        throw new Error(`${label(row)} has no .down.sql file, so it can't be reverted`);
+      }
+      return migration;
+    });
+
+    for (const migration of reverting) {
+      await this.run(migration.downFile as string, dryRun);
+      if (!dryRun) {
+        await query('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+      }
+    }
+
+    return reverting;
+  }
+}
+
+// Export singleton instance
+export const migrationService = new MigrationService();
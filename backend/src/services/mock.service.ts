@@ -0,0 +1,331 @@
+/**
+ * Mock Model Service
+ * Built-in models selected by the `mock/` model ID prefix, answered in-process instead of
+ * through LiteLLM, so the chat flow runs offline and in automated tests. Replies, token
+ * counts and injected failures depend only on the conversation, so a rerun behaves the same.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  ChatCompletionResponse,
+  LiteLLMMessage,
+  LiteLLMUsage,
+  ModelInfo,
+  StreamCompletionResponse,
+} from '../types/litellm.types';
+import { MOCK_MODES, MockFailure, MockMode, MockOptions } from '../types/mock.types';
+
+export const MOCK_PREFIX = 'mock/';
+
+// Used when the model ID has no maxTokens (matches buildChatRequest)
+const DEFAULT_MAX_TOKENS = 1000;
+const MAX_LATENCY_MS = 120000;
+const MAX_WORDS = 5000;
+
+// Replies for `mock/script` when MOCK_LLM_SCRIPT_FILE isn't set
+const DEFAULT_SCRIPT = [
+  "Thanks for your message. I'm a mock model, so this reply is the same in every run.",
+  'That is an interesting point. Could you tell me a little more about what you have in mind?',
+  'Here is a short list to consider:\n\n1. The first option\n2. The second option\n3. A third, more **cautious** option',
+  'I understand. Is there anything else you would like to go over?',
+];
+
+const LOREM_WORDS = (
+  'lorem ipsum dolor sit amet consectetur adipiscing elit sed do eiusmod tempor incididunt ut labore ' +
+  'et dolore magna aliqua enim ad minim veniam quis nostrud exercitation ullamco laboris nisi aliquip ' +
+  'ex ea commodo consequat duis aute irure in reprehenderit voluptate velit esse cillum fugiat nulla ' +
+  'pariatur excepteur sint occaecat cupidatat non proident sunt culpa qui officia deserunt mollit anim id est laborum'
+).split(' ');
+
+// FNV-1a: a stable 32-bit hash, so the same text always picks the same reply and failures
+const hash = (text: string): number => {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+};
+
+// Seeded pseudo-random numbers in [0, 1) (mulberry32)
+const seededRandom = (seed: number): (() => number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Resolves after `ms`, or as soon as `signal` aborts
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    if (ms <= 0 || signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+
+// Number from a model ID option or environment variable, within bounds
+const toNumber = (value: string | null | undefined, fallback: number, min: number, max: number): number => {
+  if (value === null || value === undefined || value.trim() === '') return fallback;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= min && number <= max ? number : NaN;
+};
+
+class MockLLMService {
+  private scriptCache: { file: string; replies: string[] } | null = null;
+
+  /**
+   * Whether the model ID selects a mock model
+   */
+  isMockModel(modelId: string): boolean {
+    return modelId.toLowerCase().startsWith(MOCK_PREFIX);
+  }
+
+  /**
+   * Mock models are on by default outside production; MOCK_LLM_ENABLED overrides that
+   */
+  isEnabled(): boolean {
+    const setting = process.env.MOCK_LLM_ENABLED;
+    return setting !== undefined ? setting === 'true' : process.env.NODE_ENV !== 'production';
+  }
+
+  /**
+   * The mock models, in the shape of the LiteLLM model list
+   */
+  listModels(): ModelInfo[] {
+    return MOCK_MODES.map(mode => ({ id: `${MOCK_PREFIX}${mode}`, object: 'model', owned_by: 'mock' }));
+  }
+
+  /**
+   * Read the mode and options from a model ID such as `mock/echo?latency=500`
+   * Returns an error message when the ID or an option is invalid
+   */
+  parseModelId(modelId: string): MockOptions | string {
+    const [name, queryString = ''] = modelId.slice(MOCK_PREFIX.length).split('?', 2);
+    const mode = name.toLowerCase() as MockMode;
+    if (!MOCK_MODES.includes(mode)) {
+      return `Unknown mock model "${modelId}". Use ${MOCK_MODES.map(m => MOCK_PREFIX + m).join(', ')}`;
+    }
+
+    const params = new URLSearchParams(queryString);
+    const env = process.env;
+    const options: MockOptions = {
+      mode,
+      latencyMs: toNumber(params.get('latency') ?? env.MOCK_LLM_LATENCY_MS, 0, 0, MAX_LATENCY_MS),
+      chunkDelayMs: toNumber(params.get('chunkDelay') ?? env.MOCK_LLM_CHUNK_DELAY_MS, 30, 0, 10000),
+      failRate: toNumber(params.get('failRate') ?? env.MOCK_LLM_FAILURE_RATE, 0, 0, 1),
+      failWith: (params.get('failWith') ?? env.MOCK_LLM_FAILURE ?? 'error') as MockFailure,
+      words: toNumber(params.get('words'), 60, 1, MAX_WORDS),
+      charsPerToken: toNumber(params.get('charsPerToken'), 4, 1, 100),
+      reportUsage: (params.get('usage') ?? 'true') !== 'false',
+    };
+
+    const numeric = {
+      latency: 'latencyMs',
+      chunkDelay: 'chunkDelayMs',
+      failRate: 'failRate',
+      words: 'words',
+      charsPerToken: 'charsPerToken',
+    } as const;
+    for (const [option, key] of Object.entries(numeric)) {
+      if (Number.isNaN(options[key])) {
+        return `Invalid mock model option in "${modelId}": ${option} is out of range`;
+      }
+    }
+    if (options.failWith !== 'error' && options.failWith !== 'timeout') {
+      return `Invalid mock model option in "${modelId}": failWith must be error or timeout`;
+    }
+    return options;
+  }
+
+  /**
+   * Answer a chat completion request in the shape LiteLLM returns it
+   */
+  async complete(
+    messages: LiteLLMMessage[],
+    modelId: string,
+    maxTokens?: number
+  ): Promise<ChatCompletionResponse> {
+    const options = this.parseModelId(modelId);
+    if (typeof options === 'string') {
+      return { success: false, error: options };
+    }
+
+    await wait(options.latencyMs);
+    const failure = this.injectedFailure(messages, modelId, options);
+    if (failure) {
+      return { success: false, error: failure };
+    }
+
+    const { content, finishReason } = this.buildReply(messages, options, maxTokens);
+    const usage = this.estimateUsage(messages, content, options);
+    console.log(`🧪 [Mock] ${modelId} replied (${content.length} characters)`);
+
+    return {
+      success: true,
+      data: {
+        id: `mock-${hash(JSON.stringify(messages)).toString(16)}`,
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model: modelId,
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: finishReason }],
+        usage,
+      },
+    };
+  }
+
+  /**
+   * Stream the reply word by word, like streamChatCompletion does with LiteLLM's SSE stream
+   */
+  async stream(
+    messages: LiteLLMMessage[],
+    modelId: string,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal,
+    maxTokens?: number
+  ): Promise<StreamCompletionResponse> {
+    let content = '';
+    const options = this.parseModelId(modelId);
+    if (typeof options === 'string') {
+      return { success: false, content, error: options };
+    }
+
+    await wait(options.latencyMs, signal);
+    const failure = signal?.aborted ? null : this.injectedFailure(messages, modelId, options);
+    if (failure) {
+      return { success: false, content, error: failure };
+    }
+
+    const reply = this.buildReply(messages, options, maxTokens);
+    // Split before each word, so the chunks join back into the exact reply
+    const chunks = reply.content.split(/(?<=\s)(?=\S)/);
+    for (const [index, chunk] of chunks.entries()) {
+      if (index > 0) await wait(options.chunkDelayMs, signal);
+      if (signal?.aborted) {
+        console.log(`🛑 [Mock] Stream cancelled after ${content.length} characters`);
+        return { success: false, content, aborted: true, error: 'Request cancelled' };
+      }
+      content += chunk;
+      onDelta(chunk);
+    }
+
+    console.log(`🧪 [Mock] ${modelId} streamed (${content.length} characters)`);
+    return {
+      success: true,
+      content,
+      finishReason: reply.finishReason,
+      usage: this.estimateUsage(messages, content, options),
+    };
+  }
+
+  /**
+   * The reply for the conversation, cut to `maxTokens` like a real model
+   */
+  private buildReply(
+    messages: LiteLLMMessage[],
+    options: MockOptions,
+    maxTokens?: number
+  ): { content: string; finishReason: string } {
+    const lastUserMessage = [...messages].reverse().find(m => m.role === 'user')?.content ?? '';
+
+    let content: string;
+    switch (options.mode) {
+      case 'echo':
+        content = `Echo: ${lastUserMessage}`;
+        break;
+      case 'lorem':
+        content = this.lorem(options.words, hash(lastUserMessage));
+        break;
+      case 'script': {
+        // One reply per assistant turn, starting over after the last
+        const replies = this.loadScript();
+        const turn = messages.filter(m => m.role === 'assistant').length;
+        content = replies[turn % replies.length];
+        break;
+      }
+    }
+
+    const maxChars = (maxTokens || DEFAULT_MAX_TOKENS) * options.charsPerToken;
+    return content.length > maxChars
+      ? { content: content.slice(0, maxChars), finishReason: 'length' }
+      : { content, finishReason: 'stop' };
+  }
+
+  /**
+   * Placeholder sentences of 6-14 words, the same for the same seed
+   */
+  private lorem(words: number, seed: number): string {
+    const random = seededRandom(seed);
+    const sentences: string[] = [];
+    let remaining = words;
+    while (remaining > 0) {
+      const length = Math.min(remaining, 6 + Math.floor(random() * 9));
+      const picked = Array.from({ length }, () => LOREM_WORDS[Math.floor(random() * LOREM_WORDS.length)]);
+      const sentence = picked.join(' ');
+      sentences.push(`${sentence.charAt(0).toUpperCase()}${sentence.slice(1)}.`);
+      remaining -= length;
+    }
+    return sentences.join(' ');
+  }
+
+  /**
+   * Replies for `mock/script`: a JSON array of strings in MOCK_LLM_SCRIPT_FILE, or the built-in list
+   */
+  private loadScript(): string[] {
+    const file = process.env.MOCK_LLM_SCRIPT_FILE;
+    if (!file) return DEFAULT_SCRIPT;
+    if (this.scriptCache?.file === file) return this.scriptCache.replies;
+
+    let replies = DEFAULT_SCRIPT;
+    try {
+      const parsed = JSON.parse(fs.readFileSync(path.resolve(file), 'utf8'));
+      if (Array.isArray(parsed) && parsed.length > 0 && parsed.every(reply => typeof reply === 'string')) {
+        replies = parsed;
+      } else {
+        console.warn(`⚠️ [Mock] ${file} must hold a JSON array of reply strings; using the built-in script`);
+      }
+    } catch (error) {
+      console.warn(`⚠️ [Mock] Could not read ${file}; using the built-in script:`, (error as Error).message);
+    }
+
+    this.scriptCache = { file, replies };
+    return replies;
+  }
+
+  /**
+   * Whether this call fails, decided by a hash of the conversation so the same
+   * conversation fails at the same turn on every run; returns the error message
+   */
+  private injectedFailure(messages: LiteLLMMessage[], modelId: string, options: MockOptions): string | null {
+    if (options.failRate <= 0) return null;
+    const roll = hash(`${modelId}\n${JSON.stringify(messages)}`) / 4294967296;
+    if (roll >= options.failRate) return null;
+
+    console.warn(`⚠️ [Mock] Injected ${options.failWith} for ${modelId}`);
+    return options.failWith === 'timeout'
+      ? 'Request timed out. The AI service took too long to respond.'
+      : 'Chat completion request failed: mock provider error (injected failure)';
+  }
+
+  private estimateUsage(messages: LiteLLMMessage[], content: string, options: MockOptions): LiteLLMUsage | undefined {
+    if (!options.reportUsage) return undefined;
+    const promptChars = messages.reduce((sum, m) => sum + m.content.length, 0);
+    const prompt_tokens = Math.ceil(promptChars / options.charsPerToken);
+    const completion_tokens = Math.ceil(content.length / options.charsPerToken);
+    return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
+  }
+}
+
+// Export singleton instance
+export const mockLLMService = new MockLLMService();
@@ -0,0 +1,73 @@
+/**
+ * Participant Service
+ * Recognises the people taking part in a study, by recruitment-platform ID when
+ * the study URL carries one and by device otherwise, so every conversation and
+ * assignment can be tied back to one participant
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { dialect, query, queryOne } from '../config/database';
+import { ParticipantRow } from '../types/database.types';
+
+class ParticipantService {
+  async findParticipant(participantId: string): Promise<ParticipantRow | null> {
+    return queryOne<ParticipantRow>('SELECT * FROM participants WHERE id = ?', [participantId]);
+  }
+
+  /**
+   * Find or register the participant for a study visit
+   *
+   * An external ID identifies the person across devices; without one, the most
+   * recently seen participant on the device is reused.
+   */
+  async identify(userId: string, deviceId: string, externalId?: string): Promise<ParticipantRow> {
+    const existing = externalId
+      ? await queryOne<ParticipantRow>(
+          'SELECT * FROM participants WHERE user_id = ? AND external_id = ?',
+          [userId, externalId]
+        )
+      : await queryOne<ParticipantRow>(
+          `SELECT * FROM participants
+           WHERE user_id = ? AND device_id = ?
+           ORDER BY last_seen_at DESC
+           LIMIT 1`,
+          [userId, deviceId]
+        );
+
+    if (existing) {
+      await query(
+        `UPDATE participants SET device_id = ?, last_seen_at = ${dialect.now} WHERE id = ?`,
+        [deviceId, existing.id]
+      );
+      console.log(`👋 [Participant] Returning participant ${existing.id}${externalId ? ` (${externalId})` : ''}`);
+      return { ...existing, device_id: deviceId };
+    }
+
+    const id = uuidv4();
+    try {
+      await query(
+        'INSERT INTO participants (id, user_id, external_id, device_id) VALUES (?, ?, ?, ?)',
+        [id, userId, externalId ?? null, deviceId]
+      );
+    } catch (error) {
+      // Two tabs opening the same study link at once: the other request registered them first
+      if (externalId && dialect.isDuplicateKey(error)) {
+        return this.identify(userId, deviceId, externalId);
+      }
+      throw error;
+    }
+
+    console.log(`🆕 [Participant] Registered ${id}${externalId ? ` (${externalId})` : ''}`);
+    return (await this.findParticipant(id))!;
+  }
+
+  /**
+   * Record participant activity (called on every chat turn)
+   */
+  async touch(participantId: string): Promise<void> {
+    await query(`UPDATE participants SET last_seen_at = ${dialect.now} WHERE id = ?`, [participantId]);
+  }
+}
+
+// Export singleton instance
+export const participantService = new ParticipantService();
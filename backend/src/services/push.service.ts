@@ -0,0 +1,77 @@
+/**
+ * Push Service
+ * Server-sent event channels for live updates to open pages (the participant's chat,
+ * the Wizard-of-Oz console, conversation monitoring). Subscribers are held in memory,
+ * so an event only reaches clients connected to the backend process that published it.
+ */
+
+import { Response } from 'express';
+
+// Comment lines keep idle connections from being closed by proxies
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+export interface PushEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+// Channel names
+export const pushChannels = {
+  conversation: (conversationId: string) => `conversation:${conversationId}`,
+  wizard: (userId: string) => `wizard:${userId}`,
+  researcher: (userId: string) => `researcher:${userId}`,
+  admin: 'admin'
+};
+
+class PushService {
+  private subscribers = new Map<string, Set<Response>>();
+
+  /**
+   * Turn the response into an SSE stream that receives the channels' events until the
+   * client disconnects; `initialEvents` are sent straight away (e.g. to catch up a
+   * client that reconnects)
+   */
+  subscribe(res: Response, channels: string[], initialEvents: PushEvent[] = []): void {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx/Apache)
+    res.flushHeaders();
+
+    for (const channel of channels) {
+      if (!this.subscribers.has(channel)) {
+        this.subscribers.set(channel, new Set());
+      }
+      this.subscribers.get(channel)!.add(res);
+    }
+    initialEvents.forEach(event => this.write(res, event));
+
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      for (const channel of channels) {
+        const subscribers = this.subscribers.get(channel);
+        subscribers?.delete(res);
+        if (subscribers?.size === 0) {
+          this.subscribers.delete(channel);
+        }
+      }
+    });
+
+    console.log(`📡 [Push] Subscribed to ${channels.join(', ')}`);
+  }
+
+  /**
+   * Send an event to everyone subscribed to the channel
+   */
+  publish(channel: string, event: PushEvent): void {
+    this.subscribers.get(channel)?.forEach(res => this.write(res, event));
+  }
+
+  private write(res: Response, event: PushEvent): void {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  }
+}
+
+// Export singleton instance
+export const pushService = new PushService();
@@ -0,0 +1,255 @@
+/**
+ * Questionnaire Service
+ * Pre- and post-chat questionnaires defined per task, and the participants'
+ * answers, linked to their conversation so they export with it
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { query, queryOne, transaction } from '../config/database';
+import {
+  ParticipantQuestionnaires,
+  QUESTIONNAIRE_ITEM_TYPES,
+  QUESTIONNAIRE_PHASES,
+  QuestionnaireAnswer,
+  QuestionnaireItem,
+  QuestionnairePhase
+} from '../types/questionnaire.types';
+import { QuestionnaireItemRow, QuestionnaireResponseRow } from '../types/database.types';
+
+const MAX_ITEMS = 100;
+const MAX_PROMPT_LENGTH = 2000;
+const MAX_OPTION_LENGTH = 200;
+const MAX_TEXT_ANSWER_LENGTH = 5000;
+
+const toItem = (row: QuestionnaireItemRow): QuestionnaireItem => ({
+  id: row.id,
+  phase: row.phase,
+  type: row.item_type,
+  prompt: row.prompt,
+  options: row.options ?? [],
+  required: Boolean(row.required)
+});
+
+const toAnswer = (row: QuestionnaireResponseRow): QuestionnaireAnswer => ({
+  itemId: row.item_id,
+  phase: row.phase,
+  type: row.item_type,
+  prompt: row.item_prompt,
+  answer: row.answer,
+  submittedAt: row.submitted_at
+});
+
+class QuestionnaireService {
+  /**
+   * A task's questionnaire items in display order, optionally for one phase
+   */
+  async getItems(taskId: string, phase?: QuestionnairePhase): Promise<QuestionnaireItem[]> {
+    const rows = phase
+      ? await query<QuestionnaireItemRow[]>(
+          'SELECT * FROM questionnaire_items WHERE task_id = ? AND phase = ? ORDER BY position ASC',
+          [taskId, phase]
+        )
+      : await query<QuestionnaireItemRow[]>(
+          `SELECT * FROM questionnaire_items WHERE task_id = ?
+           ORDER BY CASE phase WHEN 'pre' THEN 0 ELSE 1 END, position ASC`,
+          [taskId]
+        );
+    return rows.map(toItem);
+  }
+
+  /**
+   * Check a task's questionnaire items; returns an error message, or null when valid
+   */
+  validateItems(items: unknown): string | null {
+    if (!Array.isArray(items) || items.length > MAX_ITEMS) {
+      return `Questionnaire must be a list of up to ${MAX_ITEMS} items`;
+    }
+    for (const [index, item] of items.entries()) {
+      const label = `Item ${index + 1}`;
+      if (!item || typeof item !== 'object') {
+        return `${label} is invalid`;
+      }
+      if (!QUESTIONNAIRE_PHASES.includes(item.phase)) {
+        return `${label}: phase must be one of: ${QUESTIONNAIRE_PHASES.join(', ')}`;
+      }
+      if (!QUESTIONNAIRE_ITEM_TYPES.includes(item.type)) {
+        return `${label}: type must be one of: ${QUESTIONNAIRE_ITEM_TYPES.join(', ')}`;
+      }
+      if (typeof item.prompt !== 'string' || !item.prompt.trim() || item.prompt.length > MAX_PROMPT_LENGTH) {
+        return `${label}: question must be between 1 and ${MAX_PROMPT_LENGTH} characters`;
+      }
+      if (item.id !== undefined && (typeof item.id !== 'string' || !item.id || item.id.length > 36)) {
+        return `${label}: invalid ID`;
+      }
+      if (item.type !== 'text') {
+        const options = item.options;
+        const [min, max] = item.type === 'likert' ? [2, 11] : [2, 20];
+        if (
+          !Array.isArray(options) ||
+          options.length < min ||
+          options.length > max ||
+          !options.every((o: unknown) => typeof o === 'string' && o.trim() && o.length <= MAX_OPTION_LENGTH)
+        ) {
+          return `${label}: needs ${min} to ${max} ${item.type === 'likert' ? 'scale labels' : 'options'} of up to ${MAX_OPTION_LENGTH} characters`;
+        }
+        if (item.type === 'choice' && new Set(options).size !== options.length) {
+          return `${label}: options must be unique`;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Replace a task's questionnaire; items keep their IDs so earlier answers still match
+   */
+  async saveItems(taskId: string, items: QuestionnaireItem[]): Promise<QuestionnaireItem[]> {
+    const saved = items.map(item => ({
+      id: item.id || uuidv4(),
+      phase: item.phase,
+      type: item.type,
+      prompt: item.prompt.trim(),
+      options: item.type === 'text' ? [] : item.options.map(o => o.trim()),
+      required: item.required !== false
+    }));
+
+    await transaction(async connection => {
+      await connection.query('DELETE FROM questionnaire_items WHERE task_id = ?', [taskId]);
+
+      for (const phase of QUESTIONNAIRE_PHASES) {
+        const phaseItems = saved.filter(item => item.phase === phase);
+        for (const [position, item] of phaseItems.entries()) {
+          await connection.query(
+            `INSERT INTO questionnaire_items (id, task_id, phase, position, item_type, prompt, options, required)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [item.id, taskId, phase, position, item.type, item.prompt, JSON.stringify(item.options), item.required]
+          );
+        }
+      }
+    });
+
+    console.log(`📝 [Questionnaire] Saved ${saved.length} items for task ${taskId}`);
+    return this.getItems(taskId);
+  }
+
+  /**
+   * What the study page still has to show the participant for their task
+   */
+  async getParticipantStatus(taskId: string, participantId: string): Promise<ParticipantQuestionnaires> {
+    const [items, answered, finished] = await Promise.all([
+      this.getItems(taskId),
+      query<{ phase: QuestionnairePhase }[]>(
+        `SELECT DISTINCT phase FROM questionnaire_responses
+         WHERE participant_id = ? AND task_id = ?`,
+        [participantId, taskId]
+      ),
+      queryOne<{ id: string }>(
+        `SELECT id FROM conversations
+         WHERE participant_id = ? AND task_id = ? AND finished_at IS NOT NULL
+         ORDER BY finished_at DESC
+         LIMIT 1`,
+        [participantId, taskId]
+      )
+    ]);
+    const completed = new Set(answered.map(row => row.phase));
+
+    return {
+      pre: {
+        items: items.filter(item => item.phase === 'pre'),
+        completed: completed.has('pre')
+      },
+      post: {
+        items: items.filter(item => item.phase === 'post'),
+        completed: completed.has('post'),
+        conversationId: finished?.id ?? null
+      }
+    };
+  }
+
+  /**
+   * Check answers ({ [itemId]: value }) against the items; returns an error message, or null when valid
+   */
+  validateAnswers(items: QuestionnaireItem[], answers: unknown): string | null {
+    if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+      return 'Answers are required';
+    }
+    for (const item of items) {
+      const value = (answers as Record<string, unknown>)[item.id];
+      if (value === undefined || value === null || value === '') {
+        if (item.required) return `Please answer: ${item.prompt}`;
+        continue;
+      }
+      if (typeof value !== 'string') {
+        return `Invalid answer to: ${item.prompt}`;
+      }
+      if (item.type === 'likert') {
+        const point = Number(value);
+        if (!Number.isInteger(point) || point < 1 || point > item.options.length) {
+          return `Invalid answer to: ${item.prompt}`;
+        }
+      } else if (item.type === 'choice' && !item.options.includes(value)) {
+        return `Invalid answer to: ${item.prompt}`;
+      } else if (item.type === 'text' && value.length > MAX_TEXT_ANSWER_LENGTH) {
+        return `Answers must be at most ${MAX_TEXT_ANSWER_LENGTH} characters`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Store a participant's answers for one phase, one row per item (NULL when skipped)
+   *
+   * Throws a duplicate-key error (see dialect.isDuplicateKey) if the participant already
+   * submitted this phase.
+   */
+  async submit(
+    taskId: string,
+    participantId: string,
+    phase: QuestionnairePhase,
+    items: QuestionnaireItem[],
+    answers: Record<string, string>,
+    conversationId: string | null
+  ): Promise<void> {
+    await transaction(async connection => {
+      for (const item of items) {
+        const value = answers[item.id];
+        await connection.query(
+          `INSERT INTO questionnaire_responses
+           (id, task_id, participant_id, conversation_id, phase, item_id, item_type, item_prompt, answer)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [uuidv4(), taskId, participantId, conversationId, phase, item.id, item.type, item.prompt, value ? value : null]
+        );
+      }
+    });
+
+    console.log(`📝 [Questionnaire] ${participantId} submitted the ${phase} questionnaire (${items.length} items)`);
+  }
+
+  /**
+   * Attach the participant's pre-chat answers to the conversation they just started
+   */
+  async linkToConversation(conversationId: string, taskId: string, participantId: string): Promise<void> {
+    await query(
+      `UPDATE questionnaire_responses SET conversation_id = ?
+       WHERE participant_id = ? AND task_id = ? AND conversation_id IS NULL`,
+      [conversationId, participantId, taskId]
+    );
+  }
+
+  /**
+   * Answers linked to a conversation, pre before post, in questionnaire order
+   */
+  async getConversationAnswers(conversationId: string): Promise<QuestionnaireAnswer[]> {
+    const rows = await query<QuestionnaireResponseRow[]>(
+      `SELECT r.* FROM questionnaire_responses r
+       LEFT JOIN questionnaire_items i ON i.id = r.item_id
+       WHERE r.conversation_id = ?
+       ORDER BY CASE r.phase WHEN 'pre' THEN 0 ELSE 1 END, COALESCE(i.position, 0) ASC, r.submitted_at ASC`,
+      [conversationId]
+    );
+    return rows.map(toAnswer);
+  }
+}
+
+// Export singleton instance
+export const questionnaireService = new QuestionnaireService();
@@ -0,0 +1,177 @@
+/**
+ * Script Service
+ * Picks the pre-written reply for a participant message under the scripted response
+ * modes, so a control condition answers every participant identically
+ */
+
+import { Task } from '../types/database.types';
+import { ResponseMode, ResponseScript, ScriptRule, SCRIPT_MATCH_TYPES } from '../types/response.types';
+
+// Tasks without a script (model and Wizard-of-Oz tasks)
+export const EMPTY_SCRIPT: ResponseScript = {
+  turns: [],
+  rules: [],
+  fallback: ''
+};
+
+const MAX_SCRIPT_ENTRIES = 200;
+const MAX_REPLY_LENGTH = 10000;
+const MAX_PATTERN_LENGTH = 500;
+// Regex rules only look at the start of a message, which bounds the time a slow pattern can take
+const MAX_MATCHED_LENGTH = 1000;
+const MAX_COMPILED_PATTERNS = 1000;
+
+// Regex rule patterns compiled once; null for a pattern that is invalid or could backtrack
+// catastrophically. Cleared when full, since patterns of deleted tasks would pile up.
+const compiledPatterns = new Map<string, RegExp | null>();
+
+/**
+ * Whether the pattern repeats a group that itself contains a repeat, such as `(a+)+` or
+ * `(\w*,?)*`, the shape whose backtracking grows exponentially with the message length
+ */
+const hasNestedQuantifier = (pattern: string): boolean => {
+  const groups: boolean[] = []; // per open group: whether it contains a repeat so far
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if ((char === '+' || char === '*' || char === '{') && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    } else if (char === ')') {
+      const repeatsInside = groups.pop() ?? false;
+      const next = pattern[i + 1];
+      if (repeatsInside && (next === '+' || next === '*' || next === '{')) return true;
+      if (repeatsInside && groups.length > 0) groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+};
+
+/**
+ * The case-insensitive RegExp for a regex rule's pattern, or null when it is invalid or unsafe
+ */
+const compilePattern = (pattern: string): RegExp | null => {
+  const cached = compiledPatterns.get(pattern);
+  if (cached !== undefined) return cached;
+
+  let compiled: RegExp | null = null;
+  if (!hasNestedQuantifier(pattern)) {
+    try {
+      compiled = new RegExp(pattern, 'i');
+    } catch {
+      compiled = null;
+    }
+  }
+  if (compiledPatterns.size >= MAX_COMPILED_PATTERNS) compiledPatterns.clear();
+  compiledPatterns.set(pattern, compiled);
+  return compiled;
+};
+
+/**
+ * Whether the rule matches the participant's message (case-insensitive)
+ */
+const ruleMatches = (rule: ScriptRule, message: string): boolean => {
+  if (rule.match === 'regex') {
+    return compilePattern(rule.pattern)?.test(message.slice(0, MAX_MATCHED_LENGTH)) ?? false;
+  }
+  const text = message.toLowerCase();
+  return rule.pattern
+    .split(',')
+    .map(keyword => keyword.trim().toLowerCase())
+    .some(keyword => keyword && text.includes(keyword));
+};
+
+class ScriptService {
+  scriptFromTask(task: Task | null): ResponseScript {
+    return task?.response_script ? { ...EMPTY_SCRIPT, ...task.response_script } : { ...EMPTY_SCRIPT };
+  }
+
+  /**
+   * Check a task's script against its response mode; returns an error message, or null when valid
+   */
+  validateScript(mode: ResponseMode, script: ResponseScript): string | null {
+    if (!Array.isArray(script.turns) || !Array.isArray(script.rules) || typeof script.fallback !== 'string') {
+      return 'Response script must have turns, rules and a fallback reply';
+    }
+    if (script.turns.length > MAX_SCRIPT_ENTRIES || script.rules.length > MAX_SCRIPT_ENTRIES) {
+      return `A response script can have at most ${MAX_SCRIPT_ENTRIES} turns and ${MAX_SCRIPT_ENTRIES} rules`;
+    }
+    if (script.fallback.length > MAX_REPLY_LENGTH) {
+      return `Scripted replies must be at most ${MAX_REPLY_LENGTH} characters`;
+    }
+
+    for (const [index, turn] of script.turns.entries()) {
+      if (turn === null && mode === 'hybrid') continue;
+      if (typeof turn !== 'string' || !turn.trim() || turn.length > MAX_REPLY_LENGTH) {
+        return mode === 'hybrid'
+          ? `Scripted turn ${index + 1} must have a reply of 1 to ${MAX_REPLY_LENGTH} characters, or be left to the model`
+          : `Scripted turn ${index + 1} must have a reply of 1 to ${MAX_REPLY_LENGTH} characters`;
+      }
+    }
+
+    for (const [index, rule] of script.rules.entries()) {
+      if (!SCRIPT_MATCH_TYPES.includes(rule?.match)) {
+        return `Rule ${index + 1} must match by one of: ${SCRIPT_MATCH_TYPES.join(', ')}`;
+      }
+      if (typeof rule.pattern !== 'string' || !rule.pattern.trim() || rule.pattern.length > MAX_PATTERN_LENGTH) {
+        return `Rule ${index + 1} needs a pattern of 1 to ${MAX_PATTERN_LENGTH} characters`;
+      }
+      if (rule.match === 'regex') {
+        if (hasNestedQuantifier(rule.pattern)) {
+          return `Rule ${index + 1} repeats a group that itself repeats (such as (a+)+), which can take too long to match`;
+        }
+        if (!compilePattern(rule.pattern)) {
+          return `Rule ${index + 1} is not a valid regular expression`;
+        }
+      }
+      if (typeof rule.reply !== 'string' || !rule.reply.trim() || rule.reply.length > MAX_REPLY_LENGTH) {
+        return `Rule ${index + 1} needs a reply of 1 to ${MAX_REPLY_LENGTH} characters`;
+      }
+    }
+
+    if (mode === 'script' && script.turns.length === 0) {
+      return 'A scripted task needs at least one scripted turn';
+    }
+    if (mode === 'rules' && script.rules.length === 0) {
+      return 'A rule-based task needs at least one rule';
+    }
+    if (mode === 'hybrid' && !script.turns.some(turn => turn !== null)) {
+      return 'A hybrid task needs at least one scripted turn';
+    }
+    if ((mode === 'script' || mode === 'rules') && !script.fallback.trim()) {
+      return 'A scripted task needs a fallback reply for when the script runs out or no rule matches';
+    }
+    return null;
+  }
+
+  /**
+   * The scripted reply to a participant message, or null when the model replies
+   * (model mode, or a turn the hybrid script leaves open); never used in Wizard-of-Oz mode
+   *
+   * @param userTurn the participant's message number, starting at 1
+   */
+  replyFor(task: Task, userTurn: number, message: string): string | null {
+    const script = this.scriptFromTask(task);
+
+    switch (task.response_mode) {
+      case 'script':
+        return script.turns[userTurn - 1] || script.fallback;
+      case 'rules':
+        return script.rules.find(rule => ruleMatches(rule, message))?.reply ?? script.fallback;
+      case 'hybrid':
+        return script.turns[userTurn - 1] ?? null;
+      default:
+        return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const scriptService = new ScriptService();
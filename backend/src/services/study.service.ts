@@ -0,0 +1,159 @@
+/**
+ * Study Service
+ * Study-level settings for a research group: condition assignment, which
+ * recruitment-platform URL parameters to keep, and how participants are sent back
+ * to the platform when they finish
+ */
+
+import { dialect, queryOne, transaction } from '../config/database';
+import { ASSIGNMENT_STRATEGIES, Completion, StudySettings } from '../types/study.types';
+import { StudySettingsRow } from '../types/database.types';
+
+// Prolific, MTurk and Qualtrics parameter names, captured until a researcher chooses their own
+export const DEFAULT_CAPTURE_PARAMS = [
+  'PROLIFIC_PID', 'STUDY_ID', 'SESSION_ID',
+  'workerId', 'assignmentId', 'hitId',
+  'ResponseID'
+];
+
+// Used until a researcher saves settings for their study
+export const DEFAULT_STUDY_SETTINGS: StudySettings = {
+  assignmentStrategy: 'random',
+  blockRepeats: 1,
+  captureParams: DEFAULT_CAPTURE_PARAMS,
+  completionCode: null,
+  completionUrl: null,
+};
+
+const PARAM_NAME_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+
+// Longest captured value kept; platform IDs are far shorter
+const MAX_PARAM_VALUE_LENGTH = 255;
+
+export const toStudySettings = (row: StudySettingsRow | null | undefined): StudySettings =>
+  row
+    ? {
+        assignmentStrategy: row.assignment_strategy,
+        blockRepeats: row.block_repeats,
+        captureParams: row.capture_params ?? DEFAULT_CAPTURE_PARAMS,
+        completionCode: row.completion_code,
+        completionUrl: row.completion_url
+      }
+    : { ...DEFAULT_STUDY_SETTINGS };
+
+class StudyService {
+  /**
+   * Check a study's settings; returns an error message, or null when valid
+   */
+  validateSettings(settings: StudySettings, weights?: Record<string, number>): string | null {
+    if (!ASSIGNMENT_STRATEGIES.includes(settings.assignmentStrategy)) {
+      return `Assignment strategy must be one of: ${ASSIGNMENT_STRATEGIES.join(', ')}`;
+    }
+    if (!Number.isInteger(settings.blockRepeats) || settings.blockRepeats < 1 || settings.blockRepeats > 100) {
+      return 'Block repeats must be a whole number between 1 and 100';
+    }
+    for (const weight of Object.values(weights ?? {})) {
+      if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0 || weight > 1000) {
+        return 'Task weights must be numbers between 0 and 1000';
+      }
+    }
+    if (
+      !Array.isArray(settings.captureParams) ||
+      settings.captureParams.length > 30 ||
+      !settings.captureParams.every(name => typeof name === 'string' && PARAM_NAME_PATTERN.test(name))
+    ) {
+      return 'Captured URL parameters must be up to 30 names of letters, digits, "_", "." or "-"';
+    }
+    if (settings.completionCode !== null && (typeof settings.completionCode !== 'string' || settings.completionCode.length > 100)) {
+      return 'Completion code must be at most 100 characters';
+    }
+    if (settings.completionUrl !== null) {
+      if (typeof settings.completionUrl !== 'string' || settings.completionUrl.length > 2000 || !/^https?:\/\//i.test(settings.completionUrl)) {
+        return 'Completion URL must be an http(s) URL of at most 2000 characters';
+      }
+    }
+    return null;
+  }
+
+  async getSettings(userId: string): Promise<StudySettings> {
+    const row = await queryOne<StudySettingsRow>(
+      'SELECT * FROM study_settings WHERE user_id = ?',
+      [userId]
+    );
+    return toStudySettings(row);
+  }
+
+  /**
+   * Save the study's settings and, optionally, per-task assignment weights (keyed by task ID)
+   */
+  async updateSettings(userId: string, settings: StudySettings, weights?: Record<string, number>): Promise<void> {
+    await transaction(async connection => {
+      await connection.query(
+        `INSERT INTO study_settings
+         (user_id, assignment_strategy, block_repeats, capture_params, completion_code, completion_url, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ${dialect.now})
+         ${dialect.upsert(['user_id'], [
+           'assignment_strategy', 'block_repeats', 'capture_params', 'completion_code', 'completion_url', 'updated_at'
+         ])}`,
+        [
+          userId,
+          settings.assignmentStrategy,
+          settings.blockRepeats,
+          JSON.stringify(settings.captureParams),
+          settings.completionCode,
+          settings.completionUrl
+        ]
+      );
+
+      for (const [taskId, weight] of Object.entries(weights ?? {})) {
+        await connection.query(
+          'UPDATE tasks SET assignment_weight = ? WHERE id = ? AND user_id = ?',
+          [weight, taskId, userId]
+        );
+      }
+    });
+
+    console.log(`🎛️ [Study] Settings saved for ${userId} (${settings.assignmentStrategy} assignment)`);
+  }
+
+  /**
+   * Keep only the study's configured URL parameters from those the study page sent
+   */
+  captureParams(settings: StudySettings, params: unknown): Record<string, string> {
+    const captured: Record<string, string> = {};
+    if (!params || typeof params !== 'object') return captured;
+
+    for (const name of settings.captureParams) {
+      const value = (params as Record<string, unknown>)[name];
+      if (typeof value === 'string' && value) {
+        captured[name] = value.slice(0, MAX_PARAM_VALUE_LENGTH);
+      }
+    }
+    return captured;
+  }
+
+  /**
+   * The completion code and return URL for a finished conversation
+   *
+   * `{NAME}` placeholders in the URL are replaced with the captured URL parameter of that
+   * name, or with `participantId`, `conversationId` or `completionCode`; unknown names
+   * become empty.
+   */
+  buildCompletion(settings: StudySettings, values: Record<string, string>): Completion {
+    const allValues: Record<string, string> = {
+      ...values,
+      completionCode: settings.completionCode ?? ''
+    };
+
+    const redirectUrl = settings.completionUrl
+      ? settings.completionUrl.replace(/\{([A-Za-z0-9_.-]+)\}/g, (_match, name: string) =>
+          encodeURIComponent(allValues[name] ?? '')
+        )
+      : null;
+
+    return { code: settings.completionCode, redirectUrl };
+  }
+}
+
+// Export singleton instance
+export const studyService = new StudyService();
@@ -0,0 +1,148 @@
+/**
+ * Telemetry Service
+ * Per-message interaction telemetry: how the participant composed each message (from
+ * the study page) and the model's time to first token and token usage for each reply.
+ * Stored beside the messages table and exported with the transcript.
+ */
+
+import { query } from '../config/database';
+import { LiteLLMUsage } from '../types/litellm.types';
+import { MessageTelemetry, ModelTelemetry, TypingTelemetry } from '../types/telemetry.types';
+import { formatAsESTDateTime } from './conversation.service';
+
+// Bounds for the study page's measurements; anything outside is dropped as implausible
+const MAX_COUNT = 100000;
+const MAX_DURATION_MS = 24 * 60 * 60 * 1000;
+
+const count = (value: unknown): number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_COUNT ? (value as number) : 0;
+
+const duration = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= MAX_DURATION_MS
+    ? Math.round(value)
+    : null;
+
+class TelemetryService {
+  /**
+   * Check the telemetry sent with a chat turn; returns null when none (or nothing usable) was sent
+   */
+  sanitizeTyping(raw: unknown): TypingTelemetry | null {
+    if (!raw || typeof raw !== 'object') return null;
+    const telemetry = raw as Record<string, unknown>;
+    return {
+      firstKeystrokeMs: duration(telemetry.firstKeystrokeMs),
+      composeMs: duration(telemetry.composeMs),
+      keystrokes: count(telemetry.keystrokes),
+      deletions: count(telemetry.deletions),
+      pastes: count(telemetry.pastes),
+      pastedChars: count(telemetry.pastedChars),
+      blurs: count(telemetry.blurs),
+      hiddenMs: duration(telemetry.hiddenMs) ?? 0
+    };
+  }
+
+  /**
+   * Model telemetry for a reply from LiteLLM's usage report
+   */
+  fromUsage(usage: LiteLLMUsage | null | undefined, firstTokenMs: number | null = null): ModelTelemetry {
+    return {
+      firstTokenMs,
+      promptTokens: usage?.prompt_tokens ?? null,
+      completionTokens: usage?.completion_tokens ?? null,
+      totalTokens: usage?.total_tokens ?? null
+    };
+  }
+
+  /**
+   * Store how a participant message was composed; the typing start is placed on the
+   * server clock by counting back from when the message arrived
+   *
+   * Telemetry is best effort: a failure is logged and never fails the chat turn.
+   */
+  async recordTyping(
+    conversationId: string,
+    messageId: string,
+    receivedAt: Date,
+    telemetry: TypingTelemetry
+  ): Promise<void> {
+    const typingStartedAt = telemetry.composeMs !== null
+      ? formatAsESTDateTime(new Date(receivedAt.getTime() - telemetry.composeMs))
+      : null;
+
+    try {
+      await query(
+        `INSERT INTO message_telemetry
+         (message_id, conversation_id, typing_started_at, first_keystroke_ms, compose_ms,
+          keystrokes, deletions, pastes, pasted_chars, blurs, hidden_ms)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          messageId,
+          conversationId,
+          typingStartedAt,
+          telemetry.firstKeystrokeMs,
+          telemetry.composeMs,
+          telemetry.keystrokes,
+          telemetry.deletions,
+          telemetry.pastes,
+          telemetry.pastedChars,
+          telemetry.blurs,
+          telemetry.hiddenMs
+        ]
+      );
+    } catch (error) {
+      console.warn(`⚠️ [Telemetry] Could not store typing telemetry for ${messageId}:`, (error as Error).message);
+    }
+  }
+
+  /**
+   * Store the model's time to first token and token usage for a reply (best effort, like recordTyping)
+   */
+  async recordModel(conversationId: string, messageId: string, telemetry: ModelTelemetry): Promise<void> {
+    try {
+      await query(
+        `INSERT INTO message_telemetry
+         (message_id, conversation_id, first_token_ms, prompt_tokens, completion_tokens, total_tokens)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          messageId,
+          conversationId,
+          telemetry.firstTokenMs,
+          telemetry.promptTokens,
+          telemetry.completionTokens,
+          telemetry.totalTokens
+        ]
+      );
+    } catch (error) {
+      console.warn(`⚠️ [Telemetry] Could not store model telemetry for ${messageId}:`, (error as Error).message);
+    }
+  }
+
+  /**
+   * Telemetry for a conversation's messages, by message ID
+   */
+  async getForConversation(conversationId: string): Promise<Map<string, MessageTelemetry>> {
+    const rows = await query<any[]>(
+      'SELECT * FROM message_telemetry WHERE conversation_id = ?',
+      [conversationId]
+    );
+
+    return new Map(rows.map(row => [row.message_id as string, {
+      typingStartedAt: row.typing_started_at ? new Date(row.typing_started_at) : null,
+      firstKeystrokeMs: row.first_keystroke_ms,
+      composeMs: row.compose_ms,
+      keystrokes: row.keystrokes,
+      deletions: row.deletions,
+      pastes: row.pastes,
+      pastedChars: row.pasted_chars,
+      blurs: row.blurs,
+      hiddenMs: row.hidden_ms,
+      firstTokenMs: row.first_token_ms,
+      promptTokens: row.prompt_tokens,
+      completionTokens: row.completion_tokens,
+      totalTokens: row.total_tokens
+    }]));
+  }
+}
+
+// Export singleton instance
+export const telemetryService = new TelemetryService();
@@ -0,0 +1,194 @@
+/**
+ * Usage Service
+ * Records every LiteLLM call (model, tokens, latency) against the research group, task and
+ * conversation it was made for, and rolls the calls up by researcher, task, day and model.
+ * Every group shares one LiteLLM key, so this is the only per-group view of what they use.
+ * Costs come from the admin's per-model price table.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { dialect, query, transaction } from '../config/database';
+import { LiteLLMUsage } from '../types/litellm.types';
+import { ModelPrice, UsageAttribution, UsageReport, UsageRollup } from '../types/usage.types';
+
+const MAX_PRICES = 500;
+const MAX_PRICE_PER_MILLION = 10000;
+const DEFAULT_REPORT_DAYS = 30;
+const MAX_REPORT_DAYS = 366;
+
+// GROUP BY key and display label for each rollup
+const ROLLUPS = {
+  researcher: { key: 'u.user_id', label: "COALESCE(us.username, '(deleted researcher)')" },
+  task: { key: 'u.task_id', label: "COALESCE(t.name, '(deleted task)')" },
+  day: { key: dialect.day('u.created_at'), label: dialect.day('u.created_at') },
+  model: { key: 'u.model_id', label: 'u.model_id' }
+};
+
+const toRollup = (row: any): UsageRollup => ({
+  key: row.group_key ?? '',
+  label: row.label ?? '',
+  calls: Number(row.calls),
+  promptTokens: Number(row.prompt_tokens),
+  completionTokens: Number(row.completion_tokens),
+  avgLatencyMs: row.avg_latency_ms === null ? null : Math.round(Number(row.avg_latency_ms)),
+  costUsd: Number(row.cost_usd),
+  unpricedCalls: Number(row.unpriced_calls)
+});
+
+class UsageService {
+  /**
+   * Record one LiteLLM call; tokens are null when the provider didn't report them
+   * (e.g. a stream cancelled part way). Best effort: a failure is logged, never thrown.
+   */
+  async record(
+    attribution: UsageAttribution,
+    modelId: string,
+    usage: LiteLLMUsage | null | undefined,
+    latencyMs: number
+  ): Promise<void> {
+    try {
+      await query(
+        `INSERT INTO llm_usage
+         (id, user_id, task_id, conversation_id, purpose, model_id, prompt_tokens, completion_tokens, latency_ms)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          uuidv4(),
+          attribution.userId,
+          attribution.taskId,
+          attribution.conversationId,
+          attribution.purpose,
+          modelId,
+          usage?.prompt_tokens ?? null,
+          usage?.completion_tokens ?? null,
+          latencyMs
+        ]
+      );
+    } catch (error) {
+      console.warn(`⚠️ [Usage] Could not record ${attribution.purpose} call for ${attribution.userId}:`, (error as Error).message);
+    }
+  }
+
+  async getPrices(): Promise<ModelPrice[]> {
+    const rows = await query<any[]>(
+      'SELECT model_id, input_per_million, output_per_million FROM model_prices ORDER BY model_id'
+    );
+    return rows.map(row => ({
+      modelId: row.model_id,
+      inputPerMillion: Number(row.input_per_million),
+      outputPerMillion: Number(row.output_per_million)
+    }));
+  }
+
+  /**
+   * Check a price table; returns an error message, or null when valid
+   */
+  validatePrices(prices: ModelPrice[]): string | null {
+    if (!Array.isArray(prices) || prices.length > MAX_PRICES) {
+      return `Prices must be a list of at most ${MAX_PRICES} models`;
+    }
+    const seen = new Set<string>();
+    for (const price of prices) {
+      if (typeof price?.modelId !== 'string' || !price.modelId.trim() || price.modelId.length > 255) {
+        return 'Every price needs a model ID of 1 to 255 characters';
+      }
+      if (seen.has(price.modelId.trim())) {
+        return `${price.modelId} is listed more than once`;
+      }
+      seen.add(price.modelId.trim());
+      for (const value of [price.inputPerMillion, price.outputPerMillion]) {
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > MAX_PRICE_PER_MILLION) {
+          return `Prices for ${price.modelId} must be between 0 and ${MAX_PRICE_PER_MILLION} USD per million tokens`;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Replace the price table; costs in every report are recomputed from it
+   */
+  async setPrices(prices: ModelPrice[]): Promise<ModelPrice[]> {
+    await transaction(async connection => {
+      await connection.query('DELETE FROM model_prices');
+      for (const price of prices) {
+        await connection.query(
+          'INSERT INTO model_prices (model_id, input_per_million, output_per_million) VALUES (?, ?, ?)',
+          [price.modelId.trim(), price.inputPerMillion, price.outputPerMillion]
+        );
+      }
+    });
+    console.log(`💲 [Usage] Price table updated (${prices.length} models)`);
+    return this.getPrices();
+  }
+
+  /**
+   * Report period from a `?days=` query value (default 30, at most a year)
+   */
+  parseDays(raw: unknown): number {
+    const days = Number(raw);
+    return Number.isInteger(days) && days >= 1 ? Math.min(days, MAX_REPORT_DAYS) : DEFAULT_REPORT_DAYS;
+  }
+
+  /**
+   * Tokens and cost so far this calendar month (database clock), per research group;
+   * for one group when `userId` is given
+   */
+  async monthToDate(userId?: string): Promise<Map<string, { tokens: number; costUsd: number }>> {
+    const rows = await query<any[]>(
+      `SELECT u.user_id,
+              COALESCE(SUM(COALESCE(u.prompt_tokens, 0) + COALESCE(u.completion_tokens, 0)), 0) AS tokens,
+              COALESCE(SUM((COALESCE(u.prompt_tokens, 0) * p.input_per_million
+                          + COALESCE(u.completion_tokens, 0) * p.output_per_million) / 1000000.0), 0) AS cost_usd
+       FROM llm_usage u
+       LEFT JOIN model_prices p ON p.model_id = u.model_id
+       WHERE u.created_at >= ${dialect.monthStart}
+         AND u.user_id ${userId === undefined ? 'IS NOT NULL' : '= ?'}
+       GROUP BY u.user_id`,
+      userId === undefined ? [] : [userId]
+    );
+    return new Map(rows.map(row => [row.user_id as string, { tokens: Number(row.tokens), costUsd: Number(row.cost_usd) }]));
+  }
+
+  /**
+   * Usage over the last `days` days, for one research group or (userId null) everyone
+   */
+  async getReport(userId: string | null, days: number): Promise<UsageReport> {
+    const where = userId === null
+      ? `WHERE u.created_at >= ${dialect.daysAgo}`
+      : `WHERE u.created_at >= ${dialect.daysAgo} AND u.user_id = ?`;
+    const params = userId === null ? [days] : [days, userId];
+
+    const select = (key: string, label: string, groupBy: string) => query<any[]>(
+      `SELECT ${key} AS group_key, ${label} AS label,
+              COUNT(*) AS calls,
+              COALESCE(SUM(u.prompt_tokens), 0) AS prompt_tokens,
+              COALESCE(SUM(u.completion_tokens), 0) AS completion_tokens,
+              AVG(u.latency_ms) AS avg_latency_ms,
+              COALESCE(SUM((COALESCE(u.prompt_tokens, 0) * p.input_per_million
+                          + COALESCE(u.completion_tokens, 0) * p.output_per_million) / 1000000.0), 0) AS cost_usd,
+              SUM(p.model_id IS NULL) AS unpriced_calls
+       FROM llm_usage u
+       LEFT JOIN model_prices p ON p.model_id = u.model_id
+       LEFT JOIN users us ON us.id = u.user_id
+       LEFT JOIN tasks t ON t.id = u.task_id
+       ${where}
+       ${groupBy}`,
+      params
+    );
+    const rollup = async ({ key, label }: { key: string; label: string }) =>
+      (await select(key, label, `GROUP BY ${key}, ${label} ORDER BY cost_usd DESC, calls DESC`)).map(toRollup);
+
+    const [totals] = await select("''", "'Total'", '');
+    return {
+      days,
+      totals: toRollup(totals),
+      byResearcher: userId === null ? await rollup(ROLLUPS.researcher) : [],
+      byTask: await rollup(ROLLUPS.task),
+      byDay: (await rollup(ROLLUPS.day)).sort((a, b) => b.key.localeCompare(a.key)),
+      byModel: await rollup(ROLLUPS.model)
+    };
+  }
+}
+
+// Export singleton instance
+export const usageService = new UsageService();
@@ -0,0 +1,86 @@
+/**
+ * Wizard Service
+ * Tracks Wizard-of-Oz conversations waiting for the researcher's reply and lists the
+ * open ones for the researcher's console
+ */
+
+import { dialect, query } from '../config/database';
+import { WizardConversation } from '../types/response.types';
+import { WriteResult } from '../types/driver.types';
+
+const toWizardConversation = (row: any): WizardConversation => ({
+  id: row.id,
+  taskId: row.task_id,
+  taskName: row.task_name,
+  participantId: row.participant_id,
+  participantExternalId: row.participant_external_id,
+  awaitingReplySince: row.awaiting_reply_at ? new Date(row.awaiting_reply_at) : null,
+  lastMessage: row.last_message,
+  lastMessageAt: new Date(row.last_message_at),
+  messageCount: Number(row.message_count)
+});
+
+class WizardService {
+  /**
+   * Unfinished conversations under the research group's Wizard-of-Oz tasks, those waiting
+   * longest for a reply first
+   *
+   * @param conversationId only this conversation
+   */
+  async listConversations(userId: string, conversationId?: string): Promise<WizardConversation[]> {
+    const rows = await query<any[]>(
+      `SELECT c.id, c.task_id, t.name AS task_name, c.participant_id, p.external_id AS participant_external_id,
+              c.awaiting_reply_at, c.last_message_at,
+              (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id) AS message_count,
+              (SELECT m.text FROM messages m WHERE m.conversation_id = c.id ORDER BY m.timestamp DESC LIMIT 1) AS last_message
+       FROM conversations c
+       JOIN tasks t ON t.id = c.task_id
+       LEFT JOIN participants p ON p.id = c.participant_id
+       WHERE c.user_id = ? AND t.response_mode = 'wizard' AND c.finished_at IS NULL
+         ${conversationId ? 'AND c.id = ?' : ''}
+       ORDER BY c.awaiting_reply_at IS NULL, c.awaiting_reply_at ASC, c.last_message_at DESC`,
+      conversationId ? [userId, conversationId] : [userId]
+    );
+    return rows.map(toWizardConversation);
+  }
+
+  async getConversation(userId: string, conversationId: string): Promise<WizardConversation | null> {
+    const [conversation] = await this.listConversations(userId, conversationId);
+    return conversation ?? null;
+  }
+
+  /**
+   * The participant's message is waiting for the researcher
+   */
+  async markAwaiting(conversationId: string): Promise<void> {
+    await query(
+      `UPDATE conversations SET awaiting_reply_at = ${dialect.now} WHERE id = ?`,
+      [conversationId]
+    );
+  }
+
+  /**
+   * Take the waiting message for a reply; false when the conversation was not waiting
+   * (already answered, e.g. from another console tab)
+   */
+  async claimReply(conversationId: string): Promise<boolean> {
+    const result = await query<WriteResult>(
+      'UPDATE conversations SET awaiting_reply_at = NULL WHERE id = ? AND awaiting_reply_at IS NOT NULL',
+      [conversationId]
+    );
+    return result.affectedRows > 0;
+  }
+
+  /**
+   * Put a claimed message back in the queue when the reply could not be saved
+   */
+  async releaseReply(conversationId: string, awaitingSince: Date): Promise<void> {
+    await query(
+      'UPDATE conversations SET awaiting_reply_at = ? WHERE id = ? AND awaiting_reply_at IS NULL',
+      [awaitingSince, conversationId]
+    );
+  }
+}
+
+// Export singleton instance
+export const wizardService = new WizardService();
@@ -0,0 +1,24 @@
+/**
+ * Research Group Budget Type Definitions
+ */
+
+// Limits the admin sets for a research group; null means no limit
+export interface ResearchBudget {
+  monthlyTokenLimit: number | null;      // prompt + completion tokens per calendar month
+  monthlyCostLimitUsd: number | null;    // at the admin's model prices
+  conversationMessageCap: number | null; // participant messages per conversation
+  warningPercent: number;                // warn the researcher from this share of a monthly limit
+}
+
+// ok: under the warning threshold; warning: past it; exceeded: a monthly limit is used up
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+// A group's budget and how much of it this calendar month has used
+export interface BudgetStatus {
+  budget: ResearchBudget;
+  tokensUsed: number;
+  costUsd: number;
+  tokenPercent: number | null;           // share of the token limit used, when there is one
+  costPercent: number | null;
+  level: BudgetLevel;
+}
@@ -0,0 +1,23 @@
+/**
+ * Model Capability Type Definitions
+ */
+
+// Sampling parameters a provider may accept, by their request field names
+export type SamplingParam = 'temperature' | 'top_p' | 'presence_penalty' | 'frequency_penalty';
+
+export const SAMPLING_PARAMS: SamplingParam[] = ['temperature', 'top_p', 'presence_penalty', 'frequency_penalty'];
+
+// One ai_models entry: what the model accepts, consulted by the message and request builders.
+// A `modelId` containing * is a pattern (e.g. 'gpt-*') for models without an entry of their own.
+export interface ModelCapabilities {
+  modelId: string;
+  name: string;
+  provider: string;
+  description: string;
+  supportsSystemRole: boolean;      // false: the system prompt goes into the first user message
+  samplingParams: SamplingParam[];  // sent only when listed
+  maxTemperature: number;
+  contextWindow: number | null;     // prompt plus reply, in tokens; null when unknown
+  maxOutputTokens: number | null;   // max_tokens is capped at this
+  supportsImages: boolean;
+}
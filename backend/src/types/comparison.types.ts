@@ -0,0 +1,18 @@
+/**
+ * Model Comparison (A/B) Type Definitions
+ */
+
+// A model a task's new conversations can be assigned, with its relative share
+export interface ModelCandidate {
+  modelId: string;
+  weight: number;
+}
+
+// How a task's conversations went under one model
+export interface ModelComparisonRow {
+  modelId: string;
+  conversations: number;
+  avgUserTurns: number;            // participant messages per conversation
+  avgReplyChars: number | null;    // model replies only (not the greeting or scripted replies)
+  avgLatencyMs: number | null;     // time the model took per reply, before any added delay
+}
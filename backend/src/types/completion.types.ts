@@ -0,0 +1,15 @@
+/**
+ * Conversation Completion Type Definitions
+ */
+
+// Why a conversation ended
+export type EndReason = 'participant' | 'max_turns' | 'time_limit' | 'end_token';
+
+// Per-task rules for when a participant's conversation ends
+export interface CompletionRules {
+  minUserTurns: number;             // participant messages required before they can finish
+  maxUserTurns: number | null;      // conversation ends after this many participant messages
+  timeLimitMinutes: number | null;  // conversation ends this long after the first message
+  endToken: string | null;          // conversation ends when the AI reply contains this (removed from the reply)
+  allowParticipantFinish: boolean;  // show the participant a "Finish" button
+}
@@ -0,0 +1,17 @@
+/**
+ * Consent Type Definitions
+ */
+
+// One published version of a study's consent document (markdown); versions are never edited
+export interface ConsentDocument {
+  id: string;
+  version: number;
+  title: string;
+  body: string;
+  createdAt: Date;
+}
+
+// A version as listed for the researcher, with how many participants agreed to it
+export interface ConsentVersion extends ConsentDocument {
+  consentCount: number;
+}
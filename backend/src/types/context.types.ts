@@ -0,0 +1,22 @@
+/**
+ * Context Window Type Definitions
+ */
+
+import { Message } from './index';
+
+// How much of the conversation history is sent with each turn
+export type ContextPolicy = 'full' | 'last_n' | 'token_budget' | 'summary';
+
+export const CONTEXT_POLICIES: ContextPolicy[] = ['full', 'last_n', 'token_budget', 'summary'];
+
+export interface ContextSettings {
+  policy: ContextPolicy;
+  lastN: number;            // last_n: messages kept; summary: recent messages kept verbatim
+  tokenBudget: number;      // token_budget: estimated tokens for prompt + history + message
+  summaryModel?: string;    // summary: model that writes the summary (defaults to the task model)
+}
+
+export interface SelectedContext {
+  history: Message[];
+  summary: string | null;
+}
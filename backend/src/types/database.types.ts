@@ -1,3 +1,12 @@
+import { ContextPolicy } from './context.types';
+import { AssignmentStrategy } from './study.types';
+import { EndReason } from './completion.types';
+import { QuestionnaireItemType, QuestionnairePhase } from './questionnaire.types';
+import { ResponseMode, ResponseScript } from './response.types';
+import { LatencyMode } from './latency.types';
+import { ModelCandidate } from './comparison.types';
+import { SamplingParam } from './capability.types';
+
 // ============================================
 // Database Type Definitions
 // Core Tables Only (Simplified Version)
@@ -19,6 +28,153 @@ export interface Task {
   system_prompt: string;
   task_prompt: string | null;
   default_model: string | null;
+  candidate_models: ModelCandidate[] | null;
+  chatbot_name: string | null;
+  temperature: number;
+  max_tokens: number;
+  top_p: number;
+  presence_penalty: number;
+  frequency_penalty: number;
+  context_policy: ContextPolicy;
+  context_last_n: number;
+  context_token_budget: number;
+  context_summary_model: string | null;
+  assignment_weight: number;
+  min_user_turns: number;
+  max_user_turns: number | null;
+  time_limit_minutes: number | null;
+  end_token: string | null;
+  allow_participant_finish: boolean;
+  response_mode: ResponseMode;
+  response_script: ResponseScript | null;
+  latency_mode: LatencyMode;
+  latency_fixed_ms: number;
+  latency_chars_per_second: number;
+  latency_min_ms: number;
+  latency_max_ms: number;
+  show_typing_indicator: boolean;
+}
+
+export interface Conversation {
+  id: string;
+  user_id: string;
+  title: string;
+  ai_model_name: string | null;
+  ai_model_personality: string | null;
+  ai_model_icon: string | null;
+  task_id: string | null;
+  model_id: string | null;
+  system_prompt: string | null;
+  task_prompt: string | null;
+  participant_id: string | null;
+  url_params: Record<string, string> | null;
+  finished_at: Date | null;
+  end_reason: EndReason | null;
+  started_at: Date;
+  awaiting_reply_at: Date | null;
+  context_summary: string | null;
+  context_summary_count: number;
+  created_at: Date;
+  last_message_at: Date;
+}
+
+export interface StudySettingsRow {
+  user_id: string;
+  assignment_strategy: AssignmentStrategy;
+  block_repeats: number;
+  capture_params: string[] | null;
+  completion_code: string | null;
+  completion_url: string | null;
+  updated_at: Date;
+}
+
+export interface ParticipantRow {
+  id: string;
+  user_id: string;
+  external_id: string | null;
+  device_id: string;
+  first_seen_at: Date;
+  last_seen_at: Date;
+}
+
+export interface AssignmentRow {
+  id: string;
+  user_id: string;
+  participant_id: string;
+  task_id: string;
+  strategy: AssignmentStrategy;
+  block_number: number | null;
+  assigned_at: Date;
+}
+
+export interface ConsentDocumentRow {
+  id: string;
+  user_id: string;
+  version: number;
+  title: string;
+  body: string;
+  created_at: Date;
+}
+
+export interface ConsentRow {
+  id: string;
+  user_id: string;
+  participant_id: string;
+  document_id: string;
+  version: number;
+  device_id: string | null;
+  consented_at: Date;
+}
+
+export interface QuestionnaireItemRow {
+  id: string;
+  task_id: string;
+  phase: QuestionnairePhase;
+  position: number;
+  item_type: QuestionnaireItemType;
+  prompt: string;
+  options: string[] | null;
+  required: boolean;
+  created_at: Date;
+}
+
+export interface QuestionnaireResponseRow {
+  id: string;
+  task_id: string;
+  participant_id: string;
+  conversation_id: string | null;
+  phase: QuestionnairePhase;
+  item_id: string;
+  item_type: QuestionnaireItemType;
+  item_prompt: string;
+  answer: string | null;
+  submitted_at: Date;
+}
+
+export interface ResearchBudgetRow {
+  user_id: string;
+  monthly_token_limit: number | null;
+  monthly_cost_limit_usd: string | null;   // DECIMAL, returned as a string
+  conversation_message_cap: number | null;
+  warning_percent: number;
+  updated_at: Date;
+}
+
+export interface AIModelRow {
+  id: string;
+  name: string;
+  model_id: string;                         // contains * for a pattern entry
+  provider: string;
+  description: string | null;
+  status: string | null;
+  supports_system_role: boolean;
+  sampling_params: SamplingParam[] | null;
+  max_temperature: string | number;         // DECIMAL, returned as a string by MySQL
+  context_window: number | null;
+  max_output_tokens: number | null;
+  supports_images: boolean;
+  created_at: Date;
+  updated_at: Date;
 }
 
 // ============================================
@@ -36,6 +192,11 @@ export interface CreateTaskRequest {
   system_prompt: string;
   task_prompt?: string;
   default_model?: string;
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
 }
 
 export interface UpdateTaskRequest extends Partial<CreateTaskRequest> {}
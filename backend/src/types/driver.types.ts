@@ -0,0 +1,43 @@
+/**
+ * Database Driver Type Definitions
+ */
+
+// Selected with DB_DRIVER
+export type DriverName = 'mysql' | 'sqlite';
+
+// What an INSERT, UPDATE or DELETE returns from query()
+export interface WriteResult {
+  affectedRows: number;
+  insertId: number;
+}
+
+// Runs statements: the driver itself, or the connection a transaction runs on
+export interface Queryable {
+  query<T = any>(sql: string, params?: any[]): Promise<T>;
+  queryOne<T = any>(sql: string, params?: any[]): Promise<T | null>;
+}
+
+// SQL that differs between the databases; everything else is written once
+export interface SqlDialect {
+  name: DriverName;
+  now: string;                                           // current time, to the millisecond
+  secondsSince(column: string): string;                  // whole seconds from a timestamp to now
+  day(column: string): string;                           // a timestamp's date as 'YYYY-MM-DD'
+  monthStart: string;                                    // midnight on the 1st of this month
+  daysAgo: string;                                       // now minus `?` days (takes one parameter)
+  charLength(expression: string): string;                // length in characters, not bytes
+  forUpdate: string;                                     // row lock for a SELECT in a transaction
+  tableExists: string;                                   // a row when table `?` exists
+  // Upsert clause for an INSERT: on a clash on `conflictColumns`, update `updateColumns`
+  // to the inserted values (or, with none, keep the existing row)
+  upsert(conflictColumns: string[], updateColumns: string[]): string;
+  // Whether a failed statement clashed with a unique or primary key
+  isDuplicateKey(error: unknown): boolean;
+}
+
+export interface DbDriver extends Queryable {
+  dialect: SqlDialect;
+  testConnection(): Promise<boolean>;
+  transaction<T>(callback: (connection: Queryable) => Promise<T>): Promise<T>;
+  close(): Promise<void>;
+}
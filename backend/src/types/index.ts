@@ -1,8 +1,31 @@
+import { LiteLLMMessage } from './litellm.types';
+import { EndReason } from './completion.types';
+import { QuestionnaireAnswer } from './questionnaire.types';
+import { MessageAuthor, ResponseMode, ResponseScript } from './response.types';
+import { LatencyMode } from './latency.types';
+import { ModelCandidate } from './comparison.types';
+import { MessageTelemetry, TypingTelemetry } from './telemetry.types';
+
 export interface Message {
   id: string;
   text: string;
   sender: 'user' | 'ai';
   timestamp: Date;
+  modelId?: string;
+  systemPrompt?: string;
+  // AI messages: written by the model, taken from the task's script or, in Wizard-of-Oz
+  // mode, written by a researcher (with the model draft they started from, if any)
+  author?: MessageAuthor;
+  modelDraft?: string;
+  // AI messages: time taken to produce the reply and the artificial delay added before
+  // it was released (task latency settings)
+  generationMs?: number;
+  delayMs?: number;
+  // AI messages: context policy applied and the exact messages sent to the model
+  contextPolicy?: string;
+  context?: LiteLLMMessage[];
+  // Typing and model telemetry (message_telemetry table), included in transcript exports
+  telemetry?: MessageTelemetry;
 }
 
 export interface AIModel {
@@ -18,6 +41,29 @@ export interface AISettings {
   systemPrompt: string;
   taskPrompt: string;
   defaultModel?: string;
+  candidateModels?: ModelCandidate[];   // A/B comparison; empty for a single model
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  contextPolicy?: string;
+  contextLastN?: number;
+  contextTokenBudget?: number;
+  contextSummaryModel?: string;
+  minUserTurns?: number;
+  maxUserTurns?: number | null;
+  timeLimitMinutes?: number | null;
+  endToken?: string | null;
+  allowParticipantFinish?: boolean;
+  responseMode?: ResponseMode;
+  responseScript?: ResponseScript;
+  latencyMode?: LatencyMode;
+  latencyFixedMs?: number;
+  latencyCharsPerSecond?: number;
+  latencyMinMs?: number;
+  latencyMaxMs?: number;
+  showTypingIndicator?: boolean;
 }
 
 export interface Conversation {
@@ -27,6 +73,16 @@ export interface Conversation {
   messages: Message[];
   createdAt: Date;
   lastMessageAt: Date;
+  taskId?: string;
+  modelId?: string;
+  systemPrompt?: string;
+  taskPrompt?: string;
+  participantId?: string;
+  participantExternalId?: string;
+  urlParams?: Record<string, string>;
+  finishedAt?: Date;
+  endReason?: EndReason;
+  questionnaire?: QuestionnaireAnswer[];  // pre- and post-chat answers
 }
 
 export interface AuthRequest {
@@ -42,14 +98,23 @@ export interface AuthResponse {
 export interface ChatRequest {
   message: string;
   conversationId: string;
-  aiModel: AIModel;
-  settings?: AISettings;
-  messageHistory?: Message[];
+  taskId: string;
+  participantId?: string;   // from POST /api/studies/:userId/participants
+  urlParams?: Record<string, string>;   // study page query string; stored on the first turn
+  telemetry?: TypingTelemetry;          // how the participant composed the message
+}
+
+export interface ChatFinishRequest {
+  conversationId: string;
+  taskId: string;
+  participantId?: string;
 }
 
 export interface ChatResponse {
   success: boolean;
   response?: Message;
+  conversationEnded?: EndReason;   // set when this turn ended the conversation
+  pending?: boolean;               // Wizard-of-Oz mode: the reply follows on the conversation's events
   error?: string;
 }
 
@@ -0,0 +1,20 @@
+/**
+ * Response Latency Type Definitions
+ */
+
+// How long a reply is held back: not at all, a fixed time, the time it would take to type
+// the reply, or a random time within bounds
+export type LatencyMode = 'none' | 'fixed' | 'typing' | 'jitter';
+
+export const LATENCY_MODES: LatencyMode[] = ['none', 'fixed', 'typing', 'jitter'];
+
+// Per-task reply latency; the delay counts from the participant's message, so the time the
+// reply took to produce is part of it
+export interface LatencySettings {
+  latencyMode: LatencyMode;
+  latencyFixedMs: number;         // 'fixed'
+  latencyCharsPerSecond: number;  // 'typing': simulated typing speed
+  latencyMinMs: number;           // 'jitter' bounds
+  latencyMaxMs: number;
+  showTypingIndicator: boolean;   // show the participant the typing indicator while they wait
+}
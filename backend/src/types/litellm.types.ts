@@ -16,6 +16,17 @@ export interface LiteLLMRequest {
   top_p?: number;
   presence_penalty?: number;
   frequency_penalty?: number;
+  stream?: boolean;
+  stream_options?: { include_usage: boolean };
+}
+
+// Per-task sampling settings applied to every completion
+export interface GenerationParams {
+  temperature: number;
+  maxTokens: number;
+  topP: number;
+  presencePenalty: number;
+  frequencyPenalty: number;
 }
 
 export interface ModelInfo {
@@ -39,17 +50,37 @@ export interface LiteLLMChatChoice {
   finish_reason: string;
 }
 
+export interface LiteLLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
 export interface LiteLLMChatResponse {
   id: string;
   object: string;
   created: number;
   model: string;
   choices: LiteLLMChatChoice[];
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
+  usage?: LiteLLMUsage;
+}
+
+export interface LiteLLMStreamChoice {
+  index: number;
+  delta: {
+    role?: string;
+    content?: string | null;
   };
+  finish_reason: string | null;
+}
+
+export interface LiteLLMStreamChunk {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: LiteLLMStreamChoice[];
+  usage?: LiteLLMUsage | null; // only on the last chunk, when requested with stream_options
 }
 
 export interface ModelsListResponse {
@@ -64,3 +95,12 @@ export interface ChatCompletionResponse {
   error?: string;
 }
 
+
+export interface StreamCompletionResponse {
+  success: boolean;
+  content: string;
+  finishReason?: string | null;
+  aborted?: boolean;
+  usage?: LiteLLMUsage;
+  error?: string;
+}
@@ -0,0 +1,28 @@
+/**
+ * Live Monitoring Type Definitions
+ */
+
+import { Message } from './index';
+import { EndReason } from './completion.types';
+
+// A conversation as announced on the live channels
+export interface LiveConversation {
+  id: string;
+  userId: string;
+  title: string;
+  taskId: string | null;
+  taskName: string | null;
+  modelId: string | null;
+  participantId: string | null;
+  createdAt: Date;
+  lastMessageAt: Date;
+}
+
+// A stored message, without the model context (fetch the conversation for that)
+export type LiveMessage = Pick<Message, 'id' | 'text' | 'sender' | 'timestamp' | 'modelId' | 'author'>;
+
+// Events on a researcher's channel, and on the admin channel for every research group
+export type LiveEvent =
+  | { type: 'conversation-created'; conversation: LiveConversation }
+  | { type: 'message-added'; conversationId: string; userId: string; message: LiveMessage }
+  | { type: 'conversation-ended'; conversationId: string; userId: string; endReason: EndReason; finishedAt: Date };
@@ -0,0 +1,37 @@
+/**
+ * Database Migration Type Definitions
+ */
+
+// A numbered migration in database/migrations: NNN_name.up.sql, and optionally NNN_name.down.sql
+export interface Migration {
+  version: number;
+  name: string;
+  upFile: string;
+  downFile: string | null;       // without one the migration can't be reverted
+  checksum: string;              // SHA-256 of the up file, as recorded when it was applied
+}
+
+// A row of schema_migrations
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+  execution_ms: number | null;   // null when an existing database was adopted as the baseline
+}
+
+// pending: not applied yet; applied: applied from the file as it is now; changed: the file
+// was edited after it was applied; missing: applied, but the file is gone
+export type MigrationState = 'pending' | 'applied' | 'changed' | 'missing';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: MigrationState;
+  appliedAt: Date | null;
+}
+
+export interface MigrationOptions {
+  dryRun?: boolean;              // log what would run without touching the database
+  steps?: number;                // down only: how many migrations to revert (default 1)
+}
@@ -0,0 +1,25 @@
+/**
+ * Mock Model Type Definitions
+ */
+
+// What a mock model replies with: the participant's last message, placeholder text,
+// or the next of a list of canned replies
+export type MockMode = 'echo' | 'lorem' | 'script';
+
+export const MOCK_MODES: MockMode[] = ['echo', 'lorem', 'script'];
+
+// How an injected failure surfaces: a provider error or a request that times out
+export type MockFailure = 'error' | 'timeout';
+
+// Behaviour of one mock call, from the model ID's options over the MOCK_LLM_* defaults
+// (e.g. `mock/lorem?latency=800&failRate=0.1&words=120`)
+export interface MockOptions {
+  mode: MockMode;
+  latencyMs: number;        // wait before the reply (or its first chunk)
+  chunkDelayMs: number;     // wait between streamed chunks
+  failRate: number;         // 0-1 share of calls that fail, picked by the conversation so far
+  failWith: MockFailure;
+  words: number;            // length of a 'lorem' reply
+  charsPerToken: number;    // token counts are estimated from text length
+  reportUsage: boolean;     // false to behave like a provider that doesn't report usage
+}
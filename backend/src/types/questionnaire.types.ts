@@ -0,0 +1,43 @@
+/**
+ * Questionnaire Type Definitions
+ */
+
+// Shown before the chat (pre) or after the participant finishes (post)
+export type QuestionnairePhase = 'pre' | 'post';
+
+export const QUESTIONNAIRE_PHASES: QuestionnairePhase[] = ['pre', 'post'];
+
+export type QuestionnaireItemType = 'likert' | 'choice' | 'text';
+
+export const QUESTIONNAIRE_ITEM_TYPES: QuestionnaireItemType[] = ['likert', 'choice', 'text'];
+
+export interface QuestionnaireItem {
+  id: string;
+  phase: QuestionnairePhase;
+  type: QuestionnaireItemType;
+  prompt: string;
+  options: string[];   // likert: scale point labels, lowest first; choice: the choices; text: unused
+  required: boolean;
+}
+
+// One phase of a task's questionnaire as the study page sees it
+export interface QuestionnaireStatus {
+  items: QuestionnaireItem[];
+  completed: boolean;
+}
+
+export interface ParticipantQuestionnaires {
+  pre: QuestionnaireStatus;
+  // conversationId: the participant's finished conversation still awaiting the post questionnaire
+  post: QuestionnaireStatus & { conversationId: string | null };
+}
+
+// A stored answer, with the item as it was when answered
+export interface QuestionnaireAnswer {
+  itemId: string;
+  phase: QuestionnairePhase;
+  type: QuestionnaireItemType;
+  prompt: string;
+  answer: string | null;  // likert: the scale point (1 = first label); choice: the option text
+  submittedAt: Date;
+}
@@ -0,0 +1,46 @@
+/**
+ * Response Mode Type Definitions
+ */
+
+// Who writes the AI side of a task's conversations: the model; a researcher typing the
+// replies live from the Wizard-of-Oz console; the task's script ('script' replies turn by
+// turn, 'rules' by matching the participant's message); or the script with the model
+// taking the turns it leaves open ('hybrid')
+export type ResponseMode = 'model' | 'wizard' | 'script' | 'rules' | 'hybrid';
+
+export const RESPONSE_MODES: ResponseMode[] = ['model', 'wizard', 'script', 'rules', 'hybrid'];
+
+// Who wrote an AI message
+export type MessageAuthor = 'model' | 'researcher' | 'script';
+
+// How a rule's pattern is matched against the participant's message: 'keyword' matches any
+// of its comma-separated words or phrases, 'regex' is a regular expression (both ignore case)
+export type ScriptMatchType = 'keyword' | 'regex';
+
+export const SCRIPT_MATCH_TYPES: ScriptMatchType[] = ['keyword', 'regex'];
+
+export interface ScriptRule {
+  match: ScriptMatchType;
+  pattern: string;
+  reply: string;
+}
+
+// Pre-written replies for the scripted response modes
+export interface ResponseScript {
+  turns: (string | null)[];  // reply to the participant's Nth message; null leaves the turn to the model ('hybrid')
+  rules: ScriptRule[];       // 'rules': the first rule matching the participant's message replies
+  fallback: string;          // when the script has run out or no rule matches
+}
+
+// An open conversation under a Wizard-of-Oz task, as listed in the researcher console
+export interface WizardConversation {
+  id: string;
+  taskId: string;
+  taskName: string;
+  participantId: string | null;
+  participantExternalId: string | null;
+  awaitingReplySince: Date | null;  // set while the participant's last message is unanswered
+  lastMessage: string | null;
+  lastMessageAt: Date;
+  messageCount: number;
+}
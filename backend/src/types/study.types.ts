@@ -0,0 +1,36 @@
+/**
+ * Study Type Definitions
+ */
+
+// How a new participant is placed into one of a study's tasks (conditions)
+export type AssignmentStrategy = 'random' | 'block' | 'least_filled' | 'weighted';
+
+export const ASSIGNMENT_STRATEGIES: AssignmentStrategy[] = ['random', 'block', 'least_filled', 'weighted'];
+
+export interface StudySettings {
+  assignmentStrategy: AssignmentStrategy;
+  blockRepeats: number;           // block: participants per task in each block (block size = tasks × repeats)
+  captureParams: string[];        // study URL query parameters stored with each conversation
+  completionCode: string | null;  // shown to the participant when they finish
+  completionUrl: string | null;   // or redirect here instead; {PARAM} placeholders are filled in
+}
+
+// One row of the cell-count view: a task and how many participants it has
+export interface AssignmentCell {
+  taskId: string;
+  taskName: string;
+  weight: number;
+  count: number;
+}
+
+export interface Assignment {
+  taskId: string;
+  strategy: AssignmentStrategy;
+  isNew: boolean;           // false when the participant already had an assignment
+}
+
+// What the participant sees when they finish: a code to paste back, or a redirect
+export interface Completion {
+  code: string | null;
+  redirectUrl: string | null;
+}
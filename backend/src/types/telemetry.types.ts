@@ -0,0 +1,30 @@
+/**
+ * Message Telemetry Type Definitions
+ */
+
+// How the participant composed a message, measured by the study page and sent with the turn.
+// Counts cover the time since their previous message.
+export interface TypingTelemetry {
+  firstKeystrokeMs: number | null;  // from the previous reply appearing to the first keystroke
+  composeMs: number | null;         // from the first keystroke to sending
+  keystrokes: number;
+  deletions: number;                // Backspace/Delete presses
+  pastes: number;
+  pastedChars: number;
+  blurs: number;                    // times the participant left the tab or window
+  hiddenMs: number;                 // time spent away from it
+}
+
+// How the model produced a reply, as reported by LiteLLM
+export interface ModelTelemetry {
+  firstTokenMs: number | null;      // streamed replies: from the request to the first text
+  promptTokens: number | null;
+  completionTokens: number | null;
+  totalTokens: number | null;
+}
+
+// A message's stored telemetry: typing fields are set for participant messages, model
+// fields for model replies
+export interface MessageTelemetry extends Partial<TypingTelemetry>, Partial<ModelTelemetry> {
+  typingStartedAt?: Date | null;    // server time of the first keystroke (message receipt minus composeMs)
+}
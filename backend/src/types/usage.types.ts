@@ -0,0 +1,43 @@
+/**
+ * Model Usage and Cost Type Definitions
+ */
+
+// What a LiteLLM call was for: a participant's reply, a Wizard-of-Oz draft, or a
+// context summary
+export type UsagePurpose = 'reply' | 'draft' | 'summary';
+
+// Who a LiteLLM call is billed to
+export interface UsageAttribution {
+  userId: string;            // the research group
+  taskId: string | null;
+  conversationId: string | null;
+  purpose: UsagePurpose;
+}
+
+// Price per million tokens, in USD
+export interface ModelPrice {
+  modelId: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// Calls and tokens for one researcher, task, day or model
+export interface UsageRollup {
+  key: string;               // user ID, task ID, YYYY-MM-DD or model ID
+  label: string;             // username, task name, the day or the model
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  avgLatencyMs: number | null;
+  costUsd: number;           // from the current price table; calls to unpriced models add nothing
+  unpricedCalls: number;
+}
+
+export interface UsageReport {
+  days: number;              // the report covers the last `days` days
+  totals: UsageRollup;
+  byResearcher: UsageRollup[];   // admin report only
+  byTask: UsageRollup[];
+  byDay: UsageRollup[];
+  byModel: UsageRollup[];
+}
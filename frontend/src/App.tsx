@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react'
-import { Routes, Route, NavLink, useNavigate, Navigate, useParams, useLocation } from 'react-router-dom'
+import { Routes, Route, NavLink, useNavigate, Navigate, useParams, useLocation, useSearchParams } from 'react-router-dom'
 import ChatBox from './components/ChatBox'
 import HomePage from './components/HomePage'
 import ResearchPanel from './components/ResearchPanel'
@@ -7,54 +7,243 @@ import ConversationHistory from './components/ConversationHistory'
 import LoginPage from './components/LoginPage'
 import AdminLoginPage from './components/AdminLoginPage'
 import AdminDashboard from './components/AdminDashboard'
-import { authService, tasksAPI, conversationsAPI, type Task, type Conversation, type Message } from './services/api'
+import Questionnaire from './components/Questionnaire'
+import ConsentForm from './components/ConsentForm'
+import {
+  authService,
+  tasksAPI,
+  conversationsAPI,
+  studiesAPI,
+  questionnairesAPI,
+  type Task,
+  type ParticipantTask,
+  type Conversation,
+  type Message,
+  type Completion,
+  type ConsentDocument,
+  type ParticipantQuestionnaires,
+  type StudyJoin
+} from './services/api'
 import { getDeviceId } from './utils/deviceId'
 import { useBackendHealth } from './hooks/useBackendHealth'
 import './App.css'
 
+// Query parameters recruitment platforms use for the participant's ID (Prolific, MTurk, generic links)
+const EXTERNAL_ID_PARAMS = ['PROLIFIC_PID', 'workerId', 'participantId', 'pid'];
+
 /**
  * Participant-facing chatbox scoped to a specific research group.
  * URL: /study/:userId  (the researcher's UUID — not their secret research key)
- * Conversations are saved to the backend under the researcher's UUID so they
+ * The chat routes save each turn under the task's research group, so conversations
  * appear in the researcher's history when they reload from the database.
+ * If the study has a consent document, the participant must agree to it first.
+ * The task's pre-chat questionnaire is shown before the chat and its post-chat
+ * questionnaire once the participant finishes.
  */
 function StudyChatPage() {
   const { userId } = useParams<{ userId: string }>();
-  const [studyTasks, setStudyTasks] = useState<Task[]>([]);
+  const [searchParams] = useSearchParams();
+  const externalId = EXTERNAL_ID_PARAMS.map(name => searchParams.get(name)).find(Boolean) ?? undefined;
+  // Recruitment-platform parameters (PROLIFIC_PID, STUDY_ID, workerId, ...); the server keeps the ones the study captures
+  const urlParams = Object.fromEntries(searchParams);
+  const [studyTasks, setStudyTasks] = useState<ParticipantTask[]>([]);
+  const [assignedTaskId, setAssignedTaskId] = useState('');
+  const [participantId, setParticipantId] = useState('');
   const [loading, setLoading] = useState(true);
   const [notFound, setNotFound] = useState(false);
+  const [assignmentFailed, setAssignmentFailed] = useState(false);
+  const [questionnaires, setQuestionnaires] = useState<ParticipantQuestionnaires | null>(null);
+  const [phase, setPhase] = useState<'consent' | 'declined' | 'pre' | 'chat' | 'post'>('chat');
+  const [consentDocument, setConsentDocument] = useState<ConsentDocument | null>(null);
+  // The finished conversation the post-chat questionnaire is answered for
+  const [postConversationId, setPostConversationId] = useState('');
+
+  // A joined participant goes to the consent step, the pre-chat questionnaire or the chat
+  const enterStudy = async (joined: StudyJoin, isCancelled: () => boolean = () => false) => {
+    setParticipantId(joined.participant.id);
+    if (joined.consent) {
+      setConsentDocument(joined.consent);
+      setPhase('consent');
+      return;
+    }
+    if (!joined.assignment) {
+      setAssignmentFailed(true);
+      return;
+    }
+    setAssignedTaskId(joined.assignment.taskId);
+
+    // Without questionnaires (or if they fail to load) the participant goes straight to the chat
+    const status = await questionnairesAPI.getForParticipant(joined.assignment.taskId);
+    if (isCancelled()) return;
+    setQuestionnaires(status);
+    if (status && status.post.items.length > 0 && !status.post.completed && status.post.conversationId) {
+      // Finished the chat but left before answering the post-chat questionnaire
+      setPostConversationId(status.post.conversationId);
+      setPhase('post');
+    } else if (status && status.pre.items.length > 0 && !status.pre.completed) {
+      setPhase('pre');
+    } else {
+      setPhase('chat');
+    }
+  };
 
   useEffect(() => {
     if (!userId) return;
     let cancelled = false;
-    tasksAPI.getByUserId(userId).then(result => {
+    const loadStudy = async () => {
+      const result = await tasksAPI.getByUserId(userId);
       if (cancelled) return;
       if (!result) {
         setNotFound(true);
+        setLoading(false);
+        return;
+      }
+      setStudyTasks(result);
+      if (result.length === 0) {
+        // ChatBox shows its "No Tasks Found" view
+        setLoading(false);
+        return;
+      }
+
+      // The server assigns the condition once per participant (recruitment ID, else device),
+      // so reloading or clearing storage always returns the same task
+      const joined = await studiesAPI.join(userId, await getDeviceId(), externalId);
+      if (cancelled) return;
+      if (joined) {
+        await enterStudy(joined, () => cancelled);
+        if (cancelled) return;
       } else {
-        setStudyTasks(result);
+        setAssignmentFailed(true);
       }
       setLoading(false);
-    });
+    };
+    loadStudy();
     return () => { cancelled = true; };
-  }, [userId]);
+  }, [userId, externalId]);
 
-  // Save conversation under the researcher's UUID so it appears in their history.
-  const handleSaveConversation = useCallback(async (conversation: Conversation) => {
-    if (!userId) return;
-    try {
-      await conversationsAPI.save(userId, conversation);
-    } catch (error) {
-      console.error('❌ Error saving conversation:', error);
+  const redirectTo = (completion?: Completion) => {
+    if (completion?.redirectUrl) {
+      window.location.assign(completion.redirectUrl);
+    }
+  };
+
+  // Record consent, then join again: the server only assigns a task once the participant has consented
+  const handleConsent = async () => {
+    if (!userId || !consentDocument) return null;
+    const deviceId = await getDeviceId();
+    const result = await studiesAPI.giveConsent(userId, participantId, consentDocument.id, deviceId);
+
+    const joined = await studiesAPI.join(userId, deviceId, externalId);
+    if (!joined) return 'This study is not available right now. Please try again later.';
+    if (joined.consent) {
+      // Not recorded, e.g. a new version was published while the participant was reading
+      setConsentDocument(joined.consent);
+      return result.error ?? 'Please review the consent information again.';
+    }
+    await enterStudy(joined);
+    return null;
+  };
+
+  const handleChatComplete = (conversationId: string, completion: Completion) => {
+    if (questionnaires && questionnaires.post.items.length > 0 && !questionnaires.post.completed) {
+      setPostConversationId(conversationId);
+      setPhase('post');
+      return;
     }
-  }, [userId]);
+    redirectTo(completion);
+  };
+
+  const handlePreSubmit = async (answers: Record<string, string>) => {
+    const result = await questionnairesAPI.submit(assignedTaskId, { phase: 'pre', answers });
+    if (!result.success) return result.error ?? 'Failed to submit answers';
+
+    setQuestionnaires(prev => prev && { ...prev, pre: { ...prev.pre, completed: true } });
+    setPhase('chat');
+    return null;
+  };
+
+  const handlePostSubmit = async (answers: Record<string, string>) => {
+    const result = await questionnairesAPI.submit(assignedTaskId, {
+      phase: 'post',
+      conversationId: postConversationId,
+      answers
+    });
+    if (!result.success) return result.error ?? 'Failed to submit answers';
+
+    setQuestionnaires(prev => prev && { ...prev, post: { ...prev.post, completed: true } });
+    setPhase('chat');
+    redirectTo(result.completion);
+    return null;
+  };
 
   if (loading) return <div style={{ padding: '40px', textAlign: 'center' }}>Loading study...</div>;
   if (notFound) return <div style={{ padding: '40px', textAlign: 'center' }}>Research group not found.</div>;
+  if (assignmentFailed) return <div style={{ padding: '40px', textAlign: 'center' }}>This study is not available right now. Please try again later.</div>;
+
+  if (phase === 'consent' && consentDocument) {
+    return (
+      <div className="chat-section">
+        <ConsentForm
+          key={consentDocument.id}
+          document={consentDocument}
+          onAgree={handleConsent}
+          onDecline={() => setPhase('declined')}
+        />
+      </div>
+    );
+  }
+
+  if (phase === 'declined') {
+    return (
+      <div style={{ padding: '40px', textAlign: 'center' }}>
+        You have chosen not to take part in this study. You can close this page.
+        <div style={{ marginTop: '16px' }}>
+          <button type="button" className="nav-btn" onClick={() => setPhase('consent')}>
+            Review the consent information again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === 'pre' && questionnaires) {
+    return (
+      <div className="chat-section">
+        <Questionnaire
+          title="Before you start"
+          intro="Please answer a few questions before the conversation."
+          items={questionnaires.pre.items}
+          submitLabel="Start the conversation"
+          onSubmit={handlePreSubmit}
+        />
+      </div>
+    );
+  }
+
+  if (phase === 'post' && questionnaires) {
+    return (
+      <div className="chat-section">
+        <Questionnaire
+          title="One last step"
+          intro="Please answer a few questions about your conversation."
+          items={questionnaires.post.items}
+          submitLabel="Submit"
+          onSubmit={handlePostSubmit}
+        />
+      </div>
+    );
+  }
 
   return (
     <div className="chat-section">
-      <ChatBox tasks={studyTasks} onSaveConversation={handleSaveConversation} studyId={userId ?? ''} />
+      <ChatBox
+        tasks={studyTasks}
+        studyId={userId ?? ''}
+        assignedTaskId={assignedTaskId}
+        participantId={participantId}
+        urlParams={urlParams}
+        onComplete={handleChatComplete}
+      />
     </div>
   );
 }
@@ -1,12 +1,21 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { Navigate, useNavigate } from 'react-router-dom';
 import {
   adminAPI,
   adminAuthService,
+  SAMPLING_PARAMS,
   type AdminUser,
   type AdminConversation,
-  type AdminMessage
+  type AdminConversationSnapshot,
+  type AdminMessage,
+  type BudgetStatus,
+  type LiveEvent,
+  type ModelCapabilities,
+  type ModelPrice,
+  type UsageReport,
+  type UsageRollup
 } from '../services/api';
+import { useLiveEvents, isLiveNow } from '../hooks/useLiveEvents';
 import './AdminPanel.css';
 
 // ── Delete confirmation modal ─────────────────────────────────────────────
@@ -113,6 +122,105 @@ function CreateResearcherForm({ onCreated }: { onCreated: (user: AdminUser) => v
   );
 }
 
+// ── Budget editor modal ───────────────────────────────────────────────────
+
+// Empty means no limit
+const limitInput = (value: number | null) => (value === null ? '' : String(value));
+const limitValue = (input: string) => (input.trim() === '' ? null : Number(input));
+
+function BudgetModal({
+  user,
+  status,
+  onSaved,
+  onCancel
+}: {
+  user: AdminUser;
+  status: BudgetStatus | undefined;
+  onSaved: (status: BudgetStatus) => void;
+  onCancel: () => void;
+}) {
+  const [tokenLimit, setTokenLimit] = useState(limitInput(status?.budget.monthlyTokenLimit ?? null));
+  const [costLimit, setCostLimit] = useState(limitInput(status?.budget.monthlyCostLimitUsd ?? null));
+  const [messageCap, setMessageCap] = useState(limitInput(status?.budget.conversationMessageCap ?? null));
+  const [warningPercent, setWarningPercent] = useState(String(status?.budget.warningPercent ?? 80));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+    const result = await adminAPI.updateBudget(user.id, {
+      monthlyTokenLimit: limitValue(tokenLimit),
+      monthlyCostLimitUsd: limitValue(costLimit),
+      conversationMessageCap: limitValue(messageCap),
+      warningPercent: Number(warningPercent)
+    });
+    setSaving(false);
+    if (result.success && result.data) {
+      onSaved(result.data);
+    } else {
+      setError(result.message || 'Failed to update budget');
+    }
+  };
+
+  return (
+    <div className="admin-modal-overlay">
+      <form className="admin-modal admin-budget-modal" onSubmit={handleSubmit}>
+        <h3>Budget for {user.username}</h3>
+        <p>
+          Monthly limits apply from the first of the month; once one is used up, the group's
+          model tasks stop replying. Leave a field empty for no limit.
+        </p>
+        <div className="admin-create-field">
+          <label>Monthly tokens</label>
+          <input type="number" min="0" step="1" value={tokenLimit} onChange={e => setTokenLimit(e.target.value)} />
+        </div>
+        <div className="admin-create-field">
+          <label>Monthly cost (USD)</label>
+          <input type="number" min="0" step="0.01" value={costLimit} onChange={e => setCostLimit(e.target.value)} />
+        </div>
+        <div className="admin-create-field">
+          <label>Participant messages per conversation</label>
+          <input type="number" min="1" step="1" value={messageCap} onChange={e => setMessageCap(e.target.value)} />
+        </div>
+        <div className="admin-create-field">
+          <label>Warn the researcher at (% of a monthly limit)</label>
+          <input
+            type="number"
+            min="1"
+            max="100"
+            step="1"
+            value={warningPercent}
+            onChange={e => setWarningPercent(e.target.value)}
+            required
+          />
+        </div>
+        {error && <p className="admin-create-error">{error}</p>}
+        <div className="admin-modal-actions">
+          <button type="button" className="admin-modal-cancel" onClick={onCancel}>Cancel</button>
+          <button type="submit" className="admin-create-submit-btn" disabled={saving}>
+            {saving ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+// Month-to-date use against the tightest limit, e.g. "42% · $12.40"
+function BudgetCell({ status }: { status: BudgetStatus | undefined }) {
+  if (!status) return <span className="admin-muted">—</span>;
+  const percent = Math.max(status.tokenPercent ?? -1, status.costPercent ?? -1);
+  const cap = status.budget.conversationMessageCap;
+  return (
+    <span className={`admin-budget admin-budget-${status.level}`}>
+      {percent >= 0 ? `${percent}%` : 'No limit'} · {formatCost(status.costUsd)}
+      {cap !== null && <span className="admin-muted"> · {cap} msg cap</span>}
+    </span>
+  );
+}
+
 // ── Researchers tab ───────────────────────────────────────────────────────
 
 function ResearchersTab({
@@ -125,6 +233,13 @@ function ResearchersTab({
   const [confirmDelete, setConfirmDelete] = useState<AdminUser | null>(null);
   const [togglingId, setTogglingId] = useState<string | null>(null);
   const [actionError, setActionError] = useState('');
+  const [budgets, setBudgets] = useState<Record<string, BudgetStatus>>({});
+  const [editBudget, setEditBudget] = useState<AdminUser | null>(null);
+
+  // Refetched when researchers change, so new groups show up
+  useEffect(() => {
+    adminAPI.getBudgets().then(setBudgets);
+  }, [users]);
 
   const handleDelete = async (user: AdminUser) => {
     setActionError('');
@@ -171,6 +286,8 @@ function ResearchersTab({
               <th>Tasks</th>
               <th>Conversations</th>
               <th>Messages</th>
+              <th>Consents</th>
+              <th>Budget (month)</th>
               <th>Status</th>
               <th>Created</th>
               <th>Actions</th>
@@ -189,6 +306,8 @@ function ResearchersTab({
                 <td className="admin-cell-num">{u.taskCount}</td>
                 <td className="admin-cell-num">{u.conversationCount}</td>
                 <td className="admin-cell-num">{u.messageCount}</td>
+                <td className="admin-cell-num">{u.consentCount}</td>
+                <td><BudgetCell status={budgets[u.id]} /></td>
                 <td>
                   <span className={`admin-status-dot ${u.isActive ? 'active' : 'inactive'}`} />
                 </td>
@@ -202,6 +321,9 @@ function ResearchersTab({
                     >
                       {u.isActive ? 'Deactivate' : 'Activate'}
                     </button>
+                    <button className="admin-action-btn" onClick={() => setEditBudget(u)}>
+                      Budget
+                    </button>
                     <button
                       className="admin-action-btn admin-btn-danger"
                       onClick={() => setConfirmDelete(u)}
@@ -223,6 +345,18 @@ function ResearchersTab({
           onCancel={() => setConfirmDelete(null)}
         />
       )}
+
+      {editBudget && (
+        <BudgetModal
+          user={editBudget}
+          status={budgets[editBudget.id]}
+          onSaved={status => {
+            setBudgets(prev => ({ ...prev, [editBudget.id]: status }));
+            setEditBudget(null);
+          }}
+          onCancel={() => setEditBudget(null)}
+        />
+      )}
     </div>
   );
 }
@@ -232,25 +366,38 @@ function ResearchersTab({
 function ConversationRow({
   conv,
   isExpanded,
-  onToggle
+  onToggle,
+  now
 }: {
   conv: AdminConversation;
   isExpanded: boolean;
   onToggle: (id: string) => void;
+  now: number;
 }) {
   const [messages, setMessages] = useState<AdminMessage[]>([]);
+  const [snapshot, setSnapshot] = useState<AdminConversationSnapshot | null>(null);
   const [loadingMsgs, setLoadingMsgs] = useState(false);
 
   const handleToggle = useCallback(async () => {
     onToggle(conv.id);
     if (!isExpanded && messages.length === 0) {
       setLoadingMsgs(true);
-      const msgs = await adminAPI.getMessages(conv.id);
-      setMessages(msgs);
+      const result = await adminAPI.getMessages(conv.id);
+      setMessages(result.messages);
+      setSnapshot(result.conversation);
       setLoadingMsgs(false);
     }
   }, [conv.id, isExpanded, messages.length, onToggle]);
 
+  // Keep an open transcript current as live messages arrive
+  useEffect(() => {
+    if (!isExpanded || loadingMsgs || messages.length === 0 || messages.length === conv.messageCount) return;
+    adminAPI.getMessages(conv.id).then(result => {
+      setMessages(result.messages);
+      setSnapshot(result.conversation);
+    });
+  }, [conv.id, conv.messageCount, isExpanded, loadingMsgs, messages.length]);
+
   return (
     <>
       <tr
@@ -261,9 +408,17 @@ function ConversationRow({
         <td>
           <span className={`admin-expand-arrow ${isExpanded ? 'open' : ''}`}>▶</span>
         </td>
-        <td className="admin-cell-bold">{conv.title}</td>
+        <td className="admin-cell-bold">
+          {conv.title}
+          {isLiveNow(new Date(conv.lastMessageAt), conv.finishedAt ? new Date(conv.finishedAt) : null, now) && (
+            <span className="admin-live-badge">● Live now</span>
+          )}
+        </td>
         <td>{conv.username || <span className="admin-muted">—</span>}</td>
-        <td>{conv.aiModelName || <span className="admin-muted">—</span>}</td>
+        <td>
+          {conv.aiModelName || <span className="admin-muted">—</span>}
+          {conv.modelId && <div className="admin-muted">{conv.modelId}</div>}
+        </td>
         <td className="admin-cell-num">{conv.messageCount}</td>
         <td className="admin-cell-date">{new Date(conv.lastMessageAt).toLocaleString()}</td>
         <td className="admin-cell-date">{new Date(conv.createdAt).toLocaleString()}</td>
@@ -277,10 +432,23 @@ function ConversationRow({
               <div className="admin-messages-empty">No messages</div>
             ) : (
               <div className="admin-messages-list">
+                {snapshot && (snapshot.taskId || snapshot.systemPrompt) && (
+                  <div className="admin-snapshot">
+                    <div><strong>Task ID:</strong> {snapshot.taskId || '—'}</div>
+                    <div><strong>Model:</strong> {snapshot.modelId || '—'}</div>
+                    <div><strong>System prompt:</strong> {snapshot.systemPrompt || '—'}</div>
+                    <div><strong>Task prompt:</strong> {snapshot.taskPrompt || '—'}</div>
+                  </div>
+                )}
                 {messages.map(msg => (
                   <div key={msg.id} className={`admin-message admin-message-${msg.sender}`}>
-                    <span className="admin-message-sender">{msg.sender === 'user' ? 'User' : 'AI'}</span>
+                    <span className="admin-message-sender">
+                      {msg.sender === 'user'
+                        ? 'User'
+                        : msg.author === 'researcher' ? 'Researcher' : msg.author === 'script' ? 'Scripted' : 'AI'}
+                    </span>
                     <span className="admin-message-time">{new Date(msg.timestamp).toLocaleTimeString()}</span>
+                    {msg.modelId && <span className="admin-message-time">{msg.modelId}</span>}
                     <p className="admin-message-text">{msg.text}</p>
                   </div>
                 ))}
@@ -296,6 +464,13 @@ function ConversationRow({
 function ConversationsTab({ conversations }: { conversations: AdminConversation[] }) {
   const [expanded, setExpanded] = useState<Set<string>>(new Set());
   const [search, setSearch] = useState('');
+  // Ticks every 30 seconds so "live now" badges expire
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 30_000);
+    return () => window.clearInterval(timer);
+  }, []);
 
   const toggle = useCallback((id: string) => {
     setExpanded(prev => {
@@ -342,6 +517,7 @@ function ConversationsTab({ conversations }: { conversations: AdminConversation[
                 conv={conv}
                 isExpanded={expanded.has(conv.id)}
                 onToggle={toggle}
+                now={now}
               />
             ))}
           </tbody>
@@ -351,11 +527,409 @@ function ConversationsTab({ conversations }: { conversations: AdminConversation[
   );
 }
 
+// ── Usage & cost tab ──────────────────────────────────────────────────────
+
+const USAGE_PERIODS = [7, 30, 90, 365];
+
+const formatCost = (usd: number) => `$${usd.toFixed(usd >= 100 ? 0 : 2)}`;
+
+function UsageTable({ title, rows }: { title: string; rows: UsageRollup[] }) {
+  return (
+    <div className="admin-usage-block">
+      <h3 className="admin-usage-title">{title}</h3>
+      <div className="admin-table-wrap">
+        <table className="admin-table">
+          <thead>
+            <tr>
+              <th>{title.replace(/^By /, '')}</th>
+              <th>Calls</th>
+              <th>Prompt tokens</th>
+              <th>Completion tokens</th>
+              <th>Avg latency</th>
+              <th>Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 && (
+              <tr><td colSpan={6} className="admin-muted">No model calls in this period</td></tr>
+            )}
+            {rows.map(row => (
+              <tr key={row.key}>
+                <td className="admin-cell-bold">{row.label}</td>
+                <td className="admin-cell-num">{row.calls}</td>
+                <td className="admin-cell-num">{row.promptTokens.toLocaleString()}</td>
+                <td className="admin-cell-num">{row.completionTokens.toLocaleString()}</td>
+                <td className="admin-cell-num">
+                  {row.avgLatencyMs !== null ? `${(row.avgLatencyMs / 1000).toFixed(1)}s` : '—'}
+                </td>
+                <td className="admin-cell-num">
+                  {formatCost(row.costUsd)}
+                  {row.unpricedCalls > 0 && (
+                    <span className="admin-muted" title="Calls to models without a price are not counted">
+                      {' '}({row.unpricedCalls} unpriced)
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function PriceEditor({ modelsUsed }: { modelsUsed: string[] }) {
+  const [prices, setPrices] = useState<ModelPrice[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    adminAPI.getPrices().then(setPrices);
+  }, []);
+
+  const unpriced = modelsUsed.filter(modelId => !prices.some(p => p.modelId === modelId));
+
+  const updatePrice = (index: number, changes: Partial<ModelPrice>) =>
+    setPrices(prev => prev.map((price, i) => (i === index ? { ...price, ...changes } : price)));
+
+  const handleSave = async () => {
+    setMessage('');
+    setSaving(true);
+    const result = await adminAPI.updatePrices(prices.filter(p => p.modelId.trim()));
+    setSaving(false);
+    if (result.success && result.data) {
+      setPrices(result.data);
+      setMessage('Prices saved. Costs are recalculated from the new prices.');
+    } else {
+      setMessage(result.message || 'Failed to save prices');
+    }
+  };
+
+  return (
+    <div className="admin-usage-block">
+      <h3 className="admin-usage-title">Model Prices (USD per million tokens)</h3>
+      <div className="admin-table-wrap">
+        <table className="admin-table">
+          <thead>
+            <tr>
+              <th>Model</th>
+              <th>Input</th>
+              <th>Output</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {prices.map((price, index) => (
+              <tr key={index}>
+                <td>
+                  <input
+                    className="admin-search"
+                    value={price.modelId}
+                    onChange={e => updatePrice(index, { modelId: e.target.value })}
+                    placeholder="e.g. gpt-4o-2024-11-20"
+                  />
+                </td>
+                <td>
+                  <input
+                    className="admin-price-input"
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={price.inputPerMillion}
+                    onChange={e => updatePrice(index, { inputPerMillion: e.target.valueAsNumber || 0 })}
+                  />
+                </td>
+                <td>
+                  <input
+                    className="admin-price-input"
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={price.outputPerMillion}
+                    onChange={e => updatePrice(index, { outputPerMillion: e.target.valueAsNumber || 0 })}
+                  />
+                </td>
+                <td>
+                  <button
+                    className="admin-action-btn admin-btn-danger"
+                    onClick={() => setPrices(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {unpriced.length > 0 && (
+        <p className="admin-count admin-usage-hint">
+          Used without a price:{' '}
+          {unpriced.map(modelId => (
+            <button
+              key={modelId}
+              className="admin-action-btn"
+              onClick={() => setPrices(prev => [...prev, { modelId, inputPerMillion: 0, outputPerMillion: 0 }])}
+            >
+              + {modelId}
+            </button>
+          ))}
+        </p>
+      )}
+      <div className="admin-create-bar">
+        <button
+          className="admin-create-toggle-btn"
+          onClick={() => setPrices(prev => [...prev, { modelId: '', inputPerMillion: 0, outputPerMillion: 0 }])}
+        >
+          + Add Model
+        </button>
+        <button className="admin-create-submit-btn" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving…' : 'Save Prices'}
+        </button>
+      </div>
+      {message && <p className="admin-count">{message}</p>}
+    </div>
+  );
+}
+
+function UsageTab() {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    adminAPI.getUsage(days).then(result => {
+      setReport(result);
+      setLoading(false);
+    });
+  }, [days]);
+
+  return (
+    <div className="admin-tab-content">
+      <div className="admin-messages-header">
+        <p className="admin-count" style={{ margin: 0 }}>
+          {report
+            ? `${report.totals.calls} model calls · ${(report.totals.promptTokens + report.totals.completionTokens).toLocaleString()} tokens · ${formatCost(report.totals.costUsd)}`
+            : loading ? 'Loading usage…' : 'Usage could not be loaded'}
+        </p>
+        <select className="admin-search" value={days} onChange={e => setDays(Number(e.target.value))}>
+          {USAGE_PERIODS.map(period => (
+            <option key={period} value={period}>Last {period} days</option>
+          ))}
+        </select>
+      </div>
+
+      {report && (
+        <>
+          <UsageTable title="By Researcher" rows={report.byResearcher} />
+          <UsageTable title="By Task" rows={report.byTask} />
+          <UsageTable title="By Day" rows={report.byDay} />
+          <UsageTable title="By Model" rows={report.byModel} />
+        </>
+      )}
+      <PriceEditor modelsUsed={report?.byModel.map(row => row.key) ?? []} />
+    </div>
+  );
+}
+
+const EMPTY_MODEL: ModelCapabilities = {
+  modelId: '',
+  name: '',
+  provider: '',
+  description: '',
+  supportsSystemRole: true,
+  samplingParams: ['temperature'],
+  maxTemperature: 1,
+  contextWindow: null,
+  maxOutputTokens: null,
+  supportsImages: false
+};
+
+// Empty number inputs mean "unknown"
+const toLimit = (value: number): number | null => (Number.isNaN(value) ? null : value);
+
+function ModelsTab() {
+  const [models, setModels] = useState<ModelCapabilities[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    adminAPI.getModelRegistry().then(result => {
+      setModels(result);
+      setLoading(false);
+    });
+  }, []);
+
+  const updateModel = (index: number, changes: Partial<ModelCapabilities>) =>
+    setModels(prev => prev.map((model, i) => (i === index ? { ...model, ...changes } : model)));
+
+  const toggleParam = (index: number, param: ModelCapabilities['samplingParams'][number]) =>
+    setModels(prev => prev.map((model, i) => (i !== index ? model : {
+      ...model,
+      samplingParams: model.samplingParams.includes(param)
+        ? model.samplingParams.filter(p => p !== param)
+        : [...model.samplingParams, param]
+    })));
+
+  const handleSave = async () => {
+    setMessage('');
+    setSaving(true);
+    const result = await adminAPI.updateModelRegistry(models.filter(m => m.modelId.trim()));
+    setSaving(false);
+    if (result.success && result.data) {
+      setModels(result.data);
+      setMessage('Model registry saved. New messages use it straight away.');
+    } else {
+      setMessage(result.message || 'Failed to save the model registry');
+    }
+  };
+
+  return (
+    <div className="admin-tab-content">
+      <p className="admin-count">
+        What each model accepts, applied to every request. A model ID with * is a pattern
+        (e.g. <code>gpt-*</code>) for models without their own entry; the most specific match wins.
+        Models matching nothing get a system message and temperature 0–1 only.
+      </p>
+      {loading ? (
+        <div className="admin-loading">Loading models…</div>
+      ) : (
+        <div className="admin-table-wrap">
+          <table className="admin-table">
+            <thead>
+              <tr>
+                <th>Model ID / pattern</th>
+                <th>Name</th>
+                <th>Provider</th>
+                <th title="Off: the system prompt is put into the first user message">System role</th>
+                <th>Sampling parameters</th>
+                <th>Max temp.</th>
+                <th>Context window</th>
+                <th>Max output</th>
+                <th>Images</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {models.map((model, index) => (
+                <tr key={index}>
+                  <td>
+                    <input
+                      className="admin-search"
+                      value={model.modelId}
+                      onChange={e => updateModel(index, { modelId: e.target.value })}
+                      placeholder="e.g. gpt-4o-2024-11-20"
+                    />
+                  </td>
+                  <td>
+                    <input
+                      className="admin-search"
+                      value={model.name}
+                      onChange={e => updateModel(index, { name: e.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      className="admin-price-input"
+                      value={model.provider}
+                      onChange={e => updateModel(index, { provider: e.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={model.supportsSystemRole}
+                      onChange={e => updateModel(index, { supportsSystemRole: e.target.checked })}
+                    />
+                  </td>
+                  <td>
+                    {SAMPLING_PARAMS.map(param => (
+                      <label key={param} className="admin-model-param">
+                        <input
+                          type="checkbox"
+                          checked={model.samplingParams.includes(param)}
+                          onChange={() => toggleParam(index, param)}
+                        />
+                        {param}
+                      </label>
+                    ))}
+                  </td>
+                  <td>
+                    <input
+                      className="admin-price-input"
+                      type="number"
+                      min={0}
+                      max={2}
+                      step={0.1}
+                      value={model.maxTemperature}
+                      onChange={e => updateModel(index, { maxTemperature: e.target.valueAsNumber || 0 })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      className="admin-price-input"
+                      type="number"
+                      min={1}
+                      placeholder="unknown"
+                      value={model.contextWindow ?? ''}
+                      onChange={e => updateModel(index, { contextWindow: toLimit(e.target.valueAsNumber) })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      className="admin-price-input"
+                      type="number"
+                      min={1}
+                      placeholder="unknown"
+                      value={model.maxOutputTokens ?? ''}
+                      onChange={e => updateModel(index, { maxOutputTokens: toLimit(e.target.valueAsNumber) })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={model.supportsImages}
+                      onChange={e => updateModel(index, { supportsImages: e.target.checked })}
+                    />
+                  </td>
+                  <td>
+                    <button
+                      className="admin-action-btn admin-btn-danger"
+                      onClick={() => setModels(prev => prev.filter((_, i) => i !== index))}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <div className="admin-create-bar">
+        <button
+          className="admin-create-toggle-btn"
+          onClick={() => setModels(prev => [...prev, { ...EMPTY_MODEL, samplingParams: [...EMPTY_MODEL.samplingParams] }])}
+        >
+          + Add Model
+        </button>
+        <button className="admin-create-submit-btn" onClick={handleSave} disabled={saving || loading}>
+          {saving ? 'Saving…' : 'Save Models'}
+        </button>
+      </div>
+      {message && <p className="admin-count">{message}</p>}
+    </div>
+  );
+}
+
 // ── Root dashboard component ──────────────────────────────────────────────
 
 export default function AdminDashboard() {
   const navigate = useNavigate();
-  const [tab, setTab] = useState<'researchers' | 'conversations'>('researchers');
+  const [tab, setTab] = useState<'researchers' | 'conversations' | 'usage' | 'models'>('researchers');
   const [users, setUsers] = useState<AdminUser[]>([]);
   const [conversations, setConversations] = useState<AdminConversation[]>([]);
   const [loading, setLoading] = useState(false);
@@ -382,6 +956,58 @@ export default function AdminDashboard() {
     loadData();
   }, [loadData]);
 
+  // Apply live events from every research group
+  const handleLiveEvent = (event: LiveEvent) => {
+    if (event.type === 'conversation-created') {
+      const { conversation } = event;
+      setConversations(prev => prev.some(c => c.id === conversation.id) ? prev : [
+        {
+          id: conversation.id,
+          title: conversation.title,
+          aiModelName: conversation.taskName,
+          aiModelPersonality: null,
+          modelId: conversation.modelId,
+          createdAt: conversation.createdAt.toISOString(),
+          lastMessageAt: conversation.lastMessageAt.toISOString(),
+          finishedAt: null,
+          userId: conversation.userId,
+          username: users.find(u => u.id === conversation.userId)?.username ?? '',
+          messageCount: 0
+        },
+        ...prev
+      ]);
+      setUsers(prev => prev.map(u => u.id === conversation.userId
+        ? { ...u, conversationCount: u.conversationCount + 1 }
+        : u));
+      return;
+    }
+
+    if (event.type === 'message-added') {
+      const lastMessageAt = event.message.timestamp.toISOString();
+      setConversations(prev => [
+        ...prev.filter(c => c.id === event.conversationId).map(c => ({ ...c, messageCount: c.messageCount + 1, lastMessageAt })),
+        ...prev.filter(c => c.id !== event.conversationId)
+      ]);
+      setUsers(prev => prev.map(u => u.id === event.userId ? { ...u, messageCount: u.messageCount + 1 } : u));
+      return;
+    }
+
+    const finishedAt = event.finishedAt.toISOString();
+    setConversations(prev => prev.map(c => c.id === event.conversationId ? { ...c, finishedAt } : c));
+  };
+
+  // Reload after a dropped connection so nothing missed meanwhile stays stale
+  const hasConnectedRef = useRef(false);
+  const isLive = useLiveEvents<LiveEvent>(
+    adminAuthService.isAuthenticated() ? 'admin' : null,
+    adminAPI.subscribe,
+    handleLiveEvent,
+    () => {
+      if (hasConnectedRef.current) loadData();
+      hasConnectedRef.current = true;
+    }
+  );
+
   // Guard: redirect to /admin login if not authenticated
   if (!adminAuthService.isAuthenticated()) {
     return <Navigate to="/admin" replace />;
@@ -395,7 +1021,15 @@ export default function AdminDashboard() {
   return (
     <div className="admin-panel">
       <div className="admin-header">
-        <h1 className="admin-title">Admin Dashboard</h1>
+        <h1 className="admin-title">
+          Admin Dashboard
+          <span
+            className={`admin-live-status ${isLive ? 'connected' : ''}`}
+            title={isLive ? 'Conversations and messages update as they happen' : 'Reconnecting to live updates…'}
+          >
+            {isLive ? '● Live' : '○ Offline'}
+          </span>
+        </h1>
         <div className="admin-header-right">
           <button className="admin-refresh-btn" onClick={loadData} disabled={loading}>
             {loading ? 'Refreshing…' : 'Refresh'}
@@ -419,6 +1053,18 @@ export default function AdminDashboard() {
           Conversations &amp; Messages
           <span className="admin-tab-count">{conversations.length}</span>
         </button>
+        <button
+          className={`admin-tab-btn ${tab === 'usage' ? 'active' : ''}`}
+          onClick={() => setTab('usage')}
+        >
+          Usage &amp; Cost
+        </button>
+        <button
+          className={`admin-tab-btn ${tab === 'models' ? 'active' : ''}`}
+          onClick={() => setTab('models')}
+        >
+          Models
+        </button>
       </div>
 
       {loadError && <p className="admin-create-error" style={{ margin: '8px 0' }}>{loadError}</p>}
@@ -426,8 +1072,12 @@ export default function AdminDashboard() {
         <div className="admin-loading">Loading data…</div>
       ) : tab === 'researchers' ? (
         <ResearchersTab users={users} onUsersChange={setUsers} />
-      ) : (
+      ) : tab === 'conversations' ? (
         <ConversationsTab conversations={conversations} />
+      ) : tab === 'usage' ? (
+        <UsageTab />
+      ) : (
+        <ModelsTab />
       )}
     </div>
   );
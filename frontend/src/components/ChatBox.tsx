@@ -1,26 +1,31 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import './ChatBox.css';
-import { chatAPI, type Message, type Conversation } from '../services/api';
+import {
+  chatAPI,
+  type ChatResult,
+  type ChatTarget,
+  type Completion,
+  type ConversationEvent,
+  type Message,
+  type ParticipantTask,
+  type ParticipantTaskSettings,
+  type TypingTelemetry
+} from '../services/api';
+import { useLiveEvents } from '../hooks/useLiveEvents';
+import { useTypingTelemetry } from '../hooks/useTypingTelemetry';
 import { v4 as uuidv4 } from 'uuid';
 
-interface AISettings {
-  systemPrompt: string;
-  taskPrompt: string;
-  defaultModel?: string;
-  chatbotName?: string;
-}
-
-interface Task {
-  id: string;
-  name: string;
-  settings: AISettings;
-}
-
 interface ChatBoxProps {
-  tasks: Task[];
-  onSaveConversation: (conversation: Conversation) => void;
+  tasks: ParticipantTask[];
   studyId: string;
+  // Participant and the task the server assigned them (see studiesAPI.join)
+  assignedTaskId: string;
+  participantId: string;
+  // Study page query string (recruitment-platform parameters)
+  urlParams: Record<string, string>;
+  // Called once the conversation is over (the study page shows the post-chat questionnaire or redirects)
+  onComplete: (conversationId: string, completion: Completion) => void;
 }
 
 // Extracted so ChatBox can render it after hooks (avoids hook-before-return violation)
@@ -68,29 +73,50 @@ const NoTasksView: React.FC = () => (
   </div>
 );
 
-const ChatBox: React.FC<ChatBoxProps> = ({ tasks, onSaveConversation, studyId }) => {
-  // Load or initialize conversation from localStorage
-  const [selectedModel] = useState(() => {
+// Remaining time as m:ss
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const ChatBox: React.FC<ChatBoxProps> = ({ tasks, studyId, assignedTaskId, participantId, urlParams, onComplete }) => {
+  // The assigned task (the backend only needs its ID)
+  const activeTask = tasks.find(t => t.id === assignedTaskId) || tasks[0];
+
+  // The chat saved in localStorage, if it was started by this participant under the assigned
+  // task (e.g. a shared lab computer keeps one saved chat per study, whoever used it last;
+  // chats saved before assignment moved server-side only have the task name)
+  const readSavedChat = () => {
     const savedChat = localStorage.getItem(`currentChat_${studyId}`);
-    if (savedChat) {
-      try {
-        const parsed = JSON.parse(savedChat);
-        return parsed.aiModel;
-      } catch (error) {
-        console.error('Error parsing saved chat:', error);
+    if (!savedChat || !activeTask) return null;
+    try {
+      const parsed = JSON.parse(savedChat);
+      const sameTask = parsed.taskId ? parsed.taskId === activeTask.id : parsed.aiModel?.name === activeTask.name;
+      if (!sameTask || (parsed.participantId && parsed.participantId !== participantId)) {
+        console.log('🔀 Saved chat belongs to a different task or participant - starting a new conversation');
+        return null;
       }
+      return parsed;
+    } catch (error) {
+      console.error('⚠️ Error parsing saved chat:', error);
+      return null;
     }
-    // Randomly select a task for first-time users
-    if (tasks.length > 0) {
-      const randomIndex = Math.floor(Math.random() * tasks.length);
-      const randomTask = tasks[randomIndex];
-      console.log(`🎲 First visit - randomly selected task: ${randomTask.name} (${randomIndex + 1}/${tasks.length})`);
+  };
+
+  // Load or initialize conversation from localStorage
+  const [selectedModel] = useState(() => {
+    const parsed = readSavedChat();
+    if (parsed) {
+      return parsed.aiModel;
+    }
+    if (activeTask) {
+      console.log(`🎲 Assigned task: ${activeTask.name}`);
 
       // Task Prompt is displayed as the initial greeting message to the user
       // System Prompt is sent to the AI backend to control HOW it responds
       return {
-        name: randomTask.name,
-        greeting: randomTask.settings.taskPrompt || `Hello! You are chatting with ${randomTask.name}. How can I help you today?`,
+        name: activeTask.name,
+        greeting: activeTask.settings.taskPrompt || `Hello! You are chatting with ${activeTask.name}. How can I help you today?`,
         personality: 'AI Assistant',
         icon: '🤖'
       };
@@ -115,15 +141,18 @@ const ChatBox: React.FC<ChatBoxProps> = ({ tasks, onSaveConversation, studyId })
 
   const [inputText, setInputText] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  // True from send until the reply stream finishes (typing indicator hides at the first chunk)
+  const [isResponding, setIsResponding] = useState(false);
+  // Wizard-of-Oz mode: the participant's message is waiting for the researcher's reply
+  const [awaitingReply, setAwaitingReply] = useState(false);
+  // Set once the participant finishes; replaces the input with the completion code
+  const [completion, setCompletion] = useState<Completion | null>(() => readSavedChat()?.completion ?? null);
+  const [isFinishing, setIsFinishing] = useState(false);
+  // Ticks every second while a time limit is running
+  const [now, setNow] = useState(() => Date.now());
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
-  // Get settings for the selected model
-  const currentTask = tasks.find(t => t.name === selectedModel.name);
-  const currentSettings = currentTask?.settings || tasks[0]?.settings || {
-    systemPrompt: 'You are a helpful AI assistant.',
-    taskPrompt: '',
-    defaultModel: 'gpt-4o-2024-11-20'
-  };
+  const currentSettings: ParticipantTaskSettings = activeTask?.settings || { taskPrompt: '' };
 
   // Get current greeting from task prompt
   const currentGreeting = currentSettings.taskPrompt || `Hello! You are chatting with ${selectedModel.name}. How can I help you today?`;
@@ -134,11 +163,9 @@ const ChatBox: React.FC<ChatBoxProps> = ({ tasks, onSaveConversation, studyId })
       console.log('📡 Loading conversation...');
       
       // Try loading from localStorage only
-      const savedChat = localStorage.getItem(`currentChat_${studyId}`);
-      if (savedChat) {
+      const parsed = readSavedChat();
+      if (parsed) {
         try {
-          const parsed = JSON.parse(savedChat);
-          
           // Set conversation ID and creation time if they exist
           if (parsed.id) {
             setConversationId(parsed.id);
@@ -165,6 +192,10 @@ const ChatBox: React.FC<ChatBoxProps> = ({ tasks, onSaveConversation, studyId })
           );
           
           setMessages(sortedMessages);
+          // Reloaded while a researcher had yet to reply
+          if (activeTask.settings.wizardMode && sortedMessages[sortedMessages.length - 1]?.sender === 'user') {
+            setAwaitingReply(true);
+          }
           setIsLoadingMessages(false);
           return;
         } catch (error) {
@@ -218,6 +249,8 @@ const ChatBox: React.FC<ChatBoxProps> = ({ tasks, onSaveConversation, studyId })
     if (conversationId && messages.length > 0 && tasks.length > 0) {
       const conversation = {
         id: conversationId,
+        taskId: activeTask?.id,
+        participantId,
         title: `Chat with ${selectedModel.name}`,
         aiModel: {
           ...selectedModel,
@@ -225,73 +258,61 @@ const ChatBox: React.FC<ChatBoxProps> = ({ tasks, onSaveConversation, studyId })
         },
         messages: messages,
         createdAt: conversationCreatedAt, // Use fixed creation time
-        lastMessageAt: messages[messages.length - 1].timestamp
+        lastMessageAt: messages[messages.length - 1].timestamp,
+        completion
       };
       localStorage.setItem(`currentChat_${studyId}`, JSON.stringify(conversation));
     }
-  }, [messages, conversationId, selectedModel, currentGreeting]);
+  }, [messages, conversationId, selectedModel, currentGreeting, completion]);
 
-  // Save conversation to history whenever messages change (debounced)
+  // Typing telemetry sent with each message; time to the first keystroke counts from
+  // when the greeting or the latest reply is on screen and the input is usable again
+  const typing = useTypingTelemetry();
+  const { markReplyShown } = typing;
   useEffect(() => {
-    // Only save if there are actual messages beyond the greeting AND conversation ID is set
-    if (messages.length > 1 && conversationId) {
-      // Debounce saving to prevent excessive API calls
-      const timeoutId = setTimeout(() => {
-        const conversation: Conversation = {
-          id: conversationId,
-          title: `Chat with ${selectedModel.name}`,
-          aiModel: {
-            ...selectedModel,
-            greeting: currentGreeting // Always save current greeting
-          },
-          messages: messages,
-          createdAt: conversationCreatedAt, // Use fixed creation time (never changes)
-          lastMessageAt: new Date(messages[messages.length - 1].timestamp) // Updates with each message
-        };
-        console.log(`💾 Saving conversation ${conversationId} (created: ${conversationCreatedAt.toLocaleString()}) with ${messages.length} messages`);
-        onSaveConversation(conversation);
-      }, 1000); // Wait 1 second after last change before saving
-
-      // Cleanup timeout on unmount or when dependencies change
-      return () => clearTimeout(timeoutId);
+    if (!isLoadingMessages && !isResponding && !awaitingReply) {
+      markReplyShown();
     }
-  }, [messages, conversationId, selectedModel.name, currentGreeting]); // Removed onSaveConversation from dependencies
-
-  const getAIResponse = async (userMessage: string): Promise<Message | null> => {
-    // Convert AI model to backend format
-    const aiModel = {
-      id: selectedModel.name.toLowerCase().replace(' ', ''),
-      name: selectedModel.name,
-      greeting: currentGreeting,
-      description: selectedModel.personality
-    };
-
-    // Convert settings to backend format (simplified)
-    const settings = {
-      systemPrompt: currentSettings.systemPrompt,
-      taskPrompt: currentSettings.taskPrompt || '',
-      defaultModel: currentSettings.defaultModel || 'gpt-4o-2024-11-20'
-    };
-
-    // Call backend API with message history for context
-    const result = await chatAPI.sendMessage(
+  }, [isLoadingMessages, isResponding, awaitingReply, markReplyShown]);
+
+  // Abort an in-flight stream when the participant leaves the page
+  const streamAbortRef = useRef<AbortController | null>(null);
+  useEffect(() => () => streamAbortRef.current?.abort(), []);
+
+  const chatTarget = useCallback((): ChatTarget => ({
+    taskId: activeTask.id,
+    participantId: participantId || undefined,
+    urlParams
+  }), [activeTask, participantId, urlParams]);
+
+  const getAIResponse = async (
+    userMessage: string,
+    telemetry: TypingTelemetry,
+    onChunk: (chunk: string) => void
+  ): Promise<ChatResult | null> => {
+    if (!activeTask) return null;
+
+    streamAbortRef.current = new AbortController();
+
+    // Stream the reply; the backend applies the task's prompt and model, rebuilds the
+    // history from its own copy of the conversation and saves both turns
+    const result = await chatAPI.streamMessage(
       userMessage,
       conversationId,
-      aiModel,
-      settings,
-      messages // Send full message history
+      chatTarget(),
+      onChunk,
+      streamAbortRef.current.signal,
+      telemetry
     );
 
-    if (result.success && result.response) {
-      return result.response;
-    } else {
+    if (!result.success || !result.response) {
       console.error('Failed to get AI response:', result.error);
-      return null;
     }
+    return result;
   };
 
   const handleSendMessage = async () => {
-    if (!inputText.trim()) return;
+    if (!inputText.trim() || isResponding || awaitingReply || outOfTurns || isFinishing) return;
 
     const userMessage: Message = {
       id: uuidv4(),
@@ -300,30 +321,143 @@ const ChatBox: React.FC<ChatBoxProps> = ({ tasks, onSaveConversation, studyId })
       timestamp: new Date()
     };
 
+    const telemetry = typing.take();
     setMessages(prev => [...prev, userMessage]);
     setInputText('');
     setIsTyping(true);
+    setIsResponding(true);
+
+    // Placeholder bubble that fills in as chunks arrive; the typing indicator
+    // stays up until the first token so the participant sees real model latency.
+    const streamingId = uuidv4();
+    let streamedText = '';
+    const handleChunk = (chunk: string) => {
+      const isFirstChunk = streamedText === '';
+      streamedText += chunk;
+      if (isFirstChunk) {
+        setIsTyping(false);
+        setMessages(prev => [...prev, { id: streamingId, text: streamedText, sender: 'ai', timestamp: new Date() }]);
+      } else {
+        setMessages(prev => prev.map(m => (m.id === streamingId ? { ...m, text: streamedText } : m)));
+      }
+    };
 
+    let endConversation = false;
     try {
-      const aiMessage = await getAIResponse(userMessage.text);
-      
-      if (aiMessage) {
-        setMessages(prev => [...prev, aiMessage]);
-      } else {
-        // Fallback error message
+      const result = await getAIResponse(userMessage.text, telemetry, handleChunk);
+      const aiMessage = result?.success ? result.response : undefined;
+
+      if (result?.pending) {
+        // A researcher is writing the reply; it arrives on the conversation's events
+        setAwaitingReply(true);
+      } else if (aiMessage) {
+        // Swap the placeholder for the final message (server ID and timestamp)
+        setMessages(prev =>
+          prev.some(m => m.id === streamingId)
+            ? prev.map(m => (m.id === streamingId ? aiMessage : m))
+            : [...prev, aiMessage]
+        );
+      } else if (!streamedText) {
+        // Fallback error message; refusals with a code (used-up study budget, rate limit,
+        // expired study session) come with their own notice
         const errorMessage: Message = {
           id: uuidv4(),
-          text: 'Sorry, I could not connect to the AI service. Please check your connection or contact the site administrator.',
+          text: result?.code && result.error
+            ? result.error
+            : 'Sorry, I could not connect to the AI service. Please check your connection or contact the site administrator.',
           sender: 'ai',
           timestamp: new Date()
         };
         setMessages(prev => [...prev, errorMessage]);
       }
+
+      // The turn used up the task's messages or time, or the AI ended the conversation
+      if (result?.conversationEnded) {
+        console.log(`🏁 Conversation ended: ${result.conversationEnded}`);
+        endConversation = true;
+      }
     } catch (error) {
       console.error('Error getting AI response:', error);
     } finally {
+      streamAbortRef.current = null;
       setIsTyping(false);
+      setIsResponding(false);
+    }
+
+    if (endConversation) {
+      await completeConversation();
+    }
+  };
+
+  // Wizard-of-Oz mode: listen for the researcher's reply, reconnecting if the connection drops
+  const handleConversationEvent = (event: ConversationEvent) => {
+    if (event.type !== 'reply') return;
+    setMessages(prev => (prev.some(m => m.id === event.message.id) ? prev : [...prev, event.message]));
+    setAwaitingReply(false);
+    if (event.conversationEnded) {
+      console.log(`🏁 Conversation ended: ${event.conversationEnded}`);
+      completeConversation();
+    }
+  };
+  useLiveEvents<ConversationEvent>(
+    awaitingReply && !completion && conversationId ? conversationId : null,
+    (onEvent, signal) => chatAPI.subscribe(conversationId!, onEvent, signal),
+    handleConversationEvent
+  );
+
+  // The conversation only exists on the server once the participant has sent a message
+  const userTurns = messages.filter(m => m.sender === 'user').length;
+  const hasUserMessage = userTurns > 0;
+
+  // Task completion rules (the backend enforces the same rules)
+  const minUserTurns = currentSettings.minUserTurns ?? 0;
+  const maxUserTurns = currentSettings.maxUserTurns ?? null;
+  const allowFinish = currentSettings.allowParticipantFinish !== false;
+  const turnsNeeded = Math.max(0, minUserTurns - userTurns);
+  const outOfTurns = maxUserTurns !== null && userTurns >= maxUserTurns;
+
+  // The time limit runs from the participant's first message
+  const firstUserMessage = messages.find(m => m.sender === 'user');
+  const deadline = currentSettings.timeLimitMinutes && firstUserMessage
+    ? firstUserMessage.timestamp.getTime() + currentSettings.timeLimitMinutes * 60_000
+    : null;
+  const timeLeft = deadline !== null ? deadline - now : null;
+
+  useEffect(() => {
+    if (deadline === null || completion) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [deadline, completion]);
+
+  // Fetch the completion for a conversation that is over
+  const completeConversation = useCallback(async () => {
+    setIsFinishing(true);
+    const result = await chatAPI.finish(conversationId, chatTarget());
+    setIsFinishing(false);
+
+    if (!result.success || !result.completion) {
+      alert(result.error || 'Could not finish the conversation. Please try again.');
+      return;
     }
+
+    setCompletion(result.completion);
+    onComplete(conversationId, result.completion);
+  }, [conversationId, chatTarget, onComplete]);
+
+  // Time's up: end the conversation once any reply in progress has arrived
+  const timeUpHandledRef = useRef(false);
+  useEffect(() => {
+    if (timeLeft === null || timeLeft > 0 || completion || isResponding || timeUpHandledRef.current) return;
+    timeUpHandledRef.current = true;
+    console.log('⏰ Time limit reached');
+    completeConversation();
+  }, [timeLeft, completion, isResponding, completeConversation]);
+
+  const handleFinish = async () => {
+    if (!hasUserMessage || turnsNeeded > 0 || isResponding || isFinishing) return;
+    if (!window.confirm("Are you sure you're done? You won't be able to send more messages.")) return;
+
+    await completeConversation();
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -345,6 +479,22 @@ const ChatBox: React.FC<ChatBoxProps> = ({ tasks, onSaveConversation, studyId })
         <div className="chat-title">
           <h3>{currentSettings.chatbotName || 'AI Companion'}</h3>
         </div>
+        {!completion && timeLeft !== null && (
+          <span className={`chat-timer${timeLeft < 60_000 ? ' ending' : ''}`} title="Time left">
+            ⏱ {formatRemaining(timeLeft)}
+          </span>
+        )}
+        {!completion && allowFinish && (
+          <button
+            type="button"
+            onClick={handleFinish}
+            disabled={!hasUserMessage || turnsNeeded > 0 || isResponding || isFinishing}
+            className="finish-button"
+            title={turnsNeeded > 0 ? `Send ${turnsNeeded} more message${turnsNeeded === 1 ? '' : 's'} to finish` : 'End the conversation'}
+          >
+            {isFinishing ? 'Finishing...' : 'Finish'}
+          </button>
+        )}
       </div>
       
       
@@ -379,7 +529,7 @@ const ChatBox: React.FC<ChatBoxProps> = ({ tasks, onSaveConversation, studyId })
               );
             })}
         
-            {isTyping && (
+            {(isTyping || awaitingReply) && currentSettings.showTypingIndicator !== false && (
               <div className="message ai">
                 <div className="message-content">
                   <div className="typing-indicator">
@@ -396,26 +546,50 @@ const ChatBox: React.FC<ChatBoxProps> = ({ tasks, onSaveConversation, studyId })
         )}
       </div>
       
-      <div className="chat-input">
-        <div className="input-container">
-          <input
-            type="text"
-            value={inputText}
-            onChange={(e) => setInputText(e.target.value)}
-            onKeyPress={handleKeyPress}
-            placeholder="Type your message here..."
-            className="message-input"
-          />
-          <button 
-            onClick={handleSendMessage}
-            disabled={!inputText.trim() || isTyping}
-            className="send-button"
-            title="Send message"
-          >
-            ➤
-          </button>
+      {completion ? (
+        <div className="chat-completion">
+          <p>✅ Thank you! You have finished this conversation.</p>
+          {completion.code && (
+            <p>
+              Your completion code: <strong className="completion-code">{completion.code}</strong>
+            </p>
+          )}
+          {completion.redirectUrl && (
+            <p>
+              If you are not redirected automatically, <a href={completion.redirectUrl}>click here to continue</a>.
+            </p>
+          )}
         </div>
-      </div>
+      ) : (
+        <div className="chat-input">
+          <div className="input-container">
+            <input
+              type="text"
+              value={inputText}
+              onChange={(e) => setInputText(e.target.value)}
+              onKeyPress={handleKeyPress}
+              onKeyDown={typing.handleKeyDown}
+              onPaste={typing.handlePaste}
+              placeholder={outOfTurns ? 'You have used all your messages' : 'Type your message here...'}
+              className="message-input"
+              disabled={outOfTurns || isFinishing}
+            />
+            <button 
+              onClick={handleSendMessage}
+              disabled={!inputText.trim() || isResponding || awaitingReply || outOfTurns || isFinishing}
+              className="send-button"
+              title="Send message"
+            >
+              ➤
+            </button>
+          </div>
+          {allowFinish && turnsNeeded > 0 && hasUserMessage && (
+            <p className="chat-input-hint">
+              Send {turnsNeeded} more message{turnsNeeded === 1 ? '' : 's'} before you can finish.
+            </p>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import './Questionnaire.css';
+import Markdown from './Markdown';
+import type { ConsentDocument } from '../services/api';
+
+interface ConsentFormProps {
+  document: ConsentDocument;
+  // Resolves with an error message to show, or null once consent is recorded
+  onAgree: () => Promise<string | null>;
+  onDecline: () => void;
+}
+
+/**
+ * Informed consent step on the study page; the chat stays closed until the participant agrees
+ */
+const ConsentForm: React.FC<ConsentFormProps> = ({ document, onAgree, onDecline }) => {
+  const [hasRead, setHasRead] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleAgree = async () => {
+    setError(null);
+    setIsSubmitting(true);
+    const agreeError = await onAgree();
+    setIsSubmitting(false);
+    if (agreeError) {
+      setError(agreeError);
+    }
+  };
+
+  return (
+    <div className="questionnaire consent-form">
+      <h2>{document.title}</h2>
+      <Markdown source={document.body} className="consent-body" />
+      <p className="consent-version">Version {document.version}</p>
+
+      <label className="consent-confirm">
+        <input type="checkbox" checked={hasRead} onChange={(e) => setHasRead(e.target.checked)} />
+        I have read the information above and agree to take part in this study.
+      </label>
+
+      {error && <p className="questionnaire-error">{error}</p>}
+
+      <div className="consent-actions">
+        <button
+          type="button"
+          className="questionnaire-submit"
+          onClick={handleAgree}
+          disabled={!hasRead || isSubmitting}
+        >
+          {isSubmitting ? 'Saving...' : 'I agree'}
+        </button>
+        <button type="button" className="consent-decline" onClick={onDecline} disabled={isSubmitting}>
+          I do not agree
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ConsentForm;
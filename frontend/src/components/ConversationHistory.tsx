@@ -1,6 +1,7 @@
-import React, { useState, useRef } from 'react';
-import { type Conversation, conversationsAPI, authService } from '../services/api';
+import React, { useState, useRef, useEffect } from 'react';
+import { type Conversation, type LiveEvent, type QuestionnairePhase, conversationsAPI, authService } from '../services/api';
 import { getDeviceId } from '../utils/deviceId';
+import { useLiveEvents, isLiveNow } from '../hooks/useLiveEvents';
 import './ConversationHistory.css';
 
 interface ConversationHistoryProps {
@@ -21,9 +22,76 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
   const [, setIsLoadingMessages] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [isSelectionMode, setIsSelectionMode] = useState(false);
+  // Keep only each participant's first conversation
+  const [excludeRepeats, setExcludeRepeats] = useState(false);
 
   // NO auto-load - only manual reload to prevent infinite loops
 
+  // Live updates are applied to the latest list, even before the parent re-renders
+  const conversationsRef = useRef(conversations);
+  conversationsRef.current = conversations;
+  // Ticks every 30 seconds so "live now" badges expire
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 30_000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const updateConversations = (update: (conversations: Conversation[]) => Conversation[]) => {
+    const next = update(conversationsRef.current);
+    conversationsRef.current = next;
+    onConversationsLoaded(next);
+  };
+
+  const handleLiveEvent = (event: LiveEvent) => {
+    if (event.type === 'conversation-created') {
+      const { conversation } = event;
+      updateConversations(prev => prev.some(c => c.id === conversation.id) ? prev : [
+        {
+          id: conversation.id,
+          title: conversation.title,
+          aiModel: { name: conversation.taskName ?? conversation.title, icon: '🤖', greeting: '' },
+          messages: [],
+          messageCount: 0,
+          createdAt: conversation.createdAt,
+          lastMessageAt: conversation.lastMessageAt,
+          taskId: conversation.taskId ?? undefined,
+          modelId: conversation.modelId ?? undefined,
+          participantId: conversation.participantId ?? undefined
+        },
+        ...prev
+      ]);
+      return;
+    }
+
+    if (event.type === 'message-added') {
+      const { message } = event;
+      // The list keeps only a preview (the last message); the open transcript gets the whole turn
+      updateConversations(prev => prev.map(c => c.id !== event.conversationId ? c : {
+        ...c,
+        messages: [message],
+        messageCount: (c.messageCount ?? c.messages.length) + 1,
+        lastMessageAt: message.timestamp
+      }));
+      setSelectedConversation(prev => prev?.id !== event.conversationId || prev.messages.some(m => m.id === message.id)
+        ? prev
+        : { ...prev, messages: [...prev.messages, message], lastMessageAt: message.timestamp });
+      return;
+    }
+
+    const ended = { finishedAt: event.finishedAt, endReason: event.endReason };
+    updateConversations(prev => prev.map(c => c.id === event.conversationId ? { ...c, ...ended } : c));
+    setSelectedConversation(prev => prev?.id === event.conversationId ? { ...prev, ...ended } : prev);
+  };
+
+  // Researchers follow their conversations live (participants' devices have no channel)
+  const isLive = useLiveEvents<LiveEvent>(
+    authService.getUserId(),
+    (onEvent, signal) => conversationsAPI.subscribe(authService.getUserId()!, onEvent, signal),
+    handleLiveEvent
+  );
+
   const loadFromDatabase = async () => {
     if (isLoadingRef.current) {
       console.log('⏸️ Already loading, skipping...');
@@ -99,9 +167,41 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
       'title',
       'model_name',
       'model_personality',
+      'task_id',
+      'model_id',
+      'system_prompt',
+      'task_prompt',
+      'participant_id',
+      'participant_external_id',
+      'url_params',
+      'finished_at',
+      'end_reason',
+      'pre_questionnaire',
+      'post_questionnaire',
       'sender',
       'timestamp',
-      'text'
+      'text',
+      'message_model_id',
+      'message_system_prompt',
+      'message_author',
+      'message_model_draft',
+      'message_generation_ms',
+      'message_delay_ms',
+      'message_context_policy',
+      'message_context',
+      'message_typing_started_at',
+      'message_first_keystroke_ms',
+      'message_compose_ms',
+      'message_keystrokes',
+      'message_deletions',
+      'message_pastes',
+      'message_pasted_chars',
+      'message_blurs',
+      'message_hidden_ms',
+      'message_first_token_ms',
+      'message_prompt_tokens',
+      'message_completion_tokens',
+      'message_total_tokens'
     ];
 
     const rows: string[] = [];
@@ -109,6 +209,14 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
 
     rows.push(header.map(escape).join(','));
 
+    // Questionnaire answers as JSON, one column per phase
+    const questionnaireJson = (conv: Conversation, phase: QuestionnairePhase) => {
+      const answers = (conv.questionnaire ?? []).filter(a => a.phase === phase);
+      return answers.length > 0
+        ? JSON.stringify(answers.map(a => ({ item_id: a.itemId, prompt: a.prompt, answer: a.answer })))
+        : '';
+    };
+
     convs.forEach(conv => {
       const modelName = conv.aiModel?.name || '';
       const modelPersonality = conv.aiModel?.personality || '';
@@ -125,9 +233,41 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
           conv.title,
           modelName,
           modelPersonality,
+          conv.taskId,
+          conv.modelId,
+          conv.systemPrompt,
+          conv.taskPrompt,
+          conv.participantId,
+          conv.participantExternalId,
+          conv.urlParams ? JSON.stringify(conv.urlParams) : '',
+          conv.finishedAt ? conv.finishedAt.toISOString() : '',
+          conv.endReason ?? '',
+          questionnaireJson(conv, 'pre'),
+          questionnaireJson(conv, 'post'),
           msg.sender,
           (msg.timestamp instanceof Date ? msg.timestamp : new Date(msg.timestamp)).toISOString(),
-          text
+          text,
+          msg.modelId,
+          msg.systemPrompt,
+          msg.author,
+          msg.modelDraft,
+          msg.generationMs,
+          msg.delayMs,
+          msg.contextPolicy,
+          msg.context ? JSON.stringify(msg.context) : '',
+          msg.telemetry?.typingStartedAt,
+          msg.telemetry?.firstKeystrokeMs,
+          msg.telemetry?.composeMs,
+          msg.telemetry?.keystrokes,
+          msg.telemetry?.deletions,
+          msg.telemetry?.pastes,
+          msg.telemetry?.pastedChars,
+          msg.telemetry?.blurs,
+          msg.telemetry?.hiddenMs,
+          msg.telemetry?.firstTokenMs,
+          msg.telemetry?.promptTokens,
+          msg.telemetry?.completionTokens,
+          msg.telemetry?.totalTokens
         ].map(escape).join(','));
       });
     });
@@ -265,7 +405,29 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
     }
   };
 
+  // Earliest conversation of each participant (conversations from before participants
+  // were tracked have no participant and are always kept)
+  const firstConversationIds = new Set<string>();
+  if (excludeRepeats) {
+    const firstByParticipant = new Map<string, Conversation>();
+    conversations.forEach(conv => {
+      if (!conv.participantId) {
+        firstConversationIds.add(conv.id);
+        return;
+      }
+      const first = firstByParticipant.get(conv.participantId);
+      if (!first || conv.createdAt < first.createdAt) {
+        firstByParticipant.set(conv.participantId, conv);
+      }
+    });
+    firstByParticipant.forEach(conv => firstConversationIds.add(conv.id));
+  }
+
   const filteredConversations = conversations.filter(conv => {
+    if (excludeRepeats && !firstConversationIds.has(conv.id)) {
+      return false;
+    }
+
     const search = searchTerm.toLowerCase();
     
     // Search in title, task name, personality
@@ -276,13 +438,18 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
     
     // Search in conversation ID
     const matchesConvId = conv.id.toLowerCase().includes(search);
+
+    // Search by participant (internal or recruitment-platform ID)
+    const matchesParticipant =
+      (conv.participantId || '').toLowerCase().includes(search) ||
+      (conv.participantExternalId || '').toLowerCase().includes(search);
     
     // Search in message content
     const matchesMessages = conv.messages.some(msg => 
       msg.text.toLowerCase().includes(search)
     );
     
-    return matchesBasic || matchesConvId || matchesMessages;
+    return matchesBasic || matchesConvId || matchesParticipant || matchesMessages;
   });
 
   // Debug: Log what's being displayed
@@ -300,7 +467,17 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
   return (
     <div className="conversation-history">
       <div className="history-header">
-        <h2>Conversation History</h2>
+        <h2>
+          Conversation History
+          {authService.getUserId() && (
+            <span
+              className={`live-status ${isLive ? 'connected' : ''}`}
+              title={isLive ? 'New conversations and messages appear as they happen' : 'Reconnecting to live updates...'}
+            >
+              {isLive ? '● Live' : '○ Offline'}
+            </span>
+          )}
+        </h2>
         <div className="header-actions">
           {!isSelectionMode ? (
             <>
@@ -368,11 +545,19 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
       <div className="search-container">
         <input
           type="text"
-          placeholder="Search by title, task, message content, or conversation ID..."
+          placeholder="Search by title, task, message content, conversation or participant ID..."
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.target.value)}
           className="search-input"
         />
+        <label className="exclude-repeats-toggle" title="Show only each participant's first conversation">
+          <input
+            type="checkbox"
+            checked={excludeRepeats}
+            onChange={(e) => setExcludeRepeats(e.target.checked)}
+          />
+          Exclude repeat participants
+        </label>
       </div>
 
       <div className="conversations-list">
@@ -416,6 +601,22 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
                 <div className="conversation-info">
                   <span className="conversation-title">{conversation.title}</span>
                   <span className="conversation-task">{conversation.aiModel.name}</span>
+                  {isLiveNow(conversation.lastMessageAt, conversation.finishedAt, now) && (
+                    <span className="live-now-badge" title="A message was sent in the last few minutes">● Live now</span>
+                  )}
+                  {conversation.participantId && (
+                    <button
+                      type="button"
+                      className="conversation-participant"
+                      title="Show all conversations from this participant"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setSearchTerm(conversation.participantExternalId || conversation.participantId || '');
+                      }}
+                    >
+                      👤 {conversation.participantExternalId || conversation.participantId.slice(0, 8)}
+                    </button>
+                  )}
                 </div>
                 <div className="conversation-stats">
                   <span className="message-count">
@@ -459,6 +660,7 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
                   <h3>{selectedConversation.title}</h3>
                   <p className="modal-subtitle">
                     {selectedConversation.aiModel.name}
+                    {selectedConversation.modelId && ` · ${selectedConversation.modelId}`}
                   </p>
                 </div>
               </div>
@@ -479,6 +681,12 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
                 </button>
               </div>
             </div>
+            {selectedConversation.systemPrompt && (
+              <details className="modal-snapshot">
+                <summary>System prompt used in this conversation</summary>
+                <p>{selectedConversation.systemPrompt}</p>
+              </details>
+            )}
             <div className="modal-messages">
               {selectedConversation.messages.length === 0 ? (
                 <div className="no-messages">No messages in this conversation</div>
@@ -489,7 +697,11 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
                     className={`modal-message ${message.sender}`}
                   >
                     <div className="message-sender">
-                      {message.sender === 'user' ? '👤 You' : '🤖 AI'}
+                      {message.sender === 'user'
+                        ? '👤 You'
+                        : message.author === 'researcher'
+                          ? '🧙 Researcher (Wizard-of-Oz)'
+                          : message.author === 'script' ? '📜 Scripted' : '🤖 AI'}
                     </div>
                     <div className="message-text">{message.text}</div>
                     <div className="message-time">
@@ -497,6 +709,15 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
                         hour: '2-digit',
                         minute: '2-digit'
                       })}
+                      {message.contextPolicy && message.context &&
+                        ` · context: ${message.contextPolicy} (${message.context.length} messages sent)`}
+                      {message.generationMs !== undefined &&
+                        ` · ${(message.generationMs / 1000).toFixed(1)}s to generate`}
+                      {message.delayMs ? ` · +${(message.delayMs / 1000).toFixed(1)}s delay` : ''}
+                      {message.telemetry?.totalTokens != null && ` · ${message.telemetry.totalTokens} tokens`}
+                      {message.telemetry?.keystrokes != null &&
+                        ` · ${message.telemetry.keystrokes} keystrokes` +
+                        (message.telemetry.pastes ? `, ${message.telemetry.pastes} paste${message.telemetry.pastes === 1 ? '' : 's'}` : '')}
                     </div>
                   </div>
                 ))
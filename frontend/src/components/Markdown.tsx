@@ -0,0 +1,96 @@
+import React from 'react';
+
+/**
+ * Minimal markdown renderer for researcher-authored text (consent documents).
+ * Supports headings (#, ##, ###), paragraphs, bulleted and numbered lists, **bold**,
+ * *italic* / _italic_ and [links](https://...). Everything is rendered as React
+ * elements, never as raw HTML, so the text cannot inject markup.
+ */
+
+// Bold, italic, or a link to an http(s)/mailto URL
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|\*[^*\s][^*]*\*|_[^_\s][^_]*_|\[[^\]]+\]\((?:https?:\/\/|mailto:)[^)\s]+\))/g;
+
+const renderInline = (text: string): React.ReactNode[] =>
+  text.split(INLINE_PATTERN).map((part, index) => {
+    if (part.startsWith('**') && part.endsWith('**') && part.length > 4) {
+      return <strong key={index}>{part.slice(2, -2)}</strong>;
+    }
+    if ((part.startsWith('*') && part.endsWith('*')) || (part.startsWith('_') && part.endsWith('_'))) {
+      if (part.length > 2) return <em key={index}>{part.slice(1, -1)}</em>;
+    }
+    const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link) {
+      return <a key={index} href={link[2]} target="_blank" rel="noopener noreferrer">{link[1]}</a>;
+    }
+    return part;
+  });
+
+type Block =
+  | { kind: 'heading'; level: 1 | 2 | 3; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'list'; ordered: boolean; items: string[] };
+
+const parseBlocks = (source: string): Block[] => {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+
+  const endParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ kind: 'paragraph', text: paragraph.join(' ') });
+      paragraph = [];
+    }
+  };
+
+  for (const rawLine of source.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    const bullet = line.match(/^[-*]\s+(.*)$/);
+    const numbered = line.match(/^\d+[.)]\s+(.*)$/);
+
+    if (!line) {
+      endParagraph();
+    } else if (heading) {
+      endParagraph();
+      blocks.push({ kind: 'heading', level: heading[1].length as 1 | 2 | 3, text: heading[2] });
+    } else if (bullet || numbered) {
+      endParagraph();
+      const ordered = Boolean(numbered);
+      const text = (bullet ?? numbered)![1];
+      const last = blocks[blocks.length - 1];
+      if (last?.kind === 'list' && last.ordered === ordered) {
+        last.items.push(text);
+      } else {
+        blocks.push({ kind: 'list', ordered, items: [text] });
+      }
+    } else {
+      paragraph.push(line);
+    }
+  }
+  endParagraph();
+  return blocks;
+};
+
+const Markdown: React.FC<{ source: string; className?: string }> = ({ source, className }) => (
+  <div className={className}>
+    {parseBlocks(source).map((block, index) => {
+      switch (block.kind) {
+        case 'heading': {
+          const Heading = `h${block.level + 1}` as 'h2' | 'h3' | 'h4';
+          return <Heading key={index}>{renderInline(block.text)}</Heading>;
+        }
+        case 'list': {
+          const List = block.ordered ? 'ol' : 'ul';
+          return (
+            <List key={index}>
+              {block.items.map((item, i) => <li key={i}>{renderInline(item)}</li>)}
+            </List>
+          );
+        }
+        default:
+          return <p key={index}>{renderInline(block.text)}</p>;
+      }
+    })}
+  </div>
+);
+
+export default Markdown;
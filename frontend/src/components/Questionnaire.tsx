@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import './Questionnaire.css';
+import type { QuestionnaireItem } from '../services/api';
+
+interface QuestionnaireProps {
+  title: string;
+  intro?: string;
+  items: QuestionnaireItem[];
+  submitLabel: string;
+  // Resolves with an error message to show, or null once the answers are saved
+  onSubmit: (answers: Record<string, string>) => Promise<string | null>;
+}
+
+/**
+ * Pre- or post-chat questionnaire shown on the study page.
+ * Likert answers are the 1-based scale point; choice answers the option text.
+ */
+const Questionnaire: React.FC<QuestionnaireProps> = ({ title, intro, items, submitLabel, onSubmit }) => {
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const setAnswer = (itemId: string, value: string) => {
+    setAnswers(prev => ({ ...prev, [itemId]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const missing = items.find(item => item.required && !answers[item.id!]?.trim());
+    if (missing) {
+      setError(`Please answer: ${missing.prompt}`);
+      return;
+    }
+
+    setError(null);
+    setIsSubmitting(true);
+    const submitError = await onSubmit(answers);
+    setIsSubmitting(false);
+    if (submitError) {
+      setError(submitError);
+    }
+  };
+
+  return (
+    <form className="questionnaire" onSubmit={handleSubmit}>
+      <h2>{title}</h2>
+      {intro && <p className="questionnaire-intro">{intro}</p>}
+
+      {items.map((item, index) => {
+        const itemId = item.id!;
+        return (
+          <fieldset key={itemId} className="questionnaire-item">
+            <legend>
+              {index + 1}. {item.prompt}
+              {item.required && <span className="questionnaire-required" title="Required"> *</span>}
+            </legend>
+
+            {item.type === 'likert' && (
+              <div className="likert-scale">
+                {item.options.map((label, point) => (
+                  <label key={point} className="likert-point">
+                    <input
+                      type="radio"
+                      name={itemId}
+                      value={String(point + 1)}
+                      checked={answers[itemId] === String(point + 1)}
+                      onChange={(e) => setAnswer(itemId, e.target.value)}
+                    />
+                    <span>{label}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {item.type === 'choice' && (
+              <div className="choice-options">
+                {item.options.map(option => (
+                  <label key={option} className="choice-option">
+                    <input
+                      type="radio"
+                      name={itemId}
+                      value={option}
+                      checked={answers[itemId] === option}
+                      onChange={(e) => setAnswer(itemId, e.target.value)}
+                    />
+                    <span>{option}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {item.type === 'text' && (
+              <textarea
+                value={answers[itemId] ?? ''}
+                onChange={(e) => setAnswer(itemId, e.target.value)}
+                maxLength={5000}
+                rows={4}
+                className="questionnaire-text"
+              />
+            )}
+          </fieldset>
+        );
+      })}
+
+      {error && <p className="questionnaire-error">{error}</p>}
+
+      <button type="submit" className="questionnaire-submit" disabled={isSubmitting}>
+        {isSubmitting ? 'Saving...' : submitLabel}
+      </button>
+    </form>
+  );
+};
+
+export default Questionnaire;
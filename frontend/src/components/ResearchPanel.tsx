@@ -1,5 +1,29 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { tasksAPI, authService, type Task } from '../services/api';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  tasksAPI,
+  studiesAPI,
+  questionnairesAPI,
+  authService,
+  type Task,
+  type AssignmentCell,
+  type StudySettings,
+  type ConsentVersion,
+  type QuestionnaireItem,
+  type QuestionnaireItemType,
+  type QuestionnairePhase,
+  type ResponseMode,
+  type ResponseScript,
+  type ScriptRule,
+  type LatencyMode,
+  type UsageReport,
+  type UsageRollup,
+  type BudgetStatus,
+  type ModelCandidate,
+  type ModelComparisonRow
+} from '../services/api';
+import Markdown from './Markdown';
+import WizardConsole from './WizardConsole';
 import './ResearchPanel.css';
 import './ResearchPanel_additions.css';
 
@@ -7,9 +31,940 @@ interface AISettings {
   systemPrompt: string;
   taskPrompt: string;
   defaultModel?: string;
+  candidateModels?: ModelCandidate[];
   chatbotName?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  contextPolicy?: string;
+  contextLastN?: number;
+  contextTokenBudget?: number;
+  contextSummaryModel?: string;
+  minUserTurns?: number;
+  maxUserTurns?: number | null;
+  timeLimitMinutes?: number | null;
+  endToken?: string | null;
+  allowParticipantFinish?: boolean;
+  responseMode?: ResponseMode;
+  responseScript?: ResponseScript;
+  latencyMode?: LatencyMode;
+  latencyFixedMs?: number;
+  latencyCharsPerSecond?: number;
+  latencyMinMs?: number;
+  latencyMaxMs?: number;
+  showTypingIndicator?: boolean;
 }
 
+// Mirrors the backend defaults for tasks that predate per-task generation and context settings
+const DEFAULT_MODEL_SETTINGS = {
+  temperature: 0.7,
+  maxTokens: 2000,
+  topP: 0.9,
+  presencePenalty: 0,
+  frequencyPenalty: 0,
+  contextPolicy: 'last_n',
+  contextLastN: 10,
+  contextTokenBudget: 4000,
+  latencyMode: 'none' as LatencyMode,
+  latencyFixedMs: 2000,
+  latencyCharsPerSecond: 30,
+  latencyMinMs: 1000,
+  latencyMaxMs: 4000
+};
+
+// Empty number inputs turn an optional limit off
+const optionalNumber = (input: HTMLInputElement) => (Number.isNaN(input.valueAsNumber) ? null : input.valueAsNumber);
+
+// Top P and the penalties are only sent to OpenAI models; other providers cap temperature at 1
+const isOpenAIModel = (modelId: string) => /^(gpt-|o1-|o3-|o4-)/.test(modelId.toLowerCase());
+
+const ASSIGNMENT_STRATEGY_LABELS: Record<StudySettings['assignmentStrategy'], string> = {
+  random: 'Simple random',
+  block: 'Block randomization',
+  least_filled: 'Least-filled cell',
+  weighted: 'Weighted random'
+};
+
+/**
+ * Condition assignment for the study: strategy, task weights and how many
+ * participants the server has assigned to each task so far
+ */
+const StudyAssignmentSection: React.FC<{ tasks: Task[] }> = ({ tasks }) => {
+  const [settings, setSettings] = useState<StudySettings | null>(null);
+  const [cells, setCells] = useState<AssignmentCell[]>([]);
+  const [weights, setWeights] = useState<Record<string, number>>({});
+
+  // Reload when tasks are added, renamed or removed
+  const taskKey = tasks.map(t => `${t.id}:${t.name}`).join('|');
+  useEffect(() => {
+    let cancelled = false;
+    studiesAPI.getSettings().then(result => {
+      if (cancelled || !result) return;
+      setSettings(result.settings);
+      setCells(result.cells);
+      setWeights(Object.fromEntries(result.cells.map(c => [c.taskId, c.weight])));
+    });
+    return () => { cancelled = true; };
+  }, [taskKey]);
+
+  if (!settings) return null;
+
+  const total = cells.reduce((sum, c) => sum + c.count, 0);
+
+  const handleSave = async () => {
+    try {
+      const result = await studiesAPI.updateSettings(
+        { assignmentStrategy: settings.assignmentStrategy, blockRepeats: settings.blockRepeats },
+        weights
+      );
+      setSettings(result.settings);
+      setCells(result.cells);
+      alert('Assignment settings updated successfully!');
+    } catch (error) {
+      alert(`Failed to update assignment settings: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="config-section assignment-section">
+      <h3 className="section-title">🎲 Condition Assignment</h3>
+      <div className="setting-group">
+        <label>Strategy</label>
+        <select
+          value={settings.assignmentStrategy}
+          onChange={(e) => setSettings({ ...settings, assignmentStrategy: e.target.value as StudySettings['assignmentStrategy'] })}
+          className="setting-select"
+        >
+          {Object.entries(ASSIGNMENT_STRATEGY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+      {settings.assignmentStrategy === 'block' && (
+        <div className="setting-group">
+          <label>Repeats per Block</label>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={settings.blockRepeats}
+            onChange={(e) => setSettings({ ...settings, blockRepeats: e.target.valueAsNumber })}
+            className="setting-select"
+          />
+        </div>
+      )}
+      <table className="assignment-table">
+        <thead>
+          <tr>
+            <th>Task</th>
+            {settings.assignmentStrategy === 'weighted' && <th>Weight</th>}
+            <th>Participants</th>
+          </tr>
+        </thead>
+        <tbody>
+          {cells.map(cell => (
+            <tr key={cell.taskId}>
+              <td>{cell.taskName}</td>
+              {settings.assignmentStrategy === 'weighted' && (
+                <td>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={weights[cell.taskId] ?? cell.weight}
+                    onChange={(e) => setWeights({ ...weights, [cell.taskId]: e.target.valueAsNumber })}
+                  />
+                </td>
+              )}
+              <td>{cell.count}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td>Total</td>
+            {settings.assignmentStrategy === 'weighted' && <td />}
+            <td>{total}</td>
+          </tr>
+        </tfoot>
+      </table>
+      <p className="generation-hint">
+        Each participant is assigned once, by device, the first time they open the study link.
+      </p>
+      <button type="button" className="btn-update-prompt" onClick={handleSave}>
+        💾 Update Assignment
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Recruitment-platform integration: URL parameters kept with each conversation and
+ * what participants get when they press Finish
+ */
+const StudyCompletionSection: React.FC = () => {
+  const [captureParamsDraft, setCaptureParamsDraft] = useState('');
+  const [completionCode, setCompletionCode] = useState('');
+  const [completionUrl, setCompletionUrl] = useState('');
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    studiesAPI.getSettings().then(result => {
+      if (cancelled || !result) return;
+      setCaptureParamsDraft(result.settings.captureParams.join(', '));
+      setCompletionCode(result.settings.completionCode ?? '');
+      setCompletionUrl(result.settings.completionUrl ?? '');
+      setIsLoaded(true);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  if (!isLoaded) return null;
+
+  const handleSave = async () => {
+    try {
+      await studiesAPI.updateSettings({
+        captureParams: captureParamsDraft.split(',').map(p => p.trim()).filter(Boolean),
+        completionCode: completionCode.trim() || null,
+        completionUrl: completionUrl.trim() || null
+      });
+      alert('Completion settings updated successfully!');
+    } catch (error) {
+      alert(`Failed to update completion settings: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="config-section completion-section">
+      <h3 className="section-title">🏁 Recruitment & Completion</h3>
+      <div className="setting-group">
+        <label>Captured URL Parameters</label>
+        <input
+          type="text"
+          value={captureParamsDraft}
+          onChange={(e) => setCaptureParamsDraft(e.target.value)}
+          className="setting-select"
+          placeholder="PROLIFIC_PID, STUDY_ID, SESSION_ID"
+        />
+      </div>
+      <div className="setting-group">
+        <label>Completion Code</label>
+        <input
+          type="text"
+          value={completionCode}
+          onChange={(e) => setCompletionCode(e.target.value)}
+          className="setting-select"
+          placeholder="Shown when the participant finishes"
+        />
+      </div>
+      <div className="setting-group">
+        <label>Return URL</label>
+        <input
+          type="text"
+          value={completionUrl}
+          onChange={(e) => setCompletionUrl(e.target.value)}
+          className="setting-select"
+          placeholder="https://app.prolific.com/submissions/complete?cc={completionCode}"
+        />
+      </div>
+      <p className="generation-hint">
+        Participants are redirected to the return URL when they finish, if set. Use {'{NAME}'} for any
+        captured parameter, or {'{participantId}'}, {'{conversationId}'} and {'{completionCode}'}.
+      </p>
+      <button type="button" className="btn-update-prompt" onClick={handleSave}>
+        💾 Update Completion
+      </button>
+    </div>
+  );
+};
+
+const USAGE_PERIODS = [7, 30, 90, 365];
+
+const UsageRows: React.FC<{ heading: string; rows: UsageRollup[] }> = ({ heading, rows }) => (
+  <table className="usage-table">
+    <thead>
+      <tr>
+        <th>{heading}</th>
+        <th>Calls</th>
+        <th>Tokens (in / out)</th>
+        <th>Cost</th>
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map(row => (
+        <tr key={row.key}>
+          <td>{row.label}</td>
+          <td>{row.calls}</td>
+          <td>{row.promptTokens.toLocaleString()} / {row.completionTokens.toLocaleString()}</td>
+          <td>${row.costUsd.toFixed(2)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+// e.g. "12,000 / 50,000 tokens · $3.10 / $20.00 this month"
+const describeBudget = (status: BudgetStatus): string => {
+  const { budget } = status;
+  const tokens = budget.monthlyTokenLimit === null
+    ? `${status.tokensUsed.toLocaleString()} tokens`
+    : `${status.tokensUsed.toLocaleString()} / ${budget.monthlyTokenLimit.toLocaleString()} tokens`;
+  const cost = budget.monthlyCostLimitUsd === null
+    ? `$${status.costUsd.toFixed(2)}`
+    : `$${status.costUsd.toFixed(2)} / $${budget.monthlyCostLimitUsd.toFixed(2)}`;
+  return `${tokens} · ${cost} this month`;
+};
+
+/**
+ * Banner shown once the group passes the admin's warning threshold, or has used up its
+ * monthly budget and its model tasks have stopped replying
+ */
+const StudyBudgetNotice: React.FC = () => {
+  const [status, setStatus] = useState<BudgetStatus | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    studiesAPI.getBudget().then(result => {
+      if (!cancelled) setStatus(result);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  if (!status || status.level === 'ok') return null;
+
+  return (
+    <div className={`budget-notice budget-notice-${status.level}`}>
+      {status.level === 'exceeded'
+        ? '⛔ Your monthly model budget is used up. Tasks answered by the model no longer reply to participants until next month or until the admin raises the budget.'
+        : '⚠️ Your group is close to its monthly model budget. Participants will stop getting replies from the model once it is used up.'}
+      <span className="budget-notice-detail">{describeBudget(status)}</span>
+    </div>
+  );
+};
+
+/**
+ * Model calls made for the researcher's tasks (replies, Wizard-of-Oz drafts, context
+ * summaries) and what they cost at the admin's model prices
+ */
+const StudyUsageSection: React.FC = () => {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    studiesAPI.getBudget().then(result => {
+      if (!cancelled) setBudget(result);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    studiesAPI.getUsage(days).then(result => {
+      if (!cancelled) setReport(result);
+    });
+    return () => { cancelled = true; };
+  }, [days]);
+
+  return (
+    <div className="config-section usage-section">
+      <h3 className="section-title">💲 Model Usage</h3>
+      {budget && (
+        <p className={`usage-budget budget-level-${budget.level}`}>
+          Budget: {describeBudget(budget)}
+          {budget.budget.conversationMessageCap !== null && (
+            <> · at most {budget.budget.conversationMessageCap} participant messages per conversation</>
+          )}
+        </p>
+      )}
+      <div className="setting-group">
+        <label>Period</label>
+        <select value={days} onChange={(e) => setDays(Number(e.target.value))} className="setting-select">
+          {USAGE_PERIODS.map(period => (
+            <option key={period} value={period}>Last {period} days</option>
+          ))}
+        </select>
+      </div>
+      {!report ? (
+        <p className="generation-hint">Usage could not be loaded.</p>
+      ) : report.totals.calls === 0 ? (
+        <p className="generation-hint">No model calls in this period.</p>
+      ) : (
+        <>
+          <p className="usage-total">
+            {report.totals.calls} calls · {(report.totals.promptTokens + report.totals.completionTokens).toLocaleString()} tokens ·
+            {' '}${report.totals.costUsd.toFixed(2)}
+          </p>
+          <UsageRows heading="Task" rows={report.byTask} />
+          <UsageRows heading="Day" rows={report.byDay} />
+          {report.totals.unpricedCalls > 0 && (
+            <p className="generation-hint">
+              {report.totals.unpricedCalls} calls used models without a price and are not included in the cost.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Informed consent document participants must agree to before the study; every
+ * published change is kept as a new version
+ */
+const StudyConsentSection: React.FC = () => {
+  const [versions, setVersions] = useState<ConsentVersion[]>([]);
+  const [title, setTitle] = useState('Informed Consent');
+  const [body, setBody] = useState('');
+  const [showPreview, setShowPreview] = useState(false);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    studiesAPI.getConsentVersions().then(result => {
+      if (cancelled || !result) return;
+      setVersions(result);
+      if (result[0]) {
+        setTitle(result[0].title);
+        setBody(result[0].body);
+      }
+      setIsLoaded(true);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  if (!isLoaded) return null;
+
+  const current = versions[0];
+  const isUnchanged = current ? current.title === title && current.body === body : !body.trim();
+
+  const handlePublish = async () => {
+    const message = current
+      ? `Publish this as version ${current.version + 1}? Participants who have not consented yet will see the new version.`
+      : 'Publish this consent document? Participants will have to agree to it before the study starts.';
+    if (!window.confirm(message)) return;
+
+    try {
+      setVersions(await studiesAPI.publishConsent(title, body));
+      alert('Consent document published successfully!');
+    } catch (error) {
+      alert(`Failed to publish consent document: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="config-section consent-section">
+      <h3 className="section-title">📜 Informed Consent</h3>
+      <div className="setting-group">
+        <label>Title</label>
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          className="setting-select"
+        />
+      </div>
+      <div className="setting-group">
+        <label>
+          Consent Text (Markdown)
+          <button type="button" className="consent-preview-toggle" onClick={() => setShowPreview(!showPreview)}>
+            {showPreview ? 'Edit' : 'Preview'}
+          </button>
+        </label>
+        {showPreview ? (
+          <Markdown source={body} className="consent-preview" />
+        ) : (
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            className="setting-select consent-editor"
+            rows={10}
+            placeholder={'# About this study\n\nDescribe the study, risks, data use and how to withdraw...'}
+          />
+        )}
+      </div>
+      <p className="generation-hint">
+        {current
+          ? `Version ${current.version} is live. Earlier consents stay valid when you publish a new version.`
+          : 'No consent document yet: participants go straight to the study.'}
+      </p>
+      <button type="button" className="btn-update-prompt" onClick={handlePublish} disabled={isUnchanged}>
+        📜 Publish {current ? 'New Version' : 'Consent Document'}
+      </button>
+      {versions.length > 0 && (
+        <table className="assignment-table">
+          <thead>
+            <tr>
+              <th>Version</th>
+              <th>Published</th>
+              <th>Consents</th>
+            </tr>
+          </thead>
+          <tbody>
+            {versions.map(v => (
+              <tr key={v.id}>
+                <td>v{v.version}</td>
+                <td>{new Date(v.createdAt).toLocaleDateString()}</td>
+                <td>{v.consentCount}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+const QUESTION_TYPE_LABELS: Record<QuestionnaireItemType, string> = {
+  likert: 'Likert scale',
+  choice: 'Multiple choice',
+  text: 'Free text'
+};
+
+const DEFAULT_LIKERT_LABELS = ['Strongly disagree', 'Disagree', 'Neutral', 'Agree', 'Strongly agree'];
+
+// Options are edited one per line; `key` identifies unsaved items in the list
+interface QuestionDraft {
+  key: string;
+  item: QuestionnaireItem;
+  optionsText: string;
+}
+
+const toDraft = (item: QuestionnaireItem): QuestionDraft => ({
+  key: item.id ?? uuidv4(),
+  item,
+  optionsText: item.options.join('\n')
+});
+
+/**
+ * Candidate models for an A/B comparison within the task; each new conversation is
+ * assigned one of them by weight, instead of the task's model
+ */
+const CandidateModelsEditor: React.FC<{
+  candidates: ModelCandidate[];
+  defaultModel: string;
+  onChange: (candidates: ModelCandidate[]) => void;
+}> = ({ candidates, defaultModel, onChange }) => {
+  const update = (index: number, change: Partial<ModelCandidate>) => {
+    onChange(candidates.map((c, i) => (i === index ? { ...c, ...change } : c)));
+  };
+
+  return (
+    <div className="setting-group">
+      <label>Compare Models (A/B)</label>
+      {candidates.length > 0 && (
+        <table className="candidate-table">
+          <thead>
+            <tr>
+              <th>Model ID</th>
+              <th>Weight</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {candidates.map((candidate, index) => (
+              <tr key={index}>
+                <td>
+                  <input
+                    type="text"
+                    value={candidate.modelId}
+                    onChange={(e) => update(index, { modelId: e.target.value })}
+                    placeholder="e.g. claude-sonnet-4-20250514"
+                  />
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={candidate.weight}
+                    onChange={(e) => update(index, { weight: Number.isNaN(e.target.valueAsNumber) ? 0 : e.target.valueAsNumber })}
+                  />
+                </td>
+                <td>
+                  <button
+                    type="button"
+                    className="task-delete-btn"
+                    onClick={() => onChange(candidates.filter((_, i) => i !== index))}
+                    title="Remove model"
+                  >
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <button
+        type="button"
+        className="btn-add-question"
+        onClick={() => onChange([
+          ...candidates,
+          { modelId: candidates.some(c => c.modelId === defaultModel) ? '' : defaultModel, weight: 1 }
+        ])}
+      >
+        + Add Model
+      </button>
+      <p className="generation-hint">
+        With models listed here, each new conversation is assigned one of them, with chance
+        proportional to its weight, and keeps it; the AI Model above is not used. Leave the list
+        empty to use a single model.
+      </p>
+    </div>
+  );
+};
+
+/**
+ * Per-model outcomes of the task's conversations under an A/B comparison
+ */
+const TaskModelComparisonSection: React.FC<{ taskId: string }> = ({ taskId }) => {
+  const [rows, setRows] = useState<ModelComparisonRow[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    tasksAPI.getModelComparison(taskId).then(result => {
+      if (!cancelled) setRows(result);
+    });
+    return () => { cancelled = true; };
+  }, [taskId]);
+
+  return (
+    <div className="config-section usage-section">
+      <h3 className="section-title">⚖️ Model Comparison</h3>
+      {!rows ? (
+        <p className="generation-hint">The comparison could not be loaded.</p>
+      ) : rows.length === 0 ? (
+        <p className="generation-hint">No conversations yet.</p>
+      ) : (
+        <table className="usage-table">
+          <thead>
+            <tr>
+              <th>Model</th>
+              <th>Conversations</th>
+              <th>Avg. messages</th>
+              <th>Avg. reply length</th>
+              <th>Avg. latency</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.modelId}>
+                <td>{row.modelId || '—'}</td>
+                <td>{row.conversations}</td>
+                <td>{row.avgUserTurns}</td>
+                <td>{row.avgReplyChars !== null ? `${row.avgReplyChars} chars` : '—'}</td>
+                <td>{row.avgLatencyMs !== null ? `${(row.avgLatencyMs / 1000).toFixed(1)}s` : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <p className="generation-hint">
+        Messages are the participant's per conversation. Reply length and latency cover model
+        replies only; latency is the time the model took, before any added delay.
+      </p>
+    </div>
+  );
+};
+
+/**
+ * Pre- and post-chat questionnaire for one task, shown to participants before the
+ * chat and after they finish
+ */
+const TaskQuestionnaireSection: React.FC<{ taskId: string }> = ({ taskId }) => {
+  const [drafts, setDrafts] = useState<QuestionDraft[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    questionnairesAPI.getItems(taskId).then(items => {
+      if (cancelled || !items) return;
+      setDrafts(items.map(toDraft));
+      setIsLoaded(true);
+    });
+    return () => { cancelled = true; };
+  }, [taskId]);
+
+  if (!isLoaded) return null;
+
+  const updateDraft = (key: string, change: Partial<QuestionnaireItem>, optionsText?: string) => {
+    setDrafts(prev => prev.map(d =>
+      d.key === key ? { ...d, item: { ...d.item, ...change }, optionsText: optionsText ?? d.optionsText } : d
+    ));
+  };
+
+  const addQuestion = (phase: QuestionnairePhase) => {
+    setDrafts(prev => [
+      ...prev,
+      toDraft({ phase, type: 'likert', prompt: '', options: DEFAULT_LIKERT_LABELS, required: true })
+    ]);
+  };
+
+  const removeQuestion = (key: string) => {
+    setDrafts(prev => prev.filter(d => d.key !== key));
+  };
+
+  // Swap with the previous/next question of the same phase
+  const moveQuestion = (key: string, direction: -1 | 1) => {
+    setDrafts(prev => {
+      const index = prev.findIndex(d => d.key === key);
+      const phase = prev[index].item.phase;
+      let target = index + direction;
+      while (target >= 0 && target < prev.length && prev[target].item.phase !== phase) target += direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      const items = drafts.map(d => ({
+        ...d.item,
+        options: d.item.type === 'text' ? [] : d.optionsText.split('\n').map(o => o.trim()).filter(Boolean)
+      }));
+      const saved = await questionnairesAPI.saveItems(taskId, items);
+      setDrafts(saved.map(toDraft));
+      alert('Questionnaire updated successfully!');
+    } catch (error) {
+      alert(`Failed to update questionnaire: ${(error as Error).message}`);
+    }
+  };
+
+  const renderPhase = (phase: QuestionnairePhase, title: string) => {
+    const phaseDrafts = drafts.filter(d => d.item.phase === phase);
+    return (
+      <div className="questionnaire-phase">
+        <h4>{title}</h4>
+        {phaseDrafts.length === 0 && <p className="generation-hint">No questions.</p>}
+        {phaseDrafts.map((draft, index) => (
+          <div key={draft.key} className="question-editor">
+            <div className="question-editor-row">
+              <span className="question-number">{index + 1}.</span>
+              <input
+                type="text"
+                value={draft.item.prompt}
+                onChange={(e) => updateDraft(draft.key, { prompt: e.target.value })}
+                className="setting-select"
+                placeholder="Question"
+              />
+              <select
+                value={draft.item.type}
+                onChange={(e) => {
+                  const type = e.target.value as QuestionnaireItemType;
+                  const optionsText = type === 'likert' && !draft.optionsText.trim()
+                    ? DEFAULT_LIKERT_LABELS.join('\n')
+                    : undefined;
+                  updateDraft(draft.key, { type }, optionsText);
+                }}
+                className="setting-select question-type"
+              >
+                {Object.entries(QUESTION_TYPE_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>{label}</option>
+                ))}
+              </select>
+            </div>
+            {draft.item.type !== 'text' && (
+              <textarea
+                value={draft.optionsText}
+                onChange={(e) => updateDraft(draft.key, {}, e.target.value)}
+                className="setting-select question-options"
+                rows={Math.min(7, Math.max(3, draft.optionsText.split('\n').length))}
+                placeholder={draft.item.type === 'likert' ? 'Scale labels, one per line, lowest first' : 'Options, one per line'}
+              />
+            )}
+            <div className="question-editor-row question-actions">
+              <label className="completion-toggle">
+                <input
+                  type="checkbox"
+                  checked={draft.item.required}
+                  onChange={(e) => updateDraft(draft.key, { required: e.target.checked })}
+                />
+                Required
+              </label>
+              <button type="button" onClick={() => moveQuestion(draft.key, -1)} title="Move up">↑</button>
+              <button type="button" onClick={() => moveQuestion(draft.key, 1)} title="Move down">↓</button>
+              <button type="button" onClick={() => removeQuestion(draft.key)} title="Remove question">✕</button>
+            </div>
+          </div>
+        ))}
+        <button type="button" className="btn-add-question" onClick={() => addQuestion(phase)}>
+          + Add question
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="config-section questionnaire-section">
+      <h3 className="section-title">📝 Questionnaires</h3>
+      {renderPhase('pre', 'Before the chat')}
+      {renderPhase('post', 'After the participant finishes')}
+      <p className="generation-hint">
+        Answers are linked to the participant's conversation and included in the conversation export.
+      </p>
+      <button type="button" className="btn-update-prompt" onClick={handleSave}>
+        💾 Update Questionnaires
+      </button>
+    </div>
+  );
+};
+
+const EMPTY_SCRIPT: ResponseScript = { turns: [], rules: [], fallback: '' };
+
+/**
+ * Pre-written replies for the scripted response modes: numbered turns ('script', and
+ * 'hybrid' where a turn can be left to the model) or keyword/regex rules ('rules'),
+ * plus the fallback reply. Saved with the model settings.
+ */
+const ResponseScriptEditor: React.FC<{
+  mode: ResponseMode;
+  script: ResponseScript;
+  onChange: (script: ResponseScript) => void;
+}> = ({ mode, script, onChange }) => {
+  const updateTurn = (index: number, turn: string | null) => {
+    onChange({ ...script, turns: script.turns.map((t, i) => (i === index ? turn : t)) });
+  };
+
+  const updateRule = (index: number, change: Partial<ScriptRule>) => {
+    onChange({ ...script, rules: script.rules.map((r, i) => (i === index ? { ...r, ...change } : r)) });
+  };
+
+  // Swap with the previous/next entry
+  const move = <T,>(list: T[], index: number, direction: -1 | 1): T[] => {
+    const target = index + direction;
+    if (target < 0 || target >= list.length) return list;
+    const next = [...list];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+  };
+
+  return (
+    <div className="questionnaire-phase response-script">
+      {mode === 'rules' ? (
+        <>
+          <h4>Rules (the first match replies)</h4>
+          {script.rules.length === 0 && <p className="generation-hint">No rules.</p>}
+          {script.rules.map((rule, index) => (
+            <div key={index} className="question-editor">
+              <div className="question-editor-row">
+                <span className="question-number">{index + 1}.</span>
+                <select
+                  value={rule.match}
+                  onChange={(e) => updateRule(index, { match: e.target.value as ScriptRule['match'] })}
+                  className="setting-select question-type"
+                >
+                  <option value="keyword">Contains keyword</option>
+                  <option value="regex">Matches regex</option>
+                </select>
+                <input
+                  type="text"
+                  value={rule.pattern}
+                  onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                  className="setting-select"
+                  placeholder={rule.match === 'keyword' ? 'price, cost, how much' : '^(hi|hello)\\b'}
+                />
+              </div>
+              <textarea
+                value={rule.reply}
+                onChange={(e) => updateRule(index, { reply: e.target.value })}
+                className="setting-select question-options"
+                rows={2}
+                placeholder="Reply"
+              />
+              <div className="question-editor-row question-actions">
+                <button type="button" onClick={() => onChange({ ...script, rules: move(script.rules, index, -1) })} title="Move up">↑</button>
+                <button type="button" onClick={() => onChange({ ...script, rules: move(script.rules, index, 1) })} title="Move down">↓</button>
+                <button
+                  type="button"
+                  onClick={() => onChange({ ...script, rules: script.rules.filter((_, i) => i !== index) })}
+                  title="Remove rule"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+          ))}
+          <button
+            type="button"
+            className="btn-add-question"
+            onClick={() => onChange({ ...script, rules: [...script.rules, { match: 'keyword', pattern: '', reply: '' }] })}
+          >
+            + Add rule
+          </button>
+        </>
+      ) : (
+        <>
+          <h4>Replies to the participant's messages, in order</h4>
+          {script.turns.length === 0 && <p className="generation-hint">No scripted turns.</p>}
+          {script.turns.map((turn, index) => (
+            <div key={index} className="question-editor">
+              <div className="question-editor-row">
+                <span className="question-number">{index + 1}.</span>
+                <textarea
+                  value={turn ?? ''}
+                  onChange={(e) => updateTurn(index, e.target.value)}
+                  className="setting-select question-options"
+                  rows={2}
+                  placeholder={turn === null ? 'The model replies to this message' : 'Reply'}
+                  disabled={turn === null}
+                />
+              </div>
+              <div className="question-editor-row question-actions">
+                {mode === 'hybrid' && (
+                  <label className="completion-toggle">
+                    <input
+                      type="checkbox"
+                      checked={turn === null}
+                      onChange={(e) => updateTurn(index, e.target.checked ? null : '')}
+                    />
+                    Model replies
+                  </label>
+                )}
+                <button type="button" onClick={() => onChange({ ...script, turns: move(script.turns, index, -1) })} title="Move up">↑</button>
+                <button type="button" onClick={() => onChange({ ...script, turns: move(script.turns, index, 1) })} title="Move down">↓</button>
+                <button
+                  type="button"
+                  onClick={() => onChange({ ...script, turns: script.turns.filter((_, i) => i !== index) })}
+                  title="Remove turn"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+          ))}
+          <button
+            type="button"
+            className="btn-add-question"
+            onClick={() => onChange({ ...script, turns: [...script.turns, ''] })}
+          >
+            + Add turn
+          </button>
+        </>
+      )}
+
+      {mode !== 'hybrid' && (
+        <div className="setting-group response-script-fallback">
+          <label>Fallback Reply</label>
+          <textarea
+            value={script.fallback}
+            onChange={(e) => onChange({ ...script, fallback: e.target.value })}
+            className="setting-textarea"
+            rows={2}
+            placeholder={mode === 'rules' ? 'Sent when no rule matches' : 'Sent once the scripted turns run out'}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
 interface ResearchPanelProps {
   tasks: Task[];
   onTasksChange: (tasks: Task[]) => void;
@@ -61,6 +1016,9 @@ const systemPromptRef = useRef<HTMLTextAreaElement>(null);
   };
   
   const currentSettings = editingSettings || (activeTask?.settings) || defaultSettings;
+  const openAIParams = isOpenAIModel(currentSettings.defaultModel || 'gpt-4o-2024-11-20');
+  const contextPolicy = currentSettings.contextPolicy || DEFAULT_MODEL_SETTINGS.contextPolicy;
+  const latencyMode = currentSettings.latencyMode || DEFAULT_MODEL_SETTINGS.latencyMode;
 
   // AI-SUGGESTION: Persist prompt drafts per-task so refreshes (or background updates) don't wipe in-progress edits.
   const getSystemPromptDraftStorageKey = (taskId: string) => `research_prompt_draft:${taskId}:system`;
@@ -88,7 +1046,7 @@ const systemPromptRef = useRef<HTMLTextAreaElement>(null);
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [activeTaskId]);
 
-  const handleSettingChange = (key: keyof AISettings, value: string | number | boolean) => {
+  const handleSettingChange = (key: keyof AISettings, value: string | number | boolean | null) => {
     if (!activeTask) return;
     
     // Update local editing state only (prevents re-render and focus loss)
@@ -190,14 +1148,39 @@ const systemPromptRef = useRef<HTMLTextAreaElement>(null);
       console.log('🔄 Updating model settings to backend...', {
         taskId: activeTask.id,
         taskName: activeTask.name,
-        defaultModel: currentSettings.defaultModel
+        defaultModel: currentSettings.defaultModel,
+        temperature: currentSettings.temperature,
+        maxTokens: currentSettings.maxTokens
       });
 
       const updatedSettings: AISettings = {
         systemPrompt: systemPromptDraft,
         taskPrompt: taskPromptDraft,
         defaultModel: currentSettings.defaultModel,
-        chatbotName: chatbotNameDraft
+        candidateModels: currentSettings.candidateModels?.map(c => ({ ...c, modelId: c.modelId.trim() })),
+        chatbotName: chatbotNameDraft,
+        temperature: currentSettings.temperature,
+        maxTokens: currentSettings.maxTokens,
+        topP: currentSettings.topP,
+        presencePenalty: currentSettings.presencePenalty,
+        frequencyPenalty: currentSettings.frequencyPenalty,
+        contextPolicy: currentSettings.contextPolicy,
+        contextLastN: currentSettings.contextLastN,
+        contextTokenBudget: currentSettings.contextTokenBudget,
+        contextSummaryModel: currentSettings.contextSummaryModel,
+        minUserTurns: currentSettings.minUserTurns,
+        maxUserTurns: currentSettings.maxUserTurns,
+        timeLimitMinutes: currentSettings.timeLimitMinutes,
+        endToken: currentSettings.endToken || null,
+        allowParticipantFinish: currentSettings.allowParticipantFinish,
+        responseMode: currentSettings.responseMode,
+        responseScript: currentSettings.responseScript,
+        latencyMode: currentSettings.latencyMode,
+        latencyFixedMs: currentSettings.latencyFixedMs,
+        latencyCharsPerSecond: currentSettings.latencyCharsPerSecond,
+        latencyMinMs: currentSettings.latencyMinMs,
+        latencyMaxMs: currentSettings.latencyMaxMs,
+        showTypingIndicator: currentSettings.showTypingIndicator
       };
 
       const updatedTask = await tasksAPI.update(activeTask.id, undefined, updatedSettings);
@@ -213,11 +1196,11 @@ const systemPromptRef = useRef<HTMLTextAreaElement>(null);
         localStorage.setItem(tasksCacheKey, JSON.stringify(updatedTasks));
         console.log('💾 Model updated in localStorage');
 
-        alert('✅ Model updated successfully!');
+        alert('✅ Model settings updated successfully!');
       }
     } catch (error) {
       console.error('❌ Failed to update model:', error);
-      alert('Failed to update model. Please try again.');
+      alert(`⚠️ ${(error as Error).message || 'Failed to update model. Please try again.'}`);
     }
   };
 
@@ -382,6 +1365,7 @@ const systemPromptRef = useRef<HTMLTextAreaElement>(null);
       </div>
 
       <div className="panel-content">
+        <StudyBudgetNotice />
         <div className="panel-layout">
           {/* LEFT PANEL - Tasks List */}
           <div className="left-panel">
@@ -440,6 +1424,11 @@ const systemPromptRef = useRef<HTMLTextAreaElement>(null);
             ))}
           </div>
             </div>
+
+            {tasks.length > 0 && <StudyAssignmentSection tasks={tasks} />}
+            <StudyCompletionSection />
+            <StudyConsentSection />
+            <StudyUsageSection />
           </div>
           
           {/* RIGHT PANEL - Task Configuration */}
@@ -453,6 +1442,8 @@ const systemPromptRef = useRef<HTMLTextAreaElement>(null);
           </div>
         )}
 
+        {tasks.some(t => t.settings.responseMode === 'wizard') && <WizardConsole />}
+
         {/* Task Name + Chatbot Name side by side */}
         {activeTask && (
           <div className="names-container">
@@ -591,15 +1582,325 @@ const systemPromptRef = useRef<HTMLTextAreaElement>(null);
                 </optgroup>
               </select>
             </div>
+            <CandidateModelsEditor
+              candidates={currentSettings.candidateModels ?? []}
+              defaultModel={currentSettings.defaultModel || 'gpt-4o-2024-11-20'}
+              onChange={(candidateModels) => setEditingSettings({ ...currentSettings, candidateModels })}
+            />
+            <div className="setting-group">
+              <label>Replies Written By</label>
+              <select
+                value={currentSettings.responseMode || 'model'}
+                onChange={(e) => handleSettingChange('responseMode', e.target.value)}
+                className="setting-select"
+              >
+                <option value="model">The AI model</option>
+                <option value="wizard">A researcher, live (Wizard-of-Oz)</option>
+                <option value="script">A fixed script, turn by turn</option>
+                <option value="rules">Scripted replies matched by keyword or regex</option>
+                <option value="hybrid">A script, with the model replying in between</option>
+              </select>
+            </div>
+            {currentSettings.responseMode === 'wizard' && (
+              <p className="generation-hint">
+                Participant messages wait in the Wizard-of-Oz console above, where you type the reply or
+                edit a draft from the model below. The completion rules still apply.
+              </p>
+            )}
+            {(currentSettings.responseMode === 'script' || currentSettings.responseMode === 'rules' || currentSettings.responseMode === 'hybrid') && (
+              <>
+                <p className="generation-hint">
+                  Every participant gets the same replies, and they are marked as scripted in the transcript.
+                  {currentSettings.responseMode === 'hybrid' && ' Messages past the last scripted turn go to the model.'}
+                  {' '}A reply containing the end token ends the conversation.
+                </p>
+                <ResponseScriptEditor
+                  mode={currentSettings.responseMode}
+                  script={currentSettings.responseScript ?? EMPTY_SCRIPT}
+                  onChange={(responseScript) => setEditingSettings({ ...currentSettings, responseScript })}
+                />
+              </>
+            )}
+            <div className="generation-params">
+              <div className="setting-group">
+                <label>Temperature</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={openAIParams ? 2 : 1}
+                  step={0.1}
+                  value={currentSettings.temperature ?? DEFAULT_MODEL_SETTINGS.temperature}
+                  onChange={(e) => handleSettingChange('temperature', e.target.valueAsNumber)}
+                  className="setting-select"
+                />
+              </div>
+              <div className="setting-group">
+                <label>Max Tokens</label>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={currentSettings.maxTokens ?? DEFAULT_MODEL_SETTINGS.maxTokens}
+                  onChange={(e) => handleSettingChange('maxTokens', e.target.valueAsNumber)}
+                  className="setting-select"
+                />
+              </div>
+              <div className="setting-group">
+                <label>Top P</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={currentSettings.topP ?? DEFAULT_MODEL_SETTINGS.topP}
+                  onChange={(e) => handleSettingChange('topP', e.target.valueAsNumber)}
+                  className="setting-select"
+                  disabled={!openAIParams}
+                />
+              </div>
+              <div className="setting-group">
+                <label>Presence Penalty</label>
+                <input
+                  type="number"
+                  min={-2}
+                  max={2}
+                  step={0.1}
+                  value={currentSettings.presencePenalty ?? DEFAULT_MODEL_SETTINGS.presencePenalty}
+                  onChange={(e) => handleSettingChange('presencePenalty', e.target.valueAsNumber)}
+                  className="setting-select"
+                  disabled={!openAIParams}
+                />
+              </div>
+              <div className="setting-group">
+                <label>Frequency Penalty</label>
+                <input
+                  type="number"
+                  min={-2}
+                  max={2}
+                  step={0.1}
+                  value={currentSettings.frequencyPenalty ?? DEFAULT_MODEL_SETTINGS.frequencyPenalty}
+                  onChange={(e) => handleSettingChange('frequencyPenalty', e.target.valueAsNumber)}
+                  className="setting-select"
+                  disabled={!openAIParams}
+                />
+              </div>
+            </div>
+            {!openAIParams && (
+              <p className="generation-hint">
+                Top P and penalties only apply to OpenAI models; temperature is capped at 1 for this provider.
+              </p>
+            )}
+            <div className="generation-params">
+              <div className="setting-group">
+                <label>Context Window</label>
+                <select
+                  value={contextPolicy}
+                  onChange={(e) => handleSettingChange('contextPolicy', e.target.value)}
+                  className="setting-select"
+                >
+                  <option value="full">Full history</option>
+                  <option value="last_n">Last N messages</option>
+                  <option value="token_budget">Token budget</option>
+                  <option value="summary">Summarize older messages</option>
+                </select>
+              </div>
+              {(contextPolicy === 'last_n' || contextPolicy === 'summary') && (
+                <div className="setting-group">
+                  <label>{contextPolicy === 'summary' ? 'Recent Messages Kept' : 'Messages Kept'}</label>
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={currentSettings.contextLastN ?? DEFAULT_MODEL_SETTINGS.contextLastN}
+                    onChange={(e) => handleSettingChange('contextLastN', e.target.valueAsNumber)}
+                    className="setting-select"
+                  />
+                </div>
+              )}
+              {contextPolicy === 'token_budget' && (
+                <div className="setting-group">
+                  <label>Token Budget</label>
+                  <input
+                    type="number"
+                    min={100}
+                    step={100}
+                    value={currentSettings.contextTokenBudget ?? DEFAULT_MODEL_SETTINGS.contextTokenBudget}
+                    onChange={(e) => handleSettingChange('contextTokenBudget', e.target.valueAsNumber)}
+                    className="setting-select"
+                  />
+                </div>
+              )}
+              {contextPolicy === 'summary' && (
+                <div className="setting-group">
+                  <label>Summary Model</label>
+                  <input
+                    type="text"
+                    value={currentSettings.contextSummaryModel ?? ''}
+                    onChange={(e) => handleSettingChange('contextSummaryModel', e.target.value)}
+                    className="setting-select"
+                    placeholder="Same as task model"
+                  />
+                </div>
+              )}
+            </div>
+            <p className="generation-hint">
+              Token budgets use an estimate of ~4 characters per token and include the system prompt.
+              Summaries are written by an extra model call as messages leave the window.
+            </p>
+            <div className="generation-params">
+              <div className="setting-group">
+                <label>Min Messages</label>
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={currentSettings.minUserTurns ?? 0}
+                  onChange={(e) => handleSettingChange('minUserTurns', optionalNumber(e.target) ?? 0)}
+                  className="setting-select"
+                />
+              </div>
+              <div className="setting-group">
+                <label>Max Messages</label>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={currentSettings.maxUserTurns ?? ''}
+                  onChange={(e) => handleSettingChange('maxUserTurns', optionalNumber(e.target))}
+                  className="setting-select"
+                  placeholder="No limit"
+                />
+              </div>
+              <div className="setting-group">
+                <label>Time Limit (min)</label>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={currentSettings.timeLimitMinutes ?? ''}
+                  onChange={(e) => handleSettingChange('timeLimitMinutes', optionalNumber(e.target))}
+                  className="setting-select"
+                  placeholder="No limit"
+                />
+              </div>
+              <div className="setting-group">
+                <label>End Token</label>
+                <input
+                  type="text"
+                  value={currentSettings.endToken ?? ''}
+                  onChange={(e) => handleSettingChange('endToken', e.target.value)}
+                  className="setting-select"
+                  placeholder="e.g. [END]"
+                />
+              </div>
+            </div>
+            <label className="completion-toggle">
+              <input
+                type="checkbox"
+                checked={currentSettings.allowParticipantFinish !== false}
+                onChange={(e) => handleSettingChange('allowParticipantFinish', e.target.checked)}
+              />
+              Show the Finish button to participants
+            </label>
+            <p className="generation-hint">
+              Messages count the participant's own messages; the time limit starts at their first message.
+              If the AI's reply contains the end token, it is removed and the conversation ends.
+            </p>
+            <div className="generation-params">
+              <div className="setting-group">
+                <label>Reply Delay</label>
+                <select
+                  value={latencyMode}
+                  onChange={(e) => handleSettingChange('latencyMode', e.target.value)}
+                  className="setting-select"
+                >
+                  <option value="none">None (as fast as possible)</option>
+                  <option value="fixed">Fixed delay</option>
+                  <option value="typing">Typing speed (by reply length)</option>
+                  <option value="jitter">Random within bounds</option>
+                </select>
+              </div>
+              {latencyMode === 'fixed' && (
+                <div className="setting-group">
+                  <label>Delay (ms)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={100}
+                    value={currentSettings.latencyFixedMs ?? DEFAULT_MODEL_SETTINGS.latencyFixedMs}
+                    onChange={(e) => handleSettingChange('latencyFixedMs', e.target.valueAsNumber)}
+                    className="setting-select"
+                  />
+                </div>
+              )}
+              {latencyMode === 'typing' && (
+                <div className="setting-group">
+                  <label>Characters per Second</label>
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={currentSettings.latencyCharsPerSecond ?? DEFAULT_MODEL_SETTINGS.latencyCharsPerSecond}
+                    onChange={(e) => handleSettingChange('latencyCharsPerSecond', e.target.valueAsNumber)}
+                    className="setting-select"
+                  />
+                </div>
+              )}
+              {latencyMode === 'jitter' && (
+                <>
+                  <div className="setting-group">
+                    <label>Min Delay (ms)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={100}
+                      value={currentSettings.latencyMinMs ?? DEFAULT_MODEL_SETTINGS.latencyMinMs}
+                      onChange={(e) => handleSettingChange('latencyMinMs', e.target.valueAsNumber)}
+                      className="setting-select"
+                    />
+                  </div>
+                  <div className="setting-group">
+                    <label>Max Delay (ms)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={100}
+                      value={currentSettings.latencyMaxMs ?? DEFAULT_MODEL_SETTINGS.latencyMaxMs}
+                      onChange={(e) => handleSettingChange('latencyMaxMs', e.target.valueAsNumber)}
+                      className="setting-select"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+            <label className="completion-toggle">
+              <input
+                type="checkbox"
+                checked={currentSettings.showTypingIndicator !== false}
+                onChange={(e) => handleSettingChange('showTypingIndicator', e.target.checked)}
+              />
+              Show the typing indicator while participants wait for a reply
+            </label>
+            <p className="generation-hint">
+              The delay counts from the participant's message, so time the model takes is part of it; a slower
+              reply is sent as soon as it is ready. Delayed replies appear all at once instead of streaming.
+              Wizard-of-Oz replies are never delayed. The model's time and the added delay are saved with each reply.
+            </p>
             <button
               type="button"
               className="btn-update-prompt"
               onClick={handleUpdate}
             >
-              💾 Update Model
+              💾 Update Model Settings
             </button>
           </div>
         )}
+
+        {activeTask && (activeTask.settings.candidateModels?.length ?? 0) > 0 && (
+          <TaskModelComparisonSection key={activeTask.id} taskId={activeTask.id} />
+        )}
+
+        {activeTask && <TaskQuestionnaireSection key={activeTask.id} taskId={activeTask.id} />}
             
             {!activeTask && tasks.length === 0 && (
               <div className="no-task-message">
@@ -0,0 +1,224 @@
+import React, { useEffect, useRef, useState } from 'react';
+import './WizardConsole.css';
+import {
+  wizardAPI,
+  conversationsAPI,
+  authService,
+  type Message,
+  type WizardConversation,
+  type WizardEvent
+} from '../services/api';
+import { useLiveEvents } from '../hooks/useLiveEvents';
+
+// Waiting conversations first (longest wait at the top), then the most recently active
+const sortConversations = (conversations: WizardConversation[]) =>
+  [...conversations].sort((a, b) => {
+    if (a.awaitingReplySince && b.awaitingReplySince) {
+      return a.awaitingReplySince.getTime() - b.awaitingReplySince.getTime();
+    }
+    if (a.awaitingReplySince || b.awaitingReplySince) {
+      return a.awaitingReplySince ? -1 : 1;
+    }
+    return b.lastMessageAt.getTime() - a.lastMessageAt.getTime();
+  });
+
+// Time waited as m:ss
+const formatWaiting = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Wizard-of-Oz console: open conversations under the study's Wizard-of-Oz tasks, updated
+ * live, and a reply box for the selected one (typed, or edited from a model draft)
+ */
+const WizardConsole: React.FC = () => {
+  const [conversations, setConversations] = useState<WizardConversation[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [transcript, setTranscript] = useState<Message[]>([]);
+  const [replyText, setReplyText] = useState('');
+  // The model draft the reply was started from, stored with the reply
+  const [draft, setDraft] = useState<string | null>(null);
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Ticks every second so waiting times stay current
+  const [now, setNow] = useState(() => Date.now());
+
+  const selected = conversations.find(c => c.id === selectedId) ?? null;
+  // Read by the event handler, which lives as long as the console
+  const selectedIdRef = useRef(selectedId);
+  selectedIdRef.current = selectedId;
+
+  const loadTranscript = async (conversationId: string) => {
+    const userId = authService.getUserId();
+    if (!userId) return;
+    const conversation = await conversationsAPI.getOne(userId, conversationId);
+    if (conversation) {
+      setTranscript(conversation.messages);
+    }
+  };
+
+  const handleEvent = (event: WizardEvent) => {
+    if (event.type === 'ended') {
+      setConversations(prev => prev.filter(c => c.id !== event.conversationId));
+      setSelectedId(prev => (prev === event.conversationId ? null : prev));
+      return;
+    }
+    const conversation = event.conversation;
+    if (!conversation) return;
+    setConversations(prev => sortConversations([...prev.filter(c => c.id !== conversation.id), conversation]));
+    if (selectedIdRef.current === conversation.id) {
+      loadTranscript(conversation.id);
+    }
+  };
+
+  // Follow console events, reloading the list after a dropped connection
+  useLiveEvents<WizardEvent>('wizard', wizardAPI.subscribe, handleEvent, async () => {
+    setConversations(sortConversations(await wizardAPI.getConversations()));
+  });
+
+  useEffect(() => {
+    if (!conversations.some(c => c.awaitingReplySince)) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [conversations]);
+
+  // A new conversation starts with an empty reply box
+  useEffect(() => {
+    setTranscript([]);
+    setReplyText('');
+    setDraft(null);
+    setError(null);
+    if (selectedId) loadTranscript(selectedId);
+  }, [selectedId]);
+
+  const handleDraft = async () => {
+    if (!selectedId) return;
+    setError(null);
+    setIsDrafting(true);
+    const result = await wizardAPI.draft(selectedId);
+    setIsDrafting(false);
+
+    if (!result.success || result.draft === undefined) {
+      setError(result.error || 'Failed to draft a reply');
+      return;
+    }
+    setReplyText(result.draft);
+    setDraft(result.draft);
+  };
+
+  const handleSend = async () => {
+    if (!selectedId || !replyText.trim()) return;
+    setError(null);
+    setIsSending(true);
+    const result = await wizardAPI.reply(selectedId, replyText, draft ?? undefined);
+    setIsSending(false);
+
+    if (!result.success || !result.message) {
+      setError(result.error || 'Failed to send the reply');
+      return;
+    }
+    setTranscript(prev => [...prev, result.message!]);
+    setReplyText('');
+    setDraft(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  const waitingCount = conversations.filter(c => c.awaitingReplySince).length;
+
+  return (
+    <div className="config-section wizard-console">
+      <h3 className="section-title">
+        🧙 Wizard-of-Oz Console
+        {waitingCount > 0 && <span className="wizard-waiting-badge">{waitingCount} waiting</span>}
+      </h3>
+
+      <div className="wizard-layout">
+        <div className="wizard-list">
+          {conversations.length === 0 && (
+            <p className="wizard-empty">No open conversations. Participants appear here when they start chatting.</p>
+          )}
+          {conversations.map(conversation => (
+            <button
+              type="button"
+              key={conversation.id}
+              className={`wizard-list-item${conversation.id === selectedId ? ' active' : ''}${conversation.awaitingReplySince ? ' waiting' : ''}`}
+              onClick={() => setSelectedId(conversation.id)}
+            >
+              <span className="wizard-list-title">
+                {conversation.participantExternalId || conversation.participantId?.slice(0, 8) || 'Anonymous'}
+                <span className="wizard-list-task">{conversation.taskName}</span>
+              </span>
+              <span className="wizard-list-preview">{conversation.lastMessage}</span>
+              {conversation.awaitingReplySince && (
+                <span className="wizard-list-waiting">
+                  ⏳ {formatWaiting(now - conversation.awaitingReplySince.getTime())}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+
+        <div className="wizard-chat">
+          {!selected ? (
+            <p className="wizard-empty">Select a conversation to reply.</p>
+          ) : (
+            <>
+              <div className="wizard-transcript">
+                {transcript.map(message => (
+                  <div key={message.id} className={`wizard-message ${message.sender}`}>
+                    {message.sender === 'ai' && message.author && (
+                      <span className="wizard-message-author">
+                        {message.author === 'researcher' ? '🧙 Researcher' : '🤖 Model'}
+                      </span>
+                    )}
+                    {message.text}
+                  </div>
+                ))}
+              </div>
+
+              {error && <p className="wizard-error">{error}</p>}
+
+              <textarea
+                value={replyText}
+                onChange={(e) => setReplyText(e.target.value)}
+                onKeyDown={handleKeyDown}
+                className="setting-textarea wizard-reply"
+                rows={4}
+                placeholder={selected.awaitingReplySince ? 'Type the reply... (Ctrl+Enter to send)' : 'Waiting for the participant...'}
+                disabled={!selected.awaitingReplySince || isSending}
+              />
+              <div className="wizard-actions">
+                <button
+                  type="button"
+                  className="wizard-draft-btn"
+                  onClick={handleDraft}
+                  disabled={!selected.awaitingReplySince || isDrafting || isSending}
+                >
+                  {isDrafting ? 'Drafting...' : '✨ Draft with model'}
+                </button>
+                <button
+                  type="button"
+                  className="btn-update-prompt"
+                  onClick={handleSend}
+                  disabled={!selected.awaitingReplySince || !replyText.trim() || isSending}
+                >
+                  {isSending ? 'Sending...' : '➤ Send reply'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WizardConsole;
@@ -0,0 +1,54 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Pause before reconnecting a dropped stream
+const RECONNECT_DELAY_MS = 3000;
+
+// A conversation is "live now" while it is unfinished and had a message this recently
+export const LIVE_NOW_WINDOW_MS = 5 * 60_000;
+
+export const isLiveNow = (lastMessageAt: Date, finishedAt: Date | null | undefined, now: number) =>
+  !finishedAt && now - lastMessageAt.getTime() < LIVE_NOW_WINDOW_MS;
+
+/**
+ * Follow a server-sent event stream, reconnecting whenever it drops.
+ *
+ * `connect` opens the stream and resolves once it closes; `onConnect` runs before each
+ * connection so the caller can reload whatever it missed while disconnected. Nothing is
+ * opened while `key` is null, and a new key reconnects. Returns whether the stream is open.
+ */
+export const useLiveEvents = <T>(
+  key: string | null,
+  connect: (onEvent: (event: T) => void, signal: AbortSignal) => Promise<void>,
+  onEvent: (event: T) => void,
+  onConnect?: () => Promise<void> | void
+): boolean => {
+  const [isConnected, setIsConnected] = useState(false);
+
+  // Latest callbacks, so re-rendering the caller doesn't reconnect
+  const callbacksRef = useRef({ connect, onEvent, onConnect });
+  callbacksRef.current = { connect, onEvent, onConnect };
+
+  useEffect(() => {
+    if (key === null) return;
+    const controller = new AbortController();
+
+    const listen = async () => {
+      while (!controller.signal.aborted) {
+        await callbacksRef.current.onConnect?.();
+        if (controller.signal.aborted) break;
+
+        setIsConnected(true);
+        await callbacksRef.current.connect(event => callbacksRef.current.onEvent(event), controller.signal);
+        setIsConnected(false);
+
+        if (!controller.signal.aborted) {
+          await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY_MS));
+        }
+      }
+    };
+    listen();
+    return () => controller.abort();
+  }, [key]);
+
+  return isConnected;
+};
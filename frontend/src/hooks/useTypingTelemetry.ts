@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, type ClipboardEvent, type KeyboardEvent } from 'react';
+import type { TypingTelemetry } from '../services/api';
+
+// Measurements for the message being composed
+interface Draft {
+  replyShownAt: number | null;
+  firstInputAt: number | null;
+  keystrokes: number;
+  deletions: number;
+  pastes: number;
+  pastedChars: number;
+  blurs: number;
+  hiddenMs: number;
+  hiddenSince: number | null;
+}
+
+const emptyDraft = (replyShownAt: number | null, hiddenSince: number | null): Draft => ({
+  replyShownAt,
+  firstInputAt: null,
+  keystrokes: 0,
+  deletions: 0,
+  pastes: 0,
+  pastedChars: 0,
+  blurs: 0,
+  hiddenMs: 0,
+  hiddenSince
+});
+
+// Keys that never change the text (modifiers, navigation, function keys) are not keystrokes
+const isTextKey = (e: KeyboardEvent) =>
+  e.key.length === 1 || e.key === 'Backspace' || e.key === 'Delete';
+
+/**
+ * Measures how the participant composes each message: keystrokes, deletions, pastes and
+ * time spent in another tab or window, plus how long after the reply appeared they started
+ * typing. Attach the handlers to the message input and call `take` when sending.
+ */
+export const useTypingTelemetry = () => {
+  const draftRef = useRef<Draft>(emptyDraft(null, null));
+
+  useEffect(() => {
+    const handleAway = () => {
+      const draft = draftRef.current;
+      if (draft.hiddenSince !== null) return;
+      draft.blurs += 1;
+      draft.hiddenSince = Date.now();
+    };
+    const handleBack = () => {
+      const draft = draftRef.current;
+      if (draft.hiddenSince === null) return;
+      draft.hiddenMs += Date.now() - draft.hiddenSince;
+      draft.hiddenSince = null;
+    };
+    const handleVisibility = () => (document.hidden ? handleAway() : handleBack());
+
+    window.addEventListener('blur', handleAway);
+    window.addEventListener('focus', handleBack);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      window.removeEventListener('blur', handleAway);
+      window.removeEventListener('focus', handleBack);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, []);
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (!isTextKey(e) || e.ctrlKey || e.metaKey) return;
+    const draft = draftRef.current;
+    draft.firstInputAt ??= Date.now();
+    draft.keystrokes += 1;
+    if (e.key === 'Backspace' || e.key === 'Delete') {
+      draft.deletions += 1;
+    }
+  };
+
+  const handlePaste = (e: ClipboardEvent) => {
+    const draft = draftRef.current;
+    draft.firstInputAt ??= Date.now();
+    draft.pastes += 1;
+    draft.pastedChars += e.clipboardData.getData('text').length;
+  };
+
+  /** The reply is on screen: time to the first keystroke counts from now (stable across renders) */
+  const markReplyShown = useCallback(() => {
+    draftRef.current.replyShownAt = Date.now();
+  }, []);
+
+  /** Telemetry for the message being sent; starts measuring the next one */
+  const take = (): TypingTelemetry => {
+    const draft = draftRef.current;
+    const now = Date.now();
+    draftRef.current = emptyDraft(null, draft.hiddenSince === null ? null : now);
+
+    return {
+      firstKeystrokeMs: draft.replyShownAt !== null && draft.firstInputAt !== null
+        ? Math.max(0, draft.firstInputAt - draft.replyShownAt)
+        : null,
+      composeMs: draft.firstInputAt !== null ? now - draft.firstInputAt : null,
+      keystrokes: draft.keystrokes,
+      deletions: draft.deletions,
+      pastes: draft.pastes,
+      pastedChars: draft.pastedChars,
+      blurs: draft.blurs,
+      hiddenMs: draft.hiddenMs + (draft.hiddenSince !== null ? now - draft.hiddenSince : 0)
+    };
+  };
+
+  return { handleKeyDown, handlePaste, markReplyShown, take };
+};
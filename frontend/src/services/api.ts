@@ -14,6 +14,70 @@ export interface Message {
   text: string;
   sender: 'user' | 'ai';
   timestamp: Date;
+  modelId?: string;      // AI messages: model that generated the reply
+  systemPrompt?: string; // AI messages: system prompt in effect for the reply
+  author?: MessageAuthor; // AI messages: the model, the task script, or a researcher in Wizard-of-Oz mode
+  modelDraft?: string;    // Wizard-of-Oz replies: the model draft the researcher edited
+  generationMs?: number;  // AI messages: time taken to produce the reply
+  delayMs?: number;       // AI messages: artificial delay added before it was released
+  contextPolicy?: string;     // AI messages: context window policy applied
+  context?: ContextMessage[]; // AI messages: exact message list sent to the model
+  telemetry?: MessageTelemetry; // Transcripts: how the message was typed, or the model's timing and tokens
+}
+
+// How the participant composed a message, sent with the chat turn (counts cover the time
+// since their previous message)
+export interface TypingTelemetry {
+  firstKeystrokeMs: number | null; // from the previous reply appearing to the first keystroke
+  composeMs: number | null;        // from the first keystroke to sending
+  keystrokes: number;
+  deletions: number;               // Backspace/Delete presses
+  pastes: number;
+  pastedChars: number;
+  blurs: number;                   // times the participant left the tab or window
+  hiddenMs: number;                // time spent away from it
+}
+
+// A stored message's telemetry: typing fields for participant messages, model fields
+// (time to first streamed token, token usage) for model replies
+export interface MessageTelemetry extends Partial<TypingTelemetry> {
+  typingStartedAt?: string | null;
+  firstTokenMs?: number | null;
+  promptTokens?: number | null;
+  completionTokens?: number | null;
+  totalTokens?: number | null;
+}
+
+// Who writes a task's replies: the model, a researcher live (Wizard-of-Oz), or the task's
+// response script (turn by turn, by keyword/regex rules, or interleaved with the model)
+export type ResponseMode = 'model' | 'wizard' | 'script' | 'rules' | 'hybrid';
+
+// How long replies are held back: not at all, a fixed time, the time it would take to type
+// them, or a random time within bounds (counted from the participant's message)
+export type LatencyMode = 'none' | 'fixed' | 'typing' | 'jitter';
+
+// Who wrote an AI message
+export type MessageAuthor = 'model' | 'researcher' | 'script';
+
+// A scripted reply to participant messages matching the pattern ('keyword': any of its
+// comma-separated words or phrases; 'regex': a regular expression; both ignore case)
+export interface ScriptRule {
+  match: 'keyword' | 'regex';
+  pattern: string;
+  reply: string;
+}
+
+// Pre-written replies for the scripted response modes
+export interface ResponseScript {
+  turns: (string | null)[]; // reply to the participant's Nth message; null leaves it to the model (hybrid)
+  rules: ScriptRule[];
+  fallback: string;         // when the script runs out or no rule matches
+}
+
+// One entry of the message list sent to the model
+export interface ContextMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
 }
 
 export interface AIModel {
@@ -25,13 +89,59 @@ export interface AIModel {
   icon?: string;
 }
 
+// A model a task's new conversations can be assigned, with its relative share
+export interface ModelCandidate {
+  modelId: string;
+  weight: number;
+}
+
+// How a task's conversations went under one model
+export interface ModelComparisonRow {
+  modelId: string;
+  conversations: number;
+  avgUserTurns: number;
+  avgReplyChars: number | null;
+  avgLatencyMs: number | null;
+}
+
 export interface AISettings {
   systemPrompt: string;
   taskPrompt: string;
   defaultModel?: string;
+  // A/B comparison: each new conversation gets one of these models by weight; empty for defaultModel only
+  candidateModels?: ModelCandidate[];
   chatbotName?: string;
+  // Generation parameters (topP and penalties only apply to OpenAI models)
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  // Context window: 'full' | 'last_n' | 'token_budget' | 'summary'
+  contextPolicy?: string;
+  contextLastN?: number;
+  contextTokenBudget?: number;
+  contextSummaryModel?: string;
+  // Completion rules; null limits are off
+  minUserTurns?: number;
+  maxUserTurns?: number | null;
+  timeLimitMinutes?: number | null;
+  endToken?: string | null;
+  allowParticipantFinish?: boolean;
+  responseMode?: ResponseMode;
+  responseScript?: ResponseScript;
+  // Reply latency manipulation
+  latencyMode?: LatencyMode;
+  latencyFixedMs?: number;
+  latencyCharsPerSecond?: number;
+  latencyMinMs?: number;
+  latencyMaxMs?: number;
+  showTypingIndicator?: boolean;
 }
 
+// Why a conversation ended
+export type EndReason = 'participant' | 'max_turns' | 'time_limit' | 'end_token';
+
 export interface Conversation {
   id: string;
   title: string;
@@ -40,8 +150,65 @@ export interface Conversation {
   messageCount?: number; // Total message count (used in history display)
   createdAt: Date;
   lastMessageAt: Date;
+  // Snapshot of the task the participant chatted under
+  taskId?: string;
+  modelId?: string;
+  systemPrompt?: string;
+  taskPrompt?: string;
+  // Participant who had the conversation (and their recruitment-platform ID, if any)
+  participantId?: string;
+  participantExternalId?: string;
+  // Recruitment-platform URL parameters captured when the conversation started
+  urlParams?: Record<string, string>;
+  finishedAt?: Date;
+  endReason?: EndReason;
+  // Pre- and post-chat questionnaire answers (only when fetched individually)
+  questionnaire?: QuestionnaireAnswer[];
+}
+
+// ── Live monitoring ──────────────────────────────────────────────────────────
+
+// A conversation as announced on the live channels
+export interface LiveConversation {
+  id: string;
+  userId: string;
+  title: string;
+  taskId: string | null;
+  taskName: string | null;
+  modelId: string | null;
+  participantId: string | null;
+  createdAt: Date;
+  lastMessageAt: Date;
 }
 
+// A stored message, without the model context (fetch the conversation for that)
+export type LiveMessage = Pick<Message, 'id' | 'text' | 'sender' | 'timestamp' | 'modelId' | 'author'>;
+
+// Event on the researcher's live channel (the admin channel carries every research group's)
+export type LiveEvent =
+  | { type: 'conversation-created'; conversation: LiveConversation }
+  | { type: 'message-added'; conversationId: string; userId: string; message: LiveMessage }
+  | { type: 'conversation-ended'; conversationId: string; userId: string; endReason: EndReason; finishedAt: Date };
+
+// Dates arrive as JSON strings
+const parseLiveEvent = (event: LiveEvent): LiveEvent => {
+  switch (event.type) {
+    case 'conversation-created':
+      return {
+        ...event,
+        conversation: {
+          ...event.conversation,
+          createdAt: new Date(event.conversation.createdAt),
+          lastMessageAt: new Date(event.conversation.lastMessageAt)
+        }
+      };
+    case 'message-added':
+      return { ...event, message: { ...event.message, timestamp: new Date(event.message.timestamp) } };
+    case 'conversation-ended':
+      return { ...event, finishedAt: new Date(event.finishedAt) };
+  }
+};
+
 // Auth token management
 export const authService = {
   getToken: (): string | null => {
@@ -74,6 +241,19 @@ export const authService = {
   }
 };
 
+// Study-session token from joining a study; the chat routes require it. Kept per tab,
+// like the admin token.
+export const studySessionService = {
+  getToken: (): string | null => sessionStorage.getItem('studySession'),
+  setToken: (token: string): void => { sessionStorage.setItem('studySession', token); },
+  clearToken: (): void => { sessionStorage.removeItem('studySession'); }
+};
+
+const studySessionHeaders = (): Record<string, string> => {
+  const token = studySessionService.getToken();
+  return token ? { 'X-Study-Session': token } : {};
+};
+
 // HTTP helper with auth
 async function fetchAPI(
   endpoint: string,
@@ -100,6 +280,42 @@ async function fetchAPI(
   return response;
 }
 
+// Read a text/event-stream response body, invoking onEvent for each JSON `data:` payload.
+// Used instead of EventSource because the chat stream is a POST with a JSON body.
+async function readEventStream<T>(
+  response: Response,
+  onEvent: (event: T) => void
+): Promise<void> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const data = rawEvent
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+
+      if (data) {
+        onEvent(JSON.parse(data) as T);
+      }
+    }
+  }
+}
+
 // Authentication API
 export const authAPI = {
   login: async (researchKey: string): Promise<{ success: boolean; token?: string; message: string }> => {
@@ -140,24 +356,63 @@ export const authAPI = {
   }
 };
 
+// Event sent by POST /chat/stream
+interface ChatStreamEvent {
+  chunk?: string;
+  done?: boolean;
+  response?: Message;
+  conversationEnded?: EndReason;
+  pending?: boolean;
+  error?: string;
+}
+
+// Result of a chat turn; `conversationEnded` is set when the turn ended the conversation.
+// `pending` means a researcher replies in Wizard-of-Oz mode (see chatAPI.subscribe).
+// `code` is set when the turn was refused, e.g. 'budget_exceeded' when the study's model
+// budget is used up, 'rate_limited' or 'study_session_required'; `error` is then a message
+// for the participant.
+export interface ChatResult {
+  success: boolean;
+  response?: Message;
+  conversationEnded?: EndReason;
+  pending?: boolean;
+  error?: string;
+  code?: string;
+}
+
+// Event on a conversation's live channel: a Wizard-of-Oz reply
+export interface ConversationEvent {
+  type: 'reply';
+  message: Message;
+  conversationEnded?: EndReason;
+}
+
+// Who is chatting, under which task; sent with every chat request
+export interface ChatTarget {
+  taskId: string;
+  participantId?: string;
+  urlParams?: Record<string, string>; // study page query string, stored with a new conversation
+}
+
 // Chat API
 export const chatAPI = {
+  /** Send a participant turn. The backend loads the prompt and model from the task,
+   *  rebuilds the history itself and stores both the turn and the reply. */
   sendMessage: async (
     message: string,
     conversationId: string,
-    aiModel: AIModel,
-    settings?: AISettings,
-    messageHistory?: Message[]
-  ): Promise<{ success: boolean; response?: Message; error?: string }> => {
+    target: ChatTarget,
+    telemetry?: TypingTelemetry
+  ): Promise<ChatResult> => {
     try {
       const response = await fetchAPI('/chat/message', {
         method: 'POST',
+        headers: studySessionHeaders(),
         body: JSON.stringify({
           message,
           conversationId,
-          aiModel,
-          settings,
-          messageHistory
+          ...target,
+          telemetry
         })
       });
 
@@ -176,6 +431,132 @@ export const chatAPI = {
         error: 'Failed to send message. Make sure backend is running.'
       };
     }
+  },
+
+  /** Stream the AI reply over SSE. `onChunk` receives each text delta as the model produces it;
+   *  the resolved value carries the complete message once the stream finishes.
+   *  Aborting `signal` closes the connection, which cancels the upstream model request. */
+  streamMessage: async (
+    message: string,
+    conversationId: string,
+    target: ChatTarget,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal,
+    telemetry?: TypingTelemetry
+  ): Promise<ChatResult> => {
+    try {
+      const response = await fetchAPI('/chat/stream', {
+        method: 'POST',
+        headers: { Accept: 'text/event-stream', ...studySessionHeaders() },
+        body: JSON.stringify({
+          message,
+          conversationId,
+          ...target,
+          telemetry
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        return {
+          success: false,
+          error: data?.error || `Stream request failed (${response.status})`,
+          code: data?.code
+        };
+      }
+
+      let result: ChatResult = {
+        success: false,
+        error: 'Stream ended unexpectedly'
+      };
+
+      await readEventStream<ChatStreamEvent>(response, event => {
+        if (event.chunk) {
+          onChunk(event.chunk);
+        }
+        if (event.done) {
+          result = event.pending
+            ? { success: true, pending: true }
+            : event.response
+            ? {
+                success: true,
+                response: { ...event.response, timestamp: new Date(event.response.timestamp) },
+                conversationEnded: event.conversationEnded
+              }
+            : { success: false, error: event.error || 'Failed to generate AI response' };
+        }
+      });
+
+      return result;
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        return { success: false, error: 'Request cancelled' };
+      }
+      console.error('Chat stream error:', error);
+      return {
+        success: false,
+        error: 'Failed to send message. Make sure backend is running.'
+      };
+    }
+  },
+
+  /** End the conversation; resolves with the study's completion code and/or return URL. */
+  finish: async (
+    conversationId: string,
+    target: ChatTarget
+  ): Promise<{ success: boolean; completion?: Completion; error?: string }> => {
+    try {
+      const response = await fetchAPI('/chat/finish', {
+        method: 'POST',
+        headers: studySessionHeaders(),
+        body: JSON.stringify({
+          conversationId,
+          taskId: target.taskId,
+          participantId: target.participantId
+        })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        console.log('🏁 Conversation finished:', data.completion);
+        return { success: true, completion: data.completion };
+      }
+      return { success: false, error: data.error || 'Failed to finish conversation' };
+    } catch (error) {
+      console.error('Finish conversation error:', error);
+      return {
+        success: false,
+        error: 'Failed to finish the conversation. Make sure backend is running.'
+      };
+    }
+  },
+
+  /** Listen for the conversation's live events (Wizard-of-Oz replies) until `signal` aborts.
+   *  Resolves when the connection closes; callers reconnect if they are still waiting. */
+  subscribe: async (
+    conversationId: string,
+    onEvent: (event: ConversationEvent) => void,
+    signal: AbortSignal
+  ): Promise<void> => {
+    try {
+      const response = await fetchAPI(`/chat/conversations/${conversationId}/events`, {
+        headers: { Accept: 'text/event-stream', ...studySessionHeaders() },
+        signal
+      });
+      if (!response.ok) {
+        console.error(`Conversation events failed (${response.status})`);
+        return;
+      }
+
+      await readEventStream<ConversationEvent>(response, event => {
+        onEvent({ ...event, message: { ...event.message, timestamp: new Date(event.message.timestamp) } });
+      });
+    } catch (error) {
+      if ((error as Error).name !== 'AbortError') {
+        console.error('Conversation events error:', error);
+      }
+    }
   }
 };
 
@@ -243,6 +624,7 @@ export const conversationsAPI = {
           ...conv,
           createdAt: new Date(conv.createdAt),
           lastMessageAt: new Date(conv.lastMessageAt),
+          finishedAt: conv.finishedAt ? new Date(conv.finishedAt) : undefined,
           messages: conv.messages.map((msg: any) => ({
             ...msg,
             timestamp: new Date(msg.timestamp)
@@ -267,6 +649,7 @@ export const conversationsAPI = {
           ...data.conversation,
           createdAt: new Date(data.conversation.createdAt),
           lastMessageAt: new Date(data.conversation.lastMessageAt),
+          finishedAt: data.conversation.finishedAt ? new Date(data.conversation.finishedAt) : undefined,
           messages: data.conversation.messages.map((msg: any) => ({
             ...msg,
             timestamp: new Date(msg.timestamp)
@@ -280,32 +663,38 @@ export const conversationsAPI = {
     }
   },
 
-  save: async (userId: string, conversation: Conversation): Promise<boolean> => {
+  delete: async (userId: string, conversationId: string): Promise<boolean> => {
     try {
-      const response = await fetchAPI(`/conversations/${userId}`, {
-        method: 'POST',
-        body: JSON.stringify(conversation)
+      const response = await fetchAPI(`/conversations/${userId}/${conversationId}`, {
+        method: 'DELETE'
       });
 
       const data = await response.json();
       return data.success;
     } catch (error) {
-      console.error('Save conversation error:', error);
+      console.error('Delete conversation error:', error);
       return false;
     }
   },
 
-  delete: async (userId: string, conversationId: string): Promise<boolean> => {
+  /** Follow the researcher's conversations live until `signal` aborts; resolves when the
+   *  connection closes. */
+  subscribe: async (userId: string, onEvent: (event: LiveEvent) => void, signal: AbortSignal): Promise<void> => {
     try {
-      const response = await fetchAPI(`/conversations/${userId}/${conversationId}`, {
-        method: 'DELETE'
+      const response = await fetchAPI(`/conversations/${userId}/events`, {
+        headers: { Accept: 'text/event-stream' },
+        signal
       });
+      if (!response.ok) {
+        console.error(`Live conversation events failed (${response.status})`);
+        return;
+      }
 
-      const data = await response.json();
-      return data.success;
+      await readEventStream<LiveEvent>(response, event => onEvent(parseLiveEvent(event)));
     } catch (error) {
-      console.error('Delete conversation error:', error);
-      return false;
+      if ((error as Error).name !== 'AbortError') {
+        console.error('Live conversation events error:', error);
+      }
     }
   }
 };
@@ -331,6 +720,26 @@ export interface Task {
   settings: AISettings;
 }
 
+// What the participant study page gets for each task (public route): display fields and the
+// limits ChatBox enforces, not the prompts, script, end token or manipulation settings
+export interface ParticipantTaskSettings {
+  taskPrompt: string;
+  chatbotName?: string;
+  minUserTurns?: number;
+  maxUserTurns?: number | null;
+  timeLimitMinutes?: number | null;
+  allowParticipantFinish?: boolean;
+  // The researcher types the replies (wizard-of-Oz)
+  wizardMode?: boolean;
+  showTypingIndicator?: boolean;
+}
+
+export interface ParticipantTask {
+  id: string;
+  name: string;
+  settings: ParticipantTaskSettings;
+}
+
 // Research Groups API (public — no auth required)
 export interface ResearchGroup {
   id: string;
@@ -354,7 +763,7 @@ export const groupsAPI = {
 
 // Tasks API
 export const tasksAPI = {
-  getByUserId: async (userId: string): Promise<Task[] | null> => {
+  getByUserId: async (userId: string): Promise<ParticipantTask[] | null> => {
     try {
       console.log('📡 Fetching tasks for study userId:', userId);
       const response = await fetchAPI(`/tasks/by-user/${encodeURIComponent(userId)}`);
@@ -446,11 +855,13 @@ export const tasksAPI = {
         console.log('✅ Task updated successfully:', data.data);
         return data.data;
       }
-      console.warn('⚠️ Failed to update task');
-      return null;
+      // Throw error with backend message (e.g. generation parameters out of range)
+      const errorMessage = data.message || 'Failed to update task';
+      console.warn('⚠️ Failed to update task:', errorMessage);
+      throw new Error(errorMessage);
     } catch (error) {
       console.error('❌ Update task error:', error);
-      return null;
+      throw new Error((error as Error).message || 'Failed to update task');
     }
   },
 
@@ -472,6 +883,517 @@ export const tasksAPI = {
       console.error('❌ Delete task error:', error);
       return false;
     }
+  },
+
+  // Per-model outcomes of the task's conversations (A/B comparison)
+  getModelComparison: async (id: string): Promise<ModelComparisonRow[] | null> => {
+    try {
+      const response = await fetchAPI(`/tasks/${id}/model-comparison`);
+      const data = await response.json();
+
+      if (data.success) {
+        return data.data;
+      }
+      return null;
+    } catch (error) {
+      console.error('Get model comparison error:', error);
+      return null;
+    }
+  }
+};
+
+// Studies API (condition assignment)
+export type AssignmentStrategy = 'random' | 'block' | 'least_filled' | 'weighted';
+
+export interface StudySettings {
+  assignmentStrategy: AssignmentStrategy;
+  blockRepeats: number;
+  captureParams: string[];        // URL query parameters stored with each conversation
+  completionCode: string | null;
+  completionUrl: string | null;   // {PARAM} placeholders are filled in by the server
+}
+
+// Shown (code) or followed (redirect) when a participant finishes
+export interface Completion {
+  code: string | null;
+  redirectUrl: string | null;
+}
+
+export interface AssignmentCell {
+  taskId: string;
+  taskName: string;
+  weight: number;
+  count: number;
+}
+
+export interface Assignment {
+  taskId: string;
+  strategy: AssignmentStrategy;
+  isNew: boolean;
+}
+
+export interface StudyParticipant {
+  id: string;
+  externalId: string | null;
+}
+
+// A published version of the study's consent document (markdown)
+export interface ConsentDocument {
+  id: string;
+  version: number;
+  title: string;
+  body: string;
+  createdAt: string;
+}
+
+export interface ConsentVersion extends ConsentDocument {
+  consentCount: number;
+}
+
+// Result of joining a study: either an assignment, or the consent document to agree to first
+export interface StudyJoin {
+  participant: StudyParticipant;
+  assignment: Assignment | null;
+  consent: ConsentDocument | null;
+  sessionToken: string | null;   // with an assignment; stored for the chat routes
+}
+
+export interface StudyOverview {
+  settings: StudySettings;
+  cells: AssignmentCell[];
+}
+
+// Model calls and tokens for one researcher, task, day or model
+export interface UsageRollup {
+  key: string;               // user ID, task ID, YYYY-MM-DD or model ID
+  label: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  avgLatencyMs: number | null;
+  costUsd: number;           // from the admin's price table; unpriced models add nothing
+  unpricedCalls: number;
+}
+
+// Model usage over the last `days` days (byResearcher is only filled for the admin)
+export interface UsageReport {
+  days: number;
+  totals: UsageRollup;
+  byResearcher: UsageRollup[];
+  byTask: UsageRollup[];
+  byDay: UsageRollup[];
+  byModel: UsageRollup[];
+}
+
+// Limits the admin sets for a research group; null means no limit
+export interface ResearchBudget {
+  monthlyTokenLimit: number | null;
+  monthlyCostLimitUsd: number | null;
+  conversationMessageCap: number | null; // participant messages per conversation
+  warningPercent: number;
+}
+
+// A group's budget and how much of it this calendar month has used
+export interface BudgetStatus {
+  budget: ResearchBudget;
+  tokensUsed: number;
+  costUsd: number;
+  tokenPercent: number | null;
+  costPercent: number | null;
+  level: 'ok' | 'warning' | 'exceeded';
+}
+
+export const studiesAPI = {
+  // Public: identify the participant and get the task the server assigned them
+  join: async (
+    userId: string,
+    deviceId: string,
+    externalId?: string
+  ): Promise<StudyJoin | null> => {
+    try {
+      const response = await fetchAPI(`/studies/${encodeURIComponent(userId)}/participants`, {
+        method: 'POST',
+        body: JSON.stringify({ deviceId, externalId })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        if (data.assignment) {
+          console.log(`🎲 Participant ${data.participant.id} assigned task ${data.assignment.taskId} (${data.assignment.strategy}${data.assignment.isNew ? ', new' : ''})`);
+        } else {
+          console.log(`📜 Participant ${data.participant.id} must consent (version ${data.consent?.version})`);
+        }
+        if (data.sessionToken) {
+          studySessionService.setToken(data.sessionToken);
+        }
+        return {
+          participant: data.participant,
+          assignment: data.assignment,
+          consent: data.consent,
+          sessionToken: data.sessionToken
+        };
+      }
+      console.warn('⚠️ Failed to join study:', data.error);
+      return null;
+    } catch (error) {
+      console.error('❌ Join study error:', error);
+      return null;
+    }
+  },
+
+  // Public: record the participant's agreement to the consent document version they were shown
+  giveConsent: async (
+    userId: string,
+    participantId: string,
+    documentId: string,
+    deviceId: string
+  ): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const response = await fetchAPI(
+        `/studies/${encodeURIComponent(userId)}/participants/${participantId}/consent`,
+        {
+          method: 'POST',
+          body: JSON.stringify({ documentId, deviceId })
+        }
+      );
+      const data = await response.json();
+
+      if (data.success) {
+        console.log(`✍️ Consent recorded (version ${data.consent.version})`);
+        return { success: true };
+      }
+      return { success: false, error: data.error || 'Failed to record consent' };
+    } catch (error) {
+      console.error('❌ Give consent error:', error);
+      return { success: false, error: 'Failed to record consent. Please try again.' };
+    }
+  },
+
+  getConsentVersions: async (): Promise<ConsentVersion[] | null> => {
+    try {
+      const response = await fetchAPI('/studies/consent');
+      const data = await response.json();
+
+      if (data.success) {
+        return data.versions;
+      }
+      return null;
+    } catch (error) {
+      console.error('❌ Get consent documents error:', error);
+      return null;
+    }
+  },
+
+  // Publishes a new version; earlier versions and their consents are kept
+  publishConsent: async (title: string, body: string): Promise<ConsentVersion[]> => {
+    try {
+      const response = await fetchAPI('/studies/consent', {
+        method: 'POST',
+        body: JSON.stringify({ title, body })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        console.log(`✅ Consent document version ${data.document.version} published`);
+        return data.versions;
+      }
+      throw new Error(data.error || 'Failed to publish consent document');
+    } catch (error) {
+      console.error('❌ Publish consent document error:', error);
+      throw new Error((error as Error).message || 'Failed to publish consent document');
+    }
+  },
+
+  getSettings: async (): Promise<StudyOverview | null> => {
+    try {
+      const response = await fetchAPI('/studies/settings');
+      const data = await response.json();
+
+      if (data.success) {
+        return { settings: data.settings, cells: data.cells };
+      }
+      return null;
+    } catch (error) {
+      console.error('❌ Get study settings error:', error);
+      return null;
+    }
+  },
+
+  getUsage: async (days: number): Promise<UsageReport | null> => {
+    try {
+      const response = await fetchAPI(`/studies/usage?days=${days}`);
+      const data = await response.json();
+
+      if (data.success) {
+        return data.usage;
+      }
+      return null;
+    } catch (error) {
+      console.error('❌ Get usage error:', error);
+      return null;
+    }
+  },
+
+  getBudget: async (): Promise<BudgetStatus | null> => {
+    try {
+      const response = await fetchAPI('/studies/budget');
+      const data = await response.json();
+
+      if (data.success) {
+        return data.budget;
+      }
+      return null;
+    } catch (error) {
+      console.error('❌ Get budget error:', error);
+      return null;
+    }
+  },
+
+  // Fields left out keep their current value
+  updateSettings: async (settings: Partial<StudySettings>, weights?: Record<string, number>): Promise<StudyOverview> => {
+    try {
+      const response = await fetchAPI('/studies/settings', {
+        method: 'PUT',
+        body: JSON.stringify({ ...settings, weights })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        console.log('✅ Study settings updated:', data.settings);
+        return { settings: data.settings, cells: data.cells };
+      }
+      throw new Error(data.error || 'Failed to update study settings');
+    } catch (error) {
+      console.error('❌ Update study settings error:', error);
+      throw new Error((error as Error).message || 'Failed to update study settings');
+    }
+  }
+};
+
+// ── Questionnaires ───────────────────────────────────────────────────────────
+
+export type QuestionnairePhase = 'pre' | 'post';
+
+export type QuestionnaireItemType = 'likert' | 'choice' | 'text';
+
+export interface QuestionnaireItem {
+  id?: string;              // assigned by the server on save
+  phase: QuestionnairePhase;
+  type: QuestionnaireItemType;
+  prompt: string;
+  options: string[];        // likert: scale labels, lowest first; choice: the choices
+  required: boolean;
+}
+
+export interface QuestionnaireAnswer {
+  itemId: string;
+  phase: QuestionnairePhase;
+  type: QuestionnaireItemType;
+  prompt: string;
+  answer: string | null;    // likert: scale point ("1" = first label); choice: option text
+  submittedAt: string;
+}
+
+export interface ParticipantQuestionnaires {
+  pre: { items: QuestionnaireItem[]; completed: boolean };
+  // conversationId: the participant's finished conversation awaiting the post questionnaire
+  post: { items: QuestionnaireItem[]; completed: boolean; conversationId: string | null };
+}
+
+export const questionnairesAPI = {
+  getItems: async (taskId: string): Promise<QuestionnaireItem[] | null> => {
+    try {
+      const response = await fetchAPI(`/questionnaires/tasks/${taskId}`);
+      const data = await response.json();
+
+      if (data.success) {
+        return data.items;
+      }
+      return null;
+    } catch (error) {
+      console.error('❌ Get questionnaire error:', error);
+      return null;
+    }
+  },
+
+  // Replaces both phases of the task's questionnaire
+  saveItems: async (taskId: string, items: QuestionnaireItem[]): Promise<QuestionnaireItem[]> => {
+    try {
+      const response = await fetchAPI(`/questionnaires/tasks/${taskId}`, {
+        method: 'PUT',
+        body: JSON.stringify({ items })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        console.log(`✅ Questionnaire saved (${data.items.length} items)`);
+        return data.items;
+      }
+      throw new Error(data.error || 'Failed to save questionnaire');
+    } catch (error) {
+      console.error('❌ Save questionnaire error:', error);
+      throw new Error((error as Error).message || 'Failed to save questionnaire');
+    }
+  },
+
+  // Study page: the questionnaires shown to the participant of the study session
+  getForParticipant: async (taskId: string): Promise<ParticipantQuestionnaires | null> => {
+    try {
+      const response = await fetchAPI(`/questionnaires/tasks/${taskId}/participant`, {
+        headers: studySessionHeaders()
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        return data.questionnaires;
+      }
+      console.warn('⚠️ Failed to load questionnaires:', data.error);
+      return null;
+    } catch (error) {
+      console.error('❌ Get participant questionnaires error:', error);
+      return null;
+    }
+  },
+
+  // Study page: submit the session participant's answers ({ [itemId]: value }); the post
+  // questionnaire resolves with the study's completion
+  submit: async (
+    taskId: string,
+    submission: {
+      phase: QuestionnairePhase;
+      conversationId?: string;
+      answers: Record<string, string>;
+    }
+  ): Promise<{ success: boolean; completion?: Completion; error?: string }> => {
+    try {
+      const response = await fetchAPI(`/questionnaires/tasks/${taskId}/responses`, {
+        method: 'POST',
+        headers: studySessionHeaders(),
+        body: JSON.stringify(submission)
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        console.log(`📝 ${submission.phase} questionnaire submitted`);
+        return { success: true, completion: data.completion };
+      }
+      return { success: false, error: data.error || 'Failed to submit answers' };
+    } catch (error) {
+      console.error('❌ Submit questionnaire error:', error);
+      return { success: false, error: 'Failed to submit answers. Please try again.' };
+    }
+  }
+};
+
+// ── Wizard-of-Oz console ─────────────────────────────────────────────────────
+
+// An open conversation under a Wizard-of-Oz task
+export interface WizardConversation {
+  id: string;
+  taskId: string;
+  taskName: string;
+  participantId: string | null;
+  participantExternalId: string | null;
+  awaitingReplySince: Date | null; // the participant's message is waiting for a reply
+  lastMessage: string | null;
+  lastMessageAt: Date;
+  messageCount: number;
+}
+
+// Event on the researcher's console channel
+export type WizardEvent =
+  | { type: 'waiting' | 'replied'; conversation: WizardConversation | null }
+  | { type: 'ended'; conversationId: string };
+
+// Dates arrive as JSON strings
+const parseWizardConversation = (conversation: WizardConversation): WizardConversation => ({
+  ...conversation,
+  awaitingReplySince: conversation.awaitingReplySince ? new Date(conversation.awaitingReplySince) : null,
+  lastMessageAt: new Date(conversation.lastMessageAt)
+});
+
+export const wizardAPI = {
+  getConversations: async (): Promise<WizardConversation[]> => {
+    try {
+      const response = await fetchAPI('/wizard/conversations');
+      const data = await response.json();
+
+      if (data.success) {
+        return data.conversations.map(parseWizardConversation);
+      }
+      return [];
+    } catch (error) {
+      console.error('❌ Get wizard conversations error:', error);
+      return [];
+    }
+  },
+
+  /** Listen for console events until `signal` aborts; resolves when the connection closes. */
+  subscribe: async (onEvent: (event: WizardEvent) => void, signal: AbortSignal): Promise<void> => {
+    try {
+      const response = await fetchAPI('/wizard/events', {
+        headers: { Accept: 'text/event-stream' },
+        signal
+      });
+      if (!response.ok) {
+        console.error(`Wizard events failed (${response.status})`);
+        return;
+      }
+
+      await readEventStream<WizardEvent>(response, event => {
+        onEvent(event.type === 'ended' || !event.conversation
+          ? event
+          : { ...event, conversation: parseWizardConversation(event.conversation) });
+      });
+    } catch (error) {
+      if ((error as Error).name !== 'AbortError') {
+        console.error('❌ Wizard events error:', error);
+      }
+    }
+  },
+
+  // Model draft of a reply to the waiting message, for the researcher to edit
+  draft: async (conversationId: string): Promise<{ success: boolean; draft?: string; error?: string }> => {
+    try {
+      const response = await fetchAPI(`/wizard/conversations/${conversationId}/draft`, { method: 'POST' });
+      const data = await response.json();
+
+      if (data.success) {
+        return { success: true, draft: data.draft };
+      }
+      return { success: false, error: data.error || 'Failed to draft a reply' };
+    } catch (error) {
+      console.error('❌ Draft reply error:', error);
+      return { success: false, error: 'Failed to draft a reply. Make sure backend is running.' };
+    }
+  },
+
+  // Send the researcher's reply to the participant (with the model draft it was edited from, if any)
+  reply: async (
+    conversationId: string,
+    text: string,
+    draft?: string
+  ): Promise<{ success: boolean; message?: Message; conversationEnded?: EndReason; error?: string }> => {
+    try {
+      const response = await fetchAPI(`/wizard/conversations/${conversationId}/reply`, {
+        method: 'POST',
+        body: JSON.stringify({ text, draft })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        console.log('🧙 Reply sent');
+        return {
+          success: true,
+          message: { ...data.message, timestamp: new Date(data.message.timestamp) },
+          conversationEnded: data.conversationEnded
+        };
+      }
+      return { success: false, error: data.error || 'Failed to send the reply' };
+    } catch (error) {
+      console.error('❌ Send reply error:', error);
+      return { success: false, error: 'Failed to send the reply. Make sure backend is running.' };
+    }
   }
 };
 
@@ -487,6 +1409,7 @@ export interface AdminUser {
   taskCount: number;
   conversationCount: number;
   messageCount: number;
+  consentCount: number;
 }
 
 export interface AdminConversation {
@@ -494,8 +1417,10 @@ export interface AdminConversation {
   title: string;
   aiModelName: string | null;
   aiModelPersonality: string | null;
+  modelId: string | null;
   createdAt: string;
   lastMessageAt: string;
+  finishedAt: string | null;
   userId: string;
   username: string;
   messageCount: number;
@@ -506,6 +1431,49 @@ export interface AdminMessage {
   text: string;
   sender: 'user' | 'ai';
   timestamp: string;
+  modelId: string | null;
+  systemPrompt: string | null;
+  author: MessageAuthor | null;
+  contextPolicy: string | null;
+  context: ContextMessage[] | null;
+}
+
+export interface AdminConversationSnapshot {
+  taskId: string | null;
+  modelId: string | null;
+  systemPrompt: string | null;
+  taskPrompt: string | null;
+}
+
+// Model price in USD per million tokens
+export interface ModelPrice {
+  modelId: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// Sampling parameters a model may accept, by their request field names
+export type SamplingParam = 'temperature' | 'top_p' | 'presence_penalty' | 'frequency_penalty';
+
+export const SAMPLING_PARAMS: SamplingParam[] = ['temperature', 'top_p', 'presence_penalty', 'frequency_penalty'];
+
+// A model capability registry entry; a modelId containing * is a pattern (e.g. 'gpt-*')
+export interface ModelCapabilities {
+  modelId: string;
+  name: string;
+  provider: string;
+  description: string;
+  supportsSystemRole: boolean;
+  samplingParams: SamplingParam[];
+  maxTemperature: number;
+  contextWindow: number | null;
+  maxOutputTokens: number | null;
+  supportsImages: boolean;
+}
+
+export interface AdminConversationMessages {
+  conversation: AdminConversationSnapshot | null;
+  messages: AdminMessage[];
 }
 
 // Admin token stored in sessionStorage — survives page refresh within the same
@@ -570,13 +1538,36 @@ export const adminAPI = {
     }
   },
 
-  getMessages: async (conversationId: string): Promise<AdminMessage[]> => {
+  getMessages: async (conversationId: string): Promise<AdminConversationMessages> => {
     try {
       const response = await fetchAdmin(`/conversations/${encodeURIComponent(conversationId)}/messages`);
       const data = await response.json();
-      return data.success ? data.data : [];
+      return data.success
+        ? { conversation: data.conversation, messages: data.data }
+        : { conversation: null, messages: [] };
     } catch {
-      return [];
+      return { conversation: null, messages: [] };
+    }
+  },
+
+  /** Follow every research group's conversations live until `signal` aborts; resolves when
+   *  the connection closes. */
+  subscribe: async (onEvent: (event: LiveEvent) => void, signal: AbortSignal): Promise<void> => {
+    try {
+      const response = await fetchAdmin('/events', {
+        headers: { Accept: 'text/event-stream' },
+        signal
+      });
+      if (!response.ok) {
+        console.error(`Admin live events failed (${response.status})`);
+        return;
+      }
+
+      await readEventStream<LiveEvent>(response, event => onEvent(parseLiveEvent(event)));
+    } catch (error) {
+      if ((error as Error).name !== 'AbortError') {
+        console.error('Admin live events error:', error);
+      }
     }
   },
 
@@ -619,6 +1610,92 @@ export const adminAPI = {
     } catch {
       return { success: false, message: 'Failed to connect to backend' };
     }
+  },
+
+  getUsage: async (days: number): Promise<UsageReport | null> => {
+    try {
+      const response = await fetchAdmin(`/usage?days=${days}`);
+      const data = await response.json();
+      return data.success ? data.data : null;
+    } catch {
+      return null;
+    }
+  },
+
+  getPrices: async (): Promise<ModelPrice[]> => {
+    try {
+      const response = await fetchAdmin('/prices');
+      const data = await response.json();
+      return data.success ? data.data : [];
+    } catch {
+      return [];
+    }
+  },
+
+  // Replaces the whole price table
+  updatePrices: async (
+    prices: ModelPrice[]
+  ): Promise<{ success: boolean; data?: ModelPrice[]; message?: string }> => {
+    try {
+      const response = await fetchAdmin('/prices', {
+        method: 'PUT',
+        body: JSON.stringify({ prices })
+      });
+      return await response.json();
+    } catch {
+      return { success: false, message: 'Failed to connect to backend' };
+    }
+  },
+
+  getModelRegistry: async (): Promise<ModelCapabilities[]> => {
+    try {
+      const response = await fetchAdmin('/models');
+      const data = await response.json();
+      return data.success ? data.data : [];
+    } catch {
+      return [];
+    }
+  },
+
+  // Replaces the whole registry
+  updateModelRegistry: async (
+    models: ModelCapabilities[]
+  ): Promise<{ success: boolean; data?: ModelCapabilities[]; message?: string }> => {
+    try {
+      const response = await fetchAdmin('/models', {
+        method: 'PUT',
+        body: JSON.stringify({ models })
+      });
+      return await response.json();
+    } catch {
+      return { success: false, message: 'Failed to connect to backend' };
+    }
+  },
+
+  // Budget status for every research group, by user ID
+  getBudgets: async (): Promise<Record<string, BudgetStatus>> => {
+    try {
+      const response = await fetchAdmin('/budgets');
+      const data = await response.json();
+      return data.success ? data.data : {};
+    } catch {
+      return {};
+    }
+  },
+
+  updateBudget: async (
+    userId: string,
+    budget: ResearchBudget
+  ): Promise<{ success: boolean; data?: BudgetStatus; message?: string }> => {
+    try {
+      const response = await fetchAdmin(`/users/${encodeURIComponent(userId)}/budget`, {
+        method: 'PUT',
+        body: JSON.stringify(budget)
+      });
+      return await response.json();
+    } catch {
+      return { success: false, message: 'Failed to connect to backend' };
+    }
   }
 };
 
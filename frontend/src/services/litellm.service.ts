@@ -19,7 +19,8 @@ async function fetchAPI(endpoint: string, options: RequestInit = {}): Promise<Re
     },
   };
 
-  const token = localStorage.getItem('authToken');
+  // The config and connection test are admin-only; the model list is public
+  const token = sessionStorage.getItem('adminToken') || localStorage.getItem('authToken');
   if (token) {
     defaultOptions.headers = {
       ...defaultOptions.headers,